@@ -32,6 +32,23 @@ export default [
         },
     },
 
+    // Jest globals in test files
+    {
+        files: ['**/*.test.ts'],
+        languageOptions: {
+            globals: {
+                describe: 'readonly',
+                it: 'readonly',
+                expect: 'readonly',
+                jest: 'readonly',
+                beforeAll: 'readonly',
+                beforeEach: 'readonly',
+                afterAll: 'readonly',
+                afterEach: 'readonly',
+            },
+        },
+    },
+
     // Ignore patterns
     {
         ignores: ['dist/', 'node_modules/', '*.js'],
@@ -0,0 +1,97 @@
+import { Types } from 'mongoose';
+import * as express from 'express';
+import { App } from './models/app-models';
+import { Wallet } from './models/wallet-models';
+import jwtSigningService from './services/jwt-signing-service';
+import { MFA_PENDING_SCOPE } from './services/mfa-service';
+import { OPENID_SCOPE } from './services/oidc-service';
+import { expressAuthentication } from './authentication';
+
+const WALLET = {
+    _id: new Types.ObjectId(),
+    appId: 'a'.repeat(64),
+    address: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+    network: 'evm',
+    isActive: true,
+};
+
+function bearerRequest(): express.Request {
+    return {
+        headers: { authorization: 'Bearer token' },
+        query: {},
+        body: {},
+    } as never;
+}
+
+describe('expressAuthentication bearer scopes', () => {
+    let scope: string | undefined;
+
+    beforeEach(() => {
+        scope = undefined;
+        jest.spyOn(jwtSigningService, 'verify').mockImplementation(
+            async () => ({
+                sub: WALLET._id.toString(),
+                aud: WALLET.appId,
+                address: WALLET.address,
+                scope,
+            }),
+        );
+        jest.spyOn(App, 'exists').mockResolvedValue({
+            _id: new Types.ObjectId(),
+        } as never);
+        jest.spyOn(Wallet, 'findOne').mockReturnValue({
+            select: () => ({ lean: async () => WALLET }),
+        } as never);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('admits a full token to an ordinary route', async () => {
+        await expect(
+            expressAuthentication(bearerRequest(), 'bearer'),
+        ).resolves.toMatchObject({
+            wallet: { address: WALLET.address, accountIndex: 0 },
+        });
+    });
+
+    it('keeps a token awaiting the second factor off ordinary routes', async () => {
+        scope = MFA_PENDING_SCOPE;
+
+        await expect(
+            expressAuthentication(bearerRequest(), 'bearer'),
+        ).rejects.toMatchObject({ statusCode: 403, code: 'MFA_REQUIRED' });
+        expect(Wallet.findOne).not.toHaveBeenCalled();
+    });
+
+    it('lets a token awaiting the second factor reach the MFA routes', async () => {
+        scope = MFA_PENDING_SCOPE;
+
+        await expect(
+            expressAuthentication(bearerRequest(), 'bearer', [
+                MFA_PENDING_SCOPE,
+            ]),
+        ).resolves.toMatchObject({ wallet: { scope: MFA_PENDING_SCOPE } });
+    });
+
+    it('keeps third-party client tokens on the OIDC routes', async () => {
+        scope = `${OPENID_SCOPE} profile`;
+
+        await expect(
+            expressAuthentication(bearerRequest(), 'bearer'),
+        ).rejects.toMatchObject({ code: 'INSUFFICIENT_SCOPE' });
+        await expect(
+            expressAuthentication(bearerRequest(), 'bearer', [OPENID_SCOPE]),
+        ).resolves.toMatchObject({ wallet: { address: WALLET.address } });
+    });
+
+    it('rejects a token for another app', async () => {
+        const request = bearerRequest();
+        request.headers['x-app-id'] = 'b'.repeat(64);
+
+        await expect(
+            expressAuthentication(request, 'bearer'),
+        ).rejects.toMatchObject({ code: 'APP_MISMATCH' });
+    });
+});
@@ -1,10 +1,19 @@
 // src/authentication.ts
 import * as express from 'express';
-import { verifyJWT } from './utils/auth';
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { decodeJWT, verifyJWT } from './utils/auth';
 import { JwtPayload } from './types';
-import { App } from './models/app-models';
+import { admin_config } from './config';
+import { App, INACTIVE_APP_STATUSES } from './models/app-models';
 import { Wallet } from './models/wallet-models';
 import { ApiError } from './utils/ApiError';
+import walletAccountService from './services/wallet-account-service';
+import sessionService from './services/session-service';
+import { MFA_PENDING_SCOPE } from './services/mfa-service';
+import { OPENID_SCOPE } from './services/oidc-service';
+import developerService, { DeveloperError } from './services/developer-service';
+import apiKeyService, { ApiKeyError } from './services/api-key-service';
 
 export async function expressAuthentication(
     request: express.Request,
@@ -20,31 +29,117 @@ export async function expressAuthentication(
 
         let decoded: JwtPayload;
         try {
-            decoded = verifyJWT(token);
+            decoded = await verifyJWT(token);
         } catch (error: any) {
-            if (error.name === 'TokenExpiredError') {
+            if (error.code === 'TOKEN_EXPIRED') {
                 throw new ApiError(401, 'TOKEN_EXPIRED', 'Token has expired');
             }
-            if (error.name === 'JsonWebTokenError') {
+            if (error.code === 'INVALID_TOKEN') {
                 throw new ApiError(401, 'INVALID_TOKEN', 'Invalid token');
             }
             throw new ApiError(401, 'AUTH_ERROR', 'Authentication failed');
         }
 
+        if (
+            typeof decoded.sub !== 'string' ||
+            !Types.ObjectId.isValid(decoded.sub) ||
+            typeof decoded.aud !== 'string'
+        ) {
+            throw new ApiError(401, 'INVALID_TOKEN', 'Invalid token');
+        }
+
+        // A token only works for the app it was issued for
+        const requestedAppId = getRequestAppId(request);
+        if (requestedAppId && requestedAppId !== decoded.aud) {
+            throw new ApiError(
+                401,
+                'APP_MISMATCH',
+                'Token was not issued for this app',
+            );
+        }
+
+        // Tokens awaiting the second factor only reach routes that accept them
+        if (
+            decoded.scope === MFA_PENDING_SCOPE &&
+            !scopes?.includes(MFA_PENDING_SCOPE)
+        ) {
+            throw new ApiError(
+                403,
+                'MFA_REQUIRED',
+                'Complete the second factor at POST /auth/mfa/verify',
+            );
+        }
+
+        // Tokens issued to third-party clients only reach the OIDC routes
+        if (
+            decoded.scope?.split(' ').includes(OPENID_SCOPE) &&
+            !scopes?.includes(OPENID_SCOPE)
+        ) {
+            throw new ApiError(
+                403,
+                'INSUFFICIENT_SCOPE',
+                'Token was issued to a third-party client',
+            );
+        }
+
+        if (
+            decoded.sid &&
+            !(await sessionService.isSessionActive(decoded.sid))
+        ) {
+            throw new ApiError(
+                401,
+                'SESSION_REVOKED',
+                'Session has been revoked or has expired',
+            );
+        }
+
+        // Covers tokens without a session, which suspension can't revoke
+        const appActive = await App.exists({
+            appId: decoded.aud,
+            status: { $nin: INACTIVE_APP_STATUSES },
+        });
+        if (!appActive) {
+            throw new ApiError(403, 'APP_INACTIVE', 'App is not active');
+        }
+
         // Find the wallet in database
-        const wallet = await Wallet.findOne({ address: decoded.address })
-            .select('-encryptedPrivateKey -encryptionSalt -otp -otpExpiry')
+        const wallet = await Wallet.findOne({
+            _id: decoded.sub,
+            appId: decoded.aud,
+        })
+            .select('-encryptedPrivateKey -encryptionSalt')
             .lean();
 
         if (!wallet) {
             throw new ApiError(404, 'WALLET_NOT_FOUND', 'Wallet not found');
         }
 
+        if (wallet.address !== decoded.address) {
+            throw new ApiError(401, 'INVALID_TOKEN', 'Invalid token');
+        }
+
         if (!wallet.isActive) {
             throw new ApiError(403, 'WALLET_INACTIVE', 'Wallet is not active');
         }
 
-        // Return the wallet data - this will be available in the controller
+        // The token may select one of the wallet's HD accounts
+        const accountIndex = decoded.accountIndex ?? 0;
+        const account = walletAccountService.resolveAccount(
+            wallet,
+            accountIndex,
+        );
+
+        if (!account || account.hidden) {
+            throw new ApiError(
+                403,
+                'ACCOUNT_UNAVAILABLE',
+                'Selected account is not available',
+            );
+        }
+
+        // Return the wallet data - this will be available in the controller.
+        // Controllers requiring both schemes list bearer first, so this
+        // result becomes request.user
         return {
             wallet: {
                 _id: wallet._id.toString(),
@@ -53,8 +148,15 @@ export async function expressAuthentication(
                 phoneNumber: wallet.phoneNumber,
                 subname: wallet.subname,
                 socialType: wallet.socialType,
-                address: wallet.address,
-                publicKey: wallet.publicKey,
+                socialSubject: wallet.socialSubject,
+                identities: wallet.identities,
+                address: account.address,
+                publicKey: account.publicKey,
+                primaryAddress: wallet.address,
+                accountIndex,
+                sessionId: decoded.sid,
+                scope: decoded.scope,
+                network: wallet.network,
                 userData: wallet.userData,
                 isActive: wallet.isActive,
                 createdAt: wallet.createdAt,
@@ -64,27 +166,152 @@ export async function expressAuthentication(
     }
 
     if (securityName === 'app') {
-        const appId =
-            request.body.appId ||
-            request.query.appId ||
-            request.headers['x-app-id'];
+        const appId = getRequestAppId(request);
 
         if (!appId) {
             throw new ApiError(400, 'MISSING_APP_ID', 'App ID is required');
         }
 
-        const app = await App.findOne({ appId });
+        const app = await App.findOne({ appId, status: { $ne: 'deleted' } });
 
         if (!app) {
             throw new ApiError(404, 'INVALID_APP_ID', 'Invalid App ID');
         }
 
+        if (app.status === 'suspended') {
+            throw new ApiError(
+                403,
+                'APP_INACTIVE',
+                `App is suspended${app.statusReason ? `: ${app.statusReason}` : ''}`,
+            );
+        }
+
         // Return app data
         return {
             app: {
                 appId: app.appId,
                 developerId: app.developerId,
                 name: app.name,
+                redirectUrls: app.redirectUrls,
+                emailLoginMode: app.emailLoginMode,
+            },
+        };
+    }
+
+    if (securityName === 'apiKey') {
+        const key = request.headers['x-api-key'];
+
+        if (typeof key !== 'string' || !key) {
+            throw new ApiError(401, 'MISSING_API_KEY', 'No API key provided');
+        }
+
+        let app;
+        let apiKey;
+        try {
+            ({ app, apiKey } = await apiKeyService.authenticate(key, scopes));
+        } catch (error) {
+            if (error instanceof ApiKeyError) {
+                throw new ApiError(
+                    error.code === 'INSUFFICIENT_SCOPE' ||
+                    error.code === 'APP_INACTIVE'
+                        ? 403
+                        : 401,
+                    error.code,
+                    error.message,
+                );
+            }
+            throw new ApiError(401, 'AUTH_ERROR', 'Authentication failed');
+        }
+
+        // The key stands in for the app id, so it must name the same app
+        // as the request and any wallet token sent with it. The bearer
+        // scheme verifies the token itself.
+        const requestedAppId = getRequestAppId(request);
+        const bearerToken = request.headers.authorization?.replace(
+            'Bearer ',
+            '',
+        );
+        const tokenAppId = bearerToken
+            ? decodeJWT(bearerToken)?.aud
+            : undefined;
+        if (
+            (requestedAppId && requestedAppId !== app.appId) ||
+            (tokenAppId && tokenAppId !== app.appId)
+        ) {
+            throw new ApiError(
+                401,
+                'APP_MISMATCH',
+                'API key was not issued for this app',
+            );
+        }
+
+        // Same shape as the app scheme, so either satisfies a route
+        return {
+            app: {
+                appId: app.appId,
+                developerId: app.developerId,
+                name: app.name,
+                redirectUrls: app.redirectUrls,
+                emailLoginMode: app.emailLoginMode,
+            },
+            apiKey: {
+                _id: apiKey._id.toString(),
+                name: apiKey.name,
+                scopes: apiKey.scopes,
+            },
+        };
+    }
+
+    if (securityName === 'admin') {
+        const token = request.headers['x-admin-token'];
+
+        if (!admin_config.apiToken) {
+            throw new ApiError(403, 'ADMIN_DISABLED', 'Admin API is disabled');
+        }
+        if (typeof token !== 'string' || !token) {
+            throw new ApiError(401, 'MISSING_TOKEN', 'No admin token provided');
+        }
+
+        // Compare digests so the check takes the same time for any input
+        const digest = (value: string) =>
+            crypto.createHash('sha256').update(value).digest();
+        if (
+            !crypto.timingSafeEqual(
+                digest(token),
+                digest(admin_config.apiToken),
+            )
+        ) {
+            throw new ApiError(401, 'INVALID_TOKEN', 'Invalid admin token');
+        }
+
+        return { admin: true };
+    }
+
+    if (securityName === 'developer') {
+        const token = request.headers.authorization?.replace('Bearer ', '');
+
+        if (!token) {
+            throw new ApiError(401, 'MISSING_TOKEN', 'No token provided');
+        }
+
+        let developer;
+        try {
+            developer = await developerService.authenticate(token);
+        } catch (error) {
+            if (error instanceof DeveloperError) {
+                throw new ApiError(401, error.code, error.message);
+            }
+            throw new ApiError(401, 'AUTH_ERROR', 'Authentication failed');
+        }
+
+        return {
+            developer: {
+                _id: developer._id.toString(),
+                name: developer.name,
+                email: developer.email,
+                companyName: developer.companyName,
+                website: developer.website,
+                createdAt: developer.createdAt,
             },
         };
     }
@@ -95,3 +322,14 @@ export async function expressAuthentication(
         `Unsupported security type: ${securityName}`,
     );
 }
+
+/**
+ * The app id a request names, from the body, query or X-App-Id header
+ */
+function getRequestAppId(request: express.Request): string | undefined {
+    const appId =
+        request.body?.appId ||
+        request.query.appId ||
+        request.headers['x-app-id'];
+    return typeof appId === 'string' ? appId : undefined;
+}
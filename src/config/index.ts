@@ -1,5 +1,21 @@
 import dotenv from 'dotenv';
-import { MongoDBConfig, JWTConfig, SMTPConfig } from './types';
+import {
+    MongoDBConfig,
+    JWTConfig,
+    OIDCConfig,
+    SocialConfig,
+    SIWEConfig,
+    SEP10Config,
+    OTPConfig,
+    MagicLinkConfig,
+    WebAuthnConfig,
+    MFAConfig,
+    DeveloperConfig,
+    PasswordConfig,
+    AdminConfig,
+    SMTPConfig,
+    KeyCustodyConfig,
+} from './types';
 
 dotenv.config();
 
@@ -8,7 +24,6 @@ export const mongodb_config: MongoDBConfig = {
     mongoUri:
         process.env.MONGODB_URI ||
         'mongodb://localhost:27017/crefy-crefy-connect',
-    jwtSecret: process.env.JWT_SECRET || 'your-secret-key',
     jwtExpiration: process.env.JWT_EXPIRATION || '1h',
     jwtRefreshExpiration: process.env.JWT_REFRESH_EXPIRATION || '7d',
     poolSize: parseInt(process.env.MONGODB_POOL_SIZE || '10'),
@@ -17,8 +32,155 @@ export const mongodb_config: MongoDBConfig = {
 };
 
 export const jwt_config: JWTConfig = {
-    secret: process.env.JWT_SECRET || 'your-secret-key',
+    algorithm: process.env.JWT_ALGORITHM === 'EdDSA' ? 'EdDSA' : 'RS256',
     expiresIn: process.env.JWT_EXPIRATION || '1d',
+    refreshExpiresIn: mongodb_config.jwtRefreshExpiration,
+    issuer: process.env.JWT_ISSUER || 'crefy-connect',
+};
+
+export const oidc_config: OIDCConfig = {
+    issuer: (
+        process.env.OIDC_ISSUER ||
+        `http://localhost:${process.env.PORT || 8003}`
+    ).replace(/\/$/, ''),
+    loginUrl: process.env.OIDC_LOGIN_URL || 'http://localhost:3000/oauth/login',
+};
+
+export const social_config: SocialConfig = {
+    google: {
+        clientId: process.env.GOOGLE_CLIENT_ID || '',
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+        issuer: process.env.GOOGLE_ISSUER || 'https://accounts.google.com',
+        tokenUrl:
+            process.env.GOOGLE_TOKEN_URL ||
+            'https://oauth2.googleapis.com/token',
+        jwksUrl:
+            process.env.GOOGLE_JWKS_URL ||
+            'https://www.googleapis.com/oauth2/v3/certs',
+    },
+    apple: {
+        clientId: process.env.APPLE_CLIENT_ID || '',
+        clientSecret: '', // Generated from the signing key
+        teamId: process.env.APPLE_TEAM_ID || '',
+        keyId: process.env.APPLE_KEY_ID || '',
+        privateKey: (process.env.APPLE_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
+        issuer: process.env.APPLE_ISSUER || 'https://appleid.apple.com',
+        tokenUrl:
+            process.env.APPLE_TOKEN_URL ||
+            'https://appleid.apple.com/auth/token',
+        jwksUrl:
+            process.env.APPLE_JWKS_URL || 'https://appleid.apple.com/auth/keys',
+    },
+    github: {
+        clientId: process.env.GITHUB_CLIENT_ID || '',
+        clientSecret: process.env.GITHUB_CLIENT_SECRET || '',
+        tokenUrl:
+            process.env.GITHUB_TOKEN_URL ||
+            'https://github.com/login/oauth/access_token',
+        apiUrl: process.env.GITHUB_API_URL || 'https://api.github.com',
+    },
+};
+
+export const siwe_config: SIWEConfig = {
+    domains: (process.env.SIWE_DOMAINS || '')
+        .split(',')
+        .map((domain) => domain.trim())
+        .filter(Boolean),
+};
+
+const issuerHost = new URL(oidc_config.issuer).host;
+
+export const sep10_config: SEP10Config = {
+    signingKey: process.env.SEP10_SIGNING_KEY || '',
+    networkPassphrase:
+        process.env.STELLAR_NETWORK_PASSPHRASE ||
+        'Test SDF Network ; September 2015',
+    homeDomains: (process.env.SEP10_HOME_DOMAINS || issuerHost)
+        .split(',')
+        .map((domain) => domain.trim())
+        .filter(Boolean),
+    webAuthDomain: process.env.SEP10_WEB_AUTH_DOMAIN || issuerHost,
+    challengeTimeout: parseInt(process.env.SEP10_CHALLENGE_TIMEOUT || '300'),
+};
+
+export const otp_config: OTPConfig = {
+    length: 6,
+    ttlMinutes: parseInt(process.env.OTP_TTL_MINUTES || '10'),
+    maxAttempts: parseInt(process.env.OTP_MAX_ATTEMPTS || '5'),
+    resendIntervalSeconds: parseInt(
+        process.env.OTP_RESEND_INTERVAL_SECONDS || '60',
+    ),
+    sendWindowMinutes: parseInt(process.env.OTP_SEND_WINDOW_MINUTES || '60'),
+    maxSendsPerIdentifier: parseInt(
+        process.env.OTP_MAX_SENDS_PER_IDENTIFIER || '5',
+    ),
+    maxSendsPerIp: parseInt(process.env.OTP_MAX_SENDS_PER_IP || '20'),
+};
+
+export const magic_link_config: MagicLinkConfig = {
+    callbackUrl:
+        process.env.MAGIC_LINK_CALLBACK_URL ||
+        `${oidc_config.issuer}/auth/email/magic-link/callback`,
+    ttlMinutes: parseInt(process.env.MAGIC_LINK_TTL_MINUTES || '15'),
+};
+
+export const webauthn_config: WebAuthnConfig = {
+    rpId: process.env.WEBAUTHN_RP_ID || new URL(oidc_config.issuer).hostname,
+    rpName: process.env.WEBAUTHN_RP_NAME || 'Crefy Connect',
+    origins: (
+        process.env.WEBAUTHN_ORIGINS || new URL(oidc_config.issuer).origin
+    )
+        .split(',')
+        .map((origin) => origin.trim())
+        .filter(Boolean),
+    timeoutMs: parseInt(process.env.WEBAUTHN_TIMEOUT_MS || '300000'),
+    stepUpTtlMinutes: parseInt(process.env.WEBAUTHN_STEP_UP_TTL_MINUTES || '5'),
+};
+
+export const mfa_config: MFAConfig = {
+    pendingTokenExpiresIn: process.env.MFA_PENDING_TOKEN_EXPIRES_IN || '10m',
+    totpWindow: parseInt(process.env.MFA_TOTP_WINDOW || '1'),
+    recoveryCodeCount: 10,
+    maxFailedAttempts: parseInt(process.env.MFA_MAX_FAILED_ATTEMPTS || '5'),
+    lockoutMinutes: parseInt(process.env.MFA_LOCKOUT_MINUTES || '15'),
+};
+
+const dashboardUrl = (
+    process.env.DEVELOPER_DASHBOARD_URL || 'http://localhost:3000'
+).replace(/\/$/, '');
+
+export const developer_config: DeveloperConfig = {
+    tokenAudience: process.env.DEVELOPER_TOKEN_AUDIENCE || 'crefy-developers',
+    tokenExpiresIn: process.env.DEVELOPER_TOKEN_EXPIRES_IN || '12h',
+    dashboardUrl,
+    passwordResetUrl:
+        process.env.DEVELOPER_PASSWORD_RESET_URL ||
+        `${dashboardUrl}/reset-password`,
+    passwordResetTtlMinutes: parseInt(
+        process.env.DEVELOPER_PASSWORD_RESET_TTL_MINUTES || '30',
+    ),
+    maxFailedLogins: parseInt(process.env.DEVELOPER_MAX_FAILED_LOGINS || '5'),
+    lockoutMinutes: parseInt(process.env.DEVELOPER_LOCKOUT_MINUTES || '15'),
+};
+
+export const password_config: PasswordConfig = {
+    scryptCost: parseInt(process.env.PASSWORD_SCRYPT_COST || '15'),
+    scryptBlockSize: parseInt(process.env.PASSWORD_SCRYPT_BLOCK_SIZE || '8'),
+    scryptParallelization: parseInt(
+        process.env.PASSWORD_SCRYPT_PARALLELIZATION || '1',
+    ),
+    minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '8'),
+    maxLength: 128,
+    breachCheckUrl:
+        process.env.PASSWORD_BREACH_CHECK_URL ??
+        'https://api.pwnedpasswords.com/range',
+    breachCheckTimeoutMs: parseInt(
+        process.env.PASSWORD_BREACH_CHECK_TIMEOUT_MS || '3000',
+    ),
+};
+
+export const admin_config: AdminConfig = {
+    apiToken: process.env.ADMIN_API_TOKEN || '',
 };
 
 export const smtp_config: SMTPConfig = {
@@ -33,3 +195,14 @@ export const smtp_config: SMTPConfig = {
         process.env.EMAIL_FROM_NAME ||
         '"Crefy Connect" <noreply@crefyconnect.com>',
 };
+
+export const key_custody_config: KeyCustodyConfig = {
+    kmsProvider: process.env.KMS_PROVIDER || 'local',
+    masterKey: process.env.KEY_CUSTODY_MASTER_KEY || '',
+    masterKeyFile:
+        process.env.KEY_CUSTODY_MASTER_KEY_FILE || '.keys/master-key.hex',
+    masterKeyVersion: process.env.KEY_CUSTODY_MASTER_KEY_VERSION || 'v1',
+    rewrapIntervalMs: parseInt(
+        process.env.KEY_CUSTODY_REWRAP_INTERVAL_MS || '0',
+    ),
+};
@@ -0,0 +1,15 @@
+// src/config/sms-config.ts
+import { createSmsService } from '../services/sms-service';
+
+// Create SMS service instance from environment configuration
+export const smsService = createSmsService({
+    apiKey: process.env.SMS_API_KEY || 'your-sms-api-key',
+    baseUrl:
+        process.env.SMS_BASE_URL ||
+        'https://kbzktzsczpwsttjmfnge.supabase.co/functions/v1/send-message',
+    timeout: parseInt(process.env.SMS_TIMEOUT || '10000'),
+    maxRetries: parseInt(process.env.SMS_MAX_RETRIES || '3'),
+    retryDelay: parseInt(process.env.SMS_RETRY_DELAY || '1000'),
+});
+
+export default smsService;
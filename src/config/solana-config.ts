@@ -0,0 +1,43 @@
+// src/config/solana-config.ts
+export type SolanaCluster = 'mainnet-beta' | 'devnet' | 'testnet' | 'localnet';
+
+export const SOLANA_EXPLORER_URL = 'https://explorer.solana.com';
+
+export const SOLANA_CONFIG: Record<
+    SolanaCluster,
+    { RPC_URL: string; EXPLORER_QUERY: string; TESTNET: boolean }
+> = {
+    'mainnet-beta': {
+        RPC_URL:
+            process.env.SOLANA_MAINNET_RPC_URL ||
+            'https://api.mainnet-beta.solana.com',
+        EXPLORER_QUERY: '',
+        TESTNET: false,
+    },
+    devnet: {
+        RPC_URL:
+            process.env.SOLANA_DEVNET_RPC_URL ||
+            'https://api.devnet.solana.com',
+        EXPLORER_QUERY: '?cluster=devnet',
+        TESTNET: true,
+    },
+    testnet: {
+        RPC_URL:
+            process.env.SOLANA_TESTNET_RPC_URL ||
+            'https://api.testnet.solana.com',
+        EXPLORER_QUERY: '?cluster=testnet',
+        TESTNET: true,
+    },
+    // Local test validator (solana-test-validator) or a mocked RPC
+    localnet: {
+        RPC_URL: process.env.SOLANA_LOCALNET_RPC_URL || 'http://127.0.0.1:8899',
+        EXPLORER_QUERY:
+            '?cluster=custom&customUrl=http%3A%2F%2F127.0.0.1%3A8899',
+        TESTNET: true,
+    },
+};
+
+// BIP44 path used by Phantom, Solflare and the Solana CLI
+export function getSolanaDerivationPath(accountIndex: number = 0): string {
+    return `m/44'/501'/${accountIndex}'/0'`;
+}
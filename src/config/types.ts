@@ -1,7 +1,6 @@
 export interface MongoDBConfig {
     port: number;
     mongoUri: string;
-    jwtSecret: string;
     jwtExpiration: string;
     jwtRefreshExpiration: string;
     poolSize?: number;
@@ -10,8 +9,106 @@ export interface MongoDBConfig {
 }
 
 export interface JWTConfig {
-    secret: string;
+    algorithm: 'RS256' | 'EdDSA'; // For newly generated signing keys
     expiresIn: string;
+    refreshExpiresIn: string;
+    issuer: string;
+}
+
+export interface OIDCConfig {
+    issuer: string; // Public base URL of this API
+    loginUrl: string; // Hosted login page the authorize endpoint redirects to
+}
+
+/**
+ * Endpoints can be overridden, e.g. to point at a local mock IdP
+ */
+export interface SocialProviderConfig {
+    clientId: string; // Provider is disabled when empty
+    clientSecret: string;
+    issuer?: string; // OIDC providers only
+    tokenUrl: string;
+    jwksUrl?: string; // OIDC providers only
+    apiUrl?: string; // GitHub REST API
+}
+
+export interface AppleProviderConfig extends SocialProviderConfig {
+    teamId: string;
+    keyId: string;
+    privateKey: string; // PKCS#8 PEM used to sign the client secret
+}
+
+export interface SocialConfig {
+    google: SocialProviderConfig;
+    apple: AppleProviderConfig;
+    github: SocialProviderConfig;
+}
+
+export interface SIWEConfig {
+    domains: string[]; // Accepted in addition to the app's redirect URL hosts
+}
+
+export interface SEP10Config {
+    signingKey: string; // Server account secret (S...); SEP-10 is off when unset
+    networkPassphrase: string;
+    homeDomains: string[]; // The first one goes into new challenges
+    webAuthDomain: string;
+    challengeTimeout: number; // Seconds
+}
+
+export interface OTPConfig {
+    length: number; // Digits
+    ttlMinutes: number; // Also quoted in the email and SMS
+    maxAttempts: number; // Wrong guesses before a code is locked
+    resendIntervalSeconds: number; // Per identifier
+    sendWindowMinutes: number;
+    maxSendsPerIdentifier: number; // Per send window
+    maxSendsPerIp: number; // Per send window
+}
+
+export interface MagicLinkConfig {
+    callbackUrl: string; // Public URL of the magic link callback endpoint
+    ttlMinutes: number; // Also quoted in the email
+}
+
+export interface WebAuthnConfig {
+    rpId: string; // Passkeys are bound to this domain
+    rpName: string;
+    origins: string[]; // Pages allowed to run ceremonies, besides app redirect URLs
+    timeoutMs: number;
+    stepUpTtlMinutes: number; // How long a passkey step-up satisfies requireStepUp
+}
+
+export interface MFAConfig {
+    pendingTokenExpiresIn: string; // Limited token issued until the second factor is verified
+    totpWindow: number; // 30-second steps of clock drift accepted either side
+    recoveryCodeCount: number;
+    maxFailedAttempts: number; // Wrong codes per lockout window
+    lockoutMinutes: number;
+}
+
+export interface DeveloperConfig {
+    tokenAudience: string; // Keeps developer tokens apart from wallet tokens
+    tokenExpiresIn: string;
+    dashboardUrl: string; // Linked from the welcome email
+    passwordResetUrl: string; // Dashboard page receiving ?token=
+    passwordResetTtlMinutes: number;
+    maxFailedLogins: number; // Wrong passwords before the account locks
+    lockoutMinutes: number;
+}
+
+export interface PasswordConfig {
+    scryptCost: number; // log2 of N; raising it rehashes passwords on login
+    scryptBlockSize: number;
+    scryptParallelization: number;
+    minLength: number;
+    maxLength: number;
+    breachCheckUrl: string; // k-anonymity range API; empty disables the check
+    breachCheckTimeoutMs: number;
+}
+
+export interface AdminConfig {
+    apiToken: string; // Sent as X-Admin-Token; admin routes are disabled when empty
 }
 
 export interface SMTPConfig {
@@ -24,3 +121,11 @@ export interface SMTPConfig {
     };
     from: string;
 }
+
+export interface KeyCustodyConfig {
+    kmsProvider: string;
+    masterKey: string;
+    masterKeyFile: string;
+    masterKeyVersion: string;
+    rewrapIntervalMs: number;
+}
@@ -0,0 +1,311 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Patch,
+    Route,
+    Tags,
+    Body,
+    Path,
+    Query,
+    SuccessResponse,
+    Request,
+    Example,
+    Security,
+} from 'tsoa';
+import { CustomRequest } from '../utils/request';
+import { ApiError } from '../utils/ApiError';
+import walletAccountService, {
+    WalletAccountError,
+} from '../services/wallet-account-service';
+import { KeyCustodyError } from '../services/key-custody-service';
+import sessionService from '../services/session-service';
+import { IWalletAccount } from '../models/wallet-models';
+
+// Request interfaces
+interface DeriveAccountRequest {
+    label?: string;
+    index?: number; // Defaults to the next unused index
+}
+
+interface UpdateAccountRequest {
+    label?: string;
+    hidden?: boolean;
+}
+
+// Response interfaces
+interface AccountData {
+    index: number;
+    label?: string | undefined;
+    address: string;
+    publicKey: string;
+    hidden: boolean;
+    imported: boolean;
+    active: boolean;
+    createdAt: string;
+}
+
+interface ListAccountsResponse {
+    success: boolean;
+    activeIndex: number;
+    accounts: AccountData[];
+}
+
+interface AccountResponse {
+    success: boolean;
+    account: AccountData;
+}
+
+interface SelectAccountResponse {
+    success: boolean;
+    account: AccountData;
+    token: string;
+}
+
+@Route('auth/accounts')
+@Tags('Accounts')
+@Security('bearer')
+export class AccountController extends Controller {
+    /**
+     * List the HD accounts of the authenticated wallet
+     * @param includeHidden - Include accounts that were hidden
+     */
+    @Get()
+    @SuccessResponse('200', 'Accounts retrieved successfully')
+    @Example<ListAccountsResponse>({
+        success: true,
+        activeIndex: 0,
+        accounts: [
+            {
+                index: 0,
+                label: 'Primary',
+                address: '0xa5E0Da329eE5AA03f09228e534953496334080f5',
+                publicKey: '0x04d5e6f7...',
+                hidden: false,
+                imported: false,
+                active: true,
+                createdAt: '2025-01-01T00:00:00.000Z',
+            },
+            {
+                index: 1,
+                label: 'Savings',
+                address: '0x742E6B6D8B6C4e8D8e8D8e8D8e8D8e8D8e8D8e8D',
+                publicKey: '0x04a1b2c3...',
+                hidden: false,
+                imported: false,
+                active: false,
+                createdAt: '2025-01-01T00:00:00.000Z',
+            },
+        ],
+    })
+    public async listAccounts(
+        @Request() request: CustomRequest,
+        @Query() includeHidden?: boolean,
+    ): Promise<ListAccountsResponse> {
+        const { wallet } = request.user;
+
+        try {
+            const accounts = await walletAccountService.listAccounts(
+                wallet._id,
+                { includeHidden: includeHidden === true },
+            );
+
+            return {
+                success: true,
+                activeIndex: wallet.accountIndex,
+                accounts: accounts.map((account) =>
+                    this.formatAccount(account, wallet.accountIndex),
+                ),
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to list accounts');
+        }
+    }
+
+    /**
+     * Derive a new account from the wallet's seed
+     * @example requestBody {"label": "Savings"}
+     */
+    @Post()
+    @SuccessResponse('201', 'Account derived successfully')
+    @Example<AccountResponse>({
+        success: true,
+        account: {
+            index: 1,
+            label: 'Savings',
+            address: '0x742E6B6D8B6C4e8D8e8D8e8D8e8D8e8D8e8D8e8D',
+            publicKey: '0x04a1b2c3...',
+            hidden: false,
+            imported: false,
+            active: false,
+            createdAt: '2025-01-01T00:00:00.000Z',
+        },
+    })
+    public async deriveAccount(
+        @Body() body: DeriveAccountRequest,
+        @Request() request: CustomRequest,
+    ): Promise<AccountResponse> {
+        const { wallet } = request.user;
+
+        try {
+            const account = await walletAccountService.deriveAccount(
+                wallet._id,
+                { label: body.label, index: body.index },
+            );
+
+            this.setStatus(201);
+            return {
+                success: true,
+                account: this.formatAccount(account, wallet.accountIndex),
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to derive account');
+        }
+    }
+
+    /**
+     * Label, hide or unhide an account
+     * @example requestBody {"label": "Spending", "hidden": false}
+     */
+    @Patch('{index}')
+    @SuccessResponse('200', 'Account updated successfully')
+    @Example<AccountResponse>({
+        success: true,
+        account: {
+            index: 1,
+            label: 'Spending',
+            address: '0x742E6B6D8B6C4e8D8e8D8e8D8e8D8e8D8e8D8e8D',
+            publicKey: '0x04a1b2c3...',
+            hidden: false,
+            imported: false,
+            active: false,
+            createdAt: '2025-01-01T00:00:00.000Z',
+        },
+    })
+    public async updateAccount(
+        @Path() index: number,
+        @Body() body: UpdateAccountRequest,
+        @Request() request: CustomRequest,
+    ): Promise<AccountResponse> {
+        const { wallet } = request.user;
+
+        if (body.hidden && index === wallet.accountIndex) {
+            throw new ApiError(
+                400,
+                'ACCOUNT_ACTIVE',
+                'Select another account before hiding the active one',
+            );
+        }
+
+        try {
+            const account = await walletAccountService.updateAccount(
+                wallet._id,
+                index,
+                { label: body.label, hidden: body.hidden },
+            );
+
+            return {
+                success: true,
+                account: this.formatAccount(account, wallet.accountIndex),
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to update account');
+        }
+    }
+
+    /**
+     * Make an account active. Returns a token bound to that account.
+     */
+    @Post('{index}/select')
+    @SuccessResponse('200', 'Account selected successfully')
+    @Example<SelectAccountResponse>({
+        success: true,
+        account: {
+            index: 1,
+            label: 'Savings',
+            address: '0x742E6B6D8B6C4e8D8e8D8e8D8e8D8e8D8e8D8e8D',
+            publicKey: '0x04a1b2c3...',
+            hidden: false,
+            imported: false,
+            active: true,
+            createdAt: '2025-01-01T00:00:00.000Z',
+        },
+        token: 'jwt-token-here',
+    })
+    public async selectAccount(
+        @Path() index: number,
+        @Request() request: CustomRequest,
+    ): Promise<SelectAccountResponse> {
+        const { wallet } = request.user;
+
+        try {
+            const accounts = await walletAccountService.listAccounts(
+                wallet._id,
+            );
+            const account = accounts.find((a) => a.index === index);
+
+            if (!account) {
+                throw new ApiError(
+                    404,
+                    'ACCOUNT_NOT_FOUND',
+                    `Account ${index} not found`,
+                );
+            }
+
+            // Later refreshes of this session keep the selected account
+            const token = await sessionService.switchAccount(
+                { ...wallet, address: wallet.primaryAddress },
+                wallet.sessionId,
+                index,
+            );
+
+            return {
+                success: true,
+                account: this.formatAccount(account, index),
+                token,
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to select account');
+        }
+    }
+
+    // Private helper methods
+
+    private formatAccount(
+        account: IWalletAccount,
+        activeIndex: number,
+    ): AccountData {
+        return {
+            index: account.index,
+            label: account.label,
+            address: account.address,
+            publicKey: account.publicKey,
+            hidden: account.hidden,
+            imported: account.imported === true,
+            active: account.index === activeIndex,
+            createdAt: new Date(account.createdAt).toISOString(),
+        };
+    }
+
+    private toApiError(error: unknown, message: string): ApiError {
+        console.error(`${message}:`, error);
+        if (error instanceof ApiError) {
+            return error;
+        }
+        if (
+            error instanceof WalletAccountError ||
+            error instanceof KeyCustodyError
+        ) {
+            return new ApiError(400, 'ACCOUNT_ERROR', error.message);
+        }
+        return new ApiError(
+            500,
+            'ACCOUNT_ERROR',
+            `${message}: ${
+                error instanceof Error ? error.message : 'Unknown error'
+            }`,
+        );
+    }
+}
+
+export default new AccountController();
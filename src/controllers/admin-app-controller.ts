@@ -0,0 +1,178 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Route,
+    Tags,
+    Body,
+    Path,
+    SuccessResponse,
+    Request,
+    Example,
+    Security,
+} from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { ApiError } from '../utils/ApiError';
+import appService, { AppError } from '../services/app-service';
+import auditLogService, { AuditContext } from '../services/audit-log-service';
+import { AppStatus, IApp } from '../models/app-models';
+
+// Request interfaces
+interface SuspendAppRequest {
+    /** Shown to the developer in the app and the notification email */
+    reason: string;
+}
+
+interface RestoreAppRequest {
+    /** Optional note for the developer */
+    reason?: string;
+}
+
+// Response interfaces
+interface AdminAppDetails {
+    appId: string;
+    developerId: string;
+    name: string;
+    status: AppStatus;
+    statusReason?: string | undefined;
+    statusChangedAt?: string | undefined;
+    /** Status a restore returns to */
+    suspendedFrom?: AppStatus | undefined;
+    createdAt: string;
+}
+
+interface AdminAppResponse {
+    success: boolean;
+    app: AdminAppDetails;
+}
+
+const errorStatus: Record<string, number> = {
+    VALIDATION_ERROR: 400,
+    APP_NOT_FOUND: 404,
+    INVALID_STATUS_TRANSITION: 409,
+};
+
+/**
+ * Operator routes for any app, authenticated with the X-Admin-Token
+ * header
+ */
+@Route('api/admin/apps')
+@Tags('Admin')
+@Security('admin')
+export class AdminAppController extends Controller {
+    /**
+     * An app's owner and lifecycle status
+     */
+    @Get('{appId}')
+    @SuccessResponse('200', 'App retrieved')
+    public async getApp(@Path() appId: string): Promise<AdminAppResponse> {
+        try {
+            const app = await appService.findApp(appId);
+            return { success: true, app: this.formatApp(app) };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to get app');
+        }
+    }
+
+    /**
+     * Suspend a sandbox or live app. Its logins and API calls are refused
+     * until it is restored; the developer is emailed the reason.
+     * @example requestBody {"reason": "Reported for phishing"}
+     */
+    @Post('{appId}/suspend')
+    @SuccessResponse('200', 'App suspended')
+    @Example<AdminAppResponse>({
+        success: true,
+        app: {
+            appId: 'a3f1c2e8b3a4d0012345678a3f1c2e8b3a4d0012345678a3f1c2e8b3a4d00123',
+            developerId: '665f1c2e8b3a4d0012345678',
+            name: 'Demo App',
+            status: 'suspended',
+            statusReason: 'Reported for phishing',
+            statusChangedAt: '2025-01-02T00:00:00.000Z',
+            suspendedFrom: 'live',
+            createdAt: '2025-01-01T00:00:00.000Z',
+        },
+    })
+    public async suspendApp(
+        @Path() appId: string,
+        @Body() body: SuspendAppRequest,
+        @Request() request: ExpressRequest,
+    ): Promise<AdminAppResponse> {
+        try {
+            const app = await appService.suspendApp(
+                appId,
+                body.reason,
+                this.auditContext(request),
+            );
+            return { success: true, app: this.formatApp(app) };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to suspend app');
+        }
+    }
+
+    /**
+     * Restore a suspended app to the status it was suspended from
+     * @example requestBody {"reason": "Issue resolved"}
+     */
+    @Post('{appId}/restore')
+    @SuccessResponse('200', 'App restored')
+    public async restoreApp(
+        @Path() appId: string,
+        @Body() body: RestoreAppRequest,
+        @Request() request: ExpressRequest,
+    ): Promise<AdminAppResponse> {
+        try {
+            const app = await appService.restoreApp(
+                appId,
+                body.reason,
+                this.auditContext(request),
+            );
+            return { success: true, app: this.formatApp(app) };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to restore app');
+        }
+    }
+
+    // Private helper methods
+
+    private formatApp(app: IApp): AdminAppDetails {
+        return {
+            appId: app.appId,
+            developerId: app.developerId.toString(),
+            name: app.name,
+            status: app.status,
+            statusReason: app.statusReason,
+            statusChangedAt: app.statusChangedAt?.toISOString(),
+            suspendedFrom: app.suspendedFrom,
+            createdAt: app.createdAt.toISOString(),
+        };
+    }
+
+    private auditContext(request: ExpressRequest): AuditContext {
+        return auditLogService.contextFromRequest(request);
+    }
+
+    private toApiError(error: unknown, message: string): ApiError {
+        console.error(`${message}:`, error);
+        if (error instanceof ApiError) {
+            return error;
+        }
+        if (error instanceof AppError) {
+            return new ApiError(
+                errorStatus[error.code] || 400,
+                error.code,
+                error.message,
+            );
+        }
+        return new ApiError(
+            500,
+            'APP_ERROR',
+            `${message}: ${
+                error instanceof Error ? error.message : 'Unknown error'
+            }`,
+        );
+    }
+}
+
+export default new AdminAppController();
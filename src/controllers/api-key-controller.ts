@@ -0,0 +1,213 @@
+import {
+    Controller,
+    Delete,
+    Get,
+    Post,
+    Route,
+    Tags,
+    Body,
+    Path,
+    SuccessResponse,
+    Request,
+    Example,
+    Security,
+} from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { DeveloperRequest } from '../utils/request';
+import { ApiError } from '../utils/ApiError';
+import apiKeyService, { ApiKeyError } from '../services/api-key-service';
+import { AppError } from '../services/app-service';
+import auditLogService, { AuditContext } from '../services/audit-log-service';
+import { ApiKeyScope, IApiKey } from '../models/api-key-models';
+
+// Request interfaces
+interface CreateApiKeyRequest {
+    name: string;
+    scopes: ApiKeyScope[];
+    /** ISO 8601 date; the key never expires when omitted */
+    expiresAt?: string;
+}
+
+// Response interfaces
+interface ApiKeyDetails {
+    keyId: string;
+    name: string;
+    prefix: string;
+    scopes: ApiKeyScope[];
+    expiresAt?: string | undefined;
+    lastUsedAt?: string | undefined;
+    createdAt: string;
+}
+
+interface CreateApiKeyResponse {
+    success: boolean;
+    message: string;
+    /** Send as the X-API-Key header. Shown only once; store it now. */
+    apiKey: string;
+    key: ApiKeyDetails;
+}
+
+interface ApiKeyListResponse {
+    success: boolean;
+    keys: ApiKeyDetails[];
+}
+
+interface RevokeApiKeyResponse {
+    success: boolean;
+    message: string;
+}
+
+const errorStatus: Record<string, number> = {
+    VALIDATION_ERROR: 400,
+    APP_NOT_FOUND: 404,
+    API_KEY_NOT_FOUND: 404,
+    API_KEY_LIMIT_REACHED: 409,
+};
+
+/**
+ * API keys of the logged-in developer's apps, for server-to-server
+ * calls to routes that accept the `apiKey` scheme
+ */
+@Route('api/apps/{appId}/api-keys')
+@Tags('API Keys')
+@Security('developer')
+export class ApiKeyController extends Controller {
+    /**
+     * Create an API key. The key is returned only in this response.
+     * @example requestBody {"name": "Backend", "scopes": ["auth", "balance"]}
+     */
+    @Post()
+    @SuccessResponse('201', 'API key created')
+    @Example<CreateApiKeyResponse>({
+        success: true,
+        message: 'API key created. Store it now; it is not shown again.',
+        apiKey: 'ck_1a2b3c4d_9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+        key: {
+            keyId: '665f1c2e8b3a4d0012345678',
+            name: 'Backend',
+            prefix: 'ck_1a2b3c4d',
+            scopes: ['auth', 'balance'],
+            createdAt: '2025-01-01T00:00:00.000Z',
+        },
+    })
+    public async createApiKey(
+        @Path() appId: string,
+        @Body() body: CreateApiKeyRequest,
+        @Request() request: DeveloperRequest,
+    ): Promise<CreateApiKeyResponse> {
+        const { developer } = request.user;
+
+        try {
+            const { apiKey, key } = await apiKeyService.createKey(
+                developer._id,
+                appId,
+                {
+                    name: body.name,
+                    scopes: body.scopes,
+                    expiresAt: body.expiresAt
+                        ? new Date(body.expiresAt)
+                        : undefined,
+                },
+                this.auditContext(request),
+            );
+            this.setStatus(201);
+            return {
+                success: true,
+                message:
+                    'API key created. Store it now; it is not shown again.',
+                apiKey: key,
+                key: this.formatKey(apiKey),
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to create API key');
+        }
+    }
+
+    /**
+     * The app's API keys that have not been revoked
+     */
+    @Get()
+    @SuccessResponse('200', 'API keys retrieved')
+    public async listApiKeys(
+        @Path() appId: string,
+        @Request() request: DeveloperRequest,
+    ): Promise<ApiKeyListResponse> {
+        const { developer } = request.user;
+
+        try {
+            const keys = await apiKeyService.listKeys(developer._id, appId);
+            return {
+                success: true,
+                keys: keys.map((key) => this.formatKey(key)),
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to list API keys');
+        }
+    }
+
+    /**
+     * Revoke an API key. It stops working at once.
+     */
+    @Delete('{keyId}')
+    @SuccessResponse('200', 'API key revoked')
+    public async revokeApiKey(
+        @Path() appId: string,
+        @Path() keyId: string,
+        @Request() request: DeveloperRequest,
+    ): Promise<RevokeApiKeyResponse> {
+        const { developer } = request.user;
+
+        try {
+            await apiKeyService.revokeKey(
+                developer._id,
+                appId,
+                keyId,
+                this.auditContext(request),
+            );
+            return { success: true, message: 'API key revoked' };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to revoke API key');
+        }
+    }
+
+    // Private helper methods
+
+    private formatKey(apiKey: IApiKey): ApiKeyDetails {
+        return {
+            keyId: apiKey._id.toString(),
+            name: apiKey.name,
+            prefix: apiKey.prefix,
+            scopes: apiKey.scopes,
+            expiresAt: apiKey.expiresAt?.toISOString(),
+            lastUsedAt: apiKey.lastUsedAt?.toISOString(),
+            createdAt: apiKey.createdAt.toISOString(),
+        };
+    }
+
+    private auditContext(request: ExpressRequest): AuditContext {
+        return auditLogService.contextFromRequest(request);
+    }
+
+    private toApiError(error: unknown, message: string): ApiError {
+        console.error(`${message}:`, error);
+        if (error instanceof ApiError) {
+            return error;
+        }
+        if (error instanceof ApiKeyError || error instanceof AppError) {
+            return new ApiError(
+                errorStatus[error.code] || 400,
+                error.code,
+                error.message,
+            );
+        }
+        return new ApiError(
+            500,
+            'API_KEY_ERROR',
+            `${message}: ${
+                error instanceof Error ? error.message : 'Unknown error'
+            }`,
+        );
+    }
+}
+
+export default new ApiKeyController();
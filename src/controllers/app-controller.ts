@@ -0,0 +1,369 @@
+import {
+    Controller,
+    Delete,
+    Get,
+    Post,
+    Put,
+    Route,
+    Tags,
+    Body,
+    Path,
+    Query,
+    SuccessResponse,
+    Request,
+    Example,
+    Security,
+} from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { DeveloperRequest } from '../utils/request';
+import { ApiError } from '../utils/ApiError';
+import appService, { AppError } from '../services/app-service';
+import auditLogService, { AuditContext } from '../services/audit-log-service';
+import {
+    AppStatus,
+    EmailLoginMode,
+    IApp,
+    TokenEndpointAuthMethod,
+} from '../models/app-models';
+
+// Request interfaces
+interface CreateAppRequest {
+    name: string;
+    description?: string;
+    /** Where logins may redirect back to; at least one */
+    redirectUrls: string[];
+    iconUrl?: string;
+    emailLoginMode?: EmailLoginMode;
+    requireMfa?: boolean;
+    /** How the app authenticates at /oauth/token; `none` for public clients */
+    tokenEndpointAuthMethod?: TokenEndpointAuthMethod;
+}
+
+interface UpdateAppRequest {
+    name?: string;
+    description?: string;
+    redirectUrls?: string[];
+    iconUrl?: string;
+    emailLoginMode?: EmailLoginMode;
+    requireMfa?: boolean;
+    /** How the app authenticates at /oauth/token; `none` for public clients */
+    tokenEndpointAuthMethod?: TokenEndpointAuthMethod;
+}
+
+// Response interfaces
+interface AppDetails {
+    appId: string;
+    name: string;
+    description?: string | undefined;
+    redirectUrls: string[];
+    iconUrl?: string | undefined;
+    emailLoginMode: EmailLoginMode;
+    requireMfa: boolean;
+    tokenEndpointAuthMethod: TokenEndpointAuthMethod;
+    status: AppStatus;
+    /** Why the status last changed, e.g. a suspension reason */
+    statusReason?: string | undefined;
+    statusChangedAt?: string | undefined;
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface CreateAppResponse {
+    success: boolean;
+    message: string;
+    app: AppDetails;
+    /** Shown only once; store it now */
+    clientSecret: string;
+}
+
+interface AppResponse {
+    success: boolean;
+    app: AppDetails;
+}
+
+interface AppListResponse {
+    success: boolean;
+    apps: AppDetails[];
+    pagination: {
+        page: number;
+        limit: number;
+        total: number;
+        totalPages: number;
+    };
+}
+
+interface ClientSecretResponse {
+    success: boolean;
+    message: string;
+    /** Shown only once; store it now */
+    clientSecret: string;
+}
+
+interface DeleteAppResponse {
+    success: boolean;
+    message: string;
+    walletsDeactivated: number;
+    sessionsRevoked: number;
+}
+
+const errorStatus: Record<string, number> = {
+    VALIDATION_ERROR: 400,
+    APP_NOT_FOUND: 404,
+    INVALID_STATUS_TRANSITION: 409,
+};
+
+/**
+ * Apps owned by the logged-in developer
+ */
+@Route('api/apps')
+@Tags('Apps')
+@Security('developer')
+export class AppController extends Controller {
+    /**
+     * Create an app. The client secret is returned only in this response.
+     * @example requestBody {"name": "Demo App", "redirectUrls": ["https://demo.example.com/callback"]}
+     */
+    @Post()
+    @SuccessResponse('201', 'App created')
+    @Example<CreateAppResponse>({
+        success: true,
+        message:
+            'App created. Store the client secret now; it is not shown again.',
+        app: {
+            appId: 'a3f1c2e8b3a4d0012345678a3f1c2e8b3a4d0012345678a3f1c2e8b3a4d00123',
+            name: 'Demo App',
+            redirectUrls: ['https://demo.example.com/callback'],
+            emailLoginMode: 'otp',
+            requireMfa: false,
+            tokenEndpointAuthMethod: 'client_secret_basic',
+            status: 'sandbox',
+            createdAt: '2025-01-01T00:00:00.000Z',
+            updatedAt: '2025-01-01T00:00:00.000Z',
+        },
+        clientSecret: '9c1e...f04b',
+    })
+    public async createApp(
+        @Body() body: CreateAppRequest,
+        @Request() request: DeveloperRequest,
+    ): Promise<CreateAppResponse> {
+        const { developer } = request.user;
+
+        try {
+            const { app, clientSecret } = await appService.createApp(
+                developer._id,
+                body,
+                this.auditContext(request),
+            );
+            this.setStatus(201);
+            return {
+                success: true,
+                message:
+                    'App created. Store the client secret now; it is not shown again.',
+                app: this.formatApp(app),
+                clientSecret,
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to create app');
+        }
+    }
+
+    /**
+     * List the developer's apps, newest first
+     * @param page Page number, from 1
+     * @param limit Apps per page, up to 100
+     */
+    @Get()
+    @SuccessResponse('200', 'Apps retrieved')
+    public async listApps(
+        @Request() request: DeveloperRequest,
+        @Query() page?: number,
+        @Query() limit?: number,
+    ): Promise<AppListResponse> {
+        const { developer } = request.user;
+
+        try {
+            const result = await appService.listApps(
+                developer._id,
+                page,
+                limit,
+            );
+            return {
+                success: true,
+                apps: result.apps.map((app) => this.formatApp(app)),
+                pagination: {
+                    page: result.page,
+                    limit: result.limit,
+                    total: result.total,
+                    totalPages: Math.ceil(result.total / result.limit),
+                },
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to list apps');
+        }
+    }
+
+    @Get('{appId}')
+    @SuccessResponse('200', 'App retrieved')
+    public async getApp(
+        @Path() appId: string,
+        @Request() request: DeveloperRequest,
+    ): Promise<AppResponse> {
+        const { developer } = request.user;
+
+        try {
+            const app = await appService.getApp(developer._id, appId);
+            return { success: true, app: this.formatApp(app) };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to get app');
+        }
+    }
+
+    /**
+     * Update an app; omitted fields are left unchanged
+     * @example requestBody {"redirectUrls": ["https://demo.example.com/callback", "http://localhost:3000/callback"]}
+     */
+    @Put('{appId}')
+    @SuccessResponse('200', 'App updated')
+    public async updateApp(
+        @Path() appId: string,
+        @Body() body: UpdateAppRequest,
+        @Request() request: DeveloperRequest,
+    ): Promise<AppResponse> {
+        const { developer } = request.user;
+
+        try {
+            const app = await appService.updateApp(
+                developer._id,
+                appId,
+                body,
+                this.auditContext(request),
+            );
+            return { success: true, app: this.formatApp(app) };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to update app');
+        }
+    }
+
+    /**
+     * Replace the client secret. The old secret stops working at once.
+     */
+    @Post('{appId}/client-secret')
+    @SuccessResponse('200', 'Client secret rotated')
+    public async rotateClientSecret(
+        @Path() appId: string,
+        @Request() request: DeveloperRequest,
+    ): Promise<ClientSecretResponse> {
+        const { developer } = request.user;
+
+        try {
+            const clientSecret = await appService.rotateClientSecret(
+                developer._id,
+                appId,
+                this.auditContext(request),
+            );
+            return {
+                success: true,
+                message:
+                    'Client secret rotated. Store it now; it is not shown again.',
+                clientSecret,
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to rotate client secret');
+        }
+    }
+
+    /**
+     * Take a sandbox app live
+     */
+    @Post('{appId}/go-live')
+    @SuccessResponse('200', 'App is live')
+    public async goLive(
+        @Path() appId: string,
+        @Request() request: DeveloperRequest,
+    ): Promise<AppResponse> {
+        const { developer } = request.user;
+
+        try {
+            const app = await appService.goLive(
+                developer._id,
+                appId,
+                this.auditContext(request),
+            );
+            return { success: true, app: this.formatApp(app) };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to take app live');
+        }
+    }
+
+    /**
+     * Delete an app. Its users' wallets are deactivated and their
+     * sessions revoked; wallets are kept for fund recovery, and ENS roots
+     * stay reserved to the app.
+     */
+    @Delete('{appId}')
+    @SuccessResponse('200', 'App deleted')
+    public async deleteApp(
+        @Path() appId: string,
+        @Request() request: DeveloperRequest,
+    ): Promise<DeleteAppResponse> {
+        const { developer } = request.user;
+
+        try {
+            const result = await appService.deleteApp(
+                developer._id,
+                appId,
+                this.auditContext(request),
+            );
+            return { success: true, message: 'App deleted', ...result };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to delete app');
+        }
+    }
+
+    // Private helper methods
+
+    private formatApp(app: IApp): AppDetails {
+        return {
+            appId: app.appId,
+            name: app.name,
+            description: app.description,
+            redirectUrls: app.redirectUrls,
+            iconUrl: app.iconUrl,
+            emailLoginMode: app.emailLoginMode,
+            requireMfa: app.requireMfa,
+            tokenEndpointAuthMethod: app.tokenEndpointAuthMethod,
+            status: app.status,
+            statusReason: app.statusReason,
+            statusChangedAt: app.statusChangedAt?.toISOString(),
+            createdAt: app.createdAt.toISOString(),
+            updatedAt: app.updatedAt.toISOString(),
+        };
+    }
+
+    private auditContext(request: ExpressRequest): AuditContext {
+        return auditLogService.contextFromRequest(request);
+    }
+
+    private toApiError(error: unknown, message: string): ApiError {
+        console.error(`${message}:`, error);
+        if (error instanceof ApiError) {
+            return error;
+        }
+        if (error instanceof AppError) {
+            return new ApiError(
+                errorStatus[error.code] || 400,
+                error.code,
+                error.message,
+            );
+        }
+        return new ApiError(
+            500,
+            'APP_ERROR',
+            `${message}: ${
+                error instanceof Error ? error.message : 'Unknown error'
+            }`,
+        );
+    }
+}
+
+export default new AppController();
@@ -16,7 +16,9 @@ import { StellarServices } from '../services/stellar/stella-services';
 import { getChainConfig } from '../config/chains';
 import { CustomRequest } from '../utils/request';
 import { type Address } from 'viem';
-import { Wallet } from '../models/wallet-models';
+import keyCustodyService, {
+    KeyCustodyError,
+} from '../services/key-custody-service';
 
 import {
     BalanceResponse,
@@ -40,8 +42,8 @@ const exampleBalanceResponse: BalanceResponse = {
 
 @Route('balance')
 @Tags('Balance Service')
-@Security('app')
-@Security('bearer')
+@Security({ bearer: [], app: [] })
+@Security({ bearer: [], apiKey: ['balance'] })
 export class BalanceController extends Controller {
     private balanceService: BalanceService;
 
@@ -221,18 +223,16 @@ export class BalanceController extends Controller {
             chainName: string;
         }>;
     }> {
-        const walletAddress = req.user.wallet.address;
-        const wallet  = await Wallet.findOne({address: walletAddress});
-        const secretKey = wallet?.encryptedPrivateKey;
+        const {
+            _id: walletId,
+            address: walletAddress,
+            accountIndex,
+        } = req.user.wallet;
 
         if (!walletAddress) {
             throw new ApiError(400, 'MISSING_WALLET_ADDRESS', 'Wallet address is required');
         }
 
-        if (network === "stellar" && !secretKey) {
-            throw new ApiError(400, 'MISSING_SECRET_KEY', 'Secret key is required for stellar');
-        }
-
         try {
             if (network && network === "stellar") {
                 // Parse requested networks from query params
@@ -254,8 +254,15 @@ export class BalanceController extends Controller {
                     requestedNetworks = ['testnet', 'mainnet'];
                 }
                 
-                const stellarService = new StellarServices(secretKey as string, requestedNetworks);
-                const balances = await stellarService.getBalancesForAllNetworks();
+                const balances = await keyCustodyService.withDecryptedKey(
+                    walletId,
+                    (secretKey) =>
+                        new StellarServices(
+                            secretKey,
+                            requestedNetworks,
+                        ).getBalancesForAllNetworks(),
+                    accountIndex,
+                );
                 
                 return {
                     success: true,
@@ -299,6 +306,9 @@ export class BalanceController extends Controller {
             if (error instanceof ApiError) {
                 throw error;
             }
+            if (error instanceof KeyCustodyError) {
+                throw new ApiError(400, 'MISSING_SECRET_KEY', error.message);
+            }
             throw new ApiError(
                 500,
                 'BALANCES_ERROR',
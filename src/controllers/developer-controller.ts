@@ -0,0 +1,446 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Put,
+    Route,
+    Tags,
+    Body,
+    SuccessResponse,
+    Request,
+    Example,
+    Security,
+} from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { DeveloperRequest } from '../utils/request';
+import { ApiError } from '../utils/ApiError';
+import developerService, {
+    DeveloperError,
+    DeveloperSession,
+} from '../services/developer-service';
+import { IDeveloper } from '../models/developer.models';
+import auditLogService, { AuditContext } from '../services/audit-log-service';
+
+// Request interfaces
+interface RegisterDeveloperRequest {
+    name: string;
+    email: string;
+    /** 8 to 128 characters, not found in known breaches */
+    password: string;
+    companyName?: string;
+    website?: string;
+}
+
+interface VerifyDeveloperRequest {
+    email: string;
+    /** Code from the verification email */
+    otp: string;
+}
+
+interface DeveloperEmailRequest {
+    email: string;
+}
+
+interface DeveloperLoginRequest {
+    email: string;
+    password: string;
+}
+
+interface UpdateDeveloperProfileRequest {
+    name?: string;
+    companyName?: string;
+    website?: string;
+}
+
+interface ResetPasswordRequest {
+    /** Token from the reset link */
+    token: string;
+    /** 8 to 128 characters, not found in known breaches */
+    password: string;
+}
+
+// Response interfaces
+interface DeveloperProfile {
+    id: string;
+    name: string;
+    email: string;
+    companyName?: string | undefined;
+    website?: string | undefined;
+    emailVerified: boolean;
+    createdAt: string;
+}
+
+interface RegisterDeveloperResponse {
+    success: boolean;
+    message: string;
+    developer: DeveloperProfile;
+}
+
+interface DeveloperSessionResponse {
+    success: boolean;
+    message: string;
+    token: string;
+    expiresAt: string;
+    developer: DeveloperProfile;
+}
+
+interface DeveloperProfileResponse {
+    success: boolean;
+    developer: DeveloperProfile;
+}
+
+interface DeveloperMessageResponse {
+    success: boolean;
+    message: string;
+}
+
+const errorStatus: Record<string, number> = {
+    VALIDATION_ERROR: 400,
+    WEAK_PASSWORD: 400,
+    PASSWORD_BREACHED: 400,
+    INVALID_RESET_TOKEN: 400,
+    OTP_REQUIRED: 400,
+    OTP_EXPIRED: 400,
+    INVALID_OTP: 401,
+    INVALID_CREDENTIALS: 401,
+    EMAIL_NOT_VERIFIED: 403,
+    DEVELOPER_NOT_FOUND: 404,
+    EMAIL_TAKEN: 409,
+    ACCOUNT_LOCKED: 429,
+    OTP_LOCKED: 429,
+    RATE_LIMITED: 429,
+    RESEND_TOO_SOON: 429,
+    OTP_SEND_FAILED: 502,
+};
+
+/**
+ * Accounts for developers managing apps on the platform. Dashboard
+ * routes use `@Security('developer')` with the token from login.
+ */
+@Route('api/developers')
+@Tags('Developers')
+export class DeveloperController extends Controller {
+    /**
+     * Create a developer account and email a verification code
+     * @example requestBody {"name": "Ada Lovelace", "email": "ada@example.com", "password": "correct horse battery"}
+     */
+    @Post('register')
+    @SuccessResponse('201', 'Developer registered')
+    @Example<RegisterDeveloperResponse>({
+        success: true,
+        message: 'Check your email for a verification code',
+        developer: {
+            id: '665f1c2e8b3a4d0012345678',
+            name: 'Ada Lovelace',
+            email: 'ada@example.com',
+            companyName: 'Analytical Engines',
+            emailVerified: false,
+            createdAt: '2025-01-01T00:00:00.000Z',
+        },
+    })
+    public async register(
+        @Body() body: RegisterDeveloperRequest,
+        @Request() request: ExpressRequest,
+    ): Promise<RegisterDeveloperResponse> {
+        try {
+            const developer = await developerService.register(
+                body,
+                this.auditContext(request),
+            );
+            this.setStatus(201);
+            return {
+                success: true,
+                message: 'Check your email for a verification code',
+                developer: this.formatDeveloper(developer),
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to register developer');
+        }
+    }
+
+    /**
+     * Verify the email with the emailed code and log in
+     * @example requestBody {"email": "ada@example.com", "otp": "123456"}
+     */
+    @Post('verify')
+    @SuccessResponse('200', 'Email verified')
+    @Example<DeveloperSessionResponse>({
+        success: true,
+        message: 'Email verified',
+        token: 'jwt-token-here',
+        expiresAt: '2025-01-01T12:00:00.000Z',
+        developer: {
+            id: '665f1c2e8b3a4d0012345678',
+            name: 'Ada Lovelace',
+            email: 'ada@example.com',
+            companyName: 'Analytical Engines',
+            emailVerified: true,
+            createdAt: '2025-01-01T00:00:00.000Z',
+        },
+    })
+    public async verify(
+        @Body() body: VerifyDeveloperRequest,
+        @Request() request: ExpressRequest,
+    ): Promise<DeveloperSessionResponse> {
+        if (!body.otp) {
+            throw new ApiError(400, 'VALIDATION_ERROR', 'otp is required');
+        }
+
+        try {
+            const session = await developerService.verifyEmail(
+                body.email,
+                body.otp,
+                this.auditContext(request),
+            );
+            return this.formatSession(session, 'Email verified');
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to verify developer email');
+        }
+    }
+
+    /**
+     * Send a new verification code to an unverified account
+     * @example requestBody {"email": "ada@example.com"}
+     */
+    @Post('resend-verification')
+    @SuccessResponse('200', 'Verification code sent')
+    public async resendVerification(
+        @Body() body: DeveloperEmailRequest,
+        @Request() request: ExpressRequest,
+    ): Promise<DeveloperMessageResponse> {
+        try {
+            await developerService.resendVerification(
+                body.email,
+                this.auditContext(request),
+            );
+            return {
+                success: true,
+                message:
+                    'If the account is awaiting verification, a new code has been sent',
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to resend verification');
+        }
+    }
+
+    /**
+     * Log in with email and password
+     * @example requestBody {"email": "ada@example.com", "password": "correct horse battery"}
+     */
+    @Post('login')
+    @SuccessResponse('200', 'Logged in successfully')
+    @Example<DeveloperSessionResponse>({
+        success: true,
+        message: 'Logged in successfully',
+        token: 'jwt-token-here',
+        expiresAt: '2025-01-01T12:00:00.000Z',
+        developer: {
+            id: '665f1c2e8b3a4d0012345678',
+            name: 'Ada Lovelace',
+            email: 'ada@example.com',
+            companyName: 'Analytical Engines',
+            emailVerified: true,
+            createdAt: '2025-01-01T00:00:00.000Z',
+        },
+    })
+    public async login(
+        @Body() body: DeveloperLoginRequest,
+        @Request() request: ExpressRequest,
+    ): Promise<DeveloperSessionResponse> {
+        if (!body.password) {
+            throw new ApiError(400, 'VALIDATION_ERROR', 'password is required');
+        }
+
+        try {
+            const session = await developerService.login(
+                body.email,
+                body.password,
+                this.auditContext(request),
+            );
+            return this.formatSession(session, 'Logged in successfully');
+        } catch (error) {
+            throw this.toApiError(error, 'Developer login failed');
+        }
+    }
+
+    /**
+     * The logged-in developer's profile
+     */
+    @Get('profile')
+    @Security('developer')
+    @SuccessResponse('200', 'Profile retrieved')
+    @Example<DeveloperProfileResponse>({
+        success: true,
+        developer: {
+            id: '665f1c2e8b3a4d0012345678',
+            name: 'Ada Lovelace',
+            email: 'ada@example.com',
+            companyName: 'Analytical Engines',
+            emailVerified: true,
+            createdAt: '2025-01-01T00:00:00.000Z',
+        },
+    })
+    public async getProfile(
+        @Request() request: DeveloperRequest,
+    ): Promise<DeveloperProfileResponse> {
+        const { developer } = request.user;
+
+        return {
+            success: true,
+            developer: {
+                id: developer._id,
+                name: developer.name,
+                email: developer.email,
+                companyName: developer.companyName,
+                website: developer.website,
+                emailVerified: true,
+                createdAt: new Date(developer.createdAt).toISOString(),
+            },
+        };
+    }
+
+    /**
+     * Update the name, company or website
+     * @example requestBody {"companyName": "Analytical Engines"}
+     */
+    @Put('profile')
+    @Security('developer')
+    @SuccessResponse('200', 'Profile updated')
+    @Example<DeveloperProfileResponse>({
+        success: true,
+        developer: {
+            id: '665f1c2e8b3a4d0012345678',
+            name: 'Ada Lovelace',
+            email: 'ada@example.com',
+            companyName: 'Analytical Engines',
+            emailVerified: true,
+            createdAt: '2025-01-01T00:00:00.000Z',
+        },
+    })
+    public async updateProfile(
+        @Body() body: UpdateDeveloperProfileRequest,
+        @Request() request: DeveloperRequest,
+    ): Promise<DeveloperProfileResponse> {
+        const { developer } = request.user;
+
+        try {
+            const updated = await developerService.updateProfile(
+                developer._id,
+                body,
+            );
+            return { success: true, developer: this.formatDeveloper(updated) };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to update profile');
+        }
+    }
+
+    /**
+     * Email a password reset link. The response is the same whether or
+     * not the account exists.
+     * @example requestBody {"email": "ada@example.com"}
+     */
+    @Post('password/forgot')
+    @SuccessResponse('200', 'Reset link sent')
+    public async forgotPassword(
+        @Body() body: DeveloperEmailRequest,
+        @Request() request: ExpressRequest,
+    ): Promise<DeveloperMessageResponse> {
+        try {
+            await developerService.requestPasswordReset(
+                body.email,
+                this.auditContext(request),
+            );
+            return {
+                success: true,
+                message:
+                    'If an account exists for this email, a reset link has been sent',
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to request password reset');
+        }
+    }
+
+    /**
+     * Set a new password with the token from the reset link. Existing
+     * dashboard tokens stop working.
+     * @example requestBody {"token": "reset-token-here", "password": "new correct horse"}
+     */
+    @Post('password/reset')
+    @SuccessResponse('200', 'Password reset')
+    public async resetPassword(
+        @Body() body: ResetPasswordRequest,
+        @Request() request: ExpressRequest,
+    ): Promise<DeveloperMessageResponse> {
+        if (!body.token) {
+            throw new ApiError(400, 'VALIDATION_ERROR', 'token is required');
+        }
+
+        try {
+            await developerService.resetPassword(
+                body.token,
+                body.password,
+                this.auditContext(request),
+            );
+            return {
+                success: true,
+                message: 'Password has been reset. Log in again.',
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to reset password');
+        }
+    }
+
+    // Private helper methods
+
+    private formatDeveloper(developer: IDeveloper): DeveloperProfile {
+        return {
+            id: developer._id.toString(),
+            name: developer.name,
+            email: developer.email,
+            companyName: developer.companyName,
+            website: developer.website,
+            emailVerified: developer.isActive,
+            createdAt: developer.createdAt.toISOString(),
+        };
+    }
+
+    private formatSession(
+        session: DeveloperSession,
+        message: string,
+    ): DeveloperSessionResponse {
+        return {
+            success: true,
+            message,
+            token: session.token,
+            expiresAt: session.expiresAt.toISOString(),
+            developer: this.formatDeveloper(session.developer),
+        };
+    }
+
+    private auditContext(request: ExpressRequest): AuditContext {
+        return auditLogService.contextFromRequest(request);
+    }
+
+    private toApiError(error: unknown, message: string): ApiError {
+        console.error(`${message}:`, error);
+        if (error instanceof ApiError) {
+            return error;
+        }
+        if (error instanceof DeveloperError) {
+            return new ApiError(
+                errorStatus[error.code] || 400,
+                error.code,
+                error.message,
+            );
+        }
+        return new ApiError(
+            500,
+            'DEVELOPER_ERROR',
+            `${message}: ${
+                error instanceof Error ? error.message : 'Unknown error'
+            }`,
+        );
+    }
+}
+
+export default new DeveloperController();
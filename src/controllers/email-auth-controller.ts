@@ -1,27 +1,36 @@
 import {
     Controller,
+    Get,
     Post,
     Route,
     Tags,
     Body,
+    Query,
     SuccessResponse,
     Request,
     Example,
     Security,
+    Consumes,
 } from 'tsoa';
 import { Request as ExpressRequest } from 'express';
-import crypto from 'crypto';
-import { Wallet } from '../models/wallet-models';
+import { AppRequest } from '../utils/request';
+import { Readable } from 'stream';
+import { IWallet, Wallet, identityFilter } from '../models/wallet-models';
 import { ApiError } from '../utils/ApiError';
-import {
-    generateJWT,
-    verifyJWT,
-    generateOTP,
-    expireOTP,
-    validateEmail,
-} from '../utils/auth';
+import { verifyJWT, validateEmail } from '../utils/auth';
 import walletService, { BlockchainNetwork } from '../services/wallet-service';
-import emailService from '../config/email-config';
+import keyCustodyService from '../services/key-custody-service';
+import sessionService from '../services/session-service';
+import auditLogService from '../services/audit-log-service';
+import otpService, { OtpError, OtpTarget } from '../services/otp-service';
+import mfaService, {
+    LoginOutcome,
+    MFA_PENDING_SCOPE,
+} from '../services/mfa-service';
+import magicLinkService, {
+    MagicLinkError,
+} from '../services/magic-link-service';
+import { EmailLoginMode } from '../models/app-models';
 
 // Request interfaces
 interface EmailLoginRequest {
@@ -33,6 +42,7 @@ interface VerifyOTPRequest {
     email: string;
     otp: string;
     network?: BlockchainNetwork;
+    deviceName?: string; // Shown in the session list
 }
 
 interface ResendOTPRequest {
@@ -40,6 +50,19 @@ interface ResendOTPRequest {
     network?: BlockchainNetwork;
 }
 
+interface MagicLinkRequest {
+    email: string;
+    network?: BlockchainNetwork;
+    /** One of the app's redirect URLs; defaults to the first */
+    redirectUrl?: string;
+}
+
+interface MagicLinkTokenRequest {
+    /** The code the link redirected back with */
+    code: string;
+    deviceName?: string; // Shown in the session list
+}
+
 // Response interfaces
 interface EmailLoginResponse {
     success: boolean;
@@ -60,6 +83,13 @@ interface VerifyOTPResponse {
     };
     isActive?: boolean;
     token?: string;
+    refreshToken?: string;
+    refreshTokenExpiresAt?: string;
+    /** Set when a TOTP code is needed; call /auth/mfa with mfaToken */
+    mfaRequired?: boolean;
+    mfaEnrolled?: boolean;
+    mfaToken?: string;
+    mfaTokenExpiresAt?: string;
 }
 
 interface ResendOTPResponse {
@@ -67,9 +97,35 @@ interface ResendOTPResponse {
     message: string;
 }
 
+interface MagicLinkConfirmRequest {
+    token: string;
+    appId?: string; // Read by the app security scheme
+}
+
+interface MagicLinkResponse {
+    success: boolean;
+    message: string;
+    walletExists: boolean;
+    expiresAt: string;
+    network: BlockchainNetwork;
+}
+
+const errorStatus: Record<string, number> = {
+    OTP_LOCKED: 429,
+    RATE_LIMITED: 429,
+    RESEND_TOO_SOON: 429,
+    INVALID_LINK: 401,
+    LINK_USED: 401,
+    INVALID_CODE: 401,
+    WALLET_NOT_FOUND: 404,
+    OTP_SEND_FAILED: 500,
+    EMAIL_SEND_FAILED: 500,
+};
+
 @Route('auth/email')
 @Tags('Email Authentication')
 @Security('app')
+@Security('apiKey', ['auth'])
 export class EmailAuthController extends Controller {
     /**
      * Login or register with email
@@ -86,6 +142,7 @@ export class EmailAuthController extends Controller {
         network: BlockchainNetwork.STELLAR,
     })
     @Security('app')
+    @Security('apiKey', ['auth'])
     public async emailLogin(
         @Body() body: EmailLoginRequest,
         @Request() request: ExpressRequest,
@@ -95,6 +152,7 @@ export class EmailAuthController extends Controller {
         const token = request.header('Authorization')?.replace('Bearer ', '');
 
         this.validateEmailInput(email);
+        this.assertLoginMode(app, 'otp');
 
         const normalizedEmail = email.toLowerCase();
         const existingWallet = await this.findWalletByEmailAndNetwork(
@@ -115,16 +173,8 @@ export class EmailAuthController extends Controller {
             };
         }
 
-        const otp = generateOTP();
-        const otpExpiry = expireOTP(otp);
-
         if (existingWallet) {
-            await this.handleExistingWallet(
-                existingWallet,
-                otp,
-                otpExpiry,
-                normalizedEmail,
-            );
+            await this.sendOTP(existingWallet, normalizedEmail, request);
             return {
                 success: true,
                 message: 'OTP sent to email for verification',
@@ -134,13 +184,12 @@ export class EmailAuthController extends Controller {
             };
         }
 
-        await this.handleNewWallet(
+        const wallet = await this.createWallet(
             normalizedEmail,
             app.appId,
-            otp,
-            otpExpiry,
             network,
         );
+        await this.sendOTP(wallet, normalizedEmail, request);
         return {
             success: true,
             message: 'OTP sent to email for verification',
@@ -162,12 +211,13 @@ export class EmailAuthController extends Controller {
         data: {
             walletAddress: 'GABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789ABCDEF',
             socialType: 'email',
-            userData:
-                '{"email":"user@example.com","network":"stellar","secret":"S..."}',
+            userData: '{"email":"user@example.com","network":"stellar"}',
             network: BlockchainNetwork.STELLAR,
         },
         isActive: true,
         token: 'jwt-token-here',
+        refreshToken: '665f1c2e8b3a4d0012345678.q7Z9...',
+        refreshTokenExpiresAt: '2025-01-08T00:00:00.000Z',
     })
     public async verifyOTP(
         @Body() body: VerifyOTPRequest,
@@ -177,6 +227,7 @@ export class EmailAuthController extends Controller {
         const { email, otp, network = BlockchainNetwork.EVM } = body;
 
         this.validateEmailInput(email);
+        this.assertLoginMode(app, 'otp');
 
         const normalizedEmail = email.toLowerCase();
         const wallet = await this.findWalletByEmailAndNetwork(
@@ -204,21 +255,27 @@ export class EmailAuthController extends Controller {
             };
         }
 
-        this.validateOTP(wallet, otp);
+        await this.verifyWalletOTP(wallet, normalizedEmail, otp);
         await this.activateWallet(wallet);
 
-        const newToken = generateJWT({
-            address: wallet.address,
-            network: wallet.network, // Include network in JWT
-        });
+        const walletId = String(wallet._id);
+        const login = await mfaService.completeLogin(
+            {
+                _id: walletId,
+                appId: wallet.appId,
+                address: wallet.address,
+                network: wallet.network,
+            },
+            {
+                ...auditLogService.contextFromRequest(request, {
+                    walletId,
+                    appId: app.appId,
+                }),
+                deviceName: body.deviceName,
+            },
+        );
 
-        return {
-            success: true,
-            message: 'Wallet verified successfully',
-            data: this.formatWalletData(wallet),
-            isActive: true,
-            token: newToken,
-        };
+        return this.formatLogin(wallet, login);
     }
 
     /**
@@ -238,6 +295,9 @@ export class EmailAuthController extends Controller {
         const { app } = (request as any).user;
         const { email, network = BlockchainNetwork.EVM } = body;
 
+        this.validateEmailInput(email);
+        this.assertLoginMode(app, 'otp');
+
         const normalizedEmail = email.toLowerCase();
         const wallet = await this.findWalletByEmailAndNetwork(
             normalizedEmail,
@@ -249,11 +309,7 @@ export class EmailAuthController extends Controller {
             throw new ApiError(404, 'WALLET_NOT_FOUND', 'Wallet not found');
         }
 
-        const otp = generateOTP();
-        const otpExpiry = expireOTP(otp);
-
-        await this.updateWalletOTP(wallet, otp, otpExpiry);
-        await this.sendOTPEmail(normalizedEmail, otp.toString());
+        await this.sendOTP(wallet, normalizedEmail, request);
 
         return {
             success: true,
@@ -261,6 +317,170 @@ export class EmailAuthController extends Controller {
         };
     }
 
+    /**
+     * Login or register with a one-click link instead of a code, for apps
+     * that allow it. The link opens a confirmation page that redirects to
+     * the app with a code for /auth/email/magic-link/token.
+     * @example requestBody {"email": "user@example.com", "network": "evm", "redirectUrl": "https://example.com/callback"}
+     */
+    @Post('magic-link')
+    @SuccessResponse('200', 'Login link sent')
+    @Example<MagicLinkResponse>({
+        success: true,
+        message: 'Login link sent to email',
+        walletExists: true,
+        expiresAt: '2025-01-01T00:15:00.000Z',
+        network: BlockchainNetwork.EVM,
+    })
+    public async sendMagicLink(
+        @Body() body: MagicLinkRequest,
+        @Request() request: AppRequest,
+    ): Promise<MagicLinkResponse> {
+        const { app } = request.user;
+        const { email, network = BlockchainNetwork.EVM } = body;
+
+        this.validateEmailInput(email);
+        this.assertLoginMode(app, 'link');
+
+        const normalizedEmail = email.toLowerCase();
+        const existingWallet = await this.findWalletByEmailAndNetwork(
+            normalizedEmail,
+            app.appId,
+            network,
+        );
+        const wallet =
+            existingWallet ||
+            (await this.createWallet(normalizedEmail, app.appId, network));
+
+        try {
+            const { expiresAt } = await magicLinkService.send(
+                app,
+                String(wallet._id),
+                normalizedEmail,
+                body.redirectUrl,
+                auditLogService.contextFromRequest(request, {
+                    appId: app.appId,
+                }),
+            );
+
+            return {
+                success: true,
+                message: 'Login link sent to email',
+                walletExists: !!existingWallet,
+                expiresAt: expiresAt.toISOString(),
+                network,
+            };
+        } catch (error) {
+            throw this.toApiError(error);
+        }
+    }
+
+    /**
+     * Target of the emailed link. Only checks the link and returns a page
+     * where the user confirms the login, so mail scanners and link
+     * previews fetching the URL don't use it up.
+     */
+    @Get('magic-link/callback')
+    @SuccessResponse('200', 'Confirmation page', 'text/html')
+    public async magicLinkCallback(
+        @Query() token: string,
+        @Request() request: AppRequest,
+    ): Promise<Readable> {
+        const { app } = request.user;
+
+        this.assertLoginMode(app, 'link');
+
+        try {
+            await magicLinkService.check(app.appId, token);
+        } catch (error) {
+            throw this.toApiError(error);
+        }
+
+        this.setHeader('Content-Type', 'text/html; charset=utf-8');
+        this.setHeader('Cache-Control', 'no-store');
+        this.setHeader('Referrer-Policy', 'no-referrer');
+        return Readable.from([this.magicLinkPage(app.name, app.appId, token)]);
+    }
+
+    /**
+     * Posted by the confirmation page. Consumes the link and redirects to
+     * the app's redirect URL with a one-time code.
+     */
+    @Post('magic-link/callback')
+    @Consumes('application/x-www-form-urlencoded')
+    @SuccessResponse('303', 'Redirect to the app with a code')
+    public async confirmMagicLink(
+        @Body() body: MagicLinkConfirmRequest,
+        @Request() request: AppRequest,
+    ): Promise<void> {
+        const { app } = request.user;
+
+        this.assertLoginMode(app, 'link');
+
+        try {
+            const redirectUrl = await magicLinkService.redeem(
+                app.appId,
+                body.token,
+                auditLogService.contextFromRequest(request, {
+                    appId: app.appId,
+                }),
+            );
+            this.setStatus(303);
+            this.setHeader('Location', redirectUrl);
+        } catch (error) {
+            throw this.toApiError(error);
+        }
+    }
+
+    /**
+     * Exchange the code from a login link redirect for tokens
+     * @example requestBody {"code": "q7Z9xK2mN4pR8sT1vW3yA5bC6dE0fG"}
+     */
+    @Post('magic-link/token')
+    @SuccessResponse('200', 'Wallet verified successfully')
+    @Example<VerifyOTPResponse>({
+        success: true,
+        message: 'Wallet verified successfully',
+        data: {
+            walletAddress: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0',
+            socialType: 'email',
+            userData: '{"email":"user@example.com","network":"evm"}',
+            network: BlockchainNetwork.EVM,
+        },
+        isActive: true,
+        token: 'jwt-token-here',
+        refreshToken: '665f1c2e8b3a4d0012345678.q7Z9...',
+        refreshTokenExpiresAt: '2025-01-08T00:00:00.000Z',
+    })
+    public async exchangeMagicLinkCode(
+        @Body() body: MagicLinkTokenRequest,
+        @Request() request: AppRequest,
+    ): Promise<VerifyOTPResponse> {
+        const { app } = request.user;
+
+        if (!body.code) {
+            throw new ApiError(400, 'VALIDATION_ERROR', 'code is required');
+        }
+        this.assertLoginMode(app, 'link');
+
+        try {
+            const { wallet, login } = await magicLinkService.exchange(
+                app.appId,
+                body.code,
+                {
+                    ...auditLogService.contextFromRequest(request, {
+                        appId: app.appId,
+                    }),
+                    deviceName: body.deviceName,
+                },
+            );
+
+            return this.formatLogin(wallet, login);
+        } catch (error) {
+            throw this.toApiError(error);
+        }
+    }
+
     // Private helper methods
 
     private validateEmailInput(email: string): void {
@@ -273,129 +493,216 @@ export class EmailAuthController extends Controller {
         }
     }
 
+    /**
+     * Apps choose whether their users log in with codes, links or both
+     */
+    private assertLoginMode(
+        app: { emailLoginMode?: EmailLoginMode },
+        method: 'otp' | 'link',
+    ): void {
+        const mode = app.emailLoginMode || 'otp';
+        if (mode !== 'both' && mode !== method) {
+            throw new ApiError(
+                403,
+                'LOGIN_METHOD_DISABLED',
+                method === 'otp'
+                    ? 'This app logs in with email links, not codes'
+                    : 'This app logs in with email codes, not links',
+            );
+        }
+    }
+
     private async findWalletByEmailAndNetwork(
         email: string,
         appId: string,
         network: BlockchainNetwork = BlockchainNetwork.EVM,
     ) {
         return await Wallet.findOne({
-            email,
-            socialType: 'email',
             appId,
             network,
+            ...identityFilter('email', email),
         });
     }
 
+    /**
+     * Page with a button posting the link back to the callback. It has
+     * no script, so nothing submits it but the user.
+     */
+    private magicLinkPage(
+        appName: string,
+        appId: string,
+        token: string,
+    ): string {
+        const escape = (value: string) =>
+            value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Log in to ${escape(appName)}</title>
+</head>
+<body>
+<form method="post" action="callback">
+<input type="hidden" name="appId" value="${escape(appId)}">
+<input type="hidden" name="token" value="${escape(token)}">
+<button type="submit">Continue to ${escape(appName)}</button>
+</form>
+</body>
+</html>
+`;
+    }
+
+    /**
+     * Tokens for a completed login, or the limited token when the wallet
+     * still has to pass its second factor
+     */
+    private formatLogin(
+        wallet: IWallet,
+        login: LoginOutcome,
+    ): VerifyOTPResponse {
+        if ('mfa' in login) {
+            return {
+                success: true,
+                message: 'Second factor required',
+                data: this.formatWalletData(wallet),
+                isActive: true,
+                mfaRequired: true,
+                mfaEnrolled: login.mfa.enrolled,
+                mfaToken: login.mfa.mfaToken,
+                mfaTokenExpiresAt: login.mfa.expiresAt.toISOString(),
+            };
+        }
+
+        return {
+            success: true,
+            message: 'Wallet verified successfully',
+            data: this.formatWalletData(wallet),
+            isActive: true,
+            token: login.session.accessToken,
+            refreshToken: login.session.refreshToken,
+            refreshTokenExpiresAt:
+                login.session.refreshTokenExpiresAt.toISOString(),
+        };
+    }
+
     private async isValidTokenForWallet(
         token: string,
         wallet: any,
     ): Promise<boolean> {
         try {
-            const decoded = verifyJWT(token);
+            const decoded = await verifyJWT(token, {
+                audience: wallet.appId,
+            });
             return (
                 wallet &&
+                decoded.sub === String(wallet._id) &&
                 wallet.address === decoded.address &&
                 wallet.network === decoded.network &&
-                wallet.isActive
+                wallet.isActive &&
+                decoded.scope !== MFA_PENDING_SCOPE &&
+                (!decoded.sid ||
+                    (await sessionService.isSessionActive(decoded.sid)))
             );
         } catch (error) {
             return false;
         }
     }
 
-    private async handleExistingWallet(
-        wallet: any,
-        otp: number,
-        otpExpiry: Date,
-        email: string,
-    ): Promise<void> {
-        await this.updateWalletOTP(wallet, otp, otpExpiry);
-        await this.sendOTPEmail(email, otp.toString());
-    }
-
-    private async handleNewWallet(
+    private async createWallet(
         email: string,
         appId: string,
-        otp: number,
-        otpExpiry: Date,
         network: BlockchainNetwork = BlockchainNetwork.EVM,
-    ): Promise<void> {
+    ) {
         const walletInfo = await walletService.generateWallet(network);
-        const encryptionSalt = crypto.randomBytes(16).toString('hex');
-
-        // Prepare userData based on network
-        const userData: any = {
+        const { encryptedPrivateKey, encryptionSalt, keyVersion } =
+            await keyCustodyService.sealPrivateKey(walletInfo.privateKey);
+        // Keep the seed so further HD accounts can be derived later
+        const seed = walletInfo.mnemonic
+            ? await keyCustodyService.sealSeed(
+                  walletInfo.mnemonic,
+                  encryptionSalt,
+              )
+            : null;
+
+        // Secrets are held only in the encrypted key, never in userData
+        const userData = {
             email,
             network,
         };
 
-        // Add network-specific data
-        if (network === BlockchainNetwork.STELLAR && walletInfo.secret) {
-            userData.secret = walletInfo.secret;
-            // For Stellar, we might want to store the secret more securely
-            // Consider encrypting it separately
-        }
-
         const walletData = {
             appId,
             email,
             socialType: 'email',
             address: walletInfo.address,
             publicKey: walletInfo.publicKey,
-            encryptedPrivateKey: walletInfo.privateKey,
+            encryptedPrivateKey,
             encryptionSalt,
+            keyVersion,
+            ...(seed && { encryptedSeed: seed.encryptedSeed }),
             userData: JSON.stringify(userData),
             isActive: false,
-            otp: otp.toString(),
-            otpExpiry,
             network,
         };
 
-        await Wallet.create(walletData);
-        await this.sendOTPEmail(email, otp.toString());
-    }
-
-    private async updateWalletOTP(
-        wallet: any,
-        otp: number,
-        otpExpiry: Date,
-    ): Promise<void> {
-        wallet.otp = otp.toString();
-        wallet.otpExpiry = otpExpiry;
-        await wallet.save();
+        return await Wallet.create(walletData);
     }
 
     private async activateWallet(wallet: any): Promise<void> {
         wallet.isActive = true;
-        wallet.otp = undefined;
-        wallet.otpExpiry = undefined;
         await wallet.save();
     }
 
-    private async sendOTPEmail(email: string, otp: string): Promise<void> {
-        const emailSent = await emailService.sendOTP(email, {
-            name: 'User',
-            otp,
-            expiryMinutes: 10,
-        });
+    private otpTarget(wallet: IWallet, email: string): OtpTarget {
+        return {
+            purpose: 'login',
+            appId: wallet.appId,
+            identifier: email,
+            walletId: String(wallet._id),
+        };
+    }
 
-        if (!emailSent) {
-            throw new ApiError(
-                500,
-                'EMAIL_SEND_FAILED',
-                'Failed to send OTP email',
+    private async sendOTP(
+        wallet: IWallet,
+        email: string,
+        request: ExpressRequest,
+    ): Promise<void> {
+        try {
+            await otpService.send(
+                this.otpTarget(wallet, email),
+                'email',
+                request.ip,
             );
+        } catch (error) {
+            throw this.toApiError(error);
         }
     }
 
-    private validateOTP(wallet: any, otp: string): void {
-        if (wallet.otp !== otp) {
-            throw new ApiError(400, 'INVALID_OTP', 'Invalid OTP');
+    private async verifyWalletOTP(
+        wallet: IWallet,
+        email: string,
+        otp: string,
+    ): Promise<void> {
+        try {
+            await otpService.verify(this.otpTarget(wallet, email), otp);
+        } catch (error) {
+            throw this.toApiError(error);
         }
+    }
 
-        if (wallet.otpExpiry && wallet.otpExpiry < new Date()) {
-            throw new ApiError(400, 'OTP_EXPIRED', 'OTP expired');
+    private toApiError(error: unknown): unknown {
+        if (error instanceof OtpError || error instanceof MagicLinkError) {
+            return new ApiError(
+                errorStatus[error.code] || 400,
+                error.code === 'OTP_SEND_FAILED'
+                    ? 'EMAIL_SEND_FAILED'
+                    : error.code,
+                error.message,
+            );
         }
+        return error;
     }
 
     private formatWalletData(wallet: any) {
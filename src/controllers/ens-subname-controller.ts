@@ -11,14 +11,18 @@ import {
     Example,
     Security,
     Response,
+    Middlewares,
 } from 'tsoa';
 import { ApiError } from '../utils/ApiError';
+import { requireStepUp } from '../middleware/step-up';
 import { Request as ExpressRequest } from 'express';
 import ENSSubnameService, {
     createSepoliaENSSubnameService,
 } from '../services/ens-subname-service';
 import { createWalletClient, http, WalletClient } from 'viem';
-import { Wallet } from '../models/wallet-models';
+import keyCustodyService, {
+    KeyCustodyError,
+} from '../services/key-custody-service';
 import { privateKeyToAccount } from 'viem/accounts';
 import { IWalletLean } from '../types';
 import { sepolia } from 'viem/chains';
@@ -78,8 +82,8 @@ interface ServiceStatusResponse {
 
 @Route('/ens/subnames')
 @Tags('Ens Subname Service')
-@Security('app')
-@Security('bearer')
+@Security({ bearer: [], app: [] })
+@Security({ bearer: [], apiKey: ['ens'] })
 export class ENSSubnameController extends Controller {
     private ensService: ENSSubnameService;
 
@@ -153,6 +157,7 @@ export class ENSSubnameController extends Controller {
      * @example requestBody {"label":  "myname"}
      */
     @Post('claim')
+    @Middlewares(requireStepUp)
     @SuccessResponse('200', 'Subname claimed successfully')
     @Example<ClaimSubnameResponse>({
         success: true,
@@ -167,58 +172,52 @@ export class ENSSubnameController extends Controller {
         @Body() body: ClaimSubnameRequest,
         @Request() request: ExpressRequest,
     ): Promise<ClaimSubnameResponse> {
-        const { wallet: basicWallet } = (request as any).user;
+        const { wallet } = (request as any).user;
         const { label } = body;
 
         this.validateLabelInput(label);
 
-        const completeWallet = await Wallet.findOne({
-            address: basicWallet.address,
-        }).select('+encryptedPrivateKey +encryptionSalt');
-
         try {
-            if (completeWallet?.encryptedPrivateKey) {
-                const account = privateKeyToAccount(
-                    completeWallet.encryptedPrivateKey as `0x${string}`,
-                );
-
-                const sepoliaRpcUrl =
-                    process.env.ETHEREUM_SEPOLIA_RPC_URL ||
-                    'https://rpc.sepolia.org';
+            const result = await keyCustodyService.withDecryptedKey(
+                wallet._id,
+                (privateKey) => {
+                    const account = privateKeyToAccount(
+                        privateKey as `0x${string}`,
+                    );
 
-                const walletClient = createWalletClient({
-                    account,
-                    chain: sepolia,
-                    transport: http(sepoliaRpcUrl),
-                });
+                    const sepoliaRpcUrl =
+                        process.env.ETHEREUM_SEPOLIA_RPC_URL ||
+                        'https://rpc.sepolia.org';
 
-                // FIX: Initialize the service with the wallet client
-                this.ensService.setWalletClient(walletClient);
+                    const walletClient = createWalletClient({
+                        account,
+                        chain: sepolia,
+                        transport: http(sepoliaRpcUrl),
+                    });
 
-                const result = await this.ensService.claimSubnameWithPrivateKey(
-                    label,
-                    completeWallet.encryptedPrivateKey as `0x${string}`,
-                );
+                    // FIX: Initialize the service with the wallet client
+                    this.ensService.setWalletClient(walletClient);
 
-                if (result.success) {
-                    return {
-                        success: true,
-                        message: 'Subname claimed successfully on Sepolia',
-                        node: result.node,
-                        transactionHash: result.transactionHash,
-                    };
-                } else {
-                    throw new ApiError(
-                        400,
-                        'CLAIM_FAILED',
-                        result.error || 'Failed to claim subname',
+                    return this.ensService.claimSubnameWithPrivateKey(
+                        label,
+                        privateKey as `0x${string}`,
                     );
-                }
+                },
+                wallet.accountIndex,
+            );
+
+            if (result.success) {
+                return {
+                    success: true,
+                    message: 'Subname claimed successfully on Sepolia',
+                    node: result.node,
+                    transactionHash: result.transactionHash,
+                };
             } else {
                 throw new ApiError(
                     400,
-                    'WALLET_ERROR',
-                    'No wallet found or private key not available',
+                    'CLAIM_FAILED',
+                    result.error || 'Failed to claim subname',
                 );
             }
         } catch (error) {
@@ -226,6 +225,9 @@ export class ENSSubnameController extends Controller {
             if (error instanceof ApiError) {
                 throw error;
             }
+            if (error instanceof KeyCustodyError) {
+                throw new ApiError(400, 'WALLET_ERROR', error.message);
+            }
             throw new ApiError(
                 500,
                 'CLAIM_ERROR',
@@ -0,0 +1,378 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Delete,
+    Route,
+    Tags,
+    Body,
+    Path,
+    SuccessResponse,
+    Request,
+    Example,
+    Security,
+} from 'tsoa';
+import { CustomRequest } from '../utils/request';
+import { ApiError } from '../utils/ApiError';
+import identityService, {
+    IdentityError,
+    OtpIdentityType,
+} from '../services/identity-service';
+import { SocialLoginError } from '../services/social-login-service';
+import { SocialProviderError } from '../services/social/social-provider';
+import { SiweError } from '../services/siwe-service';
+import auditLogService, { AuditContext } from '../services/audit-log-service';
+import { IWalletIdentity } from '../models/wallet-models';
+
+// Request interfaces
+interface LinkOtpRequest {
+    type: OtpIdentityType;
+    /** Email address or phone number in international format */
+    value: string;
+}
+
+interface VerifyLinkRequest {
+    type: OtpIdentityType;
+    value: string;
+    otp: string;
+}
+
+interface LinkSocialRequest {
+    /** ID token the client obtained from the provider (Google, Apple) */
+    idToken?: string;
+    nonce?: string;
+    /** Or an authorization code for the server to exchange */
+    code?: string;
+    redirectUri?: string;
+    codeVerifier?: string;
+}
+
+interface LinkSiweRequest {
+    /** EIP-4361 message carrying a nonce from /auth/siwe/nonce */
+    message: string;
+    signature: string;
+}
+
+interface SetPrimaryRequest {
+    type: string;
+    value: string;
+}
+
+// Response interfaces
+interface IdentityData {
+    type: string;
+    value: string;
+    primary: boolean;
+    linkedAt: string;
+}
+
+interface IdentitiesResponse {
+    success: boolean;
+    identities: IdentityData[];
+}
+
+interface LinkOtpResponse {
+    success: boolean;
+    message: string;
+    expiresAt: string;
+}
+
+const errorStatus: Record<string, number> = {
+    RATE_LIMITED: 429,
+    OTP_LOCKED: 429,
+    RESEND_TOO_SOON: 429,
+    WALLET_NOT_FOUND: 404,
+    IDENTITY_NOT_FOUND: 404,
+    PROVIDER_NOT_SUPPORTED: 404,
+    IDENTITY_IN_USE: 409,
+    IDENTITY_ALREADY_LINKED: 409,
+    CONFLICT: 409,
+    INVALID_OTP: 401,
+    INVALID_ID_TOKEN: 401,
+    CODE_EXCHANGE_FAILED: 401,
+    INVALID_SIGNATURE: 401,
+    INVALID_NONCE: 401,
+    MESSAGE_EXPIRED: 401,
+    OTP_SEND_FAILED: 500,
+    PROVIDER_ERROR: 502,
+};
+
+@Route('auth/identities')
+@Tags('Identities')
+@Security('bearer')
+export class IdentityController extends Controller {
+    /**
+     * List the identities the wallet logs in with, primary first
+     */
+    @Get()
+    @SuccessResponse('200', 'Identities retrieved successfully')
+    @Example<IdentitiesResponse>({
+        success: true,
+        identities: [
+            {
+                type: 'email',
+                value: 'user@example.com',
+                primary: true,
+                linkedAt: '2025-01-01T00:00:00.000Z',
+            },
+            {
+                type: 'sms',
+                value: '+1234567890',
+                primary: false,
+                linkedAt: '2025-01-02T00:00:00.000Z',
+            },
+        ],
+    })
+    public async listIdentities(
+        @Request() request: CustomRequest,
+    ): Promise<IdentitiesResponse> {
+        const { wallet } = request.user;
+
+        try {
+            const identities = await identityService.listIdentities(wallet._id);
+            return this.formatIdentities(identities);
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to list identities');
+        }
+    }
+
+    /**
+     * Send a code to an email address or phone number to link it
+     * @example requestBody {"type": "sms", "value": "+1234567890"}
+     */
+    @Post('otp')
+    @SuccessResponse('200', 'Code sent')
+    @Example<LinkOtpResponse>({
+        success: true,
+        message: 'Code sent to +1234567890',
+        expiresAt: '2025-01-01T00:10:00.000Z',
+    })
+    public async requestLinkOtp(
+        @Body() body: LinkOtpRequest,
+        @Request() request: CustomRequest,
+    ): Promise<LinkOtpResponse> {
+        const { wallet } = request.user;
+
+        if (!body.type || !body.value) {
+            throw new ApiError(
+                400,
+                'VALIDATION_ERROR',
+                'type and value are required',
+            );
+        }
+
+        try {
+            const { expiresAt } = await identityService.requestLinkOtp(
+                wallet._id,
+                body.type,
+                body.value,
+                this.getContext(request),
+            );
+            return {
+                success: true,
+                message: `Code sent to ${body.value}`,
+                expiresAt: expiresAt.toISOString(),
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to send link code');
+        }
+    }
+
+    /**
+     * Link an email address or phone number with the code sent to it
+     * @example requestBody {"type": "sms", "value": "+1234567890", "otp": "123456"}
+     */
+    @Post('verify')
+    @SuccessResponse('200', 'Identity linked')
+    public async verifyLink(
+        @Body() body: VerifyLinkRequest,
+        @Request() request: CustomRequest,
+    ): Promise<IdentitiesResponse> {
+        const { wallet } = request.user;
+
+        if (!body.type || !body.value || !body.otp) {
+            throw new ApiError(
+                400,
+                'VALIDATION_ERROR',
+                'type, value and otp are required',
+            );
+        }
+
+        try {
+            const identities = await identityService.linkWithOtp(
+                wallet._id,
+                body.type,
+                body.value,
+                body.otp,
+                this.getContext(request),
+            );
+            return this.formatIdentities(identities);
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to link identity');
+        }
+    }
+
+    /**
+     * Link a social login. Send the provider's ID token, or an
+     * authorization code with its redirect URI.
+     * @example requestBody {"idToken": "eyJhbGciOiJSUzI1NiIs..."}
+     */
+    @Post('social/{provider}')
+    @SuccessResponse('200', 'Identity linked')
+    public async linkSocial(
+        @Path() provider: string,
+        @Body() body: LinkSocialRequest,
+        @Request() request: CustomRequest,
+    ): Promise<IdentitiesResponse> {
+        const { wallet } = request.user;
+
+        try {
+            const identities = await identityService.linkSocial(
+                wallet._id,
+                provider,
+                body,
+                this.getContext(request),
+            );
+            return this.formatIdentities(identities);
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to link social login');
+        }
+    }
+
+    /**
+     * Link an Ethereum address by signing an EIP-4361 message with it.
+     * EVM wallets only.
+     */
+    @Post('siwe')
+    @SuccessResponse('200', 'Identity linked')
+    public async linkSiwe(
+        @Body() body: LinkSiweRequest,
+        @Request() request: CustomRequest,
+    ): Promise<IdentitiesResponse> {
+        const { wallet } = request.user;
+
+        if (!body.message || !body.signature) {
+            throw new ApiError(
+                400,
+                'VALIDATION_ERROR',
+                'message and signature are required',
+            );
+        }
+
+        try {
+            const identities = await identityService.linkSiwe(
+                wallet._id,
+                body.message,
+                body.signature,
+                this.getContext(request),
+            );
+            return this.formatIdentities(identities);
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to link Ethereum address');
+        }
+    }
+
+    /**
+     * Make an identity the primary one. Its email or phone number is
+     * the one released in OpenID Connect claims.
+     * @example requestBody {"type": "sms", "value": "+1234567890"}
+     */
+    @Post('primary')
+    @SuccessResponse('200', 'Primary identity set')
+    public async setPrimary(
+        @Body() body: SetPrimaryRequest,
+        @Request() request: CustomRequest,
+    ): Promise<IdentitiesResponse> {
+        const { wallet } = request.user;
+
+        try {
+            const identities = await identityService.setPrimary(
+                wallet._id,
+                body.type,
+                body.value,
+                this.getContext(request),
+            );
+            return this.formatIdentities(identities);
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to set primary identity');
+        }
+    }
+
+    /**
+     * Unlink an identity. The last identity and the wallet's own address
+     * cannot be unlinked.
+     */
+    @Delete('{type}/{value}')
+    @SuccessResponse('200', 'Identity unlinked')
+    public async unlink(
+        @Path() type: string,
+        @Path() value: string,
+        @Request() request: CustomRequest,
+    ): Promise<IdentitiesResponse> {
+        const { wallet } = request.user;
+
+        try {
+            const identities = await identityService.unlink(
+                wallet._id,
+                type,
+                value,
+                this.getContext(request),
+            );
+            return this.formatIdentities(identities);
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to unlink identity');
+        }
+    }
+
+    // Private helper methods
+
+    private getContext(request: CustomRequest): AuditContext {
+        const { wallet } = request.user;
+        return auditLogService.contextFromRequest(request, {
+            walletId: wallet._id,
+            appId: wallet.appId,
+        });
+    }
+
+    private formatIdentities(
+        identities: IWalletIdentity[],
+    ): IdentitiesResponse {
+        return {
+            success: true,
+            identities: identities.map((identity) => ({
+                type: identity.type,
+                value: identity.value,
+                primary: identity.primary,
+                linkedAt: new Date(identity.linkedAt).toISOString(),
+            })),
+        };
+    }
+
+    private toApiError(error: unknown, message: string): ApiError {
+        console.error(`${message}:`, error);
+        if (error instanceof ApiError) {
+            return error;
+        }
+        if (
+            error instanceof IdentityError ||
+            error instanceof SocialLoginError ||
+            error instanceof SocialProviderError ||
+            error instanceof SiweError
+        ) {
+            return new ApiError(
+                errorStatus[error.code] || 400,
+                error.code,
+                error.message,
+            );
+        }
+        return new ApiError(
+            500,
+            'IDENTITY_ERROR',
+            `${message}: ${
+                error instanceof Error ? error.message : 'Unknown error'
+            }`,
+        );
+    }
+}
+
+export default new IdentityController();
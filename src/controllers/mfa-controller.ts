@@ -0,0 +1,399 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Route,
+    Tags,
+    Body,
+    SuccessResponse,
+    Request,
+    Example,
+    Security,
+} from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { AuthenticatedWallet, CustomRequest } from '../utils/request';
+import { ApiError } from '../utils/ApiError';
+import mfaService, {
+    MfaError,
+    MFA_PENDING_SCOPE,
+    SecondFactor,
+} from '../services/mfa-service';
+import auditLogService, { AuditContext } from '../services/audit-log-service';
+import sessionService, {
+    SessionContext,
+    SessionTokens,
+    SessionWallet,
+} from '../services/session-service';
+
+// Request interfaces
+interface ConfirmTotpRequest {
+    /** Code from the authenticator app */
+    code: string;
+    deviceName?: string; // Shown in the session list
+}
+
+interface VerifyMfaRequest {
+    /** Code from the authenticator app; or pass recoveryCode */
+    code?: string;
+    recoveryCode?: string;
+    deviceName?: string; // Shown in the session list
+}
+
+interface SecondFactorRequest {
+    /** Code from the authenticator app; or pass recoveryCode */
+    code?: string;
+    recoveryCode?: string;
+}
+
+// Response interfaces
+interface MfaStatusResponse {
+    success: boolean;
+    enrolled: boolean;
+    required: boolean;
+    recoveryCodesRemaining: number;
+}
+
+interface StartTotpResponse {
+    success: boolean;
+    secret: string;
+    otpauthUrl: string;
+}
+
+interface ConfirmTotpResponse {
+    success: boolean;
+    message: string;
+    recoveryCodes: string[];
+    token?: string;
+    refreshToken?: string;
+    refreshTokenExpiresAt?: string;
+}
+
+interface VerifyMfaResponse {
+    success: boolean;
+    message: string;
+    token: string;
+    refreshToken: string;
+    refreshTokenExpiresAt: string;
+}
+
+interface RecoveryCodesResponse {
+    success: boolean;
+    recoveryCodes: string[];
+}
+
+interface DisableTotpResponse {
+    success: boolean;
+    message: string;
+}
+
+const errorStatus: Record<string, number> = {
+    INVALID_MFA_CODE: 401,
+    INVALID_RECOVERY_CODE: 401,
+    MFA_REQUIRED_BY_APP: 403,
+    WALLET_NOT_FOUND: 404,
+    TOTP_NOT_ENABLED: 404,
+    TOTP_NOT_PENDING: 409,
+    TOTP_ALREADY_ENABLED: 409,
+    MFA_LOCKED: 429,
+};
+
+/**
+ * Routes accepting the limited token of a login awaiting its second
+ * factor declare `@Security('bearer', ['mfa_pending'])`
+ */
+@Route('auth/mfa')
+@Tags('Multi-Factor Authentication')
+export class MfaController extends Controller {
+    /**
+     * Whether the wallet has TOTP and whether its app requires it
+     */
+    @Get()
+    @Security('bearer', ['mfa_pending'])
+    @SuccessResponse('200', 'MFA status retrieved')
+    @Example<MfaStatusResponse>({
+        success: true,
+        enrolled: true,
+        required: false,
+        recoveryCodesRemaining: 9,
+    })
+    public async getMfaStatus(
+        @Request() request: CustomRequest,
+    ): Promise<MfaStatusResponse> {
+        const { wallet } = request.user;
+
+        try {
+            const status = await mfaService.getStatus(wallet._id, wallet.appId);
+            return { success: true, ...status };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to get MFA status');
+        }
+    }
+
+    /**
+     * Start TOTP enrollment. Show otpauthUrl as a QR code, then confirm
+     * with a code from the authenticator app.
+     */
+    @Post('totp')
+    @Security('bearer', ['mfa_pending'])
+    @SuccessResponse('200', 'TOTP enrollment started')
+    @Example<StartTotpResponse>({
+        success: true,
+        secret: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+        otpauthUrl:
+            'otpauth://totp/Demo%20App%3Auser%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Demo+App&algorithm=SHA1&digits=6&period=30',
+    })
+    public async startTotp(
+        @Request() request: CustomRequest,
+    ): Promise<StartTotpResponse> {
+        const { wallet } = request.user;
+
+        try {
+            const enrollment = await mfaService.startEnrollment(wallet._id);
+            return { success: true, ...enrollment };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to start TOTP enrollment');
+        }
+    }
+
+    /**
+     * Confirm TOTP enrollment and get recovery codes, shown only once.
+     * Called with a limited login token, this also completes the login.
+     * @example requestBody {"code": "123456"}
+     */
+    @Post('totp/confirm')
+    @Security('bearer', ['mfa_pending'])
+    @SuccessResponse('200', 'TOTP enabled')
+    @Example<ConfirmTotpResponse>({
+        success: true,
+        message: 'TOTP enabled',
+        recoveryCodes: ['k7m2p-x9q4r', 'a3b8c-d2e6f'],
+    })
+    public async confirmTotp(
+        @Body() body: ConfirmTotpRequest,
+        @Request() request: CustomRequest,
+    ): Promise<ConfirmTotpResponse> {
+        const { wallet } = request.user;
+
+        if (!body.code) {
+            throw new ApiError(400, 'VALIDATION_ERROR', 'code is required');
+        }
+
+        try {
+            const recoveryCodes = await mfaService.confirmEnrollment(
+                wallet._id,
+                body.code,
+                this.auditContext(request, wallet),
+            );
+
+            if (wallet.scope !== MFA_PENDING_SCOPE) {
+                return {
+                    success: true,
+                    message: 'TOTP enabled',
+                    recoveryCodes,
+                };
+            }
+
+            // The confirming code was the second factor
+            const session = await sessionService.createSession(
+                this.sessionWallet(wallet),
+                this.sessionContext(request, wallet, body),
+                wallet.accountIndex,
+            );
+            return {
+                success: true,
+                message: 'TOTP enabled',
+                recoveryCodes,
+                ...this.formatSession(session),
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to confirm TOTP enrollment');
+        }
+    }
+
+    /**
+     * Complete a login with a TOTP or recovery code, using the limited
+     * token returned by OTP verification
+     * @example requestBody {"code": "123456", "deviceName": "iPhone"}
+     */
+    @Post('verify')
+    @Security('bearer', ['mfa_pending'])
+    @SuccessResponse('200', 'Logged in successfully')
+    @Example<VerifyMfaResponse>({
+        success: true,
+        message: 'Logged in successfully',
+        token: 'jwt-token-here',
+        refreshToken: '665f1c2e8b3a4d0012345678.q7Z9...',
+        refreshTokenExpiresAt: '2025-01-08T00:00:00.000Z',
+    })
+    public async verify(
+        @Body() body: VerifyMfaRequest,
+        @Request() request: CustomRequest,
+    ): Promise<VerifyMfaResponse> {
+        const { wallet } = request.user;
+
+        if (wallet.scope !== MFA_PENDING_SCOPE) {
+            throw new ApiError(
+                400,
+                'MFA_NOT_PENDING',
+                'This token is not awaiting a second factor',
+            );
+        }
+        const factor = this.secondFactor(body);
+
+        try {
+            const session = await mfaService.verifyLogin(
+                this.sessionWallet(wallet),
+                factor,
+                this.sessionContext(request, wallet, body),
+                wallet.accountIndex,
+            );
+            return {
+                success: true,
+                message: 'Logged in successfully',
+                ...this.formatSession(session),
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Second factor verification failed');
+        }
+    }
+
+    /**
+     * Replace the recovery codes. Needs a current TOTP or recovery code.
+     * @example requestBody {"code": "123456"}
+     */
+    @Post('recovery-codes')
+    @Security('bearer')
+    @SuccessResponse('200', 'Recovery codes replaced')
+    @Example<RecoveryCodesResponse>({
+        success: true,
+        recoveryCodes: ['k7m2p-x9q4r', 'a3b8c-d2e6f'],
+    })
+    public async regenerateRecoveryCodes(
+        @Body() body: SecondFactorRequest,
+        @Request() request: CustomRequest,
+    ): Promise<RecoveryCodesResponse> {
+        const { wallet } = request.user;
+        const factor = this.secondFactor(body);
+
+        try {
+            const recoveryCodes = await mfaService.regenerateRecoveryCodes(
+                wallet._id,
+                factor,
+                this.auditContext(request, wallet),
+            );
+            return { success: true, recoveryCodes };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to replace recovery codes');
+        }
+    }
+
+    /**
+     * Turn TOTP off. Needs a current TOTP or recovery code, and is
+     * refused when the app requires MFA.
+     * @example requestBody {"code": "123456"}
+     */
+    @Post('totp/disable')
+    @Security('bearer')
+    @SuccessResponse('200', 'TOTP disabled')
+    @Example<DisableTotpResponse>({
+        success: true,
+        message: 'TOTP disabled',
+    })
+    public async disableTotp(
+        @Body() body: SecondFactorRequest,
+        @Request() request: CustomRequest,
+    ): Promise<DisableTotpResponse> {
+        const { wallet } = request.user;
+        const factor = this.secondFactor(body);
+
+        try {
+            await mfaService.disable(
+                wallet._id,
+                wallet.appId,
+                factor,
+                this.auditContext(request, wallet),
+            );
+            return { success: true, message: 'TOTP disabled' };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to disable TOTP');
+        }
+    }
+
+    // Private helper methods
+
+    private secondFactor(body: SecondFactorRequest): SecondFactor {
+        if (!body.code && !body.recoveryCode) {
+            throw new ApiError(
+                400,
+                'VALIDATION_ERROR',
+                'code or recoveryCode is required',
+            );
+        }
+        return { code: body.code, recoveryCode: body.recoveryCode };
+    }
+
+    /**
+     * Sessions belong to the wallet's primary address, whichever account
+     * the token selected
+     */
+    private sessionWallet(wallet: AuthenticatedWallet): SessionWallet {
+        return {
+            _id: wallet._id,
+            appId: wallet.appId,
+            address: wallet.primaryAddress,
+            network: wallet.network,
+        };
+    }
+
+    private sessionContext(
+        request: ExpressRequest,
+        wallet: AuthenticatedWallet,
+        body: { deviceName?: string },
+    ): SessionContext {
+        return {
+            ...this.auditContext(request, wallet),
+            deviceName: body.deviceName,
+        };
+    }
+
+    private formatSession(session: SessionTokens) {
+        return {
+            token: session.accessToken,
+            refreshToken: session.refreshToken,
+            refreshTokenExpiresAt: session.refreshTokenExpiresAt.toISOString(),
+        };
+    }
+
+    private auditContext(
+        request: ExpressRequest,
+        wallet: AuthenticatedWallet,
+    ): AuditContext {
+        return auditLogService.contextFromRequest(request, {
+            walletId: wallet._id,
+            appId: wallet.appId,
+        });
+    }
+
+    private toApiError(error: unknown, message: string): ApiError {
+        console.error(`${message}:`, error);
+        if (error instanceof ApiError) {
+            return error;
+        }
+        if (error instanceof MfaError) {
+            return new ApiError(
+                errorStatus[error.code] || 400,
+                error.code,
+                error.message,
+            );
+        }
+        return new ApiError(
+            500,
+            'MFA_ERROR',
+            `${message}: ${
+                error instanceof Error ? error.message : 'Unknown error'
+            }`,
+        );
+    }
+}
+
+export default new MfaController();
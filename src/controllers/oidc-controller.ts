@@ -0,0 +1,411 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Route,
+    Tags,
+    Body,
+    Path,
+    Query,
+    SuccessResponse,
+    Request,
+    Example,
+    Security,
+} from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import { CustomRequest } from '../utils/request';
+import { ApiError } from '../utils/ApiError';
+import oidcService, {
+    ClientCredentials,
+    OidcError,
+    OidcTokens,
+} from '../services/oidc-service';
+import { SessionError } from '../services/session-service';
+import auditLogService from '../services/audit-log-service';
+import { oidc_config } from '../config';
+
+// Request interfaces
+interface TokenRequest {
+    grant_type: string;
+    code?: string;
+    redirect_uri?: string;
+    code_verifier?: string;
+    refresh_token?: string;
+    /** Or use HTTP Basic authentication */
+    client_id?: string;
+    client_secret?: string;
+    scope?: string;
+}
+
+// Response interfaces
+interface AuthorizationRequestResponse {
+    success: boolean;
+    clientId: string;
+    clientName: string;
+    clientIconUrl?: string | undefined;
+    scopes: string[];
+    expiresAt: string;
+}
+
+interface CompleteAuthorizationResponse {
+    success: boolean;
+    redirectUrl: string;
+}
+
+interface TokenResponse {
+    access_token: string;
+    token_type: 'Bearer';
+    expires_in: number;
+    refresh_token: string;
+    id_token?: string;
+    scope?: string;
+}
+
+interface OAuthErrorResponse {
+    error: string;
+    error_description: string;
+}
+
+interface UserInfoResponse {
+    sub: string;
+    email?: string;
+    email_verified?: boolean;
+    phone_number?: string;
+    phone_number_verified?: boolean;
+    wallet_address: string;
+    network: string;
+}
+
+const tokenErrorStatus: Record<string, number> = {
+    invalid_client: 401,
+};
+
+@Route('oauth')
+@Tags('OpenID Connect')
+export class OidcController extends Controller {
+    /**
+     * Start an authorization code flow. PKCE (S256) is required and
+     * redirect_uri must exactly match one of the app's redirect URLs.
+     * Redirects to the hosted login page with a request_id; errors after
+     * the redirect URI is validated are sent back to the client.
+     */
+    @Get('authorize')
+    @SuccessResponse('302', 'Redirect to the hosted login page')
+    public async authorize(
+        @Query('response_type') responseType?: string,
+        @Query('client_id') clientId?: string,
+        @Query('redirect_uri') redirectUri?: string,
+        @Query() scope?: string,
+        @Query() state?: string,
+        @Query() nonce?: string,
+        @Query('code_challenge') codeChallenge?: string,
+        @Query('code_challenge_method') codeChallengeMethod?: string,
+    ): Promise<void> {
+        let app;
+        try {
+            app = await oidcService.resolveClient(clientId, redirectUri);
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to start authorization');
+        }
+
+        try {
+            const authorization = await oidcService.createAuthorizationRequest(
+                app,
+                redirectUri!,
+                {
+                    responseType,
+                    scope,
+                    state,
+                    nonce,
+                    codeChallenge,
+                    codeChallengeMethod,
+                },
+            );
+            this.redirect(
+                oidcService.buildRedirect(oidc_config.loginUrl, {
+                    request_id: authorization.requestId,
+                    client_id: app.appId,
+                }),
+            );
+        } catch (error) {
+            if (!(error instanceof OidcError)) {
+                throw this.toApiError(error, 'Failed to start authorization');
+            }
+            this.redirect(
+                oidcService.buildRedirect(redirectUri!, {
+                    error: error.code,
+                    error_description: error.message,
+                    state,
+                }),
+            );
+        }
+    }
+
+    /**
+     * Details of a pending authorization request, for the hosted login page
+     */
+    @Get('authorize/{requestId}')
+    @SuccessResponse('200', 'Authorization request retrieved')
+    @Example<AuthorizationRequestResponse>({
+        success: true,
+        clientId:
+            'a3f1c2d4e5b6a7980a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f6071',
+        clientName: 'Example dApp',
+        clientIconUrl: 'https://example.com/icon.png',
+        scopes: ['openid', 'email'],
+        expiresAt: '2025-01-01T00:10:00.000Z',
+    })
+    public async getAuthorizationRequest(
+        @Path() requestId: string,
+    ): Promise<AuthorizationRequestResponse> {
+        try {
+            const { authorization, app } =
+                await oidcService.getAuthorizationRequest(requestId);
+
+            return {
+                success: true,
+                clientId: app.appId,
+                clientName: app.name,
+                clientIconUrl: app.iconUrl,
+                scopes: authorization.scope.split(' '),
+                expiresAt: authorization.expiresAt.toISOString(),
+            };
+        } catch (error) {
+            throw this.toApiError(
+                error,
+                'Failed to load authorization request',
+            );
+        }
+    }
+
+    /**
+     * Complete an authorization request after the user logged in through
+     * the email or SMS OTP endpoints. Send the access token from that
+     * login; returns the client redirect carrying the authorization code.
+     */
+    @Post('authorize/{requestId}')
+    @Security('bearer')
+    @SuccessResponse('200', 'Authorization granted')
+    @Example<CompleteAuthorizationResponse>({
+        success: true,
+        redirectUrl:
+            'https://example.com/callback?code=SplxlOBeZQQYbYS6WxSbIA&state=af0ifjsldkj',
+    })
+    public async completeAuthorization(
+        @Path() requestId: string,
+        @Request() request: CustomRequest,
+    ): Promise<CompleteAuthorizationResponse> {
+        const { wallet } = request.user;
+
+        try {
+            const redirectUrl = await oidcService.authorize(
+                requestId,
+                wallet,
+                auditLogService.contextFromRequest(request, {
+                    walletId: wallet._id,
+                    appId: wallet.appId,
+                }),
+            );
+
+            return { success: true, redirectUrl };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to complete authorization');
+        }
+    }
+
+    /**
+     * Token endpoint: redeem an authorization code (with its PKCE
+     * verifier) or a refresh token. Accepts form or JSON bodies. Clients
+     * authenticate with HTTP Basic or client_secret, as registered for the
+     * app; public clients send only client_id.
+     * Errors use the OAuth 2.0 error format.
+     */
+    @Post('token')
+    @SuccessResponse('200', 'Tokens issued')
+    @Example<TokenResponse>({
+        access_token: 'jwt-token-here',
+        token_type: 'Bearer',
+        expires_in: 86400,
+        refresh_token: '665f1c2e8b3a4d0012345678.q7Z9...',
+        id_token: 'jwt-id-token-here',
+        scope: 'openid email',
+    })
+    public async token(
+        @Body() body: TokenRequest,
+        @Request() request: ExpressRequest,
+    ): Promise<TokenResponse | OAuthErrorResponse> {
+        this.setHeader('Cache-Control', 'no-store');
+        this.setHeader('Pragma', 'no-cache');
+
+        try {
+            const app = await oidcService.authenticateClient(
+                this.getClientCredentials(request, body),
+            );
+            const context = auditLogService.contextFromRequest(request, {
+                appId: app.appId,
+            });
+
+            let tokens: OidcTokens;
+            if (body.grant_type === 'authorization_code') {
+                if (!body.code || !body.redirect_uri || !body.code_verifier) {
+                    throw new OidcError(
+                        'code, redirect_uri and code_verifier are required',
+                    );
+                }
+                tokens = await oidcService.exchangeCode(
+                    app,
+                    {
+                        code: body.code,
+                        redirectUri: body.redirect_uri,
+                        codeVerifier: body.code_verifier,
+                    },
+                    context,
+                );
+            } else if (body.grant_type === 'refresh_token') {
+                if (!body.refresh_token) {
+                    throw new OidcError('refresh_token is required');
+                }
+                tokens = await oidcService.refresh(
+                    app,
+                    body.refresh_token,
+                    context,
+                );
+            } else {
+                throw new OidcError(
+                    `Unsupported grant_type: ${body.grant_type}`,
+                    'unsupported_grant_type',
+                );
+            }
+
+            return {
+                access_token: tokens.accessToken,
+                token_type: 'Bearer',
+                expires_in: tokens.expiresIn,
+                refresh_token: tokens.refreshToken,
+                ...(tokens.idToken && { id_token: tokens.idToken }),
+                ...(tokens.scope && { scope: tokens.scope }),
+            };
+        } catch (error) {
+            return this.toTokenError(error);
+        }
+    }
+
+    /**
+     * Claims about the token's wallet, limited to the granted scopes
+     */
+    @Get('userinfo')
+    @Security('bearer', ['openid'])
+    @SuccessResponse('200', 'User info retrieved')
+    @Example<UserInfoResponse>({
+        sub: '665f1c2e8b3a4d0012345678',
+        email: 'user@example.com',
+        email_verified: true,
+        wallet_address: '0x742E6B6D8B6C4e8D8e8D8e8D8e8D8e8D8e8D8e8D',
+        network: 'evm',
+    })
+    public async userInfo(
+        @Request() request: CustomRequest,
+    ): Promise<UserInfoResponse> {
+        const { wallet } = request.user;
+
+        return {
+            ...oidcService.getClaims(wallet, wallet.scope),
+            sub: wallet._id,
+            wallet_address: wallet.address,
+            network: wallet.network,
+        };
+    }
+
+    // Private helper methods
+
+    private redirect(url: string): void {
+        this.setStatus(302);
+        this.setHeader('Location', url);
+    }
+
+    /**
+     * Client credentials from HTTP Basic or the request body
+     */
+    private getClientCredentials(
+        request: ExpressRequest,
+        body: TokenRequest,
+    ): ClientCredentials {
+        const authorization = request.header('authorization');
+        if (authorization?.startsWith('Basic ')) {
+            const decoded = Buffer.from(
+                authorization.slice('Basic '.length),
+                'base64',
+            ).toString();
+            const separator = decoded.indexOf(':');
+            try {
+                if (separator !== -1) {
+                    return {
+                        clientId: decodeURIComponent(
+                            decoded.slice(0, separator),
+                        ),
+                        clientSecret: decodeURIComponent(
+                            decoded.slice(separator + 1),
+                        ),
+                        method: 'client_secret_basic',
+                    };
+                }
+            } catch {
+                // Malformed percent-encoding; rejected below
+            }
+            throw new OidcError(
+                'Malformed Basic credentials',
+                'invalid_client',
+            );
+        }
+
+        return {
+            clientId: body.client_id,
+            clientSecret: body.client_secret,
+            method:
+                body.client_secret !== undefined
+                    ? 'client_secret_post'
+                    : 'none',
+        };
+    }
+
+    private toTokenError(error: unknown): OAuthErrorResponse {
+        if (error instanceof OidcError) {
+            this.setStatus(tokenErrorStatus[error.code] || 400);
+            return { error: error.code, error_description: error.message };
+        }
+        if (error instanceof SessionError) {
+            this.setStatus(400);
+            return { error: 'invalid_grant', error_description: error.message };
+        }
+
+        console.error('Token request failed:', error);
+        this.setStatus(500);
+        return {
+            error: 'server_error',
+            error_description: 'Failed to issue tokens',
+        };
+    }
+
+    private toApiError(error: unknown, message: string): ApiError {
+        console.error(`${message}:`, error);
+        if (error instanceof ApiError) {
+            return error;
+        }
+        if (error instanceof OidcError) {
+            return new ApiError(
+                error.code === 'REQUEST_NOT_FOUND' ? 404 : 400,
+                error.code,
+                error.message,
+            );
+        }
+        return new ApiError(
+            500,
+            'OIDC_ERROR',
+            `${message}: ${
+                error instanceof Error ? error.message : 'Unknown error'
+            }`,
+        );
+    }
+}
+
+export default new OidcController();
@@ -0,0 +1,533 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Delete,
+    Route,
+    Tags,
+    Body,
+    Path,
+    SuccessResponse,
+    Request,
+    Example,
+    Security,
+    Middlewares,
+} from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import {
+    AppRequest,
+    AuthenticatedWallet,
+    CustomRequest,
+} from '../utils/request';
+import { ApiError } from '../utils/ApiError';
+import passkeyService, {
+    PasskeyError,
+    PasskeyRegistrationOptions,
+    PasskeyAssertionOptions,
+    PasskeyRegistrationCredential,
+    PasskeyAssertionCredential,
+} from '../services/passkey-service';
+import auditLogService, { AuditContext } from '../services/audit-log-service';
+import { requireStepUp } from '../middleware/step-up';
+import { IPasskey } from '../models/passkey-models';
+import { BlockchainNetwork } from '../services/wallet-service';
+import { IWallet } from '../models/wallet-models';
+import { LoginOutcome } from '../services/mfa-service';
+
+// Request interfaces
+interface RegisterPasskeyRequest {
+    credential: PasskeyRegistrationCredential;
+    name?: string; // e.g. "MacBook"
+}
+
+interface PasskeyLoginRequest {
+    credential: PasskeyAssertionCredential;
+    deviceName?: string; // Shown in the session list
+}
+
+interface PasskeyStepUpRequest {
+    credential: PasskeyAssertionCredential;
+}
+
+// Response interfaces
+interface PasskeyRegistrationOptionsResponse {
+    success: boolean;
+    options: PasskeyRegistrationOptions;
+}
+
+interface PasskeyAssertionOptionsResponse {
+    success: boolean;
+    options: PasskeyAssertionOptions;
+}
+
+interface PasskeyData {
+    id: string;
+    name?: string | undefined;
+    transports: string[];
+    createdAt: string;
+    lastUsedAt?: string | undefined;
+}
+
+interface RegisterPasskeyResponse {
+    success: boolean;
+    message: string;
+    passkey: PasskeyData;
+}
+
+interface ListPasskeysResponse {
+    success: boolean;
+    passkeys: PasskeyData[];
+}
+
+interface PasskeyLoginResponse {
+    success: boolean;
+    message: string;
+    data: {
+        walletAddress: string;
+        socialType: string;
+        network: BlockchainNetwork;
+    };
+    token?: string;
+    refreshToken?: string;
+    refreshTokenExpiresAt?: string;
+    /** Set when a TOTP code is needed; call /auth/mfa with mfaToken */
+    mfaRequired?: boolean;
+    mfaEnrolled?: boolean;
+    mfaToken?: string;
+    mfaTokenExpiresAt?: string;
+}
+
+interface PasskeyStepUpResponse {
+    success: boolean;
+    message: string;
+    expiresAt: string;
+}
+
+interface RemovePasskeyResponse {
+    success: boolean;
+    message: string;
+}
+
+const errorStatus: Record<string, number> = {
+    INVALID_CREDENTIAL: 401,
+    INVALID_CHALLENGE: 401,
+    COUNTER_ERROR: 401,
+    ORIGIN_MISMATCH: 403,
+    RP_MISMATCH: 403,
+    WALLET_INACTIVE: 403,
+    PASSKEY_NOT_FOUND: 404,
+    WALLET_NOT_FOUND: 404,
+    PASSKEY_EXISTS: 409,
+};
+
+@Route('auth/passkeys')
+@Tags('Passkeys')
+export class PasskeyController extends Controller {
+    /**
+     * Get options for navigator.credentials.create() to add a passkey to
+     * the wallet. Binary fields are base64url-encoded.
+     */
+    @Post('register/options')
+    @Security('bearer')
+    @SuccessResponse('200', 'Registration options issued')
+    @Example<PasskeyRegistrationOptionsResponse>({
+        success: true,
+        options: {
+            rp: { id: 'auth.crefy.xyz', name: 'Crefy Connect' },
+            user: {
+                id: 'Zl8cLos6TQASNFZ4',
+                name: 'user@example.com',
+                displayName: 'user@example.com',
+            },
+            challenge: 'q7Z9kX2pA1b2C3d4E5f6G7h8I9j0K1l2M3n4O5p6Q7r',
+            pubKeyCredParams: [
+                { type: 'public-key', alg: -7 },
+                { type: 'public-key', alg: -8 },
+                { type: 'public-key', alg: -257 },
+            ],
+            timeout: 300000,
+            attestation: 'none',
+            excludeCredentials: [],
+            authenticatorSelection: {
+                residentKey: 'required',
+                userVerification: 'required',
+            },
+        },
+    })
+    public async registrationOptions(
+        @Request() request: CustomRequest,
+    ): Promise<PasskeyRegistrationOptionsResponse> {
+        const { wallet } = request.user;
+
+        try {
+            const options = await passkeyService.registrationOptions(
+                wallet._id,
+            );
+            return { success: true, options };
+        } catch (error) {
+            throw this.toApiError(
+                error,
+                'Failed to issue registration options',
+            );
+        }
+    }
+
+    /**
+     * Register the credential created with the registration options
+     */
+    @Post('register')
+    @Security('bearer')
+    @SuccessResponse('201', 'Passkey registered')
+    @Example<RegisterPasskeyResponse>({
+        success: true,
+        message: 'Passkey registered',
+        passkey: {
+            id: '665f1c2e8b3a4d0012345678',
+            name: 'MacBook',
+            transports: ['internal', 'hybrid'],
+            createdAt: '2025-01-01T00:00:00.000Z',
+        },
+    })
+    public async register(
+        @Body() body: RegisterPasskeyRequest,
+        @Request() request: CustomRequest,
+    ): Promise<RegisterPasskeyResponse> {
+        const { wallet } = request.user;
+
+        if (!body.credential?.response) {
+            throw new ApiError(
+                400,
+                'VALIDATION_ERROR',
+                'credential is required',
+            );
+        }
+
+        try {
+            const passkey = await passkeyService.register(
+                wallet._id,
+                body.credential,
+                body.name,
+                this.auditContext(request, wallet),
+            );
+
+            this.setStatus(201);
+            return {
+                success: true,
+                message: 'Passkey registered',
+                passkey: this.formatPasskey(passkey),
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to register passkey');
+        }
+    }
+
+    /**
+     * Get options for navigator.credentials.get() to log in with a
+     * passkey. The browser offers the user's passkeys for the app.
+     */
+    @Post('login/options')
+    @Security('app')
+    @Security('apiKey', ['auth'])
+    @SuccessResponse('200', 'Login options issued')
+    @Example<PasskeyAssertionOptionsResponse>({
+        success: true,
+        options: {
+            rpId: 'auth.crefy.xyz',
+            challenge: 'q7Z9kX2pA1b2C3d4E5f6G7h8I9j0K1l2M3n4O5p6Q7r',
+            timeout: 300000,
+            userVerification: 'required',
+            allowCredentials: [],
+        },
+    })
+    public async loginOptions(
+        @Request() request: AppRequest,
+    ): Promise<PasskeyAssertionOptionsResponse> {
+        const { app } = request.user;
+
+        try {
+            const options = await passkeyService.loginOptions(app.appId);
+            return { success: true, options };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to issue login options');
+        }
+    }
+
+    /**
+     * Log in with a passkey assertion
+     */
+    @Post('login')
+    @Security('app')
+    @Security('apiKey', ['auth'])
+    @SuccessResponse('200', 'Logged in successfully')
+    @Example<PasskeyLoginResponse>({
+        success: true,
+        message: 'Logged in successfully',
+        data: {
+            walletAddress: '0x742E6B6D8B6C4e8D8e8D8e8D8e8D8e8D8e8D8e8D',
+            socialType: 'email',
+            network: BlockchainNetwork.EVM,
+        },
+        token: 'jwt-token-here',
+        refreshToken: '665f1c2e8b3a4d0012345678.q7Z9...',
+        refreshTokenExpiresAt: '2025-01-08T00:00:00.000Z',
+    })
+    public async login(
+        @Body() body: PasskeyLoginRequest,
+        @Request() request: AppRequest,
+    ): Promise<PasskeyLoginResponse> {
+        const { app } = request.user;
+
+        if (!body.credential?.response) {
+            throw new ApiError(
+                400,
+                'VALIDATION_ERROR',
+                'credential is required',
+            );
+        }
+
+        try {
+            const { wallet, login } = await passkeyService.login(
+                app.appId,
+                body.credential,
+                {
+                    ...auditLogService.contextFromRequest(request, {
+                        appId: app.appId,
+                    }),
+                    deviceName: body.deviceName,
+                },
+            );
+
+            return this.formatLogin(wallet, login);
+        } catch (error) {
+            throw this.toApiError(error, 'Passkey login failed');
+        }
+    }
+
+    /**
+     * Get options for a step-up assertion with one of the wallet's
+     * passkeys, required before sensitive actions
+     */
+    @Post('step-up/options')
+    @Security('bearer')
+    @SuccessResponse('200', 'Step-up options issued')
+    @Example<PasskeyAssertionOptionsResponse>({
+        success: true,
+        options: {
+            rpId: 'auth.crefy.xyz',
+            challenge: 'q7Z9kX2pA1b2C3d4E5f6G7h8I9j0K1l2M3n4O5p6Q7r',
+            timeout: 300000,
+            userVerification: 'required',
+            allowCredentials: [
+                {
+                    type: 'public-key',
+                    id: 'AQIDBAUGBwgJCgsMDQ4PEA',
+                    transports: ['internal'],
+                },
+            ],
+        },
+    })
+    public async stepUpOptions(
+        @Request() request: CustomRequest,
+    ): Promise<PasskeyAssertionOptionsResponse> {
+        const { wallet } = request.user;
+
+        try {
+            const options = await passkeyService.stepUpOptions(wallet._id);
+            return { success: true, options };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to issue step-up options');
+        }
+    }
+
+    /**
+     * Confirm a sensitive action with a passkey. The session may then
+     * perform sensitive actions until expiresAt.
+     */
+    @Post('step-up')
+    @Security('bearer')
+    @SuccessResponse('200', 'Step-up confirmed')
+    @Example<PasskeyStepUpResponse>({
+        success: true,
+        message: 'Step-up confirmed',
+        expiresAt: '2025-01-01T00:05:00.000Z',
+    })
+    public async stepUp(
+        @Body() body: PasskeyStepUpRequest,
+        @Request() request: CustomRequest,
+    ): Promise<PasskeyStepUpResponse> {
+        const { wallet } = request.user;
+
+        if (!body.credential?.response) {
+            throw new ApiError(
+                400,
+                'VALIDATION_ERROR',
+                'credential is required',
+            );
+        }
+
+        try {
+            const expiresAt = await passkeyService.stepUp(
+                wallet._id,
+                wallet.sessionId,
+                body.credential,
+                this.auditContext(request, wallet),
+            );
+
+            return {
+                success: true,
+                message: 'Step-up confirmed',
+                expiresAt: expiresAt.toISOString(),
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Passkey step-up failed');
+        }
+    }
+
+    /**
+     * List the wallet's passkeys
+     */
+    @Get()
+    @Security('bearer')
+    @SuccessResponse('200', 'Passkeys retrieved successfully')
+    @Example<ListPasskeysResponse>({
+        success: true,
+        passkeys: [
+            {
+                id: '665f1c2e8b3a4d0012345678',
+                name: 'MacBook',
+                transports: ['internal', 'hybrid'],
+                createdAt: '2025-01-01T00:00:00.000Z',
+                lastUsedAt: '2025-01-02T00:00:00.000Z',
+            },
+        ],
+    })
+    public async listPasskeys(
+        @Request() request: CustomRequest,
+    ): Promise<ListPasskeysResponse> {
+        const { wallet } = request.user;
+
+        try {
+            const passkeys = await passkeyService.listPasskeys(wallet._id);
+            return {
+                success: true,
+                passkeys: passkeys.map((passkey) =>
+                    this.formatPasskey(passkey),
+                ),
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to list passkeys');
+        }
+    }
+
+    /**
+     * Remove a passkey. Requires a step-up, which the passkey being
+     * removed may provide.
+     */
+    @Delete('{passkeyId}')
+    @Security('bearer')
+    @Middlewares(requireStepUp)
+    @SuccessResponse('200', 'Passkey removed')
+    @Example<RemovePasskeyResponse>({
+        success: true,
+        message: 'Passkey removed',
+    })
+    public async removePasskey(
+        @Path() passkeyId: string,
+        @Request() request: CustomRequest,
+    ): Promise<RemovePasskeyResponse> {
+        const { wallet } = request.user;
+
+        try {
+            await passkeyService.removePasskey(
+                wallet._id,
+                passkeyId,
+                this.auditContext(request, wallet),
+            );
+            return { success: true, message: 'Passkey removed' };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to remove passkey');
+        }
+    }
+
+    // Private helper methods
+
+    /**
+     * Tokens for a completed login, or the limited token when the wallet
+     * still has to pass its second factor
+     */
+    private formatLogin(
+        wallet: IWallet,
+        login: LoginOutcome,
+    ): PasskeyLoginResponse {
+        const data = {
+            walletAddress: wallet.address,
+            socialType: wallet.socialType,
+            network: wallet.network as string as BlockchainNetwork,
+        };
+
+        if ('mfa' in login) {
+            return {
+                success: true,
+                message: 'Second factor required',
+                data,
+                mfaRequired: true,
+                mfaEnrolled: login.mfa.enrolled,
+                mfaToken: login.mfa.mfaToken,
+                mfaTokenExpiresAt: login.mfa.expiresAt.toISOString(),
+            };
+        }
+
+        return {
+            success: true,
+            message: 'Logged in successfully',
+            data,
+            token: login.session.accessToken,
+            refreshToken: login.session.refreshToken,
+            refreshTokenExpiresAt:
+                login.session.refreshTokenExpiresAt.toISOString(),
+        };
+    }
+
+    private formatPasskey(passkey: IPasskey): PasskeyData {
+        return {
+            id: passkey._id.toString(),
+            name: passkey.name,
+            transports: passkey.transports,
+            createdAt: passkey.createdAt.toISOString(),
+            lastUsedAt: passkey.lastUsedAt?.toISOString(),
+        };
+    }
+
+    private auditContext(
+        request: ExpressRequest,
+        wallet: AuthenticatedWallet,
+    ): AuditContext {
+        return auditLogService.contextFromRequest(request, {
+            walletId: wallet._id,
+            appId: wallet.appId,
+        });
+    }
+
+    private toApiError(error: unknown, message: string): ApiError {
+        console.error(`${message}:`, error);
+        if (error instanceof ApiError) {
+            return error;
+        }
+        if (error instanceof PasskeyError) {
+            return new ApiError(
+                errorStatus[error.code] || 400,
+                error.code,
+                error.message,
+            );
+        }
+        return new ApiError(
+            500,
+            'PASSKEY_ERROR',
+            `${message}: ${
+                error instanceof Error ? error.message : 'Unknown error'
+            }`,
+        );
+    }
+}
+
+export default new PasskeyController();
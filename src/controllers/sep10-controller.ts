@@ -0,0 +1,194 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Route,
+    Tags,
+    Body,
+    Query,
+    SuccessResponse,
+    Request,
+    Example,
+    Security,
+} from 'tsoa';
+import { AppRequest } from '../utils/request';
+import { ApiError } from '../utils/ApiError';
+import sep10Service, { Sep10Error } from '../services/sep10-service';
+import auditLogService from '../services/audit-log-service';
+import { LoginOutcome } from '../services/mfa-service';
+import { IWallet } from '../models/wallet-models';
+
+// Request interfaces
+interface Sep10TokenRequest {
+    /** The challenge transaction signed by the client account (base64 XDR) */
+    transaction: string;
+}
+
+// Response interfaces
+interface Sep10ChallengeResponse {
+    transaction: string;
+    network_passphrase: string;
+}
+
+interface Sep10TokenResponse {
+    token?: string;
+    refreshToken?: string;
+    refreshTokenExpiresAt?: string;
+    /** Set when a TOTP code is needed; call /auth/mfa with mfaToken */
+    mfaRequired?: boolean;
+    mfaEnrolled?: boolean;
+    mfaToken?: string;
+    mfaTokenExpiresAt?: string;
+    walletAddress: string;
+    created: boolean;
+}
+
+const errorStatus: Record<string, number> = {
+    CHALLENGE_NOT_FOUND: 401,
+    WALLET_INACTIVE: 403,
+    SEP10_DISABLED: 503,
+};
+
+/**
+ * Stellar Web Authentication (SEP-10). Wallets discover this endpoint
+ * through /.well-known/stellar.toml; the app is named with the appId
+ * query parameter.
+ */
+@Route('auth/sep10')
+@Tags('Stellar Web Authentication')
+@Security('app')
+@Security('apiKey', ['auth'])
+export class Sep10Controller extends Controller {
+    /**
+     * Get a challenge transaction for a Stellar account to sign
+     * @param account The client account ID (G...)
+     * @param homeDomain Defaults to the first configured home domain
+     */
+    @Get()
+    @SuccessResponse('200', 'Challenge issued')
+    @Example<Sep10ChallengeResponse>({
+        transaction:
+            'AAAAAgAAAADIiRu2BrqqeOcP28PWCkD4D5Rjjsqh71HwvqFX+F4VXAAAAGQAAAAAAAAAAAAAAAEAAAAA...',
+        network_passphrase: 'Test SDF Network ; September 2015',
+    })
+    public async getChallenge(
+        @Query() account: string,
+        @Request() request: AppRequest,
+        @Query('home_domain') homeDomain?: string,
+    ): Promise<Sep10ChallengeResponse> {
+        const { app } = request.user;
+
+        try {
+            const challenge = await sep10Service.createChallenge(
+                app.appId,
+                account,
+                homeDomain,
+            );
+            return {
+                transaction: challenge.transaction,
+                network_passphrase: challenge.networkPassphrase,
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to build SEP-10 challenge');
+        }
+    }
+
+    /**
+     * Exchange the signed challenge for a token. The first sign-in creates
+     * a non-custodial Stellar wallet for the account.
+     * @example requestBody {"transaction": "AAAAAgAAAADIiRu2BrqqeOcP28PWCkD4D5Rjjsqh71HwvqFX+F4VXAAAAGQAAAAAAAAAAAAAAAEAAAAA..."}
+     */
+    @Post()
+    @SuccessResponse('200', 'Authenticated')
+    @Example<Sep10TokenResponse>({
+        token: 'jwt-token-here',
+        refreshToken: '665f1c2e8b3a4d0012345678.q7Z9...',
+        refreshTokenExpiresAt: '2025-01-08T00:00:00.000Z',
+        walletAddress:
+            'GDQP2KPQGKIHYJGXNUIYOMHARUARCA7DJT5FO2FFOOKY3B2WSQHG4W37',
+        created: true,
+    })
+    public async getToken(
+        @Body() body: Sep10TokenRequest,
+        @Request() request: AppRequest,
+    ): Promise<Sep10TokenResponse> {
+        const { app } = request.user;
+
+        if (!body.transaction) {
+            throw new ApiError(
+                400,
+                'VALIDATION_ERROR',
+                'transaction is required',
+            );
+        }
+
+        try {
+            const { wallet, login, created } = await sep10Service.verify(
+                app.appId,
+                body.transaction,
+                auditLogService.contextFromRequest(request, {
+                    appId: app.appId,
+                }),
+            );
+
+            return this.formatLogin(wallet, login, created);
+        } catch (error) {
+            throw this.toApiError(error, 'SEP-10 authentication failed');
+        }
+    }
+
+    // Private helper methods
+
+    /**
+     * Tokens for a completed login, or the limited token when the wallet
+     * still has to pass its second factor
+     */
+    private formatLogin(
+        wallet: IWallet,
+        login: LoginOutcome,
+        created: boolean,
+    ): Sep10TokenResponse {
+        if ('mfa' in login) {
+            return {
+                mfaRequired: true,
+                mfaEnrolled: login.mfa.enrolled,
+                mfaToken: login.mfa.mfaToken,
+                mfaTokenExpiresAt: login.mfa.expiresAt.toISOString(),
+                walletAddress: wallet.address,
+                created,
+            };
+        }
+
+        return {
+            token: login.session.accessToken,
+            refreshToken: login.session.refreshToken,
+            refreshTokenExpiresAt:
+                login.session.refreshTokenExpiresAt.toISOString(),
+            walletAddress: wallet.address,
+            created,
+        };
+    }
+
+    private toApiError(error: unknown, message: string): ApiError {
+        console.error(`${message}:`, error);
+        if (error instanceof ApiError) {
+            return error;
+        }
+        if (error instanceof Sep10Error) {
+            return new ApiError(
+                errorStatus[error.code] || 400,
+                error.code,
+                error.message,
+            );
+        }
+        return new ApiError(
+            500,
+            'SEP10_ERROR',
+            `${message}: ${
+                error instanceof Error ? error.message : 'Unknown error'
+            }`,
+        );
+    }
+}
+
+export default new Sep10Controller();
@@ -0,0 +1,319 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Delete,
+    Route,
+    Tags,
+    Body,
+    Path,
+    Query,
+    SuccessResponse,
+    Request,
+    Example,
+    Security,
+} from 'tsoa';
+import { Request as ExpressRequest } from 'express';
+import {
+    AppRequest,
+    AuthenticatedWallet,
+    CustomRequest,
+} from '../utils/request';
+import { ApiError } from '../utils/ApiError';
+import sessionService, { SessionError } from '../services/session-service';
+import auditLogService, { AuditContext } from '../services/audit-log-service';
+import { ISession } from '../models/session-models';
+
+// Request interfaces
+interface RefreshTokenRequest {
+    refreshToken: string;
+}
+
+// Response interfaces
+interface RefreshTokenResponse {
+    success: boolean;
+    token: string;
+    refreshToken: string;
+    refreshTokenExpiresAt: string;
+}
+
+interface SessionData {
+    id: string;
+    deviceName?: string | undefined;
+    userAgent?: string | undefined;
+    ipAddress?: string | undefined;
+    accountIndex: number;
+    current: boolean;
+    createdAt: string;
+    lastUsedAt: string;
+    expiresAt: string;
+}
+
+interface ListSessionsResponse {
+    success: boolean;
+    sessions: SessionData[];
+}
+
+interface RevokeSessionsResponse {
+    success: boolean;
+    message: string;
+    revoked: number;
+}
+
+const errorStatus: Record<string, number> = {
+    INVALID_REFRESH_TOKEN: 401,
+    REFRESH_TOKEN_REUSED: 401,
+    SESSION_REVOKED: 401,
+    WALLET_INACTIVE: 403,
+    SESSION_NOT_FOUND: 404,
+};
+
+@Route('auth/sessions')
+@Tags('Sessions')
+export class SessionController extends Controller {
+    /**
+     * Exchange a refresh token for a new access token and refresh token.
+     * Each refresh token works once; reusing one revokes the session.
+     * @example requestBody {"refreshToken": "665f1c2e8b3a4d0012345678.q7Z9..."}
+     */
+    @Post('refresh')
+    @Security('app')
+    @Security('apiKey', ['auth'])
+    @SuccessResponse('200', 'Tokens refreshed')
+    @Example<RefreshTokenResponse>({
+        success: true,
+        token: 'jwt-token-here',
+        refreshToken: '665f1c2e8b3a4d0012345678.Xk2p...',
+        refreshTokenExpiresAt: '2025-01-08T00:00:00.000Z',
+    })
+    public async refresh(
+        @Body() body: RefreshTokenRequest,
+        @Request() request: AppRequest,
+    ): Promise<RefreshTokenResponse> {
+        const { app } = request.user;
+
+        if (!body.refreshToken) {
+            throw new ApiError(
+                400,
+                'VALIDATION_ERROR',
+                'refreshToken is required',
+            );
+        }
+
+        try {
+            const session = await sessionService.refresh(
+                body.refreshToken,
+                app.appId,
+                auditLogService.contextFromRequest(request, {
+                    appId: app.appId,
+                }),
+            );
+
+            return {
+                success: true,
+                token: session.accessToken,
+                refreshToken: session.refreshToken,
+                refreshTokenExpiresAt:
+                    session.refreshTokenExpiresAt.toISOString(),
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to refresh session');
+        }
+    }
+
+    /**
+     * Log out: revoke the session of the presented access token
+     */
+    @Post('logout')
+    @Security('bearer')
+    @SuccessResponse('200', 'Logged out')
+    @Example<RevokeSessionsResponse>({
+        success: true,
+        message: 'Logged out',
+        revoked: 1,
+    })
+    public async logout(
+        @Request() request: CustomRequest,
+    ): Promise<RevokeSessionsResponse> {
+        const { wallet } = request.user;
+
+        if (!wallet.sessionId) {
+            throw new ApiError(
+                400,
+                'NO_SESSION',
+                'This token is not bound to a session; it expires on its own',
+            );
+        }
+
+        try {
+            await sessionService.revokeSession(
+                wallet._id,
+                wallet.sessionId,
+                'logout',
+                this.auditContext(request, wallet),
+            );
+
+            return { success: true, message: 'Logged out', revoked: 1 };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to log out');
+        }
+    }
+
+    /**
+     * List the wallet's active sessions
+     */
+    @Get()
+    @Security('bearer')
+    @SuccessResponse('200', 'Sessions retrieved successfully')
+    @Example<ListSessionsResponse>({
+        success: true,
+        sessions: [
+            {
+                id: '665f1c2e8b3a4d0012345678',
+                deviceName: 'iPhone',
+                userAgent:
+                    'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)',
+                ipAddress: '203.0.113.7',
+                accountIndex: 0,
+                current: true,
+                createdAt: '2025-01-01T00:00:00.000Z',
+                lastUsedAt: '2025-01-01T06:00:00.000Z',
+                expiresAt: '2025-01-08T00:00:00.000Z',
+            },
+        ],
+    })
+    public async listSessions(
+        @Request() request: CustomRequest,
+    ): Promise<ListSessionsResponse> {
+        const { wallet } = request.user;
+
+        try {
+            const sessions = await sessionService.listSessions(wallet._id);
+
+            return {
+                success: true,
+                sessions: sessions.map((session) =>
+                    this.formatSession(session, wallet.sessionId),
+                ),
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to list sessions');
+        }
+    }
+
+    /**
+     * Revoke one session, e.g. a lost device
+     */
+    @Delete('{sessionId}')
+    @Security('bearer')
+    @SuccessResponse('200', 'Session revoked')
+    @Example<RevokeSessionsResponse>({
+        success: true,
+        message: 'Session revoked',
+        revoked: 1,
+    })
+    public async revokeSession(
+        @Path() sessionId: string,
+        @Request() request: CustomRequest,
+    ): Promise<RevokeSessionsResponse> {
+        const { wallet } = request.user;
+
+        try {
+            await sessionService.revokeSession(
+                wallet._id,
+                sessionId,
+                'revoked_by_user',
+                this.auditContext(request, wallet),
+            );
+
+            return { success: true, message: 'Session revoked', revoked: 1 };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to revoke session');
+        }
+    }
+
+    /**
+     * Revoke all other sessions, or every session with includeCurrent
+     * @param includeCurrent - Also revoke the session making this request
+     */
+    @Delete()
+    @Security('bearer')
+    @SuccessResponse('200', 'Sessions revoked')
+    @Example<RevokeSessionsResponse>({
+        success: true,
+        message: 'Sessions revoked',
+        revoked: 3,
+    })
+    public async revokeAllSessions(
+        @Request() request: CustomRequest,
+        @Query() includeCurrent?: boolean,
+    ): Promise<RevokeSessionsResponse> {
+        const { wallet } = request.user;
+
+        try {
+            const revoked = await sessionService.revokeAllSessions(
+                wallet._id,
+                'revoked_by_user',
+                this.auditContext(request, wallet),
+                includeCurrent === true ? undefined : wallet.sessionId,
+            );
+
+            return { success: true, message: 'Sessions revoked', revoked };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to revoke sessions');
+        }
+    }
+
+    // Private helper methods
+
+    private formatSession(
+        session: ISession,
+        currentSessionId: string | undefined,
+    ): SessionData {
+        const id = session._id.toString();
+        return {
+            id,
+            deviceName: session.deviceName,
+            userAgent: session.userAgent,
+            ipAddress: session.ipAddress,
+            accountIndex: session.accountIndex,
+            current: id === currentSessionId,
+            createdAt: session.createdAt.toISOString(),
+            lastUsedAt: session.lastUsedAt.toISOString(),
+            expiresAt: session.expiresAt.toISOString(),
+        };
+    }
+
+    private auditContext(
+        request: ExpressRequest,
+        wallet: AuthenticatedWallet,
+    ): AuditContext {
+        return auditLogService.contextFromRequest(request, {
+            walletId: wallet._id,
+            appId: wallet.appId,
+        });
+    }
+
+    private toApiError(error: unknown, message: string): ApiError {
+        console.error(`${message}:`, error);
+        if (error instanceof ApiError) {
+            return error;
+        }
+        if (error instanceof SessionError) {
+            return new ApiError(
+                errorStatus[error.code] || 400,
+                error.code,
+                error.message,
+            );
+        }
+        return new ApiError(
+            500,
+            'SESSION_ERROR',
+            `${message}: ${
+                error instanceof Error ? error.message : 'Unknown error'
+            }`,
+        );
+    }
+}
+
+export default new SessionController();
@@ -12,17 +12,32 @@ import {
     Example,
     Security,
     Response,
+    Middlewares,
 } from 'tsoa';
 import { ApiError } from '../utils/ApiError';
+import { requireStepUp } from '../middleware/step-up';
 import { Request as ExpressRequest } from 'express';
-import { Wallet } from '../models/wallet-models';
+import { CustomRequest } from '../utils/request';
 import { SigningService } from '../services/signing-service';
+import { SolanaService } from '../services/solana-service';
+import walletService, { BlockchainNetwork } from '../services/wallet-service';
+import keyCustodyService, {
+    KeyCustodyError,
+} from '../services/key-custody-service';
 import {
     SignMessageRequest,
     SignTransactionRequest,
     SignTypedDataRequest,
     SigningResponse,
 } from '../types/signing-types';
+import {
+    SolanaSignMessageRequest,
+    SolanaSignMessageResponse,
+    SolanaTransferRequest,
+    SolanaTransferResponse,
+    SolanaVerifyMessageRequest,
+    SolanaVerifyMessageResponse,
+} from '../types/solana-types';
 
 // Use the actual types directly instead of extending
 // This helps TSOA resolve the types properly
@@ -86,14 +101,16 @@ const exampleTypedData = {
 
 @Route('signing')
 @Tags('Signing Service')
-@Security('app')
-@Security('bearer')
+@Security({ bearer: [], app: [] })
+@Security({ bearer: [], apiKey: ['signing'] })
 export class SigningController extends Controller {
     private signingService: SigningService;
+    private solanaService: SolanaService;
 
     constructor() {
         super();
         this.signingService = new SigningService();
+        this.solanaService = new SolanaService();
     }
 
     /**
@@ -188,35 +205,26 @@ export class SigningController extends Controller {
         @Body() body: SignMessageRequest,
         @Request() request: ExpressRequest,
     ): Promise<SigningResponse> {
-        const { wallet: basicWallet } = (request as any).user;
-
-        const completeWallet = await Wallet.findOne({
-            address: basicWallet.address,
-        }).select('+encryptedPrivateKey +encryptionSalt');
+        const { wallet } = (request as any).user;
 
         try {
-            if (completeWallet?.encryptedPrivateKey) {
-                const privateKey =
-                    completeWallet.encryptedPrivateKey as `0x${string}`;
-                const result = await this.signingService.signMessage(
-                    body,
-                    privateKey,
-                );
+            const result = await keyCustodyService.withDecryptedKey(
+                wallet._id,
+                (privateKey) =>
+                    this.signingService.signMessage(
+                        body,
+                        privateKey as `0x${string}`,
+                    ),
+                wallet.accountIndex,
+            );
 
-                if (result.success) {
-                    return result;
-                } else {
-                    throw new ApiError(
-                        400,
-                        'SIGNING_FAILED',
-                        result.error || 'Failed to sign message',
-                    );
-                }
+            if (result.success) {
+                return result;
             } else {
                 throw new ApiError(
                     400,
-                    'WALLET_ERROR',
-                    'No wallet found or private key not available',
+                    'SIGNING_FAILED',
+                    result.error || 'Failed to sign message',
                 );
             }
         } catch (error) {
@@ -224,6 +232,9 @@ export class SigningController extends Controller {
             if (error instanceof ApiError) {
                 throw error;
             }
+            if (error instanceof KeyCustodyError) {
+                throw new ApiError(400, 'WALLET_ERROR', error.message);
+            }
             throw new ApiError(
                 500,
                 'SIGNING_ERROR',
@@ -250,35 +261,26 @@ export class SigningController extends Controller {
         @Body() body: SignTransactionRequest,
         @Request() request: ExpressRequest,
     ): Promise<SigningResponse> {
-        const { wallet: basicWallet } = (request as any).user;
-
-        const completeWallet = await Wallet.findOne({
-            address: basicWallet.address,
-        }).select('+encryptedPrivateKey +encryptionSalt');
+        const { wallet } = (request as any).user;
 
         try {
-            if (completeWallet?.encryptedPrivateKey) {
-                const privateKey =
-                    completeWallet.encryptedPrivateKey as `0x${string}`;
-                const result = await this.signingService.signTransaction(
-                    body,
-                    privateKey,
-                );
+            const result = await keyCustodyService.withDecryptedKey(
+                wallet._id,
+                (privateKey) =>
+                    this.signingService.signTransaction(
+                        body,
+                        privateKey as `0x${string}`,
+                    ),
+                wallet.accountIndex,
+            );
 
-                if (result.success) {
-                    return result;
-                } else {
-                    throw new ApiError(
-                        400,
-                        'SIGNING_FAILED',
-                        result.error || 'Failed to sign transaction',
-                    );
-                }
+            if (result.success) {
+                return result;
             } else {
                 throw new ApiError(
                     400,
-                    'WALLET_ERROR',
-                    'No wallet found or private key not available',
+                    'SIGNING_FAILED',
+                    result.error || 'Failed to sign transaction',
                 );
             }
         } catch (error) {
@@ -286,6 +288,9 @@ export class SigningController extends Controller {
             if (error instanceof ApiError) {
                 throw error;
             }
+            if (error instanceof KeyCustodyError) {
+                throw new ApiError(400, 'WALLET_ERROR', error.message);
+            }
             throw new ApiError(
                 500,
                 'SIGNING_ERROR',
@@ -312,35 +317,26 @@ export class SigningController extends Controller {
         @Body() body: SignTypedDataRequest,
         @Request() request: ExpressRequest,
     ): Promise<SigningResponse> {
-        const { wallet: basicWallet } = (request as any).user;
-
-        const completeWallet = await Wallet.findOne({
-            address: basicWallet.address,
-        }).select('+encryptedPrivateKey +encryptionSalt');
+        const { wallet } = (request as any).user;
 
         try {
-            if (completeWallet?.encryptedPrivateKey) {
-                const privateKey =
-                    completeWallet.encryptedPrivateKey as `0x${string}`;
-                const result = await this.signingService.signTypedData(
-                    body,
-                    privateKey,
-                );
+            const result = await keyCustodyService.withDecryptedKey(
+                wallet._id,
+                (privateKey) =>
+                    this.signingService.signTypedData(
+                        body,
+                        privateKey as `0x${string}`,
+                    ),
+                wallet.accountIndex,
+            );
 
-                if (result.success) {
-                    return result;
-                } else {
-                    throw new ApiError(
-                        400,
-                        'SIGNING_FAILED',
-                        result.error || 'Failed to sign typed data',
-                    );
-                }
+            if (result.success) {
+                return result;
             } else {
                 throw new ApiError(
                     400,
-                    'WALLET_ERROR',
-                    'No wallet found or private key not available',
+                    'SIGNING_FAILED',
+                    result.error || 'Failed to sign typed data',
                 );
             }
         } catch (error) {
@@ -348,6 +344,9 @@ export class SigningController extends Controller {
             if (error instanceof ApiError) {
                 throw error;
             }
+            if (error instanceof KeyCustodyError) {
+                throw new ApiError(400, 'WALLET_ERROR', error.message);
+            }
             throw new ApiError(
                 500,
                 'SIGNING_ERROR',
@@ -362,6 +361,7 @@ export class SigningController extends Controller {
      * Send a signed transaction
      */
     @Post('send-signed-transaction')
+    @Middlewares(requireStepUp)
     @SuccessResponse('200', 'Transaction sent successfully')
     @Example<{ success: boolean; transactionHash?: string; error?: string }>({
         success: true,
@@ -442,6 +442,183 @@ export class SigningController extends Controller {
             );
         }
     }
+
+    /**
+     * Sign a message with a Solana wallet (Ed25519)
+     */
+    @Post('solana/sign-message')
+    @SuccessResponse('200', 'Message signed successfully')
+    @Example<SolanaSignMessageResponse>({
+        success: true,
+        signature:
+            '5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW',
+        publicKey: '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM',
+    })
+    public async signSolanaMessage(
+        @Body() body: SolanaSignMessageRequest,
+        @Request() request: CustomRequest,
+    ): Promise<SolanaSignMessageResponse> {
+        const { wallet } = request.user;
+
+        try {
+            this.assertSolanaWallet(wallet);
+
+            const result = await keyCustodyService.withDecryptedKey(
+                wallet._id,
+                (secretKey) => this.solanaService.signMessage(body, secretKey),
+                wallet.accountIndex,
+            );
+
+            if (result.success) {
+                return result;
+            } else {
+                throw new ApiError(
+                    400,
+                    'SIGNING_FAILED',
+                    result.error || 'Failed to sign message',
+                );
+            }
+        } catch (error) {
+            console.error('Error signing Solana message:', error);
+            if (error instanceof ApiError) {
+                throw error;
+            }
+            if (error instanceof KeyCustodyError) {
+                throw new ApiError(400, 'WALLET_ERROR', error.message);
+            }
+            throw new ApiError(
+                500,
+                'SIGNING_ERROR',
+                `Failed to sign message: ${
+                    error instanceof Error ? error.message : 'Unknown error'
+                }`,
+            );
+        }
+    }
+
+    /**
+     * Verify a Solana (Ed25519) message signature
+     */
+    @Post('solana/verify-message')
+    @SuccessResponse('200', 'Message verified successfully')
+    @Example<SolanaVerifyMessageResponse>({
+        success: true,
+        isValid: true,
+    })
+    public async verifySolanaMessage(
+        @Body() body: SolanaVerifyMessageRequest,
+    ): Promise<SolanaVerifyMessageResponse> {
+        if (
+            !walletService.validateWalletAddress(
+                body.address,
+                BlockchainNetwork.SOLANA,
+            )
+        ) {
+            throw new ApiError(
+                400,
+                'INVALID_ADDRESS',
+                'Invalid Solana address format',
+            );
+        }
+
+        return this.solanaService.verifyMessage(body);
+    }
+
+    /**
+     * Sign a SOL or SPL token transfer without broadcasting it
+     */
+    @Post('solana/sign-transfer')
+    @SuccessResponse('200', 'Transfer signed successfully')
+    @Example<SolanaTransferResponse>({
+        success: true,
+        signature:
+            '5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW',
+        signedTransaction: 'AbCdEf...base64...',
+        fromAddress: '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM',
+        toAddress: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
+        amount: '0.1',
+        cluster: 'devnet',
+    })
+    public async signSolanaTransfer(
+        @Body() body: SolanaTransferRequest,
+        @Request() request: CustomRequest,
+    ): Promise<SolanaTransferResponse> {
+        const { wallet } = request.user;
+
+        try {
+            this.assertSolanaWallet(wallet);
+            this.validateSolanaTransfer(body);
+
+            const result = await keyCustodyService.withDecryptedKey(
+                wallet._id,
+                (secretKey) => this.solanaService.signTransfer(body, secretKey),
+                wallet.accountIndex,
+            );
+
+            if (result.success) {
+                return result;
+            } else {
+                throw new ApiError(
+                    400,
+                    'SIGNING_FAILED',
+                    result.error || 'Failed to sign transfer',
+                );
+            }
+        } catch (error) {
+            console.error('Error signing Solana transfer:', error);
+            if (error instanceof ApiError) {
+                throw error;
+            }
+            if (error instanceof KeyCustodyError) {
+                throw new ApiError(400, 'WALLET_ERROR', error.message);
+            }
+            throw new ApiError(
+                500,
+                'SIGNING_ERROR',
+                `Failed to sign transfer: ${
+                    error instanceof Error ? error.message : 'Unknown error'
+                }`,
+            );
+        }
+    }
+
+    private assertSolanaWallet(wallet: { network?: string }): void {
+        if (wallet.network !== BlockchainNetwork.SOLANA) {
+            throw new ApiError(
+                400,
+                'UNSUPPORTED_NETWORK',
+                'This endpoint requires a Solana wallet',
+            );
+        }
+    }
+
+    private validateSolanaTransfer(body: SolanaTransferRequest): void {
+        if (
+            !walletService.validateWalletAddress(
+                body.toAddress,
+                BlockchainNetwork.SOLANA,
+            )
+        ) {
+            throw new ApiError(
+                400,
+                'INVALID_TO_ADDRESS',
+                'Invalid to address format',
+            );
+        }
+        if (
+            body.mint &&
+            !walletService.validateWalletAddress(
+                body.mint,
+                BlockchainNetwork.SOLANA,
+            )
+        ) {
+            throw new ApiError(
+                400,
+                'INVALID_MINT_ADDRESS',
+                'Invalid token mint address format',
+            );
+        }
+    }
 }
 
 // Export the instance for use in routes
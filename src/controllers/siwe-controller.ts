@@ -0,0 +1,230 @@
+import {
+    Controller,
+    Post,
+    Route,
+    Tags,
+    Body,
+    SuccessResponse,
+    Request,
+    Example,
+    Security,
+} from 'tsoa';
+import { AppRequest } from '../utils/request';
+import { ApiError } from '../utils/ApiError';
+import siweService, { SiweError } from '../services/siwe-service';
+import auditLogService from '../services/audit-log-service';
+import { LoginOutcome } from '../services/mfa-service';
+import { BlockchainNetwork } from '../services/wallet-service';
+import { IWallet } from '../models/wallet-models';
+
+// Request interfaces
+interface SiweNonceRequest {
+    address: string;
+}
+
+interface SiweVerifyRequest {
+    /** The EIP-4361 message as signed */
+    message: string;
+    /** personal_sign signature of the message */
+    signature: string;
+    deviceName?: string; // Shown in the session list
+}
+
+// Response interfaces
+interface SiweNonceResponse {
+    success: boolean;
+    nonce: string;
+    expiresAt: string;
+}
+
+interface SiweVerifyResponse {
+    success: boolean;
+    message: string;
+    data: {
+        walletAddress: string;
+        socialType: string;
+        network: BlockchainNetwork;
+    };
+    isActive: boolean;
+    created: boolean;
+    token?: string;
+    refreshToken?: string;
+    refreshTokenExpiresAt?: string;
+    /** Set when a TOTP code is needed; call /auth/mfa with mfaToken */
+    mfaRequired?: boolean;
+    mfaEnrolled?: boolean;
+    mfaToken?: string;
+    mfaTokenExpiresAt?: string;
+}
+
+const errorStatus: Record<string, number> = {
+    INVALID_SIGNATURE: 401,
+    INVALID_NONCE: 401,
+    MESSAGE_EXPIRED: 401,
+    WALLET_INACTIVE: 403,
+};
+
+@Route('auth/siwe')
+@Tags('Sign-In with Ethereum')
+@Security('app')
+@Security('apiKey', ['auth'])
+export class SiweController extends Controller {
+    /**
+     * Get a nonce to put in the EIP-4361 message. Valid for 10 minutes
+     * and for one sign-in.
+     * @example requestBody {"address": "0x742E6B6D8B6C4e8D8e8D8e8D8e8D8e8D8e8D8e8D"}
+     */
+    @Post('nonce')
+    @SuccessResponse('200', 'Nonce issued')
+    @Example<SiweNonceResponse>({
+        success: true,
+        nonce: 'a1B2c3D4e5F6g7H8i',
+        expiresAt: '2025-01-01T00:10:00.000Z',
+    })
+    public async createNonce(
+        @Body() body: SiweNonceRequest,
+        @Request() request: AppRequest,
+    ): Promise<SiweNonceResponse> {
+        const { app } = request.user;
+
+        if (!body.address) {
+            throw new ApiError(400, 'VALIDATION_ERROR', 'address is required');
+        }
+
+        try {
+            const { nonce, expiresAt } = await siweService.createNonce(
+                app.appId,
+                body.address,
+            );
+            return {
+                success: true,
+                nonce,
+                expiresAt: expiresAt.toISOString(),
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to issue SIWE nonce');
+        }
+    }
+
+    /**
+     * Sign in with a signed EIP-4361 message. The domain must be one of
+     * the app's redirect URL hosts and the chain ID a supported chain.
+     * The first sign-in creates a non-custodial wallet for the address.
+     * @example requestBody {"message": "app.example.com wants you to sign in with your Ethereum account:\n0x742E6B6D8B6C4e8D8e8D8e8D8e8D8e8D8e8D8e8D\n\nURI: https://app.example.com\nVersion: 1\nChain ID: 1\nNonce: a1B2c3D4e5F6g7H8i\nIssued At: 2025-01-01T00:00:00.000Z", "signature": "0x..."}
+     */
+    @Post('verify')
+    @SuccessResponse('200', 'Signed in successfully')
+    @Example<SiweVerifyResponse>({
+        success: true,
+        message: 'Signed in successfully',
+        data: {
+            walletAddress: '0x742E6B6D8B6C4e8D8e8D8e8D8e8D8e8D8e8D8e8D',
+            socialType: 'siwe',
+            network: BlockchainNetwork.EVM,
+        },
+        isActive: true,
+        created: true,
+        token: 'jwt-token-here',
+        refreshToken: '665f1c2e8b3a4d0012345678.q7Z9...',
+        refreshTokenExpiresAt: '2025-01-08T00:00:00.000Z',
+    })
+    public async verify(
+        @Body() body: SiweVerifyRequest,
+        @Request() request: AppRequest,
+    ): Promise<SiweVerifyResponse> {
+        const { app } = request.user;
+
+        if (!body.message || !body.signature) {
+            throw new ApiError(
+                400,
+                'VALIDATION_ERROR',
+                'message and signature are required',
+            );
+        }
+
+        try {
+            const { wallet, login, created } = await siweService.verify(
+                app.appId,
+                body.message,
+                body.signature,
+                {
+                    ...auditLogService.contextFromRequest(request, {
+                        appId: app.appId,
+                    }),
+                    deviceName: body.deviceName,
+                },
+            );
+
+            return this.formatLogin(wallet, login, created);
+        } catch (error) {
+            throw this.toApiError(error, 'Sign-in with Ethereum failed');
+        }
+    }
+
+    // Private helper methods
+
+    /**
+     * Tokens for a completed login, or the limited token when the wallet
+     * still has to pass its second factor
+     */
+    private formatLogin(
+        wallet: IWallet,
+        login: LoginOutcome,
+        created: boolean,
+    ): SiweVerifyResponse {
+        const data = {
+            walletAddress: wallet.address,
+            socialType: wallet.socialType,
+            network: wallet.network as string as BlockchainNetwork,
+        };
+
+        if ('mfa' in login) {
+            return {
+                success: true,
+                message: 'Second factor required',
+                data,
+                isActive: true,
+                created,
+                mfaRequired: true,
+                mfaEnrolled: login.mfa.enrolled,
+                mfaToken: login.mfa.mfaToken,
+                mfaTokenExpiresAt: login.mfa.expiresAt.toISOString(),
+            };
+        }
+
+        return {
+            success: true,
+            message: 'Signed in successfully',
+            data,
+            isActive: true,
+            created,
+            token: login.session.accessToken,
+            refreshToken: login.session.refreshToken,
+            refreshTokenExpiresAt:
+                login.session.refreshTokenExpiresAt.toISOString(),
+        };
+    }
+
+    private toApiError(error: unknown, message: string): ApiError {
+        console.error(`${message}:`, error);
+        if (error instanceof ApiError) {
+            return error;
+        }
+        if (error instanceof SiweError) {
+            return new ApiError(
+                errorStatus[error.code] || 400,
+                error.code,
+                error.message,
+            );
+        }
+        return new ApiError(
+            500,
+            'SIWE_ERROR',
+            `${message}: ${
+                error instanceof Error ? error.message : 'Unknown error'
+            }`,
+        );
+    }
+}
+
+export default new SiweController();
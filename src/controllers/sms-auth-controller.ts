@@ -11,18 +11,23 @@ import {
     Security,
 } from 'tsoa';
 import { Request as ExpressRequest } from 'express';
-import crypto from 'crypto';
-import { Wallet } from '../models/wallet-models';
+import { IWallet, Wallet, identityFilter } from '../models/wallet-models';
 import { ApiError } from '../utils/ApiError';
 import {
-    generateJWT,
     verifyJWT,
-    generateOTP,
-    expireOTP,
     validatePhoneNumber,
+    normalizePhoneNumber,
 } from '../utils/auth';
 import walletService, { BlockchainNetwork } from '../services/wallet-service';
-import { createSmsService, SmsServiceConfig } from '../services/sms-service';
+import keyCustodyService from '../services/key-custody-service';
+import sessionService from '../services/session-service';
+import auditLogService from '../services/audit-log-service';
+import otpService, { OtpError, OtpTarget } from '../services/otp-service';
+import mfaService, {
+    LoginOutcome,
+    MFA_PENDING_SCOPE,
+} from '../services/mfa-service';
+import smsService from '../config/sms-config';
 import { smtp_config } from '../config';
 
 // Request interfaces
@@ -35,6 +40,7 @@ interface VerifySmsOTPRequest {
     phoneNumber: string;
     otp: string;
     network?: BlockchainNetwork;
+    deviceName?: string; // Shown in the session list
 }
 
 interface ResendSmsOTPRequest {
@@ -62,6 +68,13 @@ interface VerifySmsOTPResponse {
     };
     isActive?: boolean;
     token?: string;
+    refreshToken?: string;
+    refreshTokenExpiresAt?: string;
+    /** Set when a TOTP code is needed; call /auth/mfa with mfaToken */
+    mfaRequired?: boolean;
+    mfaEnrolled?: boolean;
+    mfaToken?: string;
+    mfaTokenExpiresAt?: string;
 }
 
 interface ResendSmsOTPResponse {
@@ -69,26 +82,19 @@ interface ResendSmsOTPResponse {
     message: string;
 }
 
+const otpErrorStatus: Record<string, number> = {
+    OTP_LOCKED: 429,
+    RATE_LIMITED: 429,
+    RESEND_TOO_SOON: 429,
+    OTP_SEND_FAILED: 500,
+};
+
 @Route('auth/sms')
 @Tags('SMS Authentication')
 @Security('app')
+@Security('apiKey', ['auth'])
 export class SmsAuthController extends Controller {
-    private smsService;
-
-    constructor() {
-        super();
-        // Initialize SMS service
-        const smsConfig: SmsServiceConfig = {
-            apiKey: process.env.SMS_API_KEY || 'your-sms-api-key',
-            baseUrl:
-                process.env.SMS_BASE_URL ||
-                'https://kbzktzsczpwsttjmfnge.supabase.co/functions/v1/send-message',
-            timeout: parseInt(process.env.SMS_TIMEOUT || '10000'),
-            maxRetries: parseInt(process.env.SMS_MAX_RETRIES || '3'),
-            retryDelay: parseInt(process.env.SMS_RETRY_DELAY || '1000'),
-        };
-        this.smsService = createSmsService(smsConfig);
-    }
+    private smsService = smsService;
 
     /**
      * Login or register with phone number
@@ -105,6 +111,7 @@ export class SmsAuthController extends Controller {
         network: BlockchainNetwork.STELLAR,
     })
     @Security('app')
+    @Security('apiKey', ['auth'])
     public async smsLogin(
         @Body() body: SmsLoginRequest,
         @Request() request: ExpressRequest,
@@ -115,7 +122,7 @@ export class SmsAuthController extends Controller {
 
         this.validatePhoneInput(phoneNumber);
 
-        const normalizedPhone = this.normalizePhoneNumber(phoneNumber);
+        const normalizedPhone = normalizePhoneNumber(phoneNumber);
         const existingWallet = await this.findWalletByPhoneAndNetwork(
             normalizedPhone,
             app.appId,
@@ -134,16 +141,8 @@ export class SmsAuthController extends Controller {
             };
         }
 
-        const otp = generateOTP();
-        const otpExpiry = expireOTP(otp);
-
         if (existingWallet) {
-            await this.handleExistingWallet(
-                existingWallet,
-                otp,
-                otpExpiry,
-                normalizedPhone,
-            );
+            await this.sendOTP(existingWallet, normalizedPhone, request);
             return {
                 success: true,
                 message: 'OTP sent to phone number for verification',
@@ -153,13 +152,12 @@ export class SmsAuthController extends Controller {
             };
         }
 
-        await this.handleNewWallet(
+        const wallet = await this.createWallet(
             normalizedPhone,
             app.appId,
-            otp,
-            otpExpiry,
             network,
         );
+        await this.sendOTP(wallet, normalizedPhone, request);
         return {
             success: true,
             message: 'OTP sent to phone number for verification',
@@ -181,14 +179,16 @@ export class SmsAuthController extends Controller {
         data: {
             walletAddress: 'GABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789ABCDEF',
             socialType: 'sms',
-            userData:
-                '{"phoneNumber":"+1234567890","network":"stellar","secret":"S..."}',
+            userData: '{"phoneNumber":"+1234567890","network":"stellar"}',
             network: BlockchainNetwork.STELLAR,
         },
         isActive: true,
         token: 'jwt-token-here',
+        refreshToken: '665f1c2e8b3a4d0012345678.q7Z9...',
+        refreshTokenExpiresAt: '2025-01-08T00:00:00.000Z',
     })
     @Security('app')
+    @Security('apiKey', ['auth'])
     public async verifySmsOTP(
         @Body() body: VerifySmsOTPRequest,
         @Request() request: ExpressRequest,
@@ -198,7 +198,7 @@ export class SmsAuthController extends Controller {
 
         this.validatePhoneInput(phoneNumber);
 
-        const normalizedPhone = this.normalizePhoneNumber(phoneNumber);
+        const normalizedPhone = normalizePhoneNumber(phoneNumber);
         const wallet = await this.findWalletByPhoneAndNetwork(
             normalizedPhone,
             app.appId,
@@ -224,24 +224,30 @@ export class SmsAuthController extends Controller {
             };
         }
 
-        this.validateOTP(wallet, otp);
+        await this.verifyWalletOTP(wallet, normalizedPhone, otp);
         await this.activateWallet(wallet);
 
-        const newToken = generateJWT({
-            address: wallet.address,
-            network: wallet.network,
-        });
+        const walletId = String(wallet._id);
+        const login = await mfaService.completeLogin(
+            {
+                _id: walletId,
+                appId: wallet.appId,
+                address: wallet.address,
+                network: wallet.network,
+            },
+            {
+                ...auditLogService.contextFromRequest(request, {
+                    walletId,
+                    appId: app.appId,
+                }),
+                deviceName: body.deviceName,
+            },
+        );
 
         // Send welcome SMS
         await this.sendWelcomeSMS(normalizedPhone);
 
-        return {
-            success: true,
-            message: 'Wallet verified successfully',
-            data: this.formatWalletData(wallet),
-            isActive: true,
-            token: newToken,
-        };
+        return this.formatLogin(wallet, login);
     }
 
     /**
@@ -255,6 +261,7 @@ export class SmsAuthController extends Controller {
         message: 'OTP resent to phone number for verification',
     })
     @Security('app')
+    @Security('apiKey', ['auth'])
     public async resendSmsOTP(
         @Body() body: ResendSmsOTPRequest,
         @Request() request: ExpressRequest,
@@ -264,7 +271,7 @@ export class SmsAuthController extends Controller {
 
         this.validatePhoneInput(phoneNumber);
 
-        const normalizedPhone = this.normalizePhoneNumber(phoneNumber);
+        const normalizedPhone = normalizePhoneNumber(phoneNumber);
         const wallet = await this.findWalletByPhoneAndNetwork(
             normalizedPhone,
             app.appId,
@@ -275,11 +282,7 @@ export class SmsAuthController extends Controller {
             throw new ApiError(404, 'WALLET_NOT_FOUND', 'Wallet not found');
         }
 
-        const otp = generateOTP();
-        const otpExpiry = expireOTP(otp);
-
-        await this.updateWalletOTP(wallet, otp, otpExpiry);
-        await this.sendOTPSMS(normalizedPhone, otp.toString());
+        await this.sendOTP(wallet, normalizedPhone, request);
 
         return {
             success: true,
@@ -299,129 +302,139 @@ export class SmsAuthController extends Controller {
         }
     }
 
-    private normalizePhoneNumber(phoneNumber: string): string {
-        // Remove any spaces, dashes, parentheses, etc.
-        const cleaned = phoneNumber.replace(/[\s\-\(\)]/g, '');
-
-        // Ensure it starts with +
-        if (!cleaned.startsWith('+')) {
-            return `+${cleaned}`;
-        }
-
-        return cleaned;
-    }
-
     private async findWalletByPhoneAndNetwork(
         phoneNumber: string,
         appId: string,
         network: BlockchainNetwork = BlockchainNetwork.EVM,
     ) {
         return await Wallet.findOne({
-            phoneNumber,
-            socialType: 'sms',
             appId,
             network,
+            ...identityFilter('sms', phoneNumber),
         });
     }
 
+    /**
+     * Tokens for a completed login, or the limited token when the wallet
+     * still has to pass its second factor
+     */
+    private formatLogin(
+        wallet: IWallet,
+        login: LoginOutcome,
+    ): VerifySmsOTPResponse {
+        if ('mfa' in login) {
+            return {
+                success: true,
+                message: 'Second factor required',
+                data: this.formatWalletData(wallet),
+                isActive: true,
+                mfaRequired: true,
+                mfaEnrolled: login.mfa.enrolled,
+                mfaToken: login.mfa.mfaToken,
+                mfaTokenExpiresAt: login.mfa.expiresAt.toISOString(),
+            };
+        }
+
+        return {
+            success: true,
+            message: 'Wallet verified successfully',
+            data: this.formatWalletData(wallet),
+            isActive: true,
+            token: login.session.accessToken,
+            refreshToken: login.session.refreshToken,
+            refreshTokenExpiresAt:
+                login.session.refreshTokenExpiresAt.toISOString(),
+        };
+    }
+
     private async isValidTokenForWallet(
         token: string,
         wallet: any,
     ): Promise<boolean> {
         try {
-            const decoded = verifyJWT(token);
+            const decoded = await verifyJWT(token, {
+                audience: wallet.appId,
+            });
             return (
                 wallet &&
+                decoded.sub === String(wallet._id) &&
                 wallet.address === decoded.address &&
                 wallet.network === decoded.network &&
-                wallet.isActive
+                wallet.isActive &&
+                decoded.scope !== MFA_PENDING_SCOPE &&
+                (!decoded.sid ||
+                    (await sessionService.isSessionActive(decoded.sid)))
             );
         } catch (error) {
             return false;
         }
     }
 
-    private async handleExistingWallet(
-        wallet: any,
-        otp: number,
-        otpExpiry: Date,
-        phoneNumber: string,
-    ): Promise<void> {
-        await this.updateWalletOTP(wallet, otp, otpExpiry);
-        await this.sendOTPSMS(phoneNumber, otp.toString());
-    }
-
-    private async handleNewWallet(
+    private async createWallet(
         phoneNumber: string,
         appId: string,
-        otp: number,
-        otpExpiry: Date,
         network: BlockchainNetwork = BlockchainNetwork.EVM,
-    ): Promise<void> {
+    ) {
         const walletInfo = await walletService.generateWallet(network);
-        const encryptionSalt = crypto.randomBytes(16).toString('hex');
-
-        // Prepare userData based on network
-        const userData: any = {
+        const { encryptedPrivateKey, encryptionSalt, keyVersion } =
+            await keyCustodyService.sealPrivateKey(walletInfo.privateKey);
+        // Keep the seed so further HD accounts can be derived later
+        const seed = walletInfo.mnemonic
+            ? await keyCustodyService.sealSeed(
+                  walletInfo.mnemonic,
+                  encryptionSalt,
+              )
+            : null;
+
+        // Secrets are held only in the encrypted key, never in userData
+        const userData = {
             phoneNumber,
             network,
         };
 
-        // Add network-specific data
-        if (network === BlockchainNetwork.STELLAR && walletInfo.secret) {
-            userData.secret = walletInfo.secret;
-        }
-
-        await Wallet.create({
+        return await Wallet.create({
             appId,
             phoneNumber,
             socialType: 'sms',
             address: walletInfo.address,
             publicKey: walletInfo.publicKey,
-            encryptedPrivateKey: walletInfo.privateKey,
+            encryptedPrivateKey,
             encryptionSalt,
+            keyVersion,
+            ...(seed && { encryptedSeed: seed.encryptedSeed }),
             userData: JSON.stringify(userData),
             isActive: false,
-            otp: otp.toString(),
-            otpExpiry,
             network,
         });
-
-        await this.sendOTPSMS(phoneNumber, otp.toString());
-    }
-
-    private async updateWalletOTP(
-        wallet: any,
-        otp: number,
-        otpExpiry: Date,
-    ): Promise<void> {
-        wallet.otp = otp.toString();
-        wallet.otpExpiry = otpExpiry;
-        await wallet.save();
     }
 
     private async activateWallet(wallet: any): Promise<void> {
         wallet.isActive = true;
-        wallet.otp = undefined;
-        wallet.otpExpiry = undefined;
         await wallet.save();
     }
 
-    private async sendOTPSMS(phoneNumber: string, otp: string): Promise<void> {
-        // Customize OTP message based on configuration
-        const smsResult = await this.smsService.sendOTP(phoneNumber, otp, 10);
+    private otpTarget(wallet: IWallet, phoneNumber: string): OtpTarget {
+        return {
+            purpose: 'login',
+            appId: wallet.appId,
+            identifier: phoneNumber,
+            walletId: String(wallet._id),
+        };
+    }
 
-        if (!smsResult.success) {
-            console.error(
-                'SMS send failed:',
-                smsResult.error,
-                smsResult.details,
-            );
-            throw new ApiError(
-                500,
-                'SMS_SEND_FAILED',
-                `Failed to send OTP SMS: ${smsResult.error}`,
+    private async sendOTP(
+        wallet: IWallet,
+        phoneNumber: string,
+        request: ExpressRequest,
+    ): Promise<void> {
+        try {
+            await otpService.send(
+                this.otpTarget(wallet, phoneNumber),
+                'sms',
+                request.ip,
             );
+        } catch (error) {
+            throw this.toApiError(error);
         }
 
         console.log(`✅ OTP SMS sent to: ${phoneNumber}`);
@@ -445,14 +458,29 @@ export class SmsAuthController extends Controller {
         }
     }
 
-    private validateOTP(wallet: any, otp: string): void {
-        if (wallet.otp !== otp) {
-            throw new ApiError(400, 'INVALID_OTP', 'Invalid OTP');
+    private async verifyWalletOTP(
+        wallet: IWallet,
+        phoneNumber: string,
+        otp: string,
+    ): Promise<void> {
+        try {
+            await otpService.verify(this.otpTarget(wallet, phoneNumber), otp);
+        } catch (error) {
+            throw this.toApiError(error);
         }
+    }
 
-        if (wallet.otpExpiry && wallet.otpExpiry < new Date()) {
-            throw new ApiError(400, 'OTP_EXPIRED', 'OTP expired');
+    private toApiError(error: unknown): unknown {
+        if (error instanceof OtpError) {
+            return new ApiError(
+                otpErrorStatus[error.code] || 400,
+                error.code === 'OTP_SEND_FAILED'
+                    ? 'SMS_SEND_FAILED'
+                    : error.code,
+                error.message,
+            );
         }
+        return error;
     }
 
     private formatWalletData(wallet: any) {
@@ -0,0 +1,224 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Route,
+    Tags,
+    Body,
+    Path,
+    SuccessResponse,
+    Request,
+    Example,
+    Security,
+} from 'tsoa';
+import { AppRequest } from '../utils/request';
+import { ApiError } from '../utils/ApiError';
+import socialLoginService, {
+    SocialLoginError,
+} from '../services/social-login-service';
+import {
+    listSocialProviders,
+    SocialProviderError,
+} from '../services/social/social-provider';
+import auditLogService from '../services/audit-log-service';
+import { LoginOutcome } from '../services/mfa-service';
+import { BlockchainNetwork } from '../services/wallet-service';
+import { IWallet } from '../models/wallet-models';
+
+// Request interfaces
+interface SocialLoginRequest {
+    /** ID token the client obtained from the provider (Google, Apple) */
+    idToken?: string;
+    /** Nonce sent with the ID token request, if any */
+    nonce?: string;
+    /** Or an authorization code for the server to exchange */
+    code?: string;
+    redirectUri?: string;
+    codeVerifier?: string;
+    network?: BlockchainNetwork;
+    deviceName?: string; // Shown in the session list
+}
+
+// Response interfaces
+interface SocialProvidersResponse {
+    success: boolean;
+    providers: string[];
+}
+
+interface SocialLoginResponse {
+    success: boolean;
+    message: string;
+    data: {
+        walletAddress: string;
+        socialType: string;
+        userData: string;
+        network: BlockchainNetwork;
+    };
+    isActive: boolean;
+    created: boolean;
+    token?: string;
+    refreshToken?: string;
+    refreshTokenExpiresAt?: string;
+    /** Set when a TOTP code is needed; call /auth/mfa with mfaToken */
+    mfaRequired?: boolean;
+    mfaEnrolled?: boolean;
+    mfaToken?: string;
+    mfaTokenExpiresAt?: string;
+}
+
+const errorStatus: Record<string, number> = {
+    PROVIDER_NOT_SUPPORTED: 404,
+    WALLET_INACTIVE: 403,
+    INVALID_ID_TOKEN: 401,
+    CODE_EXCHANGE_FAILED: 401,
+    PROVIDER_ERROR: 502,
+};
+
+@Route('auth/social')
+@Tags('Social Authentication')
+@Security('app')
+@Security('apiKey', ['auth'])
+export class SocialAuthController extends Controller {
+    /**
+     * Social login providers enabled on this server
+     */
+    @Get('providers')
+    @SuccessResponse('200', 'Providers retrieved successfully')
+    @Example<SocialProvidersResponse>({
+        success: true,
+        providers: ['google', 'apple', 'github'],
+    })
+    public async getProviders(): Promise<SocialProvidersResponse> {
+        return { success: true, providers: listSocialProviders() };
+    }
+
+    /**
+     * Log in with a social provider. Send the provider's ID token, or an
+     * authorization code with its redirect URI (required for GitHub).
+     * Creates the wallet on first login and issues the same tokens as
+     * the OTP logins.
+     * @example requestBody {"idToken": "eyJhbGciOiJSUzI1NiIs...", "network": "evm"}
+     */
+    @Post('{provider}/login')
+    @SuccessResponse('200', 'Logged in successfully')
+    @Example<SocialLoginResponse>({
+        success: true,
+        message: 'Logged in successfully',
+        data: {
+            walletAddress: '0x742E6B6D8B6C4e8D8e8D8e8D8e8D8e8D8e8D8e8D',
+            socialType: 'google',
+            userData:
+                '{"provider":"google","email":"user@example.com","emailVerified":true,"network":"evm"}',
+            network: BlockchainNetwork.EVM,
+        },
+        isActive: true,
+        created: true,
+        token: 'jwt-token-here',
+        refreshToken: '665f1c2e8b3a4d0012345678.q7Z9...',
+        refreshTokenExpiresAt: '2025-01-08T00:00:00.000Z',
+    })
+    public async login(
+        @Path() provider: string,
+        @Body() body: SocialLoginRequest,
+        @Request() request: AppRequest,
+    ): Promise<SocialLoginResponse> {
+        const { app } = request.user;
+        const network = body.network || BlockchainNetwork.EVM;
+
+        try {
+            const { wallet, login, created } = await socialLoginService.login(
+                provider,
+                {
+                    idToken: body.idToken,
+                    nonce: body.nonce,
+                    code: body.code,
+                    redirectUri: body.redirectUri,
+                    codeVerifier: body.codeVerifier,
+                },
+                app.appId,
+                network,
+                {
+                    ...auditLogService.contextFromRequest(request, {
+                        appId: app.appId,
+                    }),
+                    deviceName: body.deviceName,
+                },
+            );
+
+            return this.formatLogin(wallet, login, created);
+        } catch (error) {
+            throw this.toApiError(error, 'Social login failed');
+        }
+    }
+
+    // Private helper methods
+
+    /**
+     * Tokens for a completed login, or the limited token when the wallet
+     * still has to pass its second factor
+     */
+    private formatLogin(
+        wallet: IWallet,
+        login: LoginOutcome,
+        created: boolean,
+    ): SocialLoginResponse {
+        const data = {
+            walletAddress: wallet.address,
+            socialType: wallet.socialType,
+            userData: wallet.userData || '{}',
+            network: wallet.network as string as BlockchainNetwork,
+        };
+
+        if ('mfa' in login) {
+            return {
+                success: true,
+                message: 'Second factor required',
+                data,
+                isActive: true,
+                created,
+                mfaRequired: true,
+                mfaEnrolled: login.mfa.enrolled,
+                mfaToken: login.mfa.mfaToken,
+                mfaTokenExpiresAt: login.mfa.expiresAt.toISOString(),
+            };
+        }
+
+        return {
+            success: true,
+            message: 'Logged in successfully',
+            data,
+            isActive: true,
+            created,
+            token: login.session.accessToken,
+            refreshToken: login.session.refreshToken,
+            refreshTokenExpiresAt:
+                login.session.refreshTokenExpiresAt.toISOString(),
+        };
+    }
+
+    private toApiError(error: unknown, message: string): ApiError {
+        console.error(`${message}:`, error);
+        if (error instanceof ApiError) {
+            return error;
+        }
+        if (
+            error instanceof SocialLoginError ||
+            error instanceof SocialProviderError
+        ) {
+            return new ApiError(
+                errorStatus[error.code] || 400,
+                error.code,
+                error.message,
+            );
+        }
+        return new ApiError(
+            500,
+            'SOCIAL_LOGIN_ERROR',
+            `${message}: ${
+                error instanceof Error ? error.message : 'Unknown error'
+            }`,
+        );
+    }
+}
+
+export default new SocialAuthController();
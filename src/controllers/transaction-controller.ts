@@ -10,11 +10,18 @@ import {
     Example,
     Security,
     Request,
+    Middlewares,
 } from 'tsoa';
 import { ApiError } from '../utils/ApiError';
+import { requireStepUp } from '../middleware/step-up';
 import { Request as ExpressRequest } from 'express';
-import { Wallet } from '../models/wallet-models';
+import { CustomRequest } from '../utils/request';
 import { TransactionService } from '../services/transaction-service';
+import { SolanaService } from '../services/solana-service';
+import walletService, { BlockchainNetwork } from '../services/wallet-service';
+import keyCustodyService, {
+    KeyCustodyError,
+} from '../services/key-custody-service';
 import {
     SendTransactionRequest,
     SendTransactionResponse,
@@ -23,23 +30,30 @@ import {
     GasPriceResponse,
     TransactionStatusResponse,
 } from '../types/transaction-types';
+import {
+    SolanaTransferRequest,
+    SolanaTransferResponse,
+} from '../types/solana-types';
 
 @Route('transactions')
 @Tags('Transaction Service')
-@Security('app')
-@Security('bearer')
+@Security({ bearer: [], app: [] })
+@Security({ bearer: [], apiKey: ['transactions'] })
 export class TransactionController extends Controller {
     private transactionService: TransactionService;
+    private solanaService: SolanaService;
 
     constructor() {
         super();
         this.transactionService = new TransactionService();
+        this.solanaService = new SolanaService();
     }
 
     /**
      * Send transaction (native token or ERC20)
      */
     @Post('send')
+    @Middlewares(requireStepUp)
     @SuccessResponse('200', 'Transaction sent successfully')
     @Example<SendTransactionResponse>({
         success: true,
@@ -56,18 +70,7 @@ export class TransactionController extends Controller {
         @Request() request: ExpressRequest,
     ): Promise<SendTransactionResponse> {
         try {
-            const { wallet: basicWallet } = (request as any).user;
-            const completeWallet = await Wallet.findOne({
-                address: basicWallet.address,
-            }).select('+encryptedPrivateKey +encryptionSalt');
-
-            if (!completeWallet?.encryptedPrivateKey) {
-                throw new ApiError(
-                    400,
-                    'WALLET_ERROR',
-                    'No wallet found or private key not available',
-                );
-            }
+            const { wallet } = (request as any).user;
 
             // Validate addresses
             if (
@@ -91,11 +94,14 @@ export class TransactionController extends Controller {
                 );
             }
 
-            const privateKey =
-                completeWallet.encryptedPrivateKey as `0x${string}`;
-            const result = await this.transactionService.sendTransaction(
-                body,
-                privateKey,
+            const result = await keyCustodyService.withDecryptedKey(
+                wallet._id,
+                (privateKey) =>
+                    this.transactionService.sendTransaction(
+                        body,
+                        privateKey as `0x${string}`,
+                    ),
+                wallet.accountIndex,
             );
 
             if (result.success) {
@@ -112,6 +118,9 @@ export class TransactionController extends Controller {
             if (error instanceof ApiError) {
                 throw error;
             }
+            if (error instanceof KeyCustodyError) {
+                throw new ApiError(400, 'WALLET_ERROR', error.message);
+            }
             throw new ApiError(
                 500,
                 'SEND_TRANSACTION_ERROR',
@@ -327,18 +336,7 @@ export class TransactionController extends Controller {
         @Request() request: ExpressRequest,
     ): Promise<{ success: boolean; gasEstimate?: string; error?: string }> {
         try {
-            const { wallet: basicWallet } = (request as any).user;
-            const completeWallet = await Wallet.findOne({
-                address: basicWallet.address,
-            }).select('+encryptedPrivateKey +encryptionSalt');
-
-            if (!completeWallet?.encryptedPrivateKey) {
-                throw new ApiError(
-                    400,
-                    'WALLET_ERROR',
-                    'No wallet found or private key not available',
-                );
-            }
+            const { wallet } = (request as any).user;
 
             // Validate addresses
             if (
@@ -362,11 +360,14 @@ export class TransactionController extends Controller {
                 );
             }
 
-            const privateKey =
-                completeWallet.encryptedPrivateKey as `0x${string}`;
-            const result = await this.transactionService.estimateGas(
-                body,
-                privateKey,
+            const result = await keyCustodyService.withDecryptedKey(
+                wallet._id,
+                (privateKey) =>
+                    this.transactionService.estimateGas(
+                        body,
+                        privateKey as `0x${string}`,
+                    ),
+                wallet.accountIndex,
             );
 
             if (result.success) {
@@ -383,6 +384,9 @@ export class TransactionController extends Controller {
             if (error instanceof ApiError) {
                 throw error;
             }
+            if (error instanceof KeyCustodyError) {
+                throw new ApiError(400, 'WALLET_ERROR', error.message);
+            }
             throw new ApiError(
                 500,
                 'GAS_ESTIMATE_ERROR',
@@ -392,6 +396,96 @@ export class TransactionController extends Controller {
             );
         }
     }
+
+    /**
+     * Send a Solana transfer (native SOL or SPL token)
+     */
+    @Post('solana/send')
+    @Middlewares(requireStepUp)
+    @SuccessResponse('200', 'Transfer sent successfully')
+    @Example<SolanaTransferResponse>({
+        success: true,
+        signature:
+            '5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW',
+        fromAddress: '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM',
+        toAddress: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
+        amount: '0.1',
+        cluster: 'devnet',
+        explorerUrl:
+            'https://explorer.solana.com/tx/5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW?cluster=devnet',
+    })
+    public async sendSolanaTransfer(
+        @Body() body: SolanaTransferRequest,
+        @Request() request: CustomRequest,
+    ): Promise<SolanaTransferResponse> {
+        try {
+            const { wallet } = request.user;
+
+            if (wallet.network !== BlockchainNetwork.SOLANA) {
+                throw new ApiError(
+                    400,
+                    'UNSUPPORTED_NETWORK',
+                    'This endpoint requires a Solana wallet',
+                );
+            }
+            if (
+                !walletService.validateWalletAddress(
+                    body.toAddress,
+                    BlockchainNetwork.SOLANA,
+                )
+            ) {
+                throw new ApiError(
+                    400,
+                    'INVALID_TO_ADDRESS',
+                    'Invalid to address format',
+                );
+            }
+            if (
+                body.mint &&
+                !walletService.validateWalletAddress(
+                    body.mint,
+                    BlockchainNetwork.SOLANA,
+                )
+            ) {
+                throw new ApiError(
+                    400,
+                    'INVALID_MINT_ADDRESS',
+                    'Invalid token mint address format',
+                );
+            }
+
+            const result = await keyCustodyService.withDecryptedKey(
+                wallet._id,
+                (secretKey) => this.solanaService.sendTransfer(body, secretKey),
+                wallet.accountIndex,
+            );
+
+            if (result.success) {
+                return result;
+            } else {
+                throw new ApiError(
+                    400,
+                    'SEND_TRANSACTION_FAILED',
+                    result.error || 'Failed to send transfer',
+                );
+            }
+        } catch (error) {
+            console.error('Error sending Solana transfer:', error);
+            if (error instanceof ApiError) {
+                throw error;
+            }
+            if (error instanceof KeyCustodyError) {
+                throw new ApiError(400, 'WALLET_ERROR', error.message);
+            }
+            throw new ApiError(
+                500,
+                'SEND_TRANSACTION_ERROR',
+                `Failed to send transfer: ${
+                    error instanceof Error ? error.message : 'Unknown error'
+                }`,
+            );
+        }
+    }
 }
 
 const transactionController = new TransactionController();
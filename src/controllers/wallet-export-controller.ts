@@ -0,0 +1,179 @@
+import {
+    Controller,
+    Post,
+    Route,
+    Tags,
+    Body,
+    SuccessResponse,
+    Request,
+    Example,
+    Security,
+    Middlewares,
+} from 'tsoa';
+import { CustomRequest } from '../utils/request';
+import { ApiError } from '../utils/ApiError';
+import { requireStepUp } from '../middleware/step-up';
+import walletExportService, {
+    EncryptedExport,
+    ExportSecretType,
+    WalletExportError,
+} from '../services/wallet-export-service';
+import { KeyCustodyError } from '../services/key-custody-service';
+import auditLogService from '../services/audit-log-service';
+
+// Request interfaces
+interface ExportWalletRequest {
+    otp: string;
+    type: ExportSecretType;
+    /**
+     * RSA (2048+ bit) or X25519 public key, PEM or base64 SPKI.
+     * The secret is encrypted to this key and never returned in plaintext.
+     */
+    clientPublicKey: string;
+}
+
+// Response interfaces
+interface RequestExportOtpResponse {
+    success: boolean;
+    message: string;
+    channel: 'email' | 'sms';
+    expiresAt: string;
+}
+
+interface ExportWalletResponse {
+    success: boolean;
+    type: ExportSecretType;
+    address: string;
+    accountIndex?: number;
+    payload: EncryptedExport;
+}
+
+const errorStatus: Record<string, number> = {
+    RATE_LIMITED: 429,
+    OTP_LOCKED: 429,
+    RESEND_TOO_SOON: 429,
+    WALLET_NOT_FOUND: 404,
+    OTP_SEND_FAILED: 500,
+};
+
+@Route('auth/wallet/export')
+@Tags('Wallet Export')
+@Security('bearer')
+export class WalletExportController extends Controller {
+    /**
+     * Send a step-up OTP to the wallet's email or phone.
+     * Required before every export.
+     */
+    @Post('request')
+    @SuccessResponse('200', 'Export code sent')
+    @Example<RequestExportOtpResponse>({
+        success: true,
+        message: 'Export code sent',
+        channel: 'email',
+        expiresAt: '2025-01-01T00:10:00.000Z',
+    })
+    public async requestExportOtp(
+        @Request() request: CustomRequest,
+    ): Promise<RequestExportOtpResponse> {
+        const { wallet } = request.user;
+
+        try {
+            const { channel, expiresAt } =
+                await walletExportService.requestExportOtp(
+                    wallet._id,
+                    auditLogService.contextFromRequest(request, {
+                        walletId: wallet._id,
+                        appId: wallet.appId,
+                    }),
+                );
+
+            return {
+                success: true,
+                message: 'Export code sent',
+                channel,
+                expiresAt: expiresAt.toISOString(),
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to send export code');
+        }
+    }
+
+    /**
+     * Export the recovery phrase or the active account's private key,
+     * encrypted to the client-supplied public key
+     * @example requestBody {"otp": "123456", "type": "mnemonic", "clientPublicKey": "-----BEGIN PUBLIC KEY-----\n...\n-----END PUBLIC KEY-----"}
+     */
+    @Post()
+    @Middlewares(requireStepUp)
+    @SuccessResponse('200', 'Wallet exported')
+    @Example<ExportWalletResponse>({
+        success: true,
+        type: 'mnemonic',
+        address: '0xa5E0Da329eE5AA03f09228e534953496334080f5',
+        payload: {
+            algorithm: 'RSA-OAEP-256+A256GCM',
+            encryptedKey: 'base64-rsa-oaep-wrapped-key',
+            iv: 'base64-iv',
+            authTag: 'base64-auth-tag',
+            ciphertext: 'base64-ciphertext',
+        },
+    })
+    public async exportWallet(
+        @Body() body: ExportWalletRequest,
+        @Request() request: CustomRequest,
+    ): Promise<ExportWalletResponse> {
+        const { wallet } = request.user;
+
+        if (!body.otp || !body.clientPublicKey) {
+            throw new ApiError(
+                400,
+                'VALIDATION_ERROR',
+                'otp and clientPublicKey are required',
+            );
+        }
+
+        try {
+            const result = await walletExportService.exportWallet(
+                wallet._id,
+                wallet.accountIndex,
+                body,
+                auditLogService.contextFromRequest(request, {
+                    walletId: wallet._id,
+                    appId: wallet.appId,
+                }),
+            );
+
+            return { success: true, ...result };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to export wallet');
+        }
+    }
+
+    // Private helper methods
+
+    private toApiError(error: unknown, message: string): ApiError {
+        console.error(`${message}:`, error);
+        if (error instanceof ApiError) {
+            return error;
+        }
+        if (error instanceof WalletExportError) {
+            return new ApiError(
+                errorStatus[error.code] || 400,
+                error.code,
+                error.message,
+            );
+        }
+        if (error instanceof KeyCustodyError) {
+            return new ApiError(400, 'WALLET_ERROR', error.message);
+        }
+        return new ApiError(
+            500,
+            'EXPORT_ERROR',
+            `${message}: ${
+                error instanceof Error ? error.message : 'Unknown error'
+            }`,
+        );
+    }
+}
+
+export default new WalletExportController();
@@ -0,0 +1,256 @@
+import {
+    Controller,
+    Post,
+    Route,
+    Tags,
+    Body,
+    SuccessResponse,
+    Request,
+    Example,
+    Security,
+} from 'tsoa';
+import { CustomRequest } from '../utils/request';
+import { ApiError } from '../utils/ApiError';
+import walletImportService, {
+    WalletImportError,
+} from '../services/wallet-import-service';
+import { WalletAccountError } from '../services/wallet-account-service';
+import { KeyCustodyError } from '../services/key-custody-service';
+import auditLogService from '../services/audit-log-service';
+import sessionService from '../services/session-service';
+import mfaService from '../services/mfa-service';
+import { BlockchainNetwork } from '../services/wallet-service';
+
+// Request interfaces
+interface ImportChallengeRequest {
+    network: BlockchainNetwork;
+    address: string;
+}
+
+interface ImportWalletRequest {
+    nonce: string;
+    /**
+     * The challenge message signed by the imported key.
+     * EVM: personal_sign hex. Stellar: base64 Ed25519. Solana: base58 Ed25519.
+     */
+    signature: string;
+    /** Provide either privateKey or mnemonic */
+    privateKey?: string;
+    mnemonic?: string;
+    label?: string;
+}
+
+// Response interfaces
+interface ImportChallengeResponse {
+    success: boolean;
+    nonce: string;
+    message: string;
+    expiresAt: string;
+}
+
+interface ImportWalletResponse {
+    success: boolean;
+    address: string;
+    network: BlockchainNetwork;
+    walletAddress: string;
+    accountIndex: number;
+    created: boolean;
+    token?: string;
+    /** Set when the key went to another wallet, which gets its own session */
+    refreshToken?: string;
+    /**
+     * Set instead of the tokens when that wallet needs a TOTP code; call
+     * /auth/mfa with mfaToken
+     */
+    mfaRequired?: boolean;
+    mfaEnrolled?: boolean;
+    mfaToken?: string;
+    mfaTokenExpiresAt?: string;
+}
+
+const errorStatus: Record<string, number> = {
+    RATE_LIMITED: 429,
+    WALLET_EXISTS: 409,
+    CHALLENGE_NOT_FOUND: 404,
+};
+
+@Route('auth/wallet/import')
+@Tags('Wallet Import')
+@Security('bearer')
+export class WalletImportController extends Controller {
+    /**
+     * Get a challenge to sign with the wallet being imported
+     * @example requestBody {"network": "evm", "address": "0x742E6B6D8B6C4e8D8e8D8e8D8e8D8e8D8e8D8e8D"}
+     */
+    @Post('challenge')
+    @SuccessResponse('200', 'Challenge issued')
+    @Example<ImportChallengeResponse>({
+        success: true,
+        nonce: '9f86d081884c7d659a2feaa0c55ad015',
+        message:
+            'Crefy Connect wallet import\n\nSign this message to prove you own this wallet and import it into your account.\n\nAddress: 0x742E6B6D8B6C4e8D8e8D8e8D8e8D8e8D8e8D8e8D\nNetwork: evm\nApp: app_123\nNonce: 9f86d081884c7d659a2feaa0c55ad015\nIssued At: 2025-01-01T00:00:00.000Z\nExpiration Time: 2025-01-01T00:05:00.000Z',
+        expiresAt: '2025-01-01T00:05:00.000Z',
+    })
+    public async createChallenge(
+        @Body() body: ImportChallengeRequest,
+        @Request() request: CustomRequest,
+    ): Promise<ImportChallengeResponse> {
+        const { wallet } = request.user;
+
+        if (!body.network || !body.address) {
+            throw new ApiError(
+                400,
+                'VALIDATION_ERROR',
+                'network and address are required',
+            );
+        }
+
+        try {
+            const challenge = await walletImportService.createChallenge(
+                wallet,
+                body.network,
+                body.address,
+                auditLogService.contextFromRequest(request, {
+                    walletId: wallet._id,
+                    appId: wallet.appId,
+                }),
+            );
+
+            return {
+                success: true,
+                nonce: challenge.nonce,
+                message: challenge.message,
+                expiresAt: challenge.expiresAt.toISOString(),
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to create import challenge');
+        }
+    }
+
+    /**
+     * Import a private key or mnemonic after signing the challenge with it.
+     * Keys on the current wallet's network become a new account; keys on
+     * another network are added to (or create) that network's wallet.
+     * Returns a token bound to the imported account, or a limited token
+     * when another wallet takes the key and needs its second factor.
+     * @example requestBody {"nonce": "9f86d081884c7d659a2feaa0c55ad015", "signature": "0x...", "privateKey": "0x...", "label": "Hardware backup"}
+     */
+    @Post()
+    @SuccessResponse('201', 'Wallet imported')
+    @Example<ImportWalletResponse>({
+        success: true,
+        address: '0x742E6B6D8B6C4e8D8e8D8e8D8e8D8e8D8e8D8e8D',
+        network: BlockchainNetwork.EVM,
+        walletAddress: '0xa5E0Da329eE5AA03f09228e534953496334080f5',
+        accountIndex: 2,
+        created: false,
+        token: 'jwt-token-here',
+    })
+    public async importWallet(
+        @Body() body: ImportWalletRequest,
+        @Request() request: CustomRequest,
+    ): Promise<ImportWalletResponse> {
+        const { wallet } = request.user;
+
+        if (!body.nonce || !body.signature) {
+            throw new ApiError(
+                400,
+                'VALIDATION_ERROR',
+                'nonce and signature are required',
+            );
+        }
+
+        try {
+            const { walletId, ...result } =
+                await walletImportService.importWallet(
+                    wallet,
+                    {
+                        nonce: body.nonce,
+                        signature: body.signature,
+                        privateKey: body.privateKey,
+                        mnemonic: body.mnemonic,
+                        label: body.label,
+                    },
+                    auditLogService.contextFromRequest(request, {
+                        walletId: wallet._id,
+                        appId: wallet.appId,
+                    }),
+                );
+
+            this.setStatus(201);
+
+            if (result.walletAddress === wallet.primaryAddress) {
+                const token = await sessionService.switchAccount(
+                    { ...wallet, address: wallet.primaryAddress },
+                    wallet.sessionId,
+                    result.accountIndex,
+                );
+                return { success: true, ...result, token };
+            }
+
+            // Another wallet is a login of its own, second factor included
+            const login = await mfaService.completeLogin(
+                {
+                    _id: walletId,
+                    appId: wallet.appId,
+                    address: result.walletAddress,
+                    network: result.network,
+                },
+                auditLogService.contextFromRequest(request, {
+                    walletId,
+                    appId: wallet.appId,
+                }),
+                result.accountIndex,
+            );
+            if ('mfa' in login) {
+                return {
+                    success: true,
+                    ...result,
+                    mfaRequired: true,
+                    mfaEnrolled: login.mfa.enrolled,
+                    mfaToken: login.mfa.mfaToken,
+                    mfaTokenExpiresAt: login.mfa.expiresAt.toISOString(),
+                };
+            }
+            return {
+                success: true,
+                ...result,
+                token: login.session.accessToken,
+                refreshToken: login.session.refreshToken,
+            };
+        } catch (error) {
+            throw this.toApiError(error, 'Failed to import wallet');
+        }
+    }
+
+    // Private helper methods
+
+    private toApiError(error: unknown, message: string): ApiError {
+        console.error(`${message}:`, error);
+        if (error instanceof ApiError) {
+            return error;
+        }
+        if (error instanceof WalletImportError) {
+            return new ApiError(
+                errorStatus[error.code] || 400,
+                error.code,
+                error.message,
+            );
+        }
+        if (error instanceof WalletAccountError) {
+            return new ApiError(400, 'ACCOUNT_ERROR', error.message);
+        }
+        if (error instanceof KeyCustodyError) {
+            return new ApiError(400, 'WALLET_ERROR', error.message);
+        }
+        return new ApiError(
+            500,
+            'IMPORT_ERROR',
+            `${message}: ${
+                error instanceof Error ? error.message : 'Unknown error'
+            }`,
+        );
+    }
+}
+
+export default new WalletImportController();
@@ -0,0 +1,83 @@
+import { Controller, Get, Route, Tags, SuccessResponse, Example } from 'tsoa';
+import { ApiError } from '../utils/ApiError';
+import jwtSigningService from '../services/jwt-signing-service';
+import oidcService, { OidcDiscoveryDocument } from '../services/oidc-service';
+
+// Response interfaces
+interface JwkData {
+    kty: string;
+    kid: string;
+    alg: string;
+    use: string;
+    /** RSA modulus and exponent */
+    n?: string;
+    e?: string;
+    /** Ed25519 curve and public key */
+    crv?: string;
+    x?: string;
+}
+
+interface JwksResponse {
+    keys: JwkData[];
+}
+
+@Route('.well-known')
+@Tags('Well-Known')
+export class WellKnownController extends Controller {
+    /**
+     * Public keys that verify wallet access tokens. Match a token's `kid`
+     * header against these; a key stays listed until the tokens it signed
+     * have expired.
+     */
+    @Get('jwks.json')
+    @SuccessResponse('200', 'Key set retrieved successfully')
+    @Example<JwksResponse>({
+        keys: [
+            {
+                kty: 'OKP',
+                crv: 'Ed25519',
+                x: '11qYAYKxCrfVS_7TyWQHOg7hcvPapiMlrwIaaPcHURo',
+                kid: 'kPrK_qmxVWaYVA9wwBF6Iuo3vVzz7TxHCTwXBygrS4k',
+                alg: 'EdDSA',
+                use: 'sig',
+            },
+        ],
+    })
+    public async getJwks(): Promise<JwksResponse> {
+        try {
+            const { keys } = await jwtSigningService.getJwks();
+            this.setHeader('Cache-Control', 'public, max-age=300');
+            return {
+                keys: keys.map(({ kty, kid, alg, use, n, e, crv, x }) => ({
+                    kty: kty!,
+                    kid,
+                    alg,
+                    use,
+                    ...(n && { n }),
+                    ...(e && { e }),
+                    ...(crv && { crv }),
+                    ...(x && { x }),
+                })),
+            };
+        } catch (error) {
+            console.error('Failed to load signing keys:', error);
+            throw new ApiError(
+                500,
+                'JWKS_ERROR',
+                'Failed to load signing keys',
+            );
+        }
+    }
+
+    /**
+     * OpenID Connect discovery metadata
+     */
+    @Get('openid-configuration')
+    @SuccessResponse('200', 'Provider metadata retrieved successfully')
+    public async getOpenIdConfiguration(): Promise<OidcDiscoveryDocument> {
+        this.setHeader('Cache-Control', 'public, max-age=3600');
+        return oidcService.getDiscoveryDocument();
+    }
+}
+
+export default new WellKnownController();
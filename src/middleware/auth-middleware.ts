@@ -8,7 +8,7 @@ import type {
     IWalletResponse,
     JwtPayload,
 } from '../types';
-import { App } from '../models/app-models';
+import { App, IApp, INACTIVE_APP_STATUSES } from '../models/app-models';
 
 export interface AuthenticatedRequest extends Request {
     wallet?: IWalletResponse;
@@ -16,7 +16,7 @@ export interface AuthenticatedRequest extends Request {
 }
 
 // Security-sensitive fields that should never be exposed
-const SENSITIVE_FIELDS = '-encryptedPrivateKey -encryptionSalt -otp -otpExpiry';
+const SENSITIVE_FIELDS = '-encryptedPrivateKey -encryptionSalt';
 
 // Fields to include in standard wallet responses
 const STANDARD_WALLET_FIELDS = '-encryptedPrivateKey -encryptionSalt';
@@ -48,8 +48,6 @@ export const convertWalletToResponse = (
         createdAt: walletData.createdAt,
         updatedAt: walletData.updatedAt,
         isActive: walletData.isActive,
-        otp: walletData.otp,
-        otpExpiry: walletData.otpExpiry,
         oauthTokens: walletData.oauthTokens,
     };
 };
@@ -94,7 +92,9 @@ const isValidJwtPayload = (payload: any): payload is JwtPayload => {
     return (
         payload &&
         typeof payload === 'object' &&
-        typeof payload.address === 'string' // Only require address since that's what's in your tokens
+        typeof payload.address === 'string' &&
+        typeof payload.sub === 'string' &&
+        typeof payload.aud === 'string'
     );
 };
 
@@ -119,19 +119,23 @@ export const authenticateToken = async (
         }
 
         // Verify JWT token
-        const decoded = verifyJWT(token);
+        const decoded = await verifyJWT(token);
         console.log('Decoded JWT:', decoded);
 
         if (!isValidJwtPayload(decoded)) {
             throw new ApiError(
                 401,
                 'INVALID_TOKEN_PAYLOAD',
-                'Invalid token payload structure - expected address field',
+                'Invalid token payload structure - expected address, sub and aud',
             );
         }
 
-        // Find wallet in database by address (since that's what's in the JWT)
-        const walletDoc = await Wallet.findOne({ address: decoded.address })
+        // The wallet is identified by id within the app the token was issued for
+        const walletDoc = await Wallet.findOne({
+            _id: decoded.sub,
+            appId: decoded.aud,
+            address: decoded.address,
+        })
             .select('+encryptedPrivateKey')
             .lean<IWalletLean>();
 
@@ -170,7 +174,7 @@ export const authenticateToken = async (
         }
 
         // Handle JWT verification errors
-        if (error.name === 'JsonWebTokenError') {
+        if (error.code === 'INVALID_TOKEN') {
             res.status(401).json({
                 success: false,
                 error: {
@@ -181,7 +185,7 @@ export const authenticateToken = async (
             return;
         }
 
-        if (error.name === 'TokenExpiredError') {
+        if (error.code === 'TOKEN_EXPIRED') {
             res.status(401).json({
                 success: false,
                 error: {
@@ -229,7 +233,7 @@ export const validateApp = async (
         }
 
         // Fetch app from database (no need for clientSecret)
-        const app = await App.findOne({ appId });
+        const app = await App.findOne({ appId, status: { $ne: 'deleted' } });
 
         if (!app) {
             throw new ApiError(404, 'APP_NOT_FOUND', 'Invalid App ID');
@@ -237,7 +241,13 @@ export const validateApp = async (
 
         // Check if app is active/valid
         if (!isAppActive(app)) {
-            throw new ApiError(403, 'APP_INACTIVE', 'App is not active');
+            throw new ApiError(
+                403,
+                'APP_INACTIVE',
+                `App is ${app.status}${
+                    app.statusReason ? `: ${app.statusReason}` : ''
+                }`,
+            );
         }
 
         // Attach app to request object
@@ -269,10 +279,8 @@ export const validateApp = async (
 };
 
 /**
- * Check if app is active (add your business logic here)
+ * Sandbox and live apps can be used; suspended and deleted ones can't
  */
-const isAppActive = (app: any): boolean => {
-    // Add any app status checks here
-    // For example: check if app is not suspended, not expired, etc.
-    return true; // Default to true for now
+const isAppActive = (app: IApp): boolean => {
+    return !INACTIVE_APP_STATUSES.includes(app.status);
 };
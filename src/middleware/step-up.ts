@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/ApiError';
+import { CustomRequest } from '../utils/request';
+import passkeyService from '../services/passkey-service';
+import sessionService from '../services/session-service';
+
+/**
+ * Guard for sensitive actions. Wallets with a passkey must have stepped
+ * up with it on the current session within the last few minutes; wallets
+ * without one pass, since OTP login is their strongest factor.
+ *
+ * Declare it after bearer security: `@Middlewares(requireStepUp)`.
+ */
+export const requireStepUp = async (
+    req: Request,
+    _res: Response,
+    next: NextFunction,
+): Promise<void> => {
+    try {
+        const wallet = (req as Partial<CustomRequest>).user?.wallet;
+        if (!wallet) {
+            throw new ApiError(
+                401,
+                'MISSING_TOKEN',
+                'Authorization token is required',
+            );
+        }
+
+        if (!(await passkeyService.hasPasskeys(wallet._id))) {
+            return next();
+        }
+
+        const steppedUp =
+            !!wallet.sessionId &&
+            (await sessionService.hasRecentStepUp(
+                wallet.sessionId,
+                passkeyService.stepUpTtlMs,
+            ));
+        if (!steppedUp) {
+            throw new ApiError(
+                403,
+                'STEP_UP_REQUIRED',
+                'Confirm this action with your passkey at POST /auth/passkeys/step-up',
+            );
+        }
+
+        next();
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,87 @@
+import { Document, Schema, model, Model, Types } from 'mongoose';
+
+/**
+ * What an API key may call: login routes, or the wallet routes of the
+ * signing, transaction, ENS and balance APIs
+ */
+export type ApiKeyScope =
+    | 'auth'
+    | 'signing'
+    | 'transactions'
+    | 'ens'
+    | 'balance';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+    'auth',
+    'signing',
+    'transactions',
+    'ens',
+    'balance',
+];
+
+export interface IApiKey extends Document<Types.ObjectId> {
+    appId: string;
+    developerId: Types.ObjectId; // Who created the key
+    name: string;
+    prefix: string; // Start of the key, shown to tell keys apart
+    keyHash: string; // SHA-256 of the whole key
+    scopes: ApiKeyScope[];
+    expiresAt?: Date | undefined;
+    lastUsedAt?: Date | undefined;
+    revokedAt?: Date | undefined;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const ApiKeySchema = new Schema<IApiKey>(
+    {
+        appId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        developerId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Developer',
+            required: true,
+        },
+        name: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 100,
+        },
+        prefix: {
+            type: String,
+            required: true,
+        },
+        keyHash: {
+            type: String,
+            required: true,
+            unique: true,
+            select: false,
+        },
+        scopes: {
+            type: [String],
+            enum: API_KEY_SCOPES,
+            required: true,
+        },
+        expiresAt: {
+            type: Date,
+            required: false,
+        },
+        lastUsedAt: {
+            type: Date,
+            required: false,
+        },
+        revokedAt: {
+            type: Date,
+            required: false,
+        },
+    },
+    {
+        timestamps: true,
+    },
+);
+
+export const ApiKey: Model<IApiKey> = model<IApiKey>('ApiKey', ApiKeySchema);
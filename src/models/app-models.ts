@@ -1,5 +1,30 @@
 import { Document, Schema, model, Model, Types } from 'mongoose';
-import { generateAppId, generateClientSecret } from '../utils/auth';
+import crypto from 'crypto';
+import { generateAppId } from '../utils/auth';
+
+/**
+ * How the app's users log in by email: a typed code, a one-click link,
+ * or either
+ */
+export type EmailLoginMode = 'otp' | 'link' | 'both';
+
+/**
+ * Apps start in sandbox and go live when the developer is ready.
+ * Suspended and deleted apps can't be used to log in or call the API.
+ */
+export type AppStatus = 'sandbox' | 'live' | 'suspended' | 'deleted';
+
+export const INACTIVE_APP_STATUSES: AppStatus[] = ['suspended', 'deleted'];
+
+/**
+ * How the app authenticates at the OIDC token endpoint. `none` is for
+ * public clients, such as single-page apps, that can't keep the client
+ * secret and rely on PKCE alone.
+ */
+export type TokenEndpointAuthMethod =
+    | 'client_secret_basic'
+    | 'client_secret_post'
+    | 'none';
 
 export interface IApp extends Document {
     developerId: Types.ObjectId;
@@ -8,9 +33,18 @@ export interface IApp extends Document {
     description?: string;
     redirectUrls: string[];
     iconUrl?: string;
-    clientSecret: string;
+    emailLoginMode: EmailLoginMode;
+    requireMfa: boolean; // Users must pass a TOTP second factor to get a full token
+    tokenEndpointAuthMethod: TokenEndpointAuthMethod;
+    status: AppStatus;
+    statusReason?: string | undefined; // Shown to the developer, e.g. why it was suspended
+    statusChangedAt?: Date | undefined;
+    suspendedFrom?: AppStatus | undefined; // Status a restore returns to
+    clientSecret?: string | undefined; // Legacy plaintext; cleared when the secret is rotated
+    clientSecretHash?: string | undefined; // SHA-256; the secret itself is shown once
     createdAt: Date;
     updatedAt: Date;
+    verifyClientSecret(secret: string): boolean;
 }
 
 const AppSchema = new Schema<IApp>(
@@ -82,11 +116,50 @@ const AppSchema = new Schema<IApp>(
                 message: 'Icon URL must be a valid HTTP/HTTPS URL',
             },
         },
+        emailLoginMode: {
+            type: String,
+            enum: ['otp', 'link', 'both'],
+            default: 'otp',
+        },
+        requireMfa: {
+            type: Boolean,
+            default: false,
+        },
+        tokenEndpointAuthMethod: {
+            type: String,
+            enum: ['client_secret_basic', 'client_secret_post', 'none'],
+            default: 'client_secret_basic',
+        },
+        status: {
+            type: String,
+            enum: ['sandbox', 'live', 'suspended', 'deleted'],
+            default: 'sandbox',
+            index: true,
+        },
+        statusReason: {
+            type: String,
+            required: false,
+            trim: true,
+            maxlength: 500,
+        },
+        statusChangedAt: {
+            type: Date,
+            required: false,
+        },
+        suspendedFrom: {
+            type: String,
+            enum: ['sandbox', 'live'],
+            required: false,
+        },
         clientSecret: {
             type: String,
-            required: true,
+            required: false,
+            select: false,
+        },
+        clientSecretHash: {
+            type: String,
+            required: false,
             select: false,
-            default: generateClientSecret,
         },
     },
     {
@@ -112,16 +185,33 @@ AppSchema.pre<IApp>('save', function (next) {
 
 // Static methods
 AppSchema.statics.findByAppId = function (appId: string) {
-    return this.findOne({ appId });
+    return this.findOne({ appId, status: { $ne: 'deleted' } });
 };
 
 AppSchema.statics.findByDeveloper = function (developerId: Types.ObjectId) {
-    return this.find({ developerId }).sort({ createdAt: -1 });
+    return this.find({ developerId, status: { $ne: 'deleted' } }).sort({
+        createdAt: -1,
+    });
 };
 
-// Instance method to verify client secret
+// Instance method to verify client secret; needs +clientSecret +clientSecretHash
 AppSchema.methods.verifyClientSecret = function (secret: string): boolean {
-    return this.clientSecret === secret;
+    const expected: string | undefined =
+        this.clientSecretHash ??
+        (this.clientSecret &&
+            crypto
+                .createHash('sha256')
+                .update(this.clientSecret)
+                .digest('hex'));
+    if (!expected || typeof secret !== 'string') {
+        return false;
+    }
+
+    const provided = crypto.createHash('sha256').update(secret).digest('hex');
+    return crypto.timingSafeEqual(
+        Buffer.from(provided, 'hex'),
+        Buffer.from(expected, 'hex'),
+    );
 };
 
 export const App: Model<IApp> = model<IApp>('App', AppSchema);
@@ -0,0 +1,59 @@
+import { Document, Schema, model, Model, Types } from 'mongoose';
+
+export interface IAuditLog extends Document {
+    walletId?: Types.ObjectId | undefined;
+    appId?: string | undefined;
+    action: string;
+    outcome: 'success' | 'failure';
+    ipAddress?: string | undefined;
+    userAgent?: string | undefined;
+    metadata?: Record<string, unknown> | undefined;
+    createdAt: Date;
+}
+
+const AuditLogSchema = new Schema<IAuditLog>(
+    {
+        walletId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Wallet',
+            required: false,
+        },
+        appId: {
+            type: String,
+            required: false,
+            index: true,
+        },
+        action: {
+            type: String,
+            required: true,
+        },
+        outcome: {
+            type: String,
+            enum: ['success', 'failure'],
+            required: true,
+        },
+        ipAddress: {
+            type: String,
+            required: false,
+        },
+        userAgent: {
+            type: String,
+            required: false,
+        },
+        metadata: {
+            type: Schema.Types.Mixed,
+            required: false,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    },
+);
+
+// Supports per-wallet history and rate-limit lookups
+AuditLogSchema.index({ walletId: 1, action: 1, createdAt: -1 });
+
+export const AuditLog: Model<IAuditLog> = model<IAuditLog>(
+    'AuditLog',
+    AuditLogSchema,
+);
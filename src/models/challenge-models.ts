@@ -0,0 +1,63 @@
+import { Document, Schema, model, Model, Types } from 'mongoose';
+
+export interface IChallenge extends Document {
+    purpose: string;
+    appId: string;
+    walletId?: Types.ObjectId | undefined;
+    network: string;
+    address: string;
+    nonce: string;
+    message?: string | undefined; // Unset when the client composes the message (SIWE)
+    expiresAt: Date;
+    createdAt: Date;
+}
+
+const ChallengeSchema = new Schema<IChallenge>(
+    {
+        purpose: {
+            type: String,
+            required: true,
+        },
+        appId: {
+            type: String,
+            required: true,
+        },
+        walletId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Wallet',
+            required: false,
+        },
+        network: {
+            type: String,
+            required: true,
+        },
+        address: {
+            type: String,
+            required: true,
+        },
+        nonce: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        message: {
+            type: String,
+            required: false,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    },
+);
+
+// Expired challenges are removed by MongoDB
+ChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Challenge: Model<IChallenge> = model<IChallenge>(
+    'Challenge',
+    ChallengeSchema,
+);
@@ -1,37 +1,85 @@
-import { Document, Schema, model } from "mongoose";
+import { Document, Schema, model, Model, Types } from 'mongoose';
 
-interface IDeveloper extends Document {
+export interface IDeveloper extends Document<Types.ObjectId> {
     name: string;
-    email: string;
+    email: string; // Lowercased
     password: string;
-    apiKey: string;
-    isActive: boolean;
-    otp: number;
-    otpExpiresAt: Date;
-    passwordResetToken?: string;
-    passwordResetExpires?: Date;
+    companyName?: string | undefined;
+    website?: string | undefined;
+    isActive: boolean; // Set once the email is verified
+    passwordChangedAt?: Date | undefined; // Tokens issued before are rejected
+    passwordResetToken?: string | undefined; // SHA-256 of the emailed token
+    passwordResetExpires?: Date | undefined;
+    failedLoginAttempts: number;
+    lockedUntil?: Date | undefined;
     createdAt: Date;
     updatedAt: Date;
 }
 
-const DeveloperSchema = new Schema<IDeveloper>({
-    name: { type: String, required: true },
-    email: { type: String, required: true },
-    password: { type: String, required: true },
-    apiKey: { type: String, required: true },
-    isActive: { type: Boolean, default: false },
-    otp: { type: Number, required: false },
-    otpExpiresAt: { type: Date, required: false },
-    passwordResetToken: { type: String, required: false },
-    passwordResetExpires: { type: Date, required: false },
-    createdAt: { type: Date, default: Date.now },
-    updatedAt: { type: Date, default: Date.now },
-});
-
-DeveloperSchema.pre<IDeveloper>('save', function (next) {
-    this.updatedAt = new Date();
-    next();
-});
-
-export const Developer = model<IDeveloper>('Developer', DeveloperSchema);
+const DeveloperSchema = new Schema<IDeveloper>(
+    {
+        name: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 100,
+        },
+        email: {
+            type: String,
+            required: true,
+            unique: true,
+            lowercase: true,
+            trim: true,
+        },
+        password: {
+            type: String,
+            required: true,
+            select: false,
+        },
+        companyName: {
+            type: String,
+            required: false,
+            trim: true,
+            maxlength: 100,
+        },
+        website: {
+            type: String,
+            required: false,
+            trim: true,
+        },
+        isActive: {
+            type: Boolean,
+            default: false,
+        },
+        passwordChangedAt: {
+            type: Date,
+            required: false,
+        },
+        passwordResetToken: {
+            type: String,
+            required: false,
+            select: false,
+            index: { sparse: true },
+        },
+        passwordResetExpires: {
+            type: Date,
+            required: false,
+        },
+        failedLoginAttempts: {
+            type: Number,
+            default: 0,
+        },
+        lockedUntil: {
+            type: Date,
+            required: false,
+        },
+    },
+    {
+        timestamps: true,
+    },
+);
 
+export const Developer: Model<IDeveloper> = model<IDeveloper>(
+    'Developer',
+    DeveloperSchema,
+);
@@ -0,0 +1,78 @@
+import { JsonWebKey } from 'crypto';
+import { Document, Schema, model, Model } from 'mongoose';
+
+export type JwtSigningAlgorithm = 'RS256' | 'EdDSA';
+
+/**
+ * active: signs new tokens. retiring: no longer signs but stays in the
+ * JWKS until tokens it signed have expired. retired: unpublished.
+ */
+export type JwtSigningKeyStatus = 'active' | 'retiring' | 'retired';
+
+export interface IJwtSigningKey extends Document {
+    kid: string;
+    algorithm: JwtSigningAlgorithm;
+    publicJwk: JsonWebKey;
+    encryptedPrivateKey: string; // PKCS#8 PEM sealed through key custody
+    keyVersion: string;
+    status: JwtSigningKeyStatus;
+    retiringAt?: Date | undefined;
+    retiredAt?: Date | undefined;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const JwtSigningKeySchema = new Schema<IJwtSigningKey>(
+    {
+        kid: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        algorithm: {
+            type: String,
+            enum: ['RS256', 'EdDSA'],
+            required: true,
+        },
+        publicJwk: {
+            type: Schema.Types.Mixed,
+            required: true,
+        },
+        encryptedPrivateKey: {
+            type: String,
+            required: true,
+            select: false,
+        },
+        keyVersion: {
+            type: String,
+            required: true,
+        },
+        status: {
+            type: String,
+            enum: ['active', 'retiring', 'retired'],
+            default: 'active',
+        },
+        retiringAt: {
+            type: Date,
+            required: false,
+        },
+        retiredAt: {
+            type: Date,
+            required: false,
+        },
+    },
+    {
+        timestamps: true,
+    },
+);
+
+// At most one key signs at a time
+JwtSigningKeySchema.index(
+    { status: 1 },
+    { unique: true, partialFilterExpression: { status: 'active' } },
+);
+
+export const JwtSigningKey: Model<IJwtSigningKey> = model<IJwtSigningKey>(
+    'JwtSigningKey',
+    JwtSigningKeySchema,
+);
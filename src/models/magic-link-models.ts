@@ -0,0 +1,74 @@
+import { Document, Schema, model, Model, Types } from 'mongoose';
+
+/**
+ * sent: the link was emailed. redeemed: it was opened and a code was
+ * issued. exchanged: the code was redeemed for a session.
+ */
+export type MagicLinkStatus = 'sent' | 'redeemed' | 'exchanged';
+
+export interface IMagicLink extends Document<Types.ObjectId> {
+    linkId: string; // jti of the signed link token
+    appId: string;
+    walletId: Types.ObjectId;
+    email: string;
+    redirectUrl: string;
+    status: MagicLinkStatus;
+    codeHash?: string | undefined;
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const MagicLinkSchema = new Schema<IMagicLink>(
+    {
+        linkId: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        appId: {
+            type: String,
+            required: true,
+        },
+        walletId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Wallet',
+            required: true,
+        },
+        email: {
+            type: String,
+            required: true,
+        },
+        redirectUrl: {
+            type: String,
+            required: true,
+        },
+        status: {
+            type: String,
+            enum: ['sent', 'redeemed', 'exchanged'],
+            default: 'sent',
+        },
+        codeHash: {
+            type: String,
+            required: false,
+            select: false,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+    },
+);
+
+MagicLinkSchema.index({ codeHash: 1 }, { unique: true, sparse: true });
+
+// Expired links and codes are removed by MongoDB
+MagicLinkSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const MagicLink: Model<IMagicLink> = model<IMagicLink>(
+    'MagicLink',
+    MagicLinkSchema,
+);
@@ -0,0 +1,37 @@
+import { Document, Schema, model, Model } from 'mongoose';
+
+export type MasterKeyStatus = 'active' | 'retired';
+
+export interface IMasterKeyVersion extends Document {
+    version: string;
+    status: MasterKeyStatus;
+    retiredAt?: Date | undefined;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const MasterKeyVersionSchema = new Schema<IMasterKeyVersion>(
+    {
+        version: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        status: {
+            type: String,
+            enum: ['active', 'retired'],
+            default: 'active',
+            index: true,
+        },
+        retiredAt: {
+            type: Date,
+            required: false,
+        },
+    },
+    {
+        timestamps: true,
+    },
+);
+
+export const MasterKeyVersion: Model<IMasterKeyVersion> =
+    model<IMasterKeyVersion>('MasterKeyVersion', MasterKeyVersionSchema);
@@ -0,0 +1,109 @@
+import { Document, Schema, model, Model, Types } from 'mongoose';
+
+/**
+ * pending: waiting for the user to log in. authorized: a code was issued.
+ * exchanged: the code was redeemed for tokens.
+ */
+export type OAuthAuthorizationStatus = 'pending' | 'authorized' | 'exchanged';
+
+export interface IOAuthAuthorization extends Document<Types.ObjectId> {
+    requestId: string; // Handed to the hosted login page
+    clientId: string; // appId of the client
+    redirectUri: string;
+    scope: string;
+    state?: string | undefined;
+    nonce?: string | undefined;
+    codeChallenge: string;
+    codeChallengeMethod: 'S256';
+    status: OAuthAuthorizationStatus;
+    walletId?: Types.ObjectId | undefined;
+    accountIndex?: number | undefined;
+    codeHash?: string | undefined;
+    authTime?: Date | undefined;
+    sessionId?: Types.ObjectId | undefined; // Session the code was exchanged for
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const OAuthAuthorizationSchema = new Schema<IOAuthAuthorization>(
+    {
+        requestId: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        clientId: {
+            type: String,
+            required: true,
+        },
+        redirectUri: {
+            type: String,
+            required: true,
+        },
+        scope: {
+            type: String,
+            required: true,
+        },
+        state: {
+            type: String,
+            required: false,
+        },
+        nonce: {
+            type: String,
+            required: false,
+        },
+        codeChallenge: {
+            type: String,
+            required: true,
+        },
+        codeChallengeMethod: {
+            type: String,
+            enum: ['S256'],
+            required: true,
+        },
+        status: {
+            type: String,
+            enum: ['pending', 'authorized', 'exchanged'],
+            default: 'pending',
+        },
+        walletId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Wallet',
+            required: false,
+        },
+        accountIndex: {
+            type: Number,
+            required: false,
+        },
+        codeHash: {
+            type: String,
+            required: false,
+            select: false,
+        },
+        authTime: {
+            type: Date,
+            required: false,
+        },
+        sessionId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Session',
+            required: false,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+    },
+);
+
+OAuthAuthorizationSchema.index({ codeHash: 1 }, { unique: true, sparse: true });
+
+// Expired requests and codes are removed by MongoDB
+OAuthAuthorizationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const OAuthAuthorization: Model<IOAuthAuthorization> =
+    model<IOAuthAuthorization>('OAuthAuthorization', OAuthAuthorizationSchema);
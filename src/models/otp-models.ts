@@ -0,0 +1,103 @@
+import { Document, Schema, model, Model, Types } from 'mongoose';
+
+// The pending code for one purpose and recipient; a new code replaces it
+export interface IOtpCode extends Document<Types.ObjectId> {
+    purpose: string; // 'login', 'wallet_export', 'identity_link'
+    appId: string;
+    identifier: string; // Email or phone number the code was sent to
+    walletId?: Types.ObjectId | undefined;
+    codeHash: string;
+    attempts: number;
+    expiresAt: Date;
+    createdAt: Date;
+}
+
+// One code sent, kept for the send window to throttle resends
+export interface IOtpSend extends Document<Types.ObjectId> {
+    appId: string;
+    identifier: string;
+    ipAddress?: string | undefined;
+    expiresAt: Date;
+    createdAt: Date;
+}
+
+const OtpCodeSchema = new Schema<IOtpCode>(
+    {
+        purpose: {
+            type: String,
+            required: true,
+        },
+        appId: {
+            type: String,
+            required: true,
+        },
+        identifier: {
+            type: String,
+            required: true,
+        },
+        walletId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Wallet',
+            required: false,
+        },
+        codeHash: {
+            type: String,
+            required: true,
+        },
+        attempts: {
+            type: Number,
+            default: 0,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    },
+);
+
+OtpCodeSchema.index(
+    { purpose: 1, appId: 1, identifier: 1, walletId: 1 },
+    { unique: true },
+);
+OtpCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const OtpSendSchema = new Schema<IOtpSend>(
+    {
+        appId: {
+            type: String,
+            required: true,
+        },
+        identifier: {
+            type: String,
+            required: true,
+        },
+        ipAddress: {
+            type: String,
+            required: false,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    },
+);
+
+OtpSendSchema.index({ appId: 1, identifier: 1, createdAt: -1 });
+OtpSendSchema.index({ ipAddress: 1, createdAt: -1 });
+OtpSendSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const OtpCode: Model<IOtpCode> = model<IOtpCode>(
+    'OtpCode',
+    OtpCodeSchema,
+);
+
+export const OtpSend: Model<IOtpSend> = model<IOtpSend>(
+    'OtpSend',
+    OtpSendSchema,
+);
@@ -0,0 +1,69 @@
+import { Document, Schema, model, Model, Types } from 'mongoose';
+
+export interface IPasskey extends Document<Types.ObjectId> {
+    walletId: Types.ObjectId;
+    appId: string;
+    credentialId: string; // base64url
+    publicKey: string; // SPKI DER, base64url
+    algorithm: number; // COSE algorithm identifier
+    signCount: number;
+    transports: string[];
+    name?: string | undefined; // Set by the user, e.g. "MacBook"
+    lastUsedAt?: Date | undefined;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const PasskeySchema = new Schema<IPasskey>(
+    {
+        walletId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Wallet',
+            required: true,
+            index: true,
+        },
+        appId: {
+            type: String,
+            required: true,
+        },
+        credentialId: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        publicKey: {
+            type: String,
+            required: true,
+        },
+        algorithm: {
+            type: Number,
+            required: true,
+        },
+        signCount: {
+            type: Number,
+            default: 0,
+        },
+        transports: {
+            type: [String],
+            default: [],
+        },
+        name: {
+            type: String,
+            required: false,
+            trim: true,
+            maxlength: 100,
+        },
+        lastUsedAt: {
+            type: Date,
+            required: false,
+        },
+    },
+    {
+        timestamps: true,
+    },
+);
+
+export const Passkey: Model<IPasskey> = model<IPasskey>(
+    'Passkey',
+    PasskeySchema,
+);
@@ -0,0 +1,98 @@
+import { Document, Schema, model, Model, Types } from 'mongoose';
+
+export interface ISession extends Document<Types.ObjectId> {
+    walletId: Types.ObjectId;
+    appId: string;
+    accountIndex: number;
+    scope?: string | undefined; // Granted OAuth scopes, for sessions opened through OIDC
+    refreshTokenHash: string;
+    previousRefreshTokenHashes: string[]; // Rotated-out tokens, for reuse detection
+    deviceName?: string | undefined;
+    userAgent?: string | undefined;
+    ipAddress?: string | undefined;
+    lastUsedAt: Date;
+    expiresAt: Date;
+    revokedAt?: Date | undefined;
+    revokedReason?: string | undefined;
+    stepUpAt?: Date | undefined; // Last passkey step-up, for requireStepUp
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const SessionSchema = new Schema<ISession>(
+    {
+        walletId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Wallet',
+            required: true,
+            index: true,
+        },
+        appId: {
+            type: String,
+            required: true,
+        },
+        accountIndex: {
+            type: Number,
+            default: 0,
+        },
+        scope: {
+            type: String,
+            required: false,
+        },
+        refreshTokenHash: {
+            type: String,
+            required: true,
+            select: false,
+        },
+        previousRefreshTokenHashes: {
+            type: [String],
+            default: [],
+            select: false,
+        },
+        deviceName: {
+            type: String,
+            required: false,
+            trim: true,
+            maxlength: 100,
+        },
+        userAgent: {
+            type: String,
+            required: false,
+        },
+        ipAddress: {
+            type: String,
+            required: false,
+        },
+        lastUsedAt: {
+            type: Date,
+            default: Date.now,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+        revokedAt: {
+            type: Date,
+            required: false,
+        },
+        revokedReason: {
+            type: String,
+            required: false,
+        },
+        stepUpAt: {
+            type: Date,
+            required: false,
+        },
+    },
+    {
+        timestamps: true,
+    },
+);
+
+// Expired sessions are removed by MongoDB
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session: Model<ISession> = model<ISession>(
+    'Session',
+    SessionSchema,
+);
@@ -0,0 +1,67 @@
+import { Document, Schema, model, Model, Types } from 'mongoose';
+
+export type TotpStatus = 'pending' | 'active';
+
+export interface ITotpFactor extends Document<Types.ObjectId> {
+    walletId: Types.ObjectId;
+    appId: string;
+    status: TotpStatus; // Pending until the first code confirms enrollment
+    encryptedSecret: string; // Sealed through key custody
+    keyVersion: string;
+    lastUsedStep: number; // A code is accepted once
+    recoveryCodeHashes: string[];
+    confirmedAt?: Date | undefined;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const TotpFactorSchema = new Schema<ITotpFactor>(
+    {
+        walletId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Wallet',
+            required: true,
+            unique: true,
+        },
+        appId: {
+            type: String,
+            required: true,
+        },
+        status: {
+            type: String,
+            enum: ['pending', 'active'],
+            default: 'pending',
+        },
+        encryptedSecret: {
+            type: String,
+            required: true,
+            select: false,
+        },
+        keyVersion: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        lastUsedStep: {
+            type: Number,
+            default: 0,
+        },
+        recoveryCodeHashes: {
+            type: [String],
+            default: [],
+            select: false,
+        },
+        confirmedAt: {
+            type: Date,
+            required: false,
+        },
+    },
+    {
+        timestamps: true,
+    },
+);
+
+export const TotpFactor: Model<ITotpFactor> = model<ITotpFactor>(
+    'TotpFactor',
+    TotpFactorSchema,
+);
@@ -1,4 +1,4 @@
-import { Document, Schema, model, Model } from 'mongoose';
+import { Document, FilterQuery, Schema, model, Model } from 'mongoose';
 
 export enum BlockchainNetwork {
     EVM = 'evm',
@@ -6,31 +6,119 @@ export enum BlockchainNetwork {
     SOLANA = 'solana',
 }
 
+// Provider tokens from social login, sealed through key custody
 export interface IOAuthTokens {
     accessToken?: string;
     refreshToken?: string;
 }
 
+export interface IWalletAccount {
+    index: number;
+    label?: string | undefined;
+    address: string;
+    publicKey: string;
+    hidden: boolean;
+    imported?: boolean | undefined; // Brought in by the user, not derived
+    encryptedPrivateKey?: string | undefined; // Only set for imported accounts
+    createdAt: Date;
+}
+
+// A verified identifier the wallet logs in with
+export interface IWalletIdentity {
+    type: string; // 'email', 'sms', a social provider, 'siwe' or 'sep10'
+    value: string; // Normalized email or phone, provider subject, or address
+    primary: boolean;
+    linkedAt: Date;
+}
+
 export interface IWallet extends Document {
     appId: string;
     email?: string | undefined;
     phoneNumber?: string | undefined;
     subname?: string | undefined;
     socialType: string;
+    socialSubject?: string | undefined; // Provider user id for social logins
     network: BlockchainNetwork; // Add network field
     address: string;
     publicKey: string;
-    encryptedPrivateKey: string;
-    encryptionSalt: string;
+    custodial: boolean; // False for external wallets that sign in with SIWE
+    encryptedPrivateKey?: string | undefined; // Custodial wallets only
+    encryptionSalt?: string | undefined; // Custodial wallets only
+    keyVersion?: string;
+    encryptedSeed?: string; // Sealed mnemonic, sealed under the same keyVersion
+    accounts: IWalletAccount[];
+    identities: IWalletIdentity[]; // Empty until the first link
     userData?: string;
     createdAt: Date;
     updatedAt: Date;
     isActive: boolean;
-    otp?: string;
-    otpExpiry?: Date;
     oauthTokens?: IOAuthTokens;
 }
 
+const WalletAccountSchema = new Schema<IWalletAccount>(
+    {
+        index: {
+            type: Number,
+            required: true,
+            min: 0,
+        },
+        label: {
+            type: String,
+            required: false,
+            trim: true,
+            maxlength: 64,
+        },
+        address: {
+            type: String,
+            required: true,
+        },
+        publicKey: {
+            type: String,
+            required: true,
+        },
+        hidden: {
+            type: Boolean,
+            default: false,
+        },
+        imported: {
+            type: Boolean,
+            required: false,
+        },
+        encryptedPrivateKey: {
+            type: String,
+            required: false,
+            select: false,
+        },
+        createdAt: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    { _id: false },
+);
+
+const WalletIdentitySchema = new Schema<IWalletIdentity>(
+    {
+        type: {
+            type: String,
+            required: true,
+        },
+        value: {
+            type: String,
+            required: true,
+        },
+        primary: {
+            type: Boolean,
+            default: false,
+        },
+        linkedAt: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    { _id: false },
+);
+
 const WalletSchema = new Schema<IWallet>(
     {
         appId: {
@@ -58,6 +146,10 @@ const WalletSchema = new Schema<IWallet>(
             type: String,
             required: true,
         },
+        socialSubject: {
+            type: String,
+            required: false,
+        },
         network: {
             type: String,
             required: true,
@@ -73,33 +165,51 @@ const WalletSchema = new Schema<IWallet>(
             type: String,
             required: true,
         },
+        custodial: {
+            type: Boolean,
+            default: true,
+        },
         encryptedPrivateKey: {
             type: String,
-            required: true,
+            required: function (this: IWallet) {
+                return this.custodial !== false;
+            },
         },
         encryptionSalt: {
             type: String,
-            required: true,
+            required: function (this: IWallet) {
+                return this.custodial !== false;
+            },
         },
-        userData: {
+        keyVersion: {
             type: String,
             required: false,
+            index: true,
         },
-        isActive: {
-            type: Boolean,
-            default: false,
-        },
-        otp: {
+        encryptedSeed: {
             type: String,
             required: false,
+            select: false,
         },
-        otpExpiry: {
-            type: Date,
+        accounts: {
+            type: [WalletAccountSchema],
+            default: [],
+        },
+        identities: {
+            type: [WalletIdentitySchema],
+            default: [],
+        },
+        userData: {
+            type: String,
             required: false,
         },
+        isActive: {
+            type: Boolean,
+            default: false,
+        },
         oauthTokens: {
-            accessToken: { type: String },
-            refreshToken: { type: String },
+            accessToken: { type: String, select: false },
+            refreshToken: { type: String, select: false },
         },
     },
     {
@@ -117,18 +227,79 @@ WalletSchema.index(
         partialFilterExpression: { email: { $type: 'string' } },
     },
 );
+WalletSchema.index(
+    { appId: 1, socialType: 1, socialSubject: 1, network: 1 },
+    {
+        unique: true,
+        partialFilterExpression: { socialSubject: { $type: 'string' } },
+    },
+);
 
-// Static method for finding by identifier and network
-WalletSchema.statics.findByIdentifierAndNetwork = function (
-    appId: string,
-    identifier: string,
-    network: BlockchainNetwork = BlockchainNetwork.EVM,
-) {
-    return this.findOne({
-        appId,
-        network,
-        $or: [{ email: identifier }, { phoneNumber: identifier }],
-    });
-};
+// An identifier belongs to one wallet per app and network. Values of
+// different types (emails, phone numbers, subjects, addresses) don't overlap.
+WalletSchema.index(
+    { appId: 1, network: 1, 'identities.value': 1 },
+    {
+        unique: true,
+        partialFilterExpression: { 'identities.value': { $type: 'string' } },
+    },
+);
+
+/**
+ * The identifier a wallet was created with, which it logs in with until
+ * it links its first identity
+ */
+export function creationIdentity(
+    wallet: Pick<
+        IWallet,
+        'socialType' | 'email' | 'phoneNumber' | 'socialSubject' | 'address'
+    >,
+): { type: string; value: string } | undefined {
+    const value =
+        wallet.socialType === 'email'
+            ? wallet.email
+            : wallet.socialType === 'sms'
+              ? wallet.phoneNumber
+              : wallet.socialType === 'siwe' || wallet.socialType === 'sep10'
+                ? wallet.address
+                : wallet.socialSubject;
+    return value ? { type: wallet.socialType, value } : undefined;
+}
+
+/**
+ * Matches the wallet that logs in with an identifier: through a linked
+ * identity, or through its creation identifier while it has none linked.
+ * A SIWE or SEP-10 address always matches the wallet it is the address of.
+ */
+export function identityFilter(
+    type: string,
+    value: string,
+): FilterQuery<IWallet> {
+    if (type === 'siwe' || type === 'sep10') {
+        return {
+            $or: [
+                { identities: { $elemMatch: { type, value } } },
+                { address: value },
+            ],
+        };
+    }
+
+    const created =
+        type === 'email'
+            ? { email: value }
+            : type === 'sms'
+              ? { phoneNumber: value }
+              : { socialSubject: value };
+    return {
+        $or: [
+            { identities: { $elemMatch: { type, value } } },
+            {
+                'identities.0': { $exists: false },
+                socialType: type,
+                ...created,
+            },
+        ],
+    };
+}
 
 export const Wallet: Model<IWallet> = model<IWallet>('Wallet', WalletSchema);
@@ -4,19 +4,51 @@
 import type { TsoaRoute } from '@tsoa/runtime';
 import {  fetchMiddlewares, ExpressTemplateService } from '@tsoa/runtime';
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { WellKnownController } from './../controllers/well-known-controller';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { WalletImportController } from './../controllers/wallet-import-controller';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { WalletExportController } from './../controllers/wallet-export-controller';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 import { TransactionController } from './../controllers/transaction-controller';
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { SocialAuthController } from './../controllers/social-auth-controller';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 import { SmsAuthController } from './../controllers/sms-auth-controller';
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { SiweController } from './../controllers/siwe-controller';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 import { SigningController } from './../controllers/signing-controller';
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { SessionController } from './../controllers/session-controller';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { Sep10Controller } from './../controllers/sep10-controller';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { PasskeyController } from './../controllers/passkey-controller';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { OidcController } from './../controllers/oidc-controller';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { MfaController } from './../controllers/mfa-controller';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { IdentityController } from './../controllers/identity-controller';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 import { ENSSubnameController } from './../controllers/ens-subname-controller';
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 import { EmailAuthController } from './../controllers/email-auth-controller';
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { DeveloperController } from './../controllers/developer-controller';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 import { BalanceController } from './../controllers/balance-controller';
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 import { AuthController } from './../controllers/auth-controller';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { AppController } from './../controllers/app-controller';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { ApiKeyController } from './../controllers/api-key-controller';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { AdminAppController } from './../controllers/admin-app-controller';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { AccountController } from './../controllers/account-controller';
 import { expressAuthentication } from './../authentication';
 // @ts-ignore - no great way to install types from subpackage
 import type { Request as ExRequest, Response as ExResponse, RequestHandler, Router } from 'express';
@@ -27,6 +59,156 @@ const expressAuthenticationRecasted = expressAuthentication as (req: ExRequest,
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
 const models: TsoaRoute.Models = {
+    "JwkData": {
+        "dataType": "refObject",
+        "properties": {
+            "kty": {"dataType":"string","required":true},
+            "kid": {"dataType":"string","required":true},
+            "alg": {"dataType":"string","required":true},
+            "use": {"dataType":"string","required":true},
+            "n": {"dataType":"string"},
+            "e": {"dataType":"string"},
+            "crv": {"dataType":"string"},
+            "x": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "JwksResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "keys": {"dataType":"array","array":{"dataType":"refObject","ref":"JwkData"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "OidcDiscoveryDocument": {
+        "dataType": "refObject",
+        "properties": {
+            "issuer": {"dataType":"string","required":true},
+            "authorization_endpoint": {"dataType":"string","required":true},
+            "token_endpoint": {"dataType":"string","required":true},
+            "userinfo_endpoint": {"dataType":"string","required":true},
+            "jwks_uri": {"dataType":"string","required":true},
+            "response_types_supported": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "grant_types_supported": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "subject_types_supported": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "id_token_signing_alg_values_supported": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "scopes_supported": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "token_endpoint_auth_methods_supported": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "code_challenge_methods_supported": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "claims_supported": {"dataType":"array","array":{"dataType":"string"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ImportChallengeResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "nonce": {"dataType":"string","required":true},
+            "message": {"dataType":"string","required":true},
+            "expiresAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "BlockchainNetwork": {
+        "dataType": "refEnum",
+        "enums": ["evm","stellar","solana"],
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ImportChallengeRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "network": {"ref":"BlockchainNetwork","required":true},
+            "address": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ImportWalletResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "address": {"dataType":"string","required":true},
+            "network": {"ref":"BlockchainNetwork","required":true},
+            "walletAddress": {"dataType":"string","required":true},
+            "accountIndex": {"dataType":"double","required":true},
+            "created": {"dataType":"boolean","required":true},
+            "token": {"dataType":"string"},
+            "refreshToken": {"dataType":"string"},
+            "mfaRequired": {"dataType":"boolean"},
+            "mfaEnrolled": {"dataType":"boolean"},
+            "mfaToken": {"dataType":"string"},
+            "mfaTokenExpiresAt": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ImportWalletRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "nonce": {"dataType":"string","required":true},
+            "signature": {"dataType":"string","required":true},
+            "privateKey": {"dataType":"string"},
+            "mnemonic": {"dataType":"string"},
+            "label": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "RequestExportOtpResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "channel": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["email"]},{"dataType":"enum","enums":["sms"]}],"required":true},
+            "expiresAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ExportSecretType": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["mnemonic"]},{"dataType":"enum","enums":["privateKey"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "EncryptedExport": {
+        "dataType": "refObject",
+        "properties": {
+            "algorithm": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["RSA-OAEP-256+A256GCM"]},{"dataType":"enum","enums":["ECDH-ES-X25519+A256GCM"]}],"required":true},
+            "encryptedKey": {"dataType":"string"},
+            "ephemeralPublicKey": {"dataType":"string"},
+            "iv": {"dataType":"string","required":true},
+            "authTag": {"dataType":"string","required":true},
+            "ciphertext": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ExportWalletResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "type": {"ref":"ExportSecretType","required":true},
+            "address": {"dataType":"string","required":true},
+            "accountIndex": {"dataType":"double"},
+            "payload": {"ref":"EncryptedExport","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ExportWalletRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "otp": {"dataType":"string","required":true},
+            "type": {"ref":"ExportSecretType","required":true},
+            "clientPublicKey": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
     "SendTransactionResponse": {
         "dataType": "refObject",
         "properties": {
@@ -144,9 +326,80 @@ const models: TsoaRoute.Models = {
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "BlockchainNetwork": {
-        "dataType": "refEnum",
-        "enums": ["evm","stellar","solana"],
+    "SolanaCluster": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["mainnet-beta"]},{"dataType":"enum","enums":["devnet"]},{"dataType":"enum","enums":["testnet"]},{"dataType":"enum","enums":["localnet"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SolanaTransferResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "signature": {"dataType":"string"},
+            "signedTransaction": {"dataType":"string"},
+            "fromAddress": {"dataType":"string","required":true},
+            "toAddress": {"dataType":"string","required":true},
+            "amount": {"dataType":"string","required":true},
+            "cluster": {"ref":"SolanaCluster","required":true},
+            "mint": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "explorerUrl": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "error": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SolanaTransferRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "cluster": {"ref":"SolanaCluster","required":true},
+            "toAddress": {"dataType":"string","required":true},
+            "amount": {"dataType":"string","required":true},
+            "mint": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "createRecipientAccount": {"dataType":"union","subSchemas":[{"dataType":"boolean"},{"dataType":"undefined"}]},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SocialProvidersResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "providers": {"dataType":"array","array":{"dataType":"string"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SocialLoginResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"network":{"ref":"BlockchainNetwork","required":true},"userData":{"dataType":"string","required":true},"socialType":{"dataType":"string","required":true},"walletAddress":{"dataType":"string","required":true}},"required":true},
+            "isActive": {"dataType":"boolean","required":true},
+            "created": {"dataType":"boolean","required":true},
+            "token": {"dataType":"string"},
+            "refreshToken": {"dataType":"string"},
+            "refreshTokenExpiresAt": {"dataType":"string"},
+            "mfaRequired": {"dataType":"boolean"},
+            "mfaEnrolled": {"dataType":"boolean"},
+            "mfaToken": {"dataType":"string"},
+            "mfaTokenExpiresAt": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SocialLoginRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "idToken": {"dataType":"string"},
+            "nonce": {"dataType":"string"},
+            "code": {"dataType":"string"},
+            "redirectUri": {"dataType":"string"},
+            "codeVerifier": {"dataType":"string"},
+            "network": {"ref":"BlockchainNetwork"},
+            "deviceName": {"dataType":"string"},
+        },
+        "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
     "SmsLoginResponse": {
@@ -178,6 +431,12 @@ const models: TsoaRoute.Models = {
             "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"network":{"ref":"BlockchainNetwork","required":true},"userData":{"dataType":"string","required":true},"socialType":{"dataType":"string","required":true},"walletAddress":{"dataType":"string","required":true}}},
             "isActive": {"dataType":"boolean"},
             "token": {"dataType":"string"},
+            "refreshToken": {"dataType":"string"},
+            "refreshTokenExpiresAt": {"dataType":"string"},
+            "mfaRequired": {"dataType":"boolean"},
+            "mfaEnrolled": {"dataType":"boolean"},
+            "mfaToken": {"dataType":"string"},
+            "mfaTokenExpiresAt": {"dataType":"string"},
         },
         "additionalProperties": false,
     },
@@ -188,6 +447,7 @@ const models: TsoaRoute.Models = {
             "phoneNumber": {"dataType":"string","required":true},
             "otp": {"dataType":"string","required":true},
             "network": {"ref":"BlockchainNetwork"},
+            "deviceName": {"dataType":"string"},
         },
         "additionalProperties": false,
     },
@@ -210,6 +470,53 @@ const models: TsoaRoute.Models = {
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SiweNonceResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "nonce": {"dataType":"string","required":true},
+            "expiresAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SiweNonceRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "address": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SiweVerifyResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"network":{"ref":"BlockchainNetwork","required":true},"socialType":{"dataType":"string","required":true},"walletAddress":{"dataType":"string","required":true}},"required":true},
+            "isActive": {"dataType":"boolean","required":true},
+            "created": {"dataType":"boolean","required":true},
+            "token": {"dataType":"string"},
+            "refreshToken": {"dataType":"string"},
+            "refreshTokenExpiresAt": {"dataType":"string"},
+            "mfaRequired": {"dataType":"boolean"},
+            "mfaEnrolled": {"dataType":"boolean"},
+            "mfaToken": {"dataType":"string"},
+            "mfaTokenExpiresAt": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SiweVerifyRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "message": {"dataType":"string","required":true},
+            "signature": {"dataType":"string","required":true},
+            "deviceName": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
     "ChainInfoResponse": {
         "dataType": "refObject",
         "properties": {
@@ -320,229 +627,3458 @@ const models: TsoaRoute.Models = {
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CheckSubnameResponse": {
+    "SolanaSignMessageResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"boolean","required":true},
-            "isClaimed": {"dataType":"boolean","required":true},
-            "owner": {"dataType":"string"},
-            "node": {"dataType":"string"},
+            "signature": {"dataType":"string"},
+            "publicKey": {"dataType":"string","required":true},
+            "error": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "CheckSubnameRequest": {
+    "SolanaMessageEncoding": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["utf8"]},{"dataType":"enum","enums":["base64"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SolanaSignMessageRequest": {
         "dataType": "refObject",
         "properties": {
-            "label": {"dataType":"string","required":true},
+            "message": {"dataType":"string","required":true},
+            "encoding": {"dataType":"union","subSchemas":[{"ref":"SolanaMessageEncoding"},{"dataType":"undefined"}]},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ClaimSubnameResponse": {
+    "SolanaVerifyMessageResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"boolean","required":true},
-            "message": {"dataType":"string","required":true},
-            "node": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
-            "transactionHash": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "isValid": {"dataType":"boolean","required":true},
+            "error": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ClaimSubnameRequest": {
+    "SolanaVerifyMessageRequest": {
         "dataType": "refObject",
         "properties": {
-            "label": {"dataType":"string","required":true},
+            "message": {"dataType":"string","required":true},
+            "signature": {"dataType":"string","required":true},
+            "address": {"dataType":"string","required":true},
+            "encoding": {"dataType":"union","subSchemas":[{"ref":"SolanaMessageEncoding"},{"dataType":"undefined"}]},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "UserSubnamesResponse": {
+    "RefreshTokenResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"boolean","required":true},
-            "subnames": {"dataType":"array","array":{"dataType":"string"},"required":true},
-            "count": {"dataType":"double","required":true},
+            "token": {"dataType":"string","required":true},
+            "refreshToken": {"dataType":"string","required":true},
+            "refreshTokenExpiresAt": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "AllSubnamesResponse": {
+    "RefreshTokenRequest": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"boolean","required":true},
-            "subnames": {"dataType":"array","array":{"dataType":"string"},"required":true},
-            "count": {"dataType":"double","required":true},
+            "refreshToken": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ServiceStatusResponse": {
+    "RevokeSessionsResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"boolean","required":true},
-            "connected": {"dataType":"boolean","required":true},
-            "contractOwner": {"dataType":"string","required":true},
-            "parentNode": {"dataType":"string","required":true},
+            "message": {"dataType":"string","required":true},
+            "revoked": {"dataType":"double","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "EmailLoginResponse": {
+    "SessionData": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"boolean","required":true},
-            "message": {"dataType":"string","required":true},
-            "isActive": {"dataType":"boolean"},
-            "walletExists": {"dataType":"boolean"},
-            "network": {"ref":"BlockchainNetwork"},
+            "id": {"dataType":"string","required":true},
+            "deviceName": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "userAgent": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "ipAddress": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "accountIndex": {"dataType":"double","required":true},
+            "current": {"dataType":"boolean","required":true},
+            "createdAt": {"dataType":"string","required":true},
+            "lastUsedAt": {"dataType":"string","required":true},
+            "expiresAt": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "EmailLoginRequest": {
+    "ListSessionsResponse": {
         "dataType": "refObject",
         "properties": {
-            "email": {"dataType":"string","required":true},
-            "network": {"ref":"BlockchainNetwork"},
+            "success": {"dataType":"boolean","required":true},
+            "sessions": {"dataType":"array","array":{"dataType":"refObject","ref":"SessionData"},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "VerifyOTPResponse": {
+    "Sep10ChallengeResponse": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"boolean","required":true},
-            "message": {"dataType":"string","required":true},
-            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"network":{"ref":"BlockchainNetwork","required":true},"userData":{"dataType":"string","required":true},"socialType":{"dataType":"string","required":true},"walletAddress":{"dataType":"string","required":true}}},
-            "isActive": {"dataType":"boolean"},
-            "token": {"dataType":"string"},
+            "transaction": {"dataType":"string","required":true},
+            "network_passphrase": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "VerifyOTPRequest": {
+    "Sep10TokenResponse": {
         "dataType": "refObject",
         "properties": {
-            "email": {"dataType":"string","required":true},
-            "otp": {"dataType":"string","required":true},
-            "network": {"ref":"BlockchainNetwork"},
+            "token": {"dataType":"string"},
+            "refreshToken": {"dataType":"string"},
+            "refreshTokenExpiresAt": {"dataType":"string"},
+            "mfaRequired": {"dataType":"boolean"},
+            "mfaEnrolled": {"dataType":"boolean"},
+            "mfaToken": {"dataType":"string"},
+            "mfaTokenExpiresAt": {"dataType":"string"},
+            "walletAddress": {"dataType":"string","required":true},
+            "created": {"dataType":"boolean","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ResendOTPResponse": {
+    "Sep10TokenRequest": {
         "dataType": "refObject",
         "properties": {
-            "success": {"dataType":"boolean","required":true},
-            "message": {"dataType":"string","required":true},
+            "transaction": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "ResendOTPRequest": {
+    "PasskeyDescriptor": {
         "dataType": "refObject",
         "properties": {
-            "email": {"dataType":"string","required":true},
-            "network": {"ref":"BlockchainNetwork"},
+            "type": {"dataType":"enum","enums":["public-key"],"required":true},
+            "id": {"dataType":"string","required":true},
+            "transports": {"dataType":"array","array":{"dataType":"string"}},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "SupportedChain": {
+    "PasskeyRegistrationOptions": {
         "dataType": "refObject",
         "properties": {
-            "chainId": {"dataType":"double","required":true},
-            "name": {"dataType":"string","required":true},
-            "testnet": {"dataType":"boolean","required":true},
-            "currency": {"dataType":"string","required":true},
-            "explorerUrl": {"dataType":"string","required":true},
-            "rpcUrl": {"dataType":"string","required":true},
-            "nativeCurrency": {"dataType":"nestedObjectLiteral","nestedProperties":{"decimals":{"dataType":"double","required":true},"symbol":{"dataType":"string","required":true},"name":{"dataType":"string","required":true}},"required":true},
+            "rp": {"dataType":"nestedObjectLiteral","nestedProperties":{"name":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}},"required":true},
+            "user": {"dataType":"nestedObjectLiteral","nestedProperties":{"displayName":{"dataType":"string","required":true},"name":{"dataType":"string","required":true},"id":{"dataType":"string","required":true}},"required":true},
+            "challenge": {"dataType":"string","required":true},
+            "pubKeyCredParams": {"dataType":"array","array":{"dataType":"nestedObjectLiteral","nestedProperties":{"alg":{"dataType":"double","required":true},"type":{"dataType":"enum","enums":["public-key"],"required":true}}},"required":true},
+            "timeout": {"dataType":"double","required":true},
+            "attestation": {"dataType":"enum","enums":["none"],"required":true},
+            "excludeCredentials": {"dataType":"array","array":{"dataType":"refObject","ref":"PasskeyDescriptor"},"required":true},
+            "authenticatorSelection": {"dataType":"nestedObjectLiteral","nestedProperties":{"userVerification":{"dataType":"enum","enums":["required"],"required":true},"residentKey":{"dataType":"enum","enums":["required"],"required":true}},"required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "SupportedChainsResponse": {
+    "PasskeyRegistrationOptionsResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"boolean","required":true},
-            "chains": {"dataType":"array","array":{"dataType":"refObject","ref":"SupportedChain"},"required":true},
+            "options": {"ref":"PasskeyRegistrationOptions","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "NativeBalance": {
+    "PasskeyData": {
         "dataType": "refObject",
         "properties": {
-            "balance": {"dataType":"string","required":true},
-            "formatted": {"dataType":"string","required":true},
-            "currency": {"dataType":"string","required":true},
-            "decimals": {"dataType":"double","required":true},
+            "id": {"dataType":"string","required":true},
+            "name": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "transports": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "createdAt": {"dataType":"string","required":true},
+            "lastUsedAt": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "BalanceResponse": {
+    "RegisterPasskeyResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"boolean","required":true},
-            "walletAddress": {"dataType":"string","required":true},
-            "nativeBalance": {"ref":"NativeBalance","required":true},
-            "chainId": {"dataType":"double","required":true},
-            "chainName": {"dataType":"string","required":true},
+            "message": {"dataType":"string","required":true},
+            "passkey": {"ref":"PasskeyData","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-    "WalletResponse": {
+    "PasskeyRegistrationCredential": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "type": {"dataType":"string","required":true},
+            "response": {"dataType":"nestedObjectLiteral","nestedProperties":{"transports":{"dataType":"array","array":{"dataType":"string"}},"attestationObject":{"dataType":"string","required":true},"clientDataJSON":{"dataType":"string","required":true}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "RegisterPasskeyRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "credential": {"ref":"PasskeyRegistrationCredential","required":true},
+            "name": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PasskeyAssertionOptions": {
+        "dataType": "refObject",
+        "properties": {
+            "rpId": {"dataType":"string","required":true},
+            "challenge": {"dataType":"string","required":true},
+            "timeout": {"dataType":"double","required":true},
+            "userVerification": {"dataType":"enum","enums":["required"],"required":true},
+            "allowCredentials": {"dataType":"array","array":{"dataType":"refObject","ref":"PasskeyDescriptor"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PasskeyAssertionOptionsResponse": {
         "dataType": "refObject",
         "properties": {
             "success": {"dataType":"boolean","required":true},
-            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"wallet":{"dataType":"nestedObjectLiteral","nestedProperties":{"isActive":{"dataType":"boolean","required":true},"userData":{"dataType":"string","required":true},"address":{"dataType":"string","required":true},"socialType":{"dataType":"string","required":true},"email":{"dataType":"string","required":true}},"required":true}},"required":true},
+            "options": {"ref":"PasskeyAssertionOptions","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-};
-const templateService = new ExpressTemplateService(models, {"noImplicitAdditionalProperties":"throw-on-extras","bodyCoercion":true});
+    "PasskeyLoginResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"network":{"ref":"BlockchainNetwork","required":true},"socialType":{"dataType":"string","required":true},"walletAddress":{"dataType":"string","required":true}},"required":true},
+            "token": {"dataType":"string"},
+            "refreshToken": {"dataType":"string"},
+            "refreshTokenExpiresAt": {"dataType":"string"},
+            "mfaRequired": {"dataType":"boolean"},
+            "mfaEnrolled": {"dataType":"boolean"},
+            "mfaToken": {"dataType":"string"},
+            "mfaTokenExpiresAt": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PasskeyAssertionCredential": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "type": {"dataType":"string","required":true},
+            "response": {"dataType":"nestedObjectLiteral","nestedProperties":{"userHandle":{"dataType":"string"},"signature":{"dataType":"string","required":true},"authenticatorData":{"dataType":"string","required":true},"clientDataJSON":{"dataType":"string","required":true}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PasskeyLoginRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "credential": {"ref":"PasskeyAssertionCredential","required":true},
+            "deviceName": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PasskeyStepUpResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "expiresAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PasskeyStepUpRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "credential": {"ref":"PasskeyAssertionCredential","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ListPasskeysResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "passkeys": {"dataType":"array","array":{"dataType":"refObject","ref":"PasskeyData"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "RemovePasskeyResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "AuthorizationRequestResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "clientId": {"dataType":"string","required":true},
+            "clientName": {"dataType":"string","required":true},
+            "clientIconUrl": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "scopes": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "expiresAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CompleteAuthorizationResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "redirectUrl": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "TokenResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "access_token": {"dataType":"string","required":true},
+            "token_type": {"dataType":"enum","enums":["Bearer"],"required":true},
+            "expires_in": {"dataType":"double","required":true},
+            "refresh_token": {"dataType":"string","required":true},
+            "id_token": {"dataType":"string"},
+            "scope": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "OAuthErrorResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "error": {"dataType":"string","required":true},
+            "error_description": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "TokenRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "grant_type": {"dataType":"string","required":true},
+            "code": {"dataType":"string"},
+            "redirect_uri": {"dataType":"string"},
+            "code_verifier": {"dataType":"string"},
+            "refresh_token": {"dataType":"string"},
+            "client_id": {"dataType":"string"},
+            "client_secret": {"dataType":"string"},
+            "scope": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "UserInfoResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "sub": {"dataType":"string","required":true},
+            "email": {"dataType":"string"},
+            "email_verified": {"dataType":"boolean"},
+            "phone_number": {"dataType":"string"},
+            "phone_number_verified": {"dataType":"boolean"},
+            "wallet_address": {"dataType":"string","required":true},
+            "network": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "MfaStatusResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "enrolled": {"dataType":"boolean","required":true},
+            "required": {"dataType":"boolean","required":true},
+            "recoveryCodesRemaining": {"dataType":"double","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "StartTotpResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "secret": {"dataType":"string","required":true},
+            "otpauthUrl": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ConfirmTotpResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "recoveryCodes": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "token": {"dataType":"string"},
+            "refreshToken": {"dataType":"string"},
+            "refreshTokenExpiresAt": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ConfirmTotpRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "code": {"dataType":"string","required":true},
+            "deviceName": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "VerifyMfaResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "token": {"dataType":"string","required":true},
+            "refreshToken": {"dataType":"string","required":true},
+            "refreshTokenExpiresAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "VerifyMfaRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "code": {"dataType":"string"},
+            "recoveryCode": {"dataType":"string"},
+            "deviceName": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "RecoveryCodesResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "recoveryCodes": {"dataType":"array","array":{"dataType":"string"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SecondFactorRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "code": {"dataType":"string"},
+            "recoveryCode": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "DisableTotpResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "IdentityData": {
+        "dataType": "refObject",
+        "properties": {
+            "type": {"dataType":"string","required":true},
+            "value": {"dataType":"string","required":true},
+            "primary": {"dataType":"boolean","required":true},
+            "linkedAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "IdentitiesResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "identities": {"dataType":"array","array":{"dataType":"refObject","ref":"IdentityData"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "LinkOtpResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "expiresAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "OtpIdentityType": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["email"]},{"dataType":"enum","enums":["sms"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "LinkOtpRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "type": {"ref":"OtpIdentityType","required":true},
+            "value": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "VerifyLinkRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "type": {"ref":"OtpIdentityType","required":true},
+            "value": {"dataType":"string","required":true},
+            "otp": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "LinkSocialRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "idToken": {"dataType":"string"},
+            "nonce": {"dataType":"string"},
+            "code": {"dataType":"string"},
+            "redirectUri": {"dataType":"string"},
+            "codeVerifier": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "LinkSiweRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "message": {"dataType":"string","required":true},
+            "signature": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SetPrimaryRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "type": {"dataType":"string","required":true},
+            "value": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CheckSubnameResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "isClaimed": {"dataType":"boolean","required":true},
+            "owner": {"dataType":"string"},
+            "node": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CheckSubnameRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "label": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ClaimSubnameResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "node": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "transactionHash": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ClaimSubnameRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "label": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "UserSubnamesResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "subnames": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "count": {"dataType":"double","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "AllSubnamesResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "subnames": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "count": {"dataType":"double","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ServiceStatusResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "connected": {"dataType":"boolean","required":true},
+            "contractOwner": {"dataType":"string","required":true},
+            "parentNode": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "EmailLoginResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "isActive": {"dataType":"boolean"},
+            "walletExists": {"dataType":"boolean"},
+            "network": {"ref":"BlockchainNetwork"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "EmailLoginRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "email": {"dataType":"string","required":true},
+            "network": {"ref":"BlockchainNetwork"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "VerifyOTPResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"network":{"ref":"BlockchainNetwork","required":true},"userData":{"dataType":"string","required":true},"socialType":{"dataType":"string","required":true},"walletAddress":{"dataType":"string","required":true}}},
+            "isActive": {"dataType":"boolean"},
+            "token": {"dataType":"string"},
+            "refreshToken": {"dataType":"string"},
+            "refreshTokenExpiresAt": {"dataType":"string"},
+            "mfaRequired": {"dataType":"boolean"},
+            "mfaEnrolled": {"dataType":"boolean"},
+            "mfaToken": {"dataType":"string"},
+            "mfaTokenExpiresAt": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "VerifyOTPRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "email": {"dataType":"string","required":true},
+            "otp": {"dataType":"string","required":true},
+            "network": {"ref":"BlockchainNetwork"},
+            "deviceName": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ResendOTPResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ResendOTPRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "email": {"dataType":"string","required":true},
+            "network": {"ref":"BlockchainNetwork"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "MagicLinkResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "walletExists": {"dataType":"boolean","required":true},
+            "expiresAt": {"dataType":"string","required":true},
+            "network": {"ref":"BlockchainNetwork","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "MagicLinkRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "email": {"dataType":"string","required":true},
+            "network": {"ref":"BlockchainNetwork"},
+            "redirectUrl": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "MagicLinkConfirmRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "token": {"dataType":"string","required":true},
+            "appId": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "MagicLinkTokenRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "code": {"dataType":"string","required":true},
+            "deviceName": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "DeveloperProfile": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "name": {"dataType":"string","required":true},
+            "email": {"dataType":"string","required":true},
+            "companyName": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "website": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "emailVerified": {"dataType":"boolean","required":true},
+            "createdAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "RegisterDeveloperResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "developer": {"ref":"DeveloperProfile","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "RegisterDeveloperRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "name": {"dataType":"string","required":true},
+            "email": {"dataType":"string","required":true},
+            "password": {"dataType":"string","required":true},
+            "companyName": {"dataType":"string"},
+            "website": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "DeveloperSessionResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "token": {"dataType":"string","required":true},
+            "expiresAt": {"dataType":"string","required":true},
+            "developer": {"ref":"DeveloperProfile","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "VerifyDeveloperRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "email": {"dataType":"string","required":true},
+            "otp": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "DeveloperMessageResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "DeveloperEmailRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "email": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "DeveloperLoginRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "email": {"dataType":"string","required":true},
+            "password": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "DeveloperProfileResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "developer": {"ref":"DeveloperProfile","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "UpdateDeveloperProfileRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "name": {"dataType":"string"},
+            "companyName": {"dataType":"string"},
+            "website": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ResetPasswordRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "token": {"dataType":"string","required":true},
+            "password": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SupportedChain": {
+        "dataType": "refObject",
+        "properties": {
+            "chainId": {"dataType":"double","required":true},
+            "name": {"dataType":"string","required":true},
+            "testnet": {"dataType":"boolean","required":true},
+            "currency": {"dataType":"string","required":true},
+            "explorerUrl": {"dataType":"string","required":true},
+            "rpcUrl": {"dataType":"string","required":true},
+            "nativeCurrency": {"dataType":"nestedObjectLiteral","nestedProperties":{"decimals":{"dataType":"double","required":true},"symbol":{"dataType":"string","required":true},"name":{"dataType":"string","required":true}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SupportedChainsResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "chains": {"dataType":"array","array":{"dataType":"refObject","ref":"SupportedChain"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "NativeBalance": {
+        "dataType": "refObject",
+        "properties": {
+            "balance": {"dataType":"string","required":true},
+            "formatted": {"dataType":"string","required":true},
+            "currency": {"dataType":"string","required":true},
+            "decimals": {"dataType":"double","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "BalanceResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "walletAddress": {"dataType":"string","required":true},
+            "nativeBalance": {"ref":"NativeBalance","required":true},
+            "chainId": {"dataType":"double","required":true},
+            "chainName": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "WalletResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "data": {"dataType":"nestedObjectLiteral","nestedProperties":{"wallet":{"dataType":"nestedObjectLiteral","nestedProperties":{"isActive":{"dataType":"boolean","required":true},"userData":{"dataType":"string","required":true},"address":{"dataType":"string","required":true},"socialType":{"dataType":"string","required":true},"email":{"dataType":"string","required":true}},"required":true}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "EmailLoginMode": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["otp"]},{"dataType":"enum","enums":["link"]},{"dataType":"enum","enums":["both"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "TokenEndpointAuthMethod": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["client_secret_basic"]},{"dataType":"enum","enums":["client_secret_post"]},{"dataType":"enum","enums":["none"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "AppStatus": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["sandbox"]},{"dataType":"enum","enums":["live"]},{"dataType":"enum","enums":["suspended"]},{"dataType":"enum","enums":["deleted"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "AppDetails": {
+        "dataType": "refObject",
+        "properties": {
+            "appId": {"dataType":"string","required":true},
+            "name": {"dataType":"string","required":true},
+            "description": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "redirectUrls": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "iconUrl": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "emailLoginMode": {"ref":"EmailLoginMode","required":true},
+            "requireMfa": {"dataType":"boolean","required":true},
+            "tokenEndpointAuthMethod": {"ref":"TokenEndpointAuthMethod","required":true},
+            "status": {"ref":"AppStatus","required":true},
+            "statusReason": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "statusChangedAt": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "createdAt": {"dataType":"string","required":true},
+            "updatedAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CreateAppResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "app": {"ref":"AppDetails","required":true},
+            "clientSecret": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CreateAppRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "name": {"dataType":"string","required":true},
+            "description": {"dataType":"string"},
+            "redirectUrls": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "iconUrl": {"dataType":"string"},
+            "emailLoginMode": {"ref":"EmailLoginMode"},
+            "requireMfa": {"dataType":"boolean"},
+            "tokenEndpointAuthMethod": {"ref":"TokenEndpointAuthMethod"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "AppListResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "apps": {"dataType":"array","array":{"dataType":"refObject","ref":"AppDetails"},"required":true},
+            "pagination": {"dataType":"nestedObjectLiteral","nestedProperties":{"totalPages":{"dataType":"double","required":true},"total":{"dataType":"double","required":true},"limit":{"dataType":"double","required":true},"page":{"dataType":"double","required":true}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "AppResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "app": {"ref":"AppDetails","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "UpdateAppRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "name": {"dataType":"string"},
+            "description": {"dataType":"string"},
+            "redirectUrls": {"dataType":"array","array":{"dataType":"string"}},
+            "iconUrl": {"dataType":"string"},
+            "emailLoginMode": {"ref":"EmailLoginMode"},
+            "requireMfa": {"dataType":"boolean"},
+            "tokenEndpointAuthMethod": {"ref":"TokenEndpointAuthMethod"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ClientSecretResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "clientSecret": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "DeleteAppResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "walletsDeactivated": {"dataType":"double","required":true},
+            "sessionsRevoked": {"dataType":"double","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ApiKeyScope": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["auth"]},{"dataType":"enum","enums":["signing"]},{"dataType":"enum","enums":["transactions"]},{"dataType":"enum","enums":["ens"]},{"dataType":"enum","enums":["balance"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ApiKeyDetails": {
+        "dataType": "refObject",
+        "properties": {
+            "keyId": {"dataType":"string","required":true},
+            "name": {"dataType":"string","required":true},
+            "prefix": {"dataType":"string","required":true},
+            "scopes": {"dataType":"array","array":{"dataType":"refAlias","ref":"ApiKeyScope"},"required":true},
+            "expiresAt": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "lastUsedAt": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "createdAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CreateApiKeyResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+            "apiKey": {"dataType":"string","required":true},
+            "key": {"ref":"ApiKeyDetails","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CreateApiKeyRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "name": {"dataType":"string","required":true},
+            "scopes": {"dataType":"array","array":{"dataType":"refAlias","ref":"ApiKeyScope"},"required":true},
+            "expiresAt": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ApiKeyListResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "keys": {"dataType":"array","array":{"dataType":"refObject","ref":"ApiKeyDetails"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "RevokeApiKeyResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "AdminAppDetails": {
+        "dataType": "refObject",
+        "properties": {
+            "appId": {"dataType":"string","required":true},
+            "developerId": {"dataType":"string","required":true},
+            "name": {"dataType":"string","required":true},
+            "status": {"ref":"AppStatus","required":true},
+            "statusReason": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "statusChangedAt": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "suspendedFrom": {"dataType":"union","subSchemas":[{"ref":"AppStatus"},{"dataType":"undefined"}]},
+            "createdAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "AdminAppResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "app": {"ref":"AdminAppDetails","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SuspendAppRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "reason": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "RestoreAppRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "reason": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "AccountData": {
+        "dataType": "refObject",
+        "properties": {
+            "index": {"dataType":"double","required":true},
+            "label": {"dataType":"union","subSchemas":[{"dataType":"string"},{"dataType":"undefined"}]},
+            "address": {"dataType":"string","required":true},
+            "publicKey": {"dataType":"string","required":true},
+            "hidden": {"dataType":"boolean","required":true},
+            "imported": {"dataType":"boolean","required":true},
+            "active": {"dataType":"boolean","required":true},
+            "createdAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ListAccountsResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "activeIndex": {"dataType":"double","required":true},
+            "accounts": {"dataType":"array","array":{"dataType":"refObject","ref":"AccountData"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "AccountResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "account": {"ref":"AccountData","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "DeriveAccountRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "label": {"dataType":"string"},
+            "index": {"dataType":"double"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "UpdateAccountRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "label": {"dataType":"string"},
+            "hidden": {"dataType":"boolean"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SelectAccountResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "success": {"dataType":"boolean","required":true},
+            "account": {"ref":"AccountData","required":true},
+            "token": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+};
+const templateService = new ExpressTemplateService(models, {"noImplicitAdditionalProperties":"throw-on-extras","bodyCoercion":true});
+
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+
+
+
+export function RegisterRoutes(app: Router) {
+
+    // ###########################################################################################################
+    //  NOTE: If you do not see routes for all of your controllers in this file, then you might not have informed tsoa of where to look
+    //      Please look into the "controllerPathGlobs" config option described in the readme: https://github.com/lukeautry/tsoa
+    // ###########################################################################################################
+
+
+    
+        const argsWellKnownController_getJwks: Record<string, TsoaRoute.ParameterSchema> = {
+        };
+        app.get('/.well-known/jwks.json',
+            ...(fetchMiddlewares<RequestHandler>(WellKnownController)),
+            ...(fetchMiddlewares<RequestHandler>(WellKnownController.prototype.getJwks)),
+
+            async function WellKnownController_getJwks(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsWellKnownController_getJwks, request, response });
+
+                const controller = new WellKnownController();
+
+              await templateService.apiHandler({
+                methodName: 'getJwks',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsWellKnownController_getOpenIdConfiguration: Record<string, TsoaRoute.ParameterSchema> = {
+        };
+        app.get('/.well-known/openid-configuration',
+            ...(fetchMiddlewares<RequestHandler>(WellKnownController)),
+            ...(fetchMiddlewares<RequestHandler>(WellKnownController.prototype.getOpenIdConfiguration)),
+
+            async function WellKnownController_getOpenIdConfiguration(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsWellKnownController_getOpenIdConfiguration, request, response });
+
+                const controller = new WellKnownController();
+
+              await templateService.apiHandler({
+                methodName: 'getOpenIdConfiguration',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsWalletImportController_createChallenge: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"ImportChallengeRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/wallet/import/challenge',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(WalletImportController)),
+            ...(fetchMiddlewares<RequestHandler>(WalletImportController.prototype.createChallenge)),
+
+            async function WalletImportController_createChallenge(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsWalletImportController_createChallenge, request, response });
+
+                const controller = new WalletImportController();
+
+              await templateService.apiHandler({
+                methodName: 'createChallenge',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsWalletImportController_importWallet: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"ImportWalletRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/wallet/import',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(WalletImportController)),
+            ...(fetchMiddlewares<RequestHandler>(WalletImportController.prototype.importWallet)),
+
+            async function WalletImportController_importWallet(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsWalletImportController_importWallet, request, response });
+
+                const controller = new WalletImportController();
+
+              await templateService.apiHandler({
+                methodName: 'importWallet',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsWalletExportController_requestExportOtp: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/wallet/export/request',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(WalletExportController)),
+            ...(fetchMiddlewares<RequestHandler>(WalletExportController.prototype.requestExportOtp)),
+
+            async function WalletExportController_requestExportOtp(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsWalletExportController_requestExportOtp, request, response });
+
+                const controller = new WalletExportController();
+
+              await templateService.apiHandler({
+                methodName: 'requestExportOtp',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsWalletExportController_exportWallet: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"ExportWalletRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/wallet/export',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(WalletExportController)),
+            ...(fetchMiddlewares<RequestHandler>(WalletExportController.prototype.exportWallet)),
+
+            async function WalletExportController_exportWallet(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsWalletExportController_exportWallet, request, response });
+
+                const controller = new WalletExportController();
+
+              await templateService.apiHandler({
+                methodName: 'exportWallet',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsTransactionController_sendTransaction: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"SendTransactionRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/transactions/send',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["transactions"]}]),
+            ...(fetchMiddlewares<RequestHandler>(TransactionController)),
+            ...(fetchMiddlewares<RequestHandler>(TransactionController.prototype.sendTransaction)),
+
+            async function TransactionController_sendTransaction(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsTransactionController_sendTransaction, request, response });
+
+                const controller = new TransactionController();
+
+              await templateService.apiHandler({
+                methodName: 'sendTransaction',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsTransactionController_getTransactionHistory: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"TransactionHistoryRequest"},
+        };
+        app.post('/transactions/history',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["transactions"]}]),
+            ...(fetchMiddlewares<RequestHandler>(TransactionController)),
+            ...(fetchMiddlewares<RequestHandler>(TransactionController.prototype.getTransactionHistory)),
+
+            async function TransactionController_getTransactionHistory(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsTransactionController_getTransactionHistory, request, response });
+
+                const controller = new TransactionController();
+
+              await templateService.apiHandler({
+                methodName: 'getTransactionHistory',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsTransactionController_getGasPrices: Record<string, TsoaRoute.ParameterSchema> = {
+                chainId: {"in":"query","name":"chainId","required":true,"dataType":"string"},
+        };
+        app.get('/transactions/gas-prices',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["transactions"]}]),
+            ...(fetchMiddlewares<RequestHandler>(TransactionController)),
+            ...(fetchMiddlewares<RequestHandler>(TransactionController.prototype.getGasPrices)),
+
+            async function TransactionController_getGasPrices(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsTransactionController_getGasPrices, request, response });
+
+                const controller = new TransactionController();
+
+              await templateService.apiHandler({
+                methodName: 'getGasPrices',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsTransactionController_getTransactionStatus: Record<string, TsoaRoute.ParameterSchema> = {
+                chainId: {"in":"query","name":"chainId","required":true,"dataType":"string"},
+                transactionHash: {"in":"query","name":"transactionHash","required":true,"dataType":"string"},
+        };
+        app.get('/transactions/status',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["transactions"]}]),
+            ...(fetchMiddlewares<RequestHandler>(TransactionController)),
+            ...(fetchMiddlewares<RequestHandler>(TransactionController.prototype.getTransactionStatus)),
+
+            async function TransactionController_getTransactionStatus(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsTransactionController_getTransactionStatus, request, response });
+
+                const controller = new TransactionController();
+
+              await templateService.apiHandler({
+                methodName: 'getTransactionStatus',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsTransactionController_estimateGas: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"SendTransactionRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/transactions/estimate-gas',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["transactions"]}]),
+            ...(fetchMiddlewares<RequestHandler>(TransactionController)),
+            ...(fetchMiddlewares<RequestHandler>(TransactionController.prototype.estimateGas)),
+
+            async function TransactionController_estimateGas(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsTransactionController_estimateGas, request, response });
+
+                const controller = new TransactionController();
+
+              await templateService.apiHandler({
+                methodName: 'estimateGas',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsTransactionController_sendSolanaTransfer: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"SolanaTransferRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/transactions/solana/send',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["transactions"]}]),
+            ...(fetchMiddlewares<RequestHandler>(TransactionController)),
+            ...(fetchMiddlewares<RequestHandler>(TransactionController.prototype.sendSolanaTransfer)),
+
+            async function TransactionController_sendSolanaTransfer(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsTransactionController_sendSolanaTransfer, request, response });
+
+                const controller = new TransactionController();
+
+              await templateService.apiHandler({
+                methodName: 'sendSolanaTransfer',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSocialAuthController_getProviders: Record<string, TsoaRoute.ParameterSchema> = {
+        };
+        app.get('/auth/social/providers',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SocialAuthController)),
+            ...(fetchMiddlewares<RequestHandler>(SocialAuthController.prototype.getProviders)),
+
+            async function SocialAuthController_getProviders(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSocialAuthController_getProviders, request, response });
+
+                const controller = new SocialAuthController();
+
+              await templateService.apiHandler({
+                methodName: 'getProviders',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSocialAuthController_login: Record<string, TsoaRoute.ParameterSchema> = {
+                provider: {"in":"path","name":"provider","required":true,"dataType":"string"},
+                body: {"in":"body","name":"body","required":true,"ref":"SocialLoginRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/social/:provider/login',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SocialAuthController)),
+            ...(fetchMiddlewares<RequestHandler>(SocialAuthController.prototype.login)),
+
+            async function SocialAuthController_login(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSocialAuthController_login, request, response });
+
+                const controller = new SocialAuthController();
+
+              await templateService.apiHandler({
+                methodName: 'login',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSmsAuthController_smsLogin: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"SmsLoginRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/sms/login',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SmsAuthController)),
+            ...(fetchMiddlewares<RequestHandler>(SmsAuthController.prototype.smsLogin)),
+
+            async function SmsAuthController_smsLogin(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSmsAuthController_smsLogin, request, response });
+
+                const controller = new SmsAuthController();
+
+              await templateService.apiHandler({
+                methodName: 'smsLogin',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSmsAuthController_verifySmsOTP: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"VerifySmsOTPRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/sms/verify',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SmsAuthController)),
+            ...(fetchMiddlewares<RequestHandler>(SmsAuthController.prototype.verifySmsOTP)),
+
+            async function SmsAuthController_verifySmsOTP(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSmsAuthController_verifySmsOTP, request, response });
+
+                const controller = new SmsAuthController();
+
+              await templateService.apiHandler({
+                methodName: 'verifySmsOTP',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSmsAuthController_resendSmsOTP: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"ResendSmsOTPRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/sms/resend-otp',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SmsAuthController)),
+            ...(fetchMiddlewares<RequestHandler>(SmsAuthController.prototype.resendSmsOTP)),
+
+            async function SmsAuthController_resendSmsOTP(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSmsAuthController_resendSmsOTP, request, response });
+
+                const controller = new SmsAuthController();
+
+              await templateService.apiHandler({
+                methodName: 'resendSmsOTP',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSiweController_createNonce: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"SiweNonceRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/siwe/nonce',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SiweController)),
+            ...(fetchMiddlewares<RequestHandler>(SiweController.prototype.createNonce)),
+
+            async function SiweController_createNonce(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSiweController_createNonce, request, response });
+
+                const controller = new SiweController();
+
+              await templateService.apiHandler({
+                methodName: 'createNonce',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSiweController_verify: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"SiweVerifyRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/siwe/verify',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SiweController)),
+            ...(fetchMiddlewares<RequestHandler>(SiweController.prototype.verify)),
+
+            async function SiweController_verify(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSiweController_verify, request, response });
+
+                const controller = new SiweController();
+
+              await templateService.apiHandler({
+                methodName: 'verify',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSigningController_getSupportedChains: Record<string, TsoaRoute.ParameterSchema> = {
+        };
+        app.get('/signing/chains',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["signing"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SigningController)),
+            ...(fetchMiddlewares<RequestHandler>(SigningController.prototype.getSupportedChains)),
+
+            async function SigningController_getSupportedChains(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSigningController_getSupportedChains, request, response });
+
+                const controller = new SigningController();
+
+              await templateService.apiHandler({
+                methodName: 'getSupportedChains',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSigningController_getChainInfo: Record<string, TsoaRoute.ParameterSchema> = {
+                chainId: {"in":"query","name":"chainId","required":true,"dataType":"string"},
+        };
+        app.get('/signing/chain-info',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["signing"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SigningController)),
+            ...(fetchMiddlewares<RequestHandler>(SigningController.prototype.getChainInfo)),
+
+            async function SigningController_getChainInfo(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSigningController_getChainInfo, request, response });
+
+                const controller = new SigningController();
+
+              await templateService.apiHandler({
+                methodName: 'getChainInfo',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSigningController_signMessage: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"SignMessageRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/signing/sign-message',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["signing"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SigningController)),
+            ...(fetchMiddlewares<RequestHandler>(SigningController.prototype.signMessage)),
+
+            async function SigningController_signMessage(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSigningController_signMessage, request, response });
+
+                const controller = new SigningController();
+
+              await templateService.apiHandler({
+                methodName: 'signMessage',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSigningController_signTransaction: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"SignTransactionRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/signing/sign-transaction',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["signing"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SigningController)),
+            ...(fetchMiddlewares<RequestHandler>(SigningController.prototype.signTransaction)),
+
+            async function SigningController_signTransaction(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSigningController_signTransaction, request, response });
+
+                const controller = new SigningController();
+
+              await templateService.apiHandler({
+                methodName: 'signTransaction',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSigningController_signTypedData: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"SignTypedDataRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/signing/sign-typed-data',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["signing"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SigningController)),
+            ...(fetchMiddlewares<RequestHandler>(SigningController.prototype.signTypedData)),
+
+            async function SigningController_signTypedData(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSigningController_signTypedData, request, response });
+
+                const controller = new SigningController();
+
+              await templateService.apiHandler({
+                methodName: 'signTypedData',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSigningController_sendSignedTransaction: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"SendSignedTransactionRequest"},
+        };
+        app.post('/signing/send-signed-transaction',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["signing"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SigningController)),
+            ...(fetchMiddlewares<RequestHandler>(SigningController.prototype.sendSignedTransaction)),
+
+            async function SigningController_sendSignedTransaction(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSigningController_sendSignedTransaction, request, response });
+
+                const controller = new SigningController();
+
+              await templateService.apiHandler({
+                methodName: 'sendSignedTransaction',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSigningController_verifyMessage: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"VerifyMessageRequest"},
+        };
+        app.post('/signing/verify-message',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["signing"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SigningController)),
+            ...(fetchMiddlewares<RequestHandler>(SigningController.prototype.verifyMessage)),
+
+            async function SigningController_verifyMessage(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSigningController_verifyMessage, request, response });
+
+                const controller = new SigningController();
+
+              await templateService.apiHandler({
+                methodName: 'verifyMessage',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSigningController_signSolanaMessage: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"SolanaSignMessageRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/signing/solana/sign-message',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["signing"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SigningController)),
+            ...(fetchMiddlewares<RequestHandler>(SigningController.prototype.signSolanaMessage)),
+
+            async function SigningController_signSolanaMessage(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSigningController_signSolanaMessage, request, response });
+
+                const controller = new SigningController();
+
+              await templateService.apiHandler({
+                methodName: 'signSolanaMessage',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSigningController_verifySolanaMessage: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"SolanaVerifyMessageRequest"},
+        };
+        app.post('/signing/solana/verify-message',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["signing"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SigningController)),
+            ...(fetchMiddlewares<RequestHandler>(SigningController.prototype.verifySolanaMessage)),
+
+            async function SigningController_verifySolanaMessage(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSigningController_verifySolanaMessage, request, response });
+
+                const controller = new SigningController();
+
+              await templateService.apiHandler({
+                methodName: 'verifySolanaMessage',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSigningController_signSolanaTransfer: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"SolanaTransferRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/signing/solana/sign-transfer',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["signing"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SigningController)),
+            ...(fetchMiddlewares<RequestHandler>(SigningController.prototype.signSolanaTransfer)),
+
+            async function SigningController_signSolanaTransfer(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSigningController_signSolanaTransfer, request, response });
+
+                const controller = new SigningController();
+
+              await templateService.apiHandler({
+                methodName: 'signSolanaTransfer',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSessionController_refresh: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"RefreshTokenRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/sessions/refresh',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(SessionController)),
+            ...(fetchMiddlewares<RequestHandler>(SessionController.prototype.refresh)),
+
+            async function SessionController_refresh(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSessionController_refresh, request, response });
+
+                const controller = new SessionController();
+
+              await templateService.apiHandler({
+                methodName: 'refresh',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSessionController_logout: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/sessions/logout',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(SessionController)),
+            ...(fetchMiddlewares<RequestHandler>(SessionController.prototype.logout)),
+
+            async function SessionController_logout(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSessionController_logout, request, response });
+
+                const controller = new SessionController();
+
+              await templateService.apiHandler({
+                methodName: 'logout',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSessionController_listSessions: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/auth/sessions',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(SessionController)),
+            ...(fetchMiddlewares<RequestHandler>(SessionController.prototype.listSessions)),
+
+            async function SessionController_listSessions(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSessionController_listSessions, request, response });
+
+                const controller = new SessionController();
+
+              await templateService.apiHandler({
+                methodName: 'listSessions',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSessionController_revokeSession: Record<string, TsoaRoute.ParameterSchema> = {
+                sessionId: {"in":"path","name":"sessionId","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.delete('/auth/sessions/:sessionId',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(SessionController)),
+            ...(fetchMiddlewares<RequestHandler>(SessionController.prototype.revokeSession)),
+
+            async function SessionController_revokeSession(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSessionController_revokeSession, request, response });
+
+                const controller = new SessionController();
+
+              await templateService.apiHandler({
+                methodName: 'revokeSession',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSessionController_revokeAllSessions: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                includeCurrent: {"in":"query","name":"includeCurrent","dataType":"boolean"},
+        };
+        app.delete('/auth/sessions',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(SessionController)),
+            ...(fetchMiddlewares<RequestHandler>(SessionController.prototype.revokeAllSessions)),
+
+            async function SessionController_revokeAllSessions(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSessionController_revokeAllSessions, request, response });
+
+                const controller = new SessionController();
+
+              await templateService.apiHandler({
+                methodName: 'revokeAllSessions',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSep10Controller_getChallenge: Record<string, TsoaRoute.ParameterSchema> = {
+                account: {"in":"query","name":"account","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                homeDomain: {"in":"query","name":"home_domain","dataType":"string"},
+        };
+        app.get('/auth/sep10',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(Sep10Controller)),
+            ...(fetchMiddlewares<RequestHandler>(Sep10Controller.prototype.getChallenge)),
+
+            async function Sep10Controller_getChallenge(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSep10Controller_getChallenge, request, response });
+
+                const controller = new Sep10Controller();
+
+              await templateService.apiHandler({
+                methodName: 'getChallenge',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSep10Controller_getToken: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"Sep10TokenRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/sep10',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(Sep10Controller)),
+            ...(fetchMiddlewares<RequestHandler>(Sep10Controller.prototype.getToken)),
+
+            async function Sep10Controller_getToken(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSep10Controller_getToken, request, response });
+
+                const controller = new Sep10Controller();
+
+              await templateService.apiHandler({
+                methodName: 'getToken',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsPasskeyController_registrationOptions: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/passkeys/register/options',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PasskeyController)),
+            ...(fetchMiddlewares<RequestHandler>(PasskeyController.prototype.registrationOptions)),
+
+            async function PasskeyController_registrationOptions(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsPasskeyController_registrationOptions, request, response });
+
+                const controller = new PasskeyController();
+
+              await templateService.apiHandler({
+                methodName: 'registrationOptions',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsPasskeyController_register: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"RegisterPasskeyRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/passkeys/register',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PasskeyController)),
+            ...(fetchMiddlewares<RequestHandler>(PasskeyController.prototype.register)),
+
+            async function PasskeyController_register(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsPasskeyController_register, request, response });
+
+                const controller = new PasskeyController();
+
+              await templateService.apiHandler({
+                methodName: 'register',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsPasskeyController_loginOptions: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/passkeys/login/options',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(PasskeyController)),
+            ...(fetchMiddlewares<RequestHandler>(PasskeyController.prototype.loginOptions)),
+
+            async function PasskeyController_loginOptions(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsPasskeyController_loginOptions, request, response });
+
+                const controller = new PasskeyController();
+
+              await templateService.apiHandler({
+                methodName: 'loginOptions',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsPasskeyController_login: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"PasskeyLoginRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/passkeys/login',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(PasskeyController)),
+            ...(fetchMiddlewares<RequestHandler>(PasskeyController.prototype.login)),
+
+            async function PasskeyController_login(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsPasskeyController_login, request, response });
+
+                const controller = new PasskeyController();
+
+              await templateService.apiHandler({
+                methodName: 'login',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsPasskeyController_stepUpOptions: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/passkeys/step-up/options',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PasskeyController)),
+            ...(fetchMiddlewares<RequestHandler>(PasskeyController.prototype.stepUpOptions)),
+
+            async function PasskeyController_stepUpOptions(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsPasskeyController_stepUpOptions, request, response });
+
+                const controller = new PasskeyController();
+
+              await templateService.apiHandler({
+                methodName: 'stepUpOptions',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsPasskeyController_stepUp: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"PasskeyStepUpRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/passkeys/step-up',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PasskeyController)),
+            ...(fetchMiddlewares<RequestHandler>(PasskeyController.prototype.stepUp)),
+
+            async function PasskeyController_stepUp(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsPasskeyController_stepUp, request, response });
+
+                const controller = new PasskeyController();
+
+              await templateService.apiHandler({
+                methodName: 'stepUp',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsPasskeyController_listPasskeys: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/auth/passkeys',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PasskeyController)),
+            ...(fetchMiddlewares<RequestHandler>(PasskeyController.prototype.listPasskeys)),
+
+            async function PasskeyController_listPasskeys(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsPasskeyController_listPasskeys, request, response });
+
+                const controller = new PasskeyController();
+
+              await templateService.apiHandler({
+                methodName: 'listPasskeys',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsPasskeyController_removePasskey: Record<string, TsoaRoute.ParameterSchema> = {
+                passkeyId: {"in":"path","name":"passkeyId","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.delete('/auth/passkeys/:passkeyId',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(PasskeyController)),
+            ...(fetchMiddlewares<RequestHandler>(PasskeyController.prototype.removePasskey)),
+
+            async function PasskeyController_removePasskey(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsPasskeyController_removePasskey, request, response });
+
+                const controller = new PasskeyController();
+
+              await templateService.apiHandler({
+                methodName: 'removePasskey',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsOidcController_authorize: Record<string, TsoaRoute.ParameterSchema> = {
+                responseType: {"in":"query","name":"response_type","dataType":"string"},
+                clientId: {"in":"query","name":"client_id","dataType":"string"},
+                redirectUri: {"in":"query","name":"redirect_uri","dataType":"string"},
+                scope: {"in":"query","name":"scope","dataType":"string"},
+                state: {"in":"query","name":"state","dataType":"string"},
+                nonce: {"in":"query","name":"nonce","dataType":"string"},
+                codeChallenge: {"in":"query","name":"code_challenge","dataType":"string"},
+                codeChallengeMethod: {"in":"query","name":"code_challenge_method","dataType":"string"},
+        };
+        app.get('/oauth/authorize',
+            ...(fetchMiddlewares<RequestHandler>(OidcController)),
+            ...(fetchMiddlewares<RequestHandler>(OidcController.prototype.authorize)),
+
+            async function OidcController_authorize(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsOidcController_authorize, request, response });
+
+                const controller = new OidcController();
+
+              await templateService.apiHandler({
+                methodName: 'authorize',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 302,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsOidcController_getAuthorizationRequest: Record<string, TsoaRoute.ParameterSchema> = {
+                requestId: {"in":"path","name":"requestId","required":true,"dataType":"string"},
+        };
+        app.get('/oauth/authorize/:requestId',
+            ...(fetchMiddlewares<RequestHandler>(OidcController)),
+            ...(fetchMiddlewares<RequestHandler>(OidcController.prototype.getAuthorizationRequest)),
+
+            async function OidcController_getAuthorizationRequest(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsOidcController_getAuthorizationRequest, request, response });
+
+                const controller = new OidcController();
+
+              await templateService.apiHandler({
+                methodName: 'getAuthorizationRequest',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsOidcController_completeAuthorization: Record<string, TsoaRoute.ParameterSchema> = {
+                requestId: {"in":"path","name":"requestId","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/oauth/authorize/:requestId',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(OidcController)),
+            ...(fetchMiddlewares<RequestHandler>(OidcController.prototype.completeAuthorization)),
+
+            async function OidcController_completeAuthorization(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsOidcController_completeAuthorization, request, response });
+
+                const controller = new OidcController();
+
+              await templateService.apiHandler({
+                methodName: 'completeAuthorization',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsOidcController_token: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"TokenRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/oauth/token',
+            ...(fetchMiddlewares<RequestHandler>(OidcController)),
+            ...(fetchMiddlewares<RequestHandler>(OidcController.prototype.token)),
+
+            async function OidcController_token(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsOidcController_token, request, response });
+
+                const controller = new OidcController();
+
+              await templateService.apiHandler({
+                methodName: 'token',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsOidcController_userInfo: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/oauth/userinfo',
+            authenticateMiddleware([{"bearer":["openid"]}]),
+            ...(fetchMiddlewares<RequestHandler>(OidcController)),
+            ...(fetchMiddlewares<RequestHandler>(OidcController.prototype.userInfo)),
+
+            async function OidcController_userInfo(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsOidcController_userInfo, request, response });
+
+                const controller = new OidcController();
+
+              await templateService.apiHandler({
+                methodName: 'userInfo',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsMfaController_getMfaStatus: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/auth/mfa',
+            authenticateMiddleware([{"bearer":["mfa_pending"]}]),
+            ...(fetchMiddlewares<RequestHandler>(MfaController)),
+            ...(fetchMiddlewares<RequestHandler>(MfaController.prototype.getMfaStatus)),
+
+            async function MfaController_getMfaStatus(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsMfaController_getMfaStatus, request, response });
+
+                const controller = new MfaController();
+
+              await templateService.apiHandler({
+                methodName: 'getMfaStatus',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsMfaController_startTotp: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/mfa/totp',
+            authenticateMiddleware([{"bearer":["mfa_pending"]}]),
+            ...(fetchMiddlewares<RequestHandler>(MfaController)),
+            ...(fetchMiddlewares<RequestHandler>(MfaController.prototype.startTotp)),
+
+            async function MfaController_startTotp(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsMfaController_startTotp, request, response });
+
+                const controller = new MfaController();
+
+              await templateService.apiHandler({
+                methodName: 'startTotp',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsMfaController_confirmTotp: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"ConfirmTotpRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/mfa/totp/confirm',
+            authenticateMiddleware([{"bearer":["mfa_pending"]}]),
+            ...(fetchMiddlewares<RequestHandler>(MfaController)),
+            ...(fetchMiddlewares<RequestHandler>(MfaController.prototype.confirmTotp)),
+
+            async function MfaController_confirmTotp(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsMfaController_confirmTotp, request, response });
+
+                const controller = new MfaController();
+
+              await templateService.apiHandler({
+                methodName: 'confirmTotp',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsMfaController_verify: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"VerifyMfaRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/mfa/verify',
+            authenticateMiddleware([{"bearer":["mfa_pending"]}]),
+            ...(fetchMiddlewares<RequestHandler>(MfaController)),
+            ...(fetchMiddlewares<RequestHandler>(MfaController.prototype.verify)),
+
+            async function MfaController_verify(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsMfaController_verify, request, response });
+
+                const controller = new MfaController();
+
+              await templateService.apiHandler({
+                methodName: 'verify',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsMfaController_regenerateRecoveryCodes: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"SecondFactorRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/mfa/recovery-codes',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(MfaController)),
+            ...(fetchMiddlewares<RequestHandler>(MfaController.prototype.regenerateRecoveryCodes)),
+
+            async function MfaController_regenerateRecoveryCodes(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsMfaController_regenerateRecoveryCodes, request, response });
+
+                const controller = new MfaController();
+
+              await templateService.apiHandler({
+                methodName: 'regenerateRecoveryCodes',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsMfaController_disableTotp: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"SecondFactorRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/mfa/totp/disable',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(MfaController)),
+            ...(fetchMiddlewares<RequestHandler>(MfaController.prototype.disableTotp)),
+
+            async function MfaController_disableTotp(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsMfaController_disableTotp, request, response });
+
+                const controller = new MfaController();
+
+              await templateService.apiHandler({
+                methodName: 'disableTotp',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsIdentityController_listIdentities: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/auth/identities',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(IdentityController)),
+            ...(fetchMiddlewares<RequestHandler>(IdentityController.prototype.listIdentities)),
+
+            async function IdentityController_listIdentities(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsIdentityController_listIdentities, request, response });
+
+                const controller = new IdentityController();
+
+              await templateService.apiHandler({
+                methodName: 'listIdentities',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsIdentityController_requestLinkOtp: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"LinkOtpRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/identities/otp',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(IdentityController)),
+            ...(fetchMiddlewares<RequestHandler>(IdentityController.prototype.requestLinkOtp)),
+
+            async function IdentityController_requestLinkOtp(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsIdentityController_requestLinkOtp, request, response });
+
+                const controller = new IdentityController();
+
+              await templateService.apiHandler({
+                methodName: 'requestLinkOtp',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsIdentityController_verifyLink: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"VerifyLinkRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/identities/verify',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(IdentityController)),
+            ...(fetchMiddlewares<RequestHandler>(IdentityController.prototype.verifyLink)),
+
+            async function IdentityController_verifyLink(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsIdentityController_verifyLink, request, response });
+
+                const controller = new IdentityController();
+
+              await templateService.apiHandler({
+                methodName: 'verifyLink',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsIdentityController_linkSocial: Record<string, TsoaRoute.ParameterSchema> = {
+                provider: {"in":"path","name":"provider","required":true,"dataType":"string"},
+                body: {"in":"body","name":"body","required":true,"ref":"LinkSocialRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/identities/social/:provider',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(IdentityController)),
+            ...(fetchMiddlewares<RequestHandler>(IdentityController.prototype.linkSocial)),
+
+            async function IdentityController_linkSocial(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsIdentityController_linkSocial, request, response });
+
+                const controller = new IdentityController();
+
+              await templateService.apiHandler({
+                methodName: 'linkSocial',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsIdentityController_linkSiwe: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"LinkSiweRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/identities/siwe',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(IdentityController)),
+            ...(fetchMiddlewares<RequestHandler>(IdentityController.prototype.linkSiwe)),
+
+            async function IdentityController_linkSiwe(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsIdentityController_linkSiwe, request, response });
+
+                const controller = new IdentityController();
+
+              await templateService.apiHandler({
+                methodName: 'linkSiwe',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsIdentityController_setPrimary: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"SetPrimaryRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/identities/primary',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(IdentityController)),
+            ...(fetchMiddlewares<RequestHandler>(IdentityController.prototype.setPrimary)),
+
+            async function IdentityController_setPrimary(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsIdentityController_setPrimary, request, response });
+
+                const controller = new IdentityController();
+
+              await templateService.apiHandler({
+                methodName: 'setPrimary',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsIdentityController_unlink: Record<string, TsoaRoute.ParameterSchema> = {
+                type: {"in":"path","name":"type","required":true,"dataType":"string"},
+                value: {"in":"path","name":"value","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.delete('/auth/identities/:type/:value',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(IdentityController)),
+            ...(fetchMiddlewares<RequestHandler>(IdentityController.prototype.unlink)),
+
+            async function IdentityController_unlink(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsIdentityController_unlink, request, response });
+
+                const controller = new IdentityController();
+
+              await templateService.apiHandler({
+                methodName: 'unlink',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsENSSubnameController_checkSubname: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"CheckSubnameRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/ens/subnames/check',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["ens"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController)),
+            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController.prototype.checkSubname)),
+
+            async function ENSSubnameController_checkSubname(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsENSSubnameController_checkSubname, request, response });
+
+                const controller = new ENSSubnameController();
+
+              await templateService.apiHandler({
+                methodName: 'checkSubname',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsENSSubnameController_claimSubname: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"ClaimSubnameRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/ens/subnames/claim',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["ens"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController)),
+            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController.prototype.claimSubname)),
+
+            async function ENSSubnameController_claimSubname(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsENSSubnameController_claimSubname, request, response });
+
+                const controller = new ENSSubnameController();
+
+              await templateService.apiHandler({
+                methodName: 'claimSubname',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsENSSubnameController_getUserSubnames: Record<string, TsoaRoute.ParameterSchema> = {
+                userAddress: {"in":"query","name":"userAddress","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/ens/subnames/user',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["ens"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController)),
+            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController.prototype.getUserSubnames)),
+
+            async function ENSSubnameController_getUserSubnames(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsENSSubnameController_getUserSubnames, request, response });
+
+                const controller = new ENSSubnameController();
+
+              await templateService.apiHandler({
+                methodName: 'getUserSubnames',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsENSSubnameController_getAllSubnames: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/ens/subnames/all',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["ens"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController)),
+            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController.prototype.getAllSubnames)),
+
+            async function ENSSubnameController_getAllSubnames(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsENSSubnameController_getAllSubnames, request, response });
+
+                const controller = new ENSSubnameController();
+
+              await templateService.apiHandler({
+                methodName: 'getAllSubnames',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsENSSubnameController_getServiceStatus: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/ens/subnames/status',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["ens"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController)),
+            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController.prototype.getServiceStatus)),
+
+            async function ENSSubnameController_getServiceStatus(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsENSSubnameController_getServiceStatus, request, response });
+
+                const controller = new ENSSubnameController();
+
+              await templateService.apiHandler({
+                methodName: 'getServiceStatus',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsENSSubnameController_hasUserClaimedSubname: Record<string, TsoaRoute.ParameterSchema> = {
+                userAddress: {"in":"query","name":"userAddress","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/ens/subnames/has-claimed',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["ens"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController)),
+            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController.prototype.hasUserClaimedSubname)),
+
+            async function ENSSubnameController_hasUserClaimedSubname(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsENSSubnameController_hasUserClaimedSubname, request, response });
+
+                const controller = new ENSSubnameController();
+
+              await templateService.apiHandler({
+                methodName: 'hasUserClaimedSubname',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsENSSubnameController_getNetworkInfo: Record<string, TsoaRoute.ParameterSchema> = {
+        };
+        app.get('/ens/subnames/network-info',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["ens"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController)),
+            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController.prototype.getNetworkInfo)),
+
+            async function ENSSubnameController_getNetworkInfo(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsENSSubnameController_getNetworkInfo, request, response });
 
-// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+                const controller = new ENSSubnameController();
 
+              await templateService.apiHandler({
+                methodName: 'getNetworkInfo',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsEmailAuthController_emailLogin: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"EmailLoginRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/email/login',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(EmailAuthController)),
+            ...(fetchMiddlewares<RequestHandler>(EmailAuthController.prototype.emailLogin)),
 
+            async function EmailAuthController_emailLogin(request: ExRequest, response: ExResponse, next: any) {
 
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
-export function RegisterRoutes(app: Router) {
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsEmailAuthController_emailLogin, request, response });
 
-    // ###########################################################################################################
-    //  NOTE: If you do not see routes for all of your controllers in this file, then you might not have informed tsoa of where to look
-    //      Please look into the "controllerPathGlobs" config option described in the readme: https://github.com/lukeautry/tsoa
-    // ###########################################################################################################
+                const controller = new EmailAuthController();
+
+              await templateService.apiHandler({
+                methodName: 'emailLogin',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsEmailAuthController_verifyOTP: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"VerifyOTPRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/email/verify',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(EmailAuthController)),
+            ...(fetchMiddlewares<RequestHandler>(EmailAuthController.prototype.verifyOTP)),
 
+            async function EmailAuthController_verifyOTP(request: ExRequest, response: ExResponse, next: any) {
 
-    
-        const argsTransactionController_sendTransaction: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"SendTransactionRequest"},
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsEmailAuthController_verifyOTP, request, response });
+
+                const controller = new EmailAuthController();
+
+              await templateService.apiHandler({
+                methodName: 'verifyOTP',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsEmailAuthController_resendOTP: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"ResendOTPRequest"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/transactions/send',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(TransactionController)),
-            ...(fetchMiddlewares<RequestHandler>(TransactionController.prototype.sendTransaction)),
+        app.post('/auth/email/resend-otp',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(EmailAuthController)),
+            ...(fetchMiddlewares<RequestHandler>(EmailAuthController.prototype.resendOTP)),
 
-            async function TransactionController_sendTransaction(request: ExRequest, response: ExResponse, next: any) {
+            async function EmailAuthController_resendOTP(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsTransactionController_sendTransaction, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsEmailAuthController_resendOTP, request, response });
 
-                const controller = new TransactionController();
+                const controller = new EmailAuthController();
 
               await templateService.apiHandler({
-                methodName: 'sendTransaction',
+                methodName: 'resendOTP',
                 controller,
                 response,
                 next,
@@ -554,26 +4090,27 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsTransactionController_getTransactionHistory: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"TransactionHistoryRequest"},
+        const argsEmailAuthController_sendMagicLink: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"MagicLinkRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/transactions/history',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(TransactionController)),
-            ...(fetchMiddlewares<RequestHandler>(TransactionController.prototype.getTransactionHistory)),
+        app.post('/auth/email/magic-link',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(EmailAuthController)),
+            ...(fetchMiddlewares<RequestHandler>(EmailAuthController.prototype.sendMagicLink)),
 
-            async function TransactionController_getTransactionHistory(request: ExRequest, response: ExResponse, next: any) {
+            async function EmailAuthController_sendMagicLink(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsTransactionController_getTransactionHistory, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsEmailAuthController_sendMagicLink, request, response });
 
-                const controller = new TransactionController();
+                const controller = new EmailAuthController();
 
               await templateService.apiHandler({
-                methodName: 'getTransactionHistory',
+                methodName: 'sendMagicLink',
                 controller,
                 response,
                 next,
@@ -585,26 +4122,27 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsTransactionController_getGasPrices: Record<string, TsoaRoute.ParameterSchema> = {
-                chainId: {"in":"query","name":"chainId","required":true,"dataType":"string"},
+        const argsEmailAuthController_magicLinkCallback: Record<string, TsoaRoute.ParameterSchema> = {
+                token: {"in":"query","name":"token","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/transactions/gas-prices',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(TransactionController)),
-            ...(fetchMiddlewares<RequestHandler>(TransactionController.prototype.getGasPrices)),
+        app.get('/auth/email/magic-link/callback',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(EmailAuthController)),
+            ...(fetchMiddlewares<RequestHandler>(EmailAuthController.prototype.magicLinkCallback)),
 
-            async function TransactionController_getGasPrices(request: ExRequest, response: ExResponse, next: any) {
+            async function EmailAuthController_magicLinkCallback(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsTransactionController_getGasPrices, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsEmailAuthController_magicLinkCallback, request, response });
 
-                const controller = new TransactionController();
+                const controller = new EmailAuthController();
 
               await templateService.apiHandler({
-                methodName: 'getGasPrices',
+                methodName: 'magicLinkCallback',
                 controller,
                 response,
                 next,
@@ -616,27 +4154,59 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsTransactionController_getTransactionStatus: Record<string, TsoaRoute.ParameterSchema> = {
-                chainId: {"in":"query","name":"chainId","required":true,"dataType":"string"},
-                transactionHash: {"in":"query","name":"transactionHash","required":true,"dataType":"string"},
+        const argsEmailAuthController_confirmMagicLink: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"MagicLinkConfirmRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/transactions/status',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(TransactionController)),
-            ...(fetchMiddlewares<RequestHandler>(TransactionController.prototype.getTransactionStatus)),
+        app.post('/auth/email/magic-link/callback',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(EmailAuthController)),
+            ...(fetchMiddlewares<RequestHandler>(EmailAuthController.prototype.confirmMagicLink)),
 
-            async function TransactionController_getTransactionStatus(request: ExRequest, response: ExResponse, next: any) {
+            async function EmailAuthController_confirmMagicLink(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsTransactionController_getTransactionStatus, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsEmailAuthController_confirmMagicLink, request, response });
 
-                const controller = new TransactionController();
+                const controller = new EmailAuthController();
 
               await templateService.apiHandler({
-                methodName: 'getTransactionStatus',
+                methodName: 'confirmMagicLink',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 303,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsEmailAuthController_exchangeMagicLinkCode: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"MagicLinkTokenRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/auth/email/magic-link/token',
+            authenticateMiddleware([{"app":[]},{"apiKey":["auth"]}]),
+            ...(fetchMiddlewares<RequestHandler>(EmailAuthController)),
+            ...(fetchMiddlewares<RequestHandler>(EmailAuthController.prototype.exchangeMagicLinkCode)),
+
+            async function EmailAuthController_exchangeMagicLinkCode(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsEmailAuthController_exchangeMagicLinkCode, request, response });
+
+                const controller = new EmailAuthController();
+
+              await templateService.apiHandler({
+                methodName: 'exchangeMagicLinkCode',
                 controller,
                 response,
                 next,
@@ -648,27 +4218,57 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsTransactionController_estimateGas: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"SendTransactionRequest"},
+        const argsDeveloperController_register: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"RegisterDeveloperRequest"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/transactions/estimate-gas',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(TransactionController)),
-            ...(fetchMiddlewares<RequestHandler>(TransactionController.prototype.estimateGas)),
+        app.post('/api/developers/register',
+            ...(fetchMiddlewares<RequestHandler>(DeveloperController)),
+            ...(fetchMiddlewares<RequestHandler>(DeveloperController.prototype.register)),
 
-            async function TransactionController_estimateGas(request: ExRequest, response: ExResponse, next: any) {
+            async function DeveloperController_register(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsTransactionController_estimateGas, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsDeveloperController_register, request, response });
 
-                const controller = new TransactionController();
+                const controller = new DeveloperController();
 
               await templateService.apiHandler({
-                methodName: 'estimateGas',
+                methodName: 'register',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsDeveloperController_verify: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"VerifyDeveloperRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/api/developers/verify',
+            ...(fetchMiddlewares<RequestHandler>(DeveloperController)),
+            ...(fetchMiddlewares<RequestHandler>(DeveloperController.prototype.verify)),
+
+            async function DeveloperController_verify(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsDeveloperController_verify, request, response });
+
+                const controller = new DeveloperController();
+
+              await templateService.apiHandler({
+                methodName: 'verify',
                 controller,
                 response,
                 next,
@@ -680,27 +4280,120 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsSmsAuthController_smsLogin: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"SmsLoginRequest"},
+        const argsDeveloperController_resendVerification: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"DeveloperEmailRequest"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/auth/sms/login',
-            authenticateMiddleware([{"app":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(SmsAuthController)),
-            ...(fetchMiddlewares<RequestHandler>(SmsAuthController.prototype.smsLogin)),
+        app.post('/api/developers/resend-verification',
+            ...(fetchMiddlewares<RequestHandler>(DeveloperController)),
+            ...(fetchMiddlewares<RequestHandler>(DeveloperController.prototype.resendVerification)),
+
+            async function DeveloperController_resendVerification(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsDeveloperController_resendVerification, request, response });
+
+                const controller = new DeveloperController();
+
+              await templateService.apiHandler({
+                methodName: 'resendVerification',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsDeveloperController_login: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"DeveloperLoginRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/api/developers/login',
+            ...(fetchMiddlewares<RequestHandler>(DeveloperController)),
+            ...(fetchMiddlewares<RequestHandler>(DeveloperController.prototype.login)),
+
+            async function DeveloperController_login(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsDeveloperController_login, request, response });
+
+                const controller = new DeveloperController();
+
+              await templateService.apiHandler({
+                methodName: 'login',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsDeveloperController_getProfile: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/api/developers/profile',
+            authenticateMiddleware([{"developer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(DeveloperController)),
+            ...(fetchMiddlewares<RequestHandler>(DeveloperController.prototype.getProfile)),
+
+            async function DeveloperController_getProfile(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsDeveloperController_getProfile, request, response });
+
+                const controller = new DeveloperController();
+
+              await templateService.apiHandler({
+                methodName: 'getProfile',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsDeveloperController_updateProfile: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"UpdateDeveloperProfileRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.put('/api/developers/profile',
+            authenticateMiddleware([{"developer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(DeveloperController)),
+            ...(fetchMiddlewares<RequestHandler>(DeveloperController.prototype.updateProfile)),
 
-            async function SmsAuthController_smsLogin(request: ExRequest, response: ExResponse, next: any) {
+            async function DeveloperController_updateProfile(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsSmsAuthController_smsLogin, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsDeveloperController_updateProfile, request, response });
 
-                const controller = new SmsAuthController();
+                const controller = new DeveloperController();
 
               await templateService.apiHandler({
-                methodName: 'smsLogin',
+                methodName: 'updateProfile',
                 controller,
                 response,
                 next,
@@ -712,27 +4405,26 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsSmsAuthController_verifySmsOTP: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"VerifySmsOTPRequest"},
+        const argsDeveloperController_forgotPassword: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"DeveloperEmailRequest"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/auth/sms/verify',
-            authenticateMiddleware([{"app":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(SmsAuthController)),
-            ...(fetchMiddlewares<RequestHandler>(SmsAuthController.prototype.verifySmsOTP)),
+        app.post('/api/developers/password/forgot',
+            ...(fetchMiddlewares<RequestHandler>(DeveloperController)),
+            ...(fetchMiddlewares<RequestHandler>(DeveloperController.prototype.forgotPassword)),
 
-            async function SmsAuthController_verifySmsOTP(request: ExRequest, response: ExResponse, next: any) {
+            async function DeveloperController_forgotPassword(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsSmsAuthController_verifySmsOTP, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsDeveloperController_forgotPassword, request, response });
 
-                const controller = new SmsAuthController();
+                const controller = new DeveloperController();
 
               await templateService.apiHandler({
-                methodName: 'verifySmsOTP',
+                methodName: 'forgotPassword',
                 controller,
                 response,
                 next,
@@ -744,27 +4436,26 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsSmsAuthController_resendSmsOTP: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"ResendSmsOTPRequest"},
+        const argsDeveloperController_resetPassword: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"ResetPasswordRequest"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/auth/sms/resend-otp',
-            authenticateMiddleware([{"app":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(SmsAuthController)),
-            ...(fetchMiddlewares<RequestHandler>(SmsAuthController.prototype.resendSmsOTP)),
+        app.post('/api/developers/password/reset',
+            ...(fetchMiddlewares<RequestHandler>(DeveloperController)),
+            ...(fetchMiddlewares<RequestHandler>(DeveloperController.prototype.resetPassword)),
 
-            async function SmsAuthController_resendSmsOTP(request: ExRequest, response: ExResponse, next: any) {
+            async function DeveloperController_resetPassword(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsSmsAuthController_resendSmsOTP, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsDeveloperController_resetPassword, request, response });
 
-                const controller = new SmsAuthController();
+                const controller = new DeveloperController();
 
               await templateService.apiHandler({
-                methodName: 'resendSmsOTP',
+                methodName: 'resetPassword',
                 controller,
                 response,
                 next,
@@ -776,22 +4467,22 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsSigningController_getSupportedChains: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsBalanceController_getSupportedChains: Record<string, TsoaRoute.ParameterSchema> = {
         };
-        app.get('/signing/chains',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(SigningController)),
-            ...(fetchMiddlewares<RequestHandler>(SigningController.prototype.getSupportedChains)),
+        app.get('/balance/chains',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["balance"]}]),
+            ...(fetchMiddlewares<RequestHandler>(BalanceController)),
+            ...(fetchMiddlewares<RequestHandler>(BalanceController.prototype.getSupportedChains)),
 
-            async function SigningController_getSupportedChains(request: ExRequest, response: ExResponse, next: any) {
+            async function BalanceController_getSupportedChains(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsSigningController_getSupportedChains, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsBalanceController_getSupportedChains, request, response });
 
-                const controller = new SigningController();
+                const controller = new BalanceController();
 
               await templateService.apiHandler({
                 methodName: 'getSupportedChains',
@@ -806,26 +4497,27 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsSigningController_getChainInfo: Record<string, TsoaRoute.ParameterSchema> = {
-                chainId: {"in":"query","name":"chainId","required":true,"dataType":"string"},
+        const argsBalanceController_getBalance: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                chainId: {"in":"query","name":"chainId","dataType":"double"},
         };
-        app.get('/signing/chain-info',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(SigningController)),
-            ...(fetchMiddlewares<RequestHandler>(SigningController.prototype.getChainInfo)),
+        app.get('/balance/native',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["balance"]}]),
+            ...(fetchMiddlewares<RequestHandler>(BalanceController)),
+            ...(fetchMiddlewares<RequestHandler>(BalanceController.prototype.getBalance)),
 
-            async function SigningController_getChainInfo(request: ExRequest, response: ExResponse, next: any) {
+            async function BalanceController_getBalance(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsSigningController_getChainInfo, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsBalanceController_getBalance, request, response });
 
-                const controller = new SigningController();
+                const controller = new BalanceController();
 
               await templateService.apiHandler({
-                methodName: 'getChainInfo',
+                methodName: 'getBalance',
                 controller,
                 response,
                 next,
@@ -837,27 +4529,28 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsSigningController_signMessage: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"SignMessageRequest"},
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        const argsBalanceController_getBalances: Record<string, TsoaRoute.ParameterSchema> = {
+                req: {"in":"request","name":"req","required":true,"dataType":"object"},
+                chainIds: {"in":"query","name":"chainIds","dataType":"string"},
+                network: {"in":"query","name":"network","dataType":"string"},
         };
-        app.post('/signing/sign-message',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(SigningController)),
-            ...(fetchMiddlewares<RequestHandler>(SigningController.prototype.signMessage)),
+        app.get('/balance/balances',
+            authenticateMiddleware([{"bearer":[],"app":[]},{"bearer":[],"apiKey":["balance"]}]),
+            ...(fetchMiddlewares<RequestHandler>(BalanceController)),
+            ...(fetchMiddlewares<RequestHandler>(BalanceController.prototype.getBalances)),
 
-            async function SigningController_signMessage(request: ExRequest, response: ExResponse, next: any) {
+            async function BalanceController_getBalances(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsSigningController_signMessage, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsBalanceController_getBalances, request, response });
 
-                const controller = new SigningController();
+                const controller = new BalanceController();
 
               await templateService.apiHandler({
-                methodName: 'signMessage',
+                methodName: 'getBalances',
                 controller,
                 response,
                 next,
@@ -869,27 +4562,26 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsSigningController_signTransaction: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"SignTransactionRequest"},
+        const argsAuthController_getWalletInfo: Record<string, TsoaRoute.ParameterSchema> = {
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/signing/sign-transaction',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(SigningController)),
-            ...(fetchMiddlewares<RequestHandler>(SigningController.prototype.signTransaction)),
+        app.get('/auth/wallet-info',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AuthController)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.getWalletInfo)),
 
-            async function SigningController_signTransaction(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_getWalletInfo(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsSigningController_signTransaction, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_getWalletInfo, request, response });
 
-                const controller = new SigningController();
+                const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'signTransaction',
+                methodName: 'getWalletInfo',
                 controller,
                 response,
                 next,
@@ -901,58 +4593,60 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsSigningController_signTypedData: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"SignTypedDataRequest"},
+        const argsAppController_createApp: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"CreateAppRequest"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/signing/sign-typed-data',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(SigningController)),
-            ...(fetchMiddlewares<RequestHandler>(SigningController.prototype.signTypedData)),
+        app.post('/api/apps',
+            authenticateMiddleware([{"developer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AppController)),
+            ...(fetchMiddlewares<RequestHandler>(AppController.prototype.createApp)),
 
-            async function SigningController_signTypedData(request: ExRequest, response: ExResponse, next: any) {
+            async function AppController_createApp(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsSigningController_signTypedData, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAppController_createApp, request, response });
 
-                const controller = new SigningController();
+                const controller = new AppController();
 
               await templateService.apiHandler({
-                methodName: 'signTypedData',
+                methodName: 'createApp',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 200,
+                successStatus: 201,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsSigningController_sendSignedTransaction: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"SendSignedTransactionRequest"},
+        const argsAppController_listApps: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
         };
-        app.post('/signing/send-signed-transaction',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(SigningController)),
-            ...(fetchMiddlewares<RequestHandler>(SigningController.prototype.sendSignedTransaction)),
+        app.get('/api/apps',
+            authenticateMiddleware([{"developer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AppController)),
+            ...(fetchMiddlewares<RequestHandler>(AppController.prototype.listApps)),
 
-            async function SigningController_sendSignedTransaction(request: ExRequest, response: ExResponse, next: any) {
+            async function AppController_listApps(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsSigningController_sendSignedTransaction, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAppController_listApps, request, response });
 
-                const controller = new SigningController();
+                const controller = new AppController();
 
               await templateService.apiHandler({
-                methodName: 'sendSignedTransaction',
+                methodName: 'listApps',
                 controller,
                 response,
                 next,
@@ -964,26 +4658,27 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsSigningController_verifyMessage: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"VerifyMessageRequest"},
+        const argsAppController_getApp: Record<string, TsoaRoute.ParameterSchema> = {
+                appId: {"in":"path","name":"appId","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/signing/verify-message',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(SigningController)),
-            ...(fetchMiddlewares<RequestHandler>(SigningController.prototype.verifyMessage)),
+        app.get('/api/apps/:appId',
+            authenticateMiddleware([{"developer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AppController)),
+            ...(fetchMiddlewares<RequestHandler>(AppController.prototype.getApp)),
 
-            async function SigningController_verifyMessage(request: ExRequest, response: ExResponse, next: any) {
+            async function AppController_getApp(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsSigningController_verifyMessage, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAppController_getApp, request, response });
 
-                const controller = new SigningController();
+                const controller = new AppController();
 
               await templateService.apiHandler({
-                methodName: 'verifyMessage',
+                methodName: 'getApp',
                 controller,
                 response,
                 next,
@@ -995,27 +4690,28 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsENSSubnameController_checkSubname: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"CheckSubnameRequest"},
+        const argsAppController_updateApp: Record<string, TsoaRoute.ParameterSchema> = {
+                appId: {"in":"path","name":"appId","required":true,"dataType":"string"},
+                body: {"in":"body","name":"body","required":true,"ref":"UpdateAppRequest"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/ens/subnames/check',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController)),
-            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController.prototype.checkSubname)),
+        app.put('/api/apps/:appId',
+            authenticateMiddleware([{"developer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AppController)),
+            ...(fetchMiddlewares<RequestHandler>(AppController.prototype.updateApp)),
 
-            async function ENSSubnameController_checkSubname(request: ExRequest, response: ExResponse, next: any) {
+            async function AppController_updateApp(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsENSSubnameController_checkSubname, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAppController_updateApp, request, response });
 
-                const controller = new ENSSubnameController();
+                const controller = new AppController();
 
               await templateService.apiHandler({
-                methodName: 'checkSubname',
+                methodName: 'updateApp',
                 controller,
                 response,
                 next,
@@ -1027,27 +4723,27 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsENSSubnameController_claimSubname: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"ClaimSubnameRequest"},
+        const argsAppController_rotateClientSecret: Record<string, TsoaRoute.ParameterSchema> = {
+                appId: {"in":"path","name":"appId","required":true,"dataType":"string"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/ens/subnames/claim',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController)),
-            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController.prototype.claimSubname)),
+        app.post('/api/apps/:appId/client-secret',
+            authenticateMiddleware([{"developer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AppController)),
+            ...(fetchMiddlewares<RequestHandler>(AppController.prototype.rotateClientSecret)),
 
-            async function ENSSubnameController_claimSubname(request: ExRequest, response: ExResponse, next: any) {
+            async function AppController_rotateClientSecret(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsENSSubnameController_claimSubname, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAppController_rotateClientSecret, request, response });
 
-                const controller = new ENSSubnameController();
+                const controller = new AppController();
 
               await templateService.apiHandler({
-                methodName: 'claimSubname',
+                methodName: 'rotateClientSecret',
                 controller,
                 response,
                 next,
@@ -1059,27 +4755,27 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsENSSubnameController_getUserSubnames: Record<string, TsoaRoute.ParameterSchema> = {
-                userAddress: {"in":"query","name":"userAddress","required":true,"dataType":"string"},
+        const argsAppController_goLive: Record<string, TsoaRoute.ParameterSchema> = {
+                appId: {"in":"path","name":"appId","required":true,"dataType":"string"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/ens/subnames/user',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController)),
-            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController.prototype.getUserSubnames)),
+        app.post('/api/apps/:appId/go-live',
+            authenticateMiddleware([{"developer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AppController)),
+            ...(fetchMiddlewares<RequestHandler>(AppController.prototype.goLive)),
 
-            async function ENSSubnameController_getUserSubnames(request: ExRequest, response: ExResponse, next: any) {
+            async function AppController_goLive(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsENSSubnameController_getUserSubnames, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAppController_goLive, request, response });
 
-                const controller = new ENSSubnameController();
+                const controller = new AppController();
 
               await templateService.apiHandler({
-                methodName: 'getUserSubnames',
+                methodName: 'goLive',
                 controller,
                 response,
                 next,
@@ -1091,26 +4787,27 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsENSSubnameController_getAllSubnames: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsAppController_deleteApp: Record<string, TsoaRoute.ParameterSchema> = {
+                appId: {"in":"path","name":"appId","required":true,"dataType":"string"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/ens/subnames/all',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController)),
-            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController.prototype.getAllSubnames)),
+        app.delete('/api/apps/:appId',
+            authenticateMiddleware([{"developer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AppController)),
+            ...(fetchMiddlewares<RequestHandler>(AppController.prototype.deleteApp)),
 
-            async function ENSSubnameController_getAllSubnames(request: ExRequest, response: ExResponse, next: any) {
+            async function AppController_deleteApp(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsENSSubnameController_getAllSubnames, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAppController_deleteApp, request, response });
 
-                const controller = new ENSSubnameController();
+                const controller = new AppController();
 
               await templateService.apiHandler({
-                methodName: 'getAllSubnames',
+                methodName: 'deleteApp',
                 controller,
                 response,
                 next,
@@ -1122,58 +4819,60 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsENSSubnameController_getServiceStatus: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsApiKeyController_createApiKey: Record<string, TsoaRoute.ParameterSchema> = {
+                appId: {"in":"path","name":"appId","required":true,"dataType":"string"},
+                body: {"in":"body","name":"body","required":true,"ref":"CreateApiKeyRequest"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/ens/subnames/status',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController)),
-            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController.prototype.getServiceStatus)),
+        app.post('/api/apps/:appId/api-keys',
+            authenticateMiddleware([{"developer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(ApiKeyController)),
+            ...(fetchMiddlewares<RequestHandler>(ApiKeyController.prototype.createApiKey)),
 
-            async function ENSSubnameController_getServiceStatus(request: ExRequest, response: ExResponse, next: any) {
+            async function ApiKeyController_createApiKey(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsENSSubnameController_getServiceStatus, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsApiKeyController_createApiKey, request, response });
 
-                const controller = new ENSSubnameController();
+                const controller = new ApiKeyController();
 
               await templateService.apiHandler({
-                methodName: 'getServiceStatus',
+                methodName: 'createApiKey',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 200,
+                successStatus: 201,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsENSSubnameController_hasUserClaimedSubname: Record<string, TsoaRoute.ParameterSchema> = {
-                userAddress: {"in":"query","name":"userAddress","required":true,"dataType":"string"},
+        const argsApiKeyController_listApiKeys: Record<string, TsoaRoute.ParameterSchema> = {
+                appId: {"in":"path","name":"appId","required":true,"dataType":"string"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/ens/subnames/has-claimed',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController)),
-            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController.prototype.hasUserClaimedSubname)),
+        app.get('/api/apps/:appId/api-keys',
+            authenticateMiddleware([{"developer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(ApiKeyController)),
+            ...(fetchMiddlewares<RequestHandler>(ApiKeyController.prototype.listApiKeys)),
 
-            async function ENSSubnameController_hasUserClaimedSubname(request: ExRequest, response: ExResponse, next: any) {
+            async function ApiKeyController_listApiKeys(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsENSSubnameController_hasUserClaimedSubname, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsApiKeyController_listApiKeys, request, response });
 
-                const controller = new ENSSubnameController();
+                const controller = new ApiKeyController();
 
               await templateService.apiHandler({
-                methodName: 'hasUserClaimedSubname',
+                methodName: 'listApiKeys',
                 controller,
                 response,
                 next,
@@ -1185,25 +4884,28 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsENSSubnameController_getNetworkInfo: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsApiKeyController_revokeApiKey: Record<string, TsoaRoute.ParameterSchema> = {
+                appId: {"in":"path","name":"appId","required":true,"dataType":"string"},
+                keyId: {"in":"path","name":"keyId","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/ens/subnames/network-info',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController)),
-            ...(fetchMiddlewares<RequestHandler>(ENSSubnameController.prototype.getNetworkInfo)),
+        app.delete('/api/apps/:appId/api-keys/:keyId',
+            authenticateMiddleware([{"developer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(ApiKeyController)),
+            ...(fetchMiddlewares<RequestHandler>(ApiKeyController.prototype.revokeApiKey)),
 
-            async function ENSSubnameController_getNetworkInfo(request: ExRequest, response: ExResponse, next: any) {
+            async function ApiKeyController_revokeApiKey(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsENSSubnameController_getNetworkInfo, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsApiKeyController_revokeApiKey, request, response });
 
-                const controller = new ENSSubnameController();
+                const controller = new ApiKeyController();
 
               await templateService.apiHandler({
-                methodName: 'getNetworkInfo',
+                methodName: 'revokeApiKey',
                 controller,
                 response,
                 next,
@@ -1215,27 +4917,26 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsEmailAuthController_emailLogin: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"EmailLoginRequest"},
-                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        const argsAdminAppController_getApp: Record<string, TsoaRoute.ParameterSchema> = {
+                appId: {"in":"path","name":"appId","required":true,"dataType":"string"},
         };
-        app.post('/auth/email/login',
-            authenticateMiddleware([{"app":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(EmailAuthController)),
-            ...(fetchMiddlewares<RequestHandler>(EmailAuthController.prototype.emailLogin)),
+        app.get('/api/admin/apps/:appId',
+            authenticateMiddleware([{"admin":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AdminAppController)),
+            ...(fetchMiddlewares<RequestHandler>(AdminAppController.prototype.getApp)),
 
-            async function EmailAuthController_emailLogin(request: ExRequest, response: ExResponse, next: any) {
+            async function AdminAppController_getApp(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsEmailAuthController_emailLogin, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAdminAppController_getApp, request, response });
 
-                const controller = new EmailAuthController();
+                const controller = new AdminAppController();
 
               await templateService.apiHandler({
-                methodName: 'emailLogin',
+                methodName: 'getApp',
                 controller,
                 response,
                 next,
@@ -1247,27 +4948,28 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsEmailAuthController_verifyOTP: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"VerifyOTPRequest"},
+        const argsAdminAppController_suspendApp: Record<string, TsoaRoute.ParameterSchema> = {
+                appId: {"in":"path","name":"appId","required":true,"dataType":"string"},
+                body: {"in":"body","name":"body","required":true,"ref":"SuspendAppRequest"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/auth/email/verify',
-            authenticateMiddleware([{"app":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(EmailAuthController)),
-            ...(fetchMiddlewares<RequestHandler>(EmailAuthController.prototype.verifyOTP)),
+        app.post('/api/admin/apps/:appId/suspend',
+            authenticateMiddleware([{"admin":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AdminAppController)),
+            ...(fetchMiddlewares<RequestHandler>(AdminAppController.prototype.suspendApp)),
 
-            async function EmailAuthController_verifyOTP(request: ExRequest, response: ExResponse, next: any) {
+            async function AdminAppController_suspendApp(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsEmailAuthController_verifyOTP, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAdminAppController_suspendApp, request, response });
 
-                const controller = new EmailAuthController();
+                const controller = new AdminAppController();
 
               await templateService.apiHandler({
-                methodName: 'verifyOTP',
+                methodName: 'suspendApp',
                 controller,
                 response,
                 next,
@@ -1279,27 +4981,28 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsEmailAuthController_resendOTP: Record<string, TsoaRoute.ParameterSchema> = {
-                body: {"in":"body","name":"body","required":true,"ref":"ResendOTPRequest"},
+        const argsAdminAppController_restoreApp: Record<string, TsoaRoute.ParameterSchema> = {
+                appId: {"in":"path","name":"appId","required":true,"dataType":"string"},
+                body: {"in":"body","name":"body","required":true,"ref":"RestoreAppRequest"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/auth/email/resend-otp',
-            authenticateMiddleware([{"app":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(EmailAuthController)),
-            ...(fetchMiddlewares<RequestHandler>(EmailAuthController.prototype.resendOTP)),
+        app.post('/api/admin/apps/:appId/restore',
+            authenticateMiddleware([{"admin":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AdminAppController)),
+            ...(fetchMiddlewares<RequestHandler>(AdminAppController.prototype.restoreApp)),
 
-            async function EmailAuthController_resendOTP(request: ExRequest, response: ExResponse, next: any) {
+            async function AdminAppController_restoreApp(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsEmailAuthController_resendOTP, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAdminAppController_restoreApp, request, response });
 
-                const controller = new EmailAuthController();
+                const controller = new AdminAppController();
 
               await templateService.apiHandler({
-                methodName: 'resendOTP',
+                methodName: 'restoreApp',
                 controller,
                 response,
                 next,
@@ -1311,25 +5014,27 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsBalanceController_getSupportedChains: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsAccountController_listAccounts: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                includeHidden: {"in":"query","name":"includeHidden","dataType":"boolean"},
         };
-        app.get('/balance/chains',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(BalanceController)),
-            ...(fetchMiddlewares<RequestHandler>(BalanceController.prototype.getSupportedChains)),
+        app.get('/auth/accounts',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AccountController)),
+            ...(fetchMiddlewares<RequestHandler>(AccountController.prototype.listAccounts)),
 
-            async function BalanceController_getSupportedChains(request: ExRequest, response: ExResponse, next: any) {
+            async function AccountController_listAccounts(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsBalanceController_getSupportedChains, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAccountController_listAccounts, request, response });
 
-                const controller = new BalanceController();
+                const controller = new AccountController();
 
               await templateService.apiHandler({
-                methodName: 'getSupportedChains',
+                methodName: 'listAccounts',
                 controller,
                 response,
                 next,
@@ -1341,60 +5046,60 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsBalanceController_getBalance: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsAccountController_deriveAccount: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"DeriveAccountRequest"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
-                chainId: {"in":"query","name":"chainId","dataType":"double"},
         };
-        app.get('/balance/native',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(BalanceController)),
-            ...(fetchMiddlewares<RequestHandler>(BalanceController.prototype.getBalance)),
+        app.post('/auth/accounts',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AccountController)),
+            ...(fetchMiddlewares<RequestHandler>(AccountController.prototype.deriveAccount)),
 
-            async function BalanceController_getBalance(request: ExRequest, response: ExResponse, next: any) {
+            async function AccountController_deriveAccount(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsBalanceController_getBalance, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAccountController_deriveAccount, request, response });
 
-                const controller = new BalanceController();
+                const controller = new AccountController();
 
               await templateService.apiHandler({
-                methodName: 'getBalance',
+                methodName: 'deriveAccount',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 200,
+                successStatus: 201,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsBalanceController_getBalances: Record<string, TsoaRoute.ParameterSchema> = {
-                req: {"in":"request","name":"req","required":true,"dataType":"object"},
-                chainIds: {"in":"query","name":"chainIds","dataType":"string"},
-                network: {"in":"query","name":"network","dataType":"string"},
+        const argsAccountController_updateAccount: Record<string, TsoaRoute.ParameterSchema> = {
+                index: {"in":"path","name":"index","required":true,"dataType":"double"},
+                body: {"in":"body","name":"body","required":true,"ref":"UpdateAccountRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/balance/balances',
-            authenticateMiddleware([{"app":[]},{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(BalanceController)),
-            ...(fetchMiddlewares<RequestHandler>(BalanceController.prototype.getBalances)),
+        app.patch('/auth/accounts/:index',
+            authenticateMiddleware([{"bearer":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AccountController)),
+            ...(fetchMiddlewares<RequestHandler>(AccountController.prototype.updateAccount)),
 
-            async function BalanceController_getBalances(request: ExRequest, response: ExResponse, next: any) {
+            async function AccountController_updateAccount(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsBalanceController_getBalances, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAccountController_updateAccount, request, response });
 
-                const controller = new BalanceController();
+                const controller = new AccountController();
 
               await templateService.apiHandler({
-                methodName: 'getBalances',
+                methodName: 'updateAccount',
                 controller,
                 response,
                 next,
@@ -1406,26 +5111,27 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsAuthController_getWalletInfo: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsAccountController_selectAccount: Record<string, TsoaRoute.ParameterSchema> = {
+                index: {"in":"path","name":"index","required":true,"dataType":"double"},
                 request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/auth/wallet-info',
+        app.post('/auth/accounts/:index/select',
             authenticateMiddleware([{"bearer":[]}]),
-            ...(fetchMiddlewares<RequestHandler>(AuthController)),
-            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.getWalletInfo)),
+            ...(fetchMiddlewares<RequestHandler>(AccountController)),
+            ...(fetchMiddlewares<RequestHandler>(AccountController.prototype.selectAccount)),
 
-            async function AuthController_getWalletInfo(request: ExRequest, response: ExResponse, next: any) {
+            async function AccountController_selectAccount(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_getWalletInfo, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAccountController_selectAccount, request, response });
 
-                const controller = new AuthController();
+                const controller = new AccountController();
 
               await templateService.apiHandler({
-                methodName: 'getWalletInfo',
+                methodName: 'selectAccount',
                 controller,
                 response,
                 next,
@@ -0,0 +1,83 @@
+// src/scripts/migrate-wallet-keys.ts
+import mongoose from 'mongoose';
+import { mongodb_config } from '../config';
+import walletKeyMigrationService, {
+    WalletKeyMigrationOptions,
+} from '../services/wallet-key-migration-service';
+
+/**
+ * Re-encrypt wallets that still hold plaintext keys.
+ *
+ * Usage:
+ *   pnpm migrate:wallet-keys [--dry-run] [--batch-size=500]
+ *                            [--after=<walletId>] [--limit=<count>]
+ */
+function parseArgs(argv: string[]): WalletKeyMigrationOptions {
+    const options: WalletKeyMigrationOptions = {};
+
+    for (const arg of argv) {
+        const [flag, value] = arg.split('=');
+        switch (flag) {
+            case '--dry-run':
+                options.dryRun = true;
+                break;
+            case '--batch-size':
+                options.batchSize = parseInt(value || '', 10);
+                break;
+            case '--after':
+                if (value) options.afterId = value;
+                break;
+            case '--limit':
+                options.limit = parseInt(value || '', 10);
+                break;
+            default:
+                throw new Error(`Unknown argument: ${arg}`);
+        }
+    }
+
+    if (
+        (options.batchSize !== undefined && !(options.batchSize > 0)) ||
+        (options.limit !== undefined && !(options.limit > 0))
+    ) {
+        throw new Error('--batch-size and --limit must be positive integers');
+    }
+
+    return options;
+}
+
+async function main(): Promise<void> {
+    const options = parseArgs(process.argv.slice(2));
+
+    await mongoose.connect(mongodb_config.mongoUri);
+    console.log(
+        `🔐 Migrating wallet keys${options.dryRun ? ' (dry run)' : ''}...`,
+    );
+
+    try {
+        const report = await walletKeyMigrationService.migrate({
+            ...options,
+            onBatch: (progress) =>
+                console.log(
+                    `   scanned ${progress.scanned}, last wallet ${progress.lastWalletId}`,
+                ),
+        });
+
+        console.log(JSON.stringify(report, null, 2));
+
+        if (report.failed.length > 0) {
+            console.warn(
+                `⚠️ ${report.failed.length} wallet(s) failed; rerun to retry them`,
+            );
+            process.exitCode = 1;
+        } else {
+            console.log('✅ Wallet key migration complete');
+        }
+    } finally {
+        await mongoose.disconnect();
+    }
+}
+
+main().catch((error) => {
+    console.error('❌ Wallet key migration failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,64 @@
+// src/scripts/rotate-jwt-keys.ts
+import mongoose from 'mongoose';
+import { mongodb_config } from '../config';
+import jwtSigningService from '../services/jwt-signing-service';
+import { JwtSigningAlgorithm } from '../models/jwt-signing-key-models';
+
+/**
+ * Token signing key rotation.
+ *
+ * Usage:
+ *   pnpm rotate:jwt-keys status
+ *   pnpm rotate:jwt-keys rotate [RS256|EdDSA]
+ *   pnpm rotate:jwt-keys retire <kid>
+ */
+async function run(command: string | undefined, args: string[]) {
+    switch (command) {
+        case 'status':
+            console.log(
+                JSON.stringify(await jwtSigningService.listKeys(), null, 2),
+            );
+            return;
+
+        case 'rotate': {
+            const [algorithm] = args;
+            if (algorithm && algorithm !== 'RS256' && algorithm !== 'EdDSA') {
+                throw new Error('Usage: rotate [RS256|EdDSA]');
+            }
+            const kid = await jwtSigningService.rotate(
+                algorithm as JwtSigningAlgorithm | undefined,
+            );
+            console.log(`✅ Signing with new key ${kid}`);
+            return;
+        }
+
+        case 'retire': {
+            const [kid] = args;
+            if (!kid) {
+                throw new Error('Usage: retire <kid>');
+            }
+            await jwtSigningService.retireKey(kid);
+            console.log(`✅ Signing key ${kid} retired`);
+            return;
+        }
+
+        default:
+            throw new Error('Usage: rotate-jwt-keys status|rotate|retire');
+    }
+}
+
+async function main(): Promise<void> {
+    const [command, ...args] = process.argv.slice(2);
+
+    await mongoose.connect(mongodb_config.mongoUri);
+    try {
+        await run(command, args);
+    } finally {
+        await mongoose.disconnect();
+    }
+}
+
+main().catch((error) => {
+    console.error('❌ Signing key rotation failed:', error);
+    process.exit(1);
+});
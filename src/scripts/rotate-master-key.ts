@@ -0,0 +1,78 @@
+// src/scripts/rotate-master-key.ts
+import mongoose from 'mongoose';
+import { mongodb_config } from '../config';
+import keyRotationService from '../services/key-rotation-service';
+
+/**
+ * Master key rotation for the wallet key store.
+ *
+ * Usage:
+ *   pnpm rotate:master-key status
+ *   pnpm rotate:master-key rewrap [--batch-size=200] [--limit=<count>]
+ *   pnpm rotate:master-key retire <version>
+ */
+async function run(command: string | undefined, args: string[]) {
+    switch (command) {
+        case 'status':
+            console.log(
+                JSON.stringify(await keyRotationService.getStatus(), null, 2),
+            );
+            return;
+
+        case 'rewrap': {
+            const options: { batchSize?: number; limit?: number } = {};
+            for (const arg of args) {
+                const [flag, value] = arg.split('=');
+                const parsed = parseInt(value || '', 10);
+                if (!(parsed > 0)) {
+                    throw new Error(`${flag} must be a positive integer`);
+                }
+                if (flag === '--batch-size') options.batchSize = parsed;
+                else if (flag === '--limit') options.limit = parsed;
+                else throw new Error(`Unknown argument: ${arg}`);
+            }
+
+            const report = await keyRotationService.rewrapWallets({
+                ...options,
+                onBatch: (progress) =>
+                    console.log(
+                        `   re-wrapped ${progress.rewrapped}/${progress.scanned}, ${progress.remaining} remaining`,
+                    ),
+            });
+            console.log(JSON.stringify(report, null, 2));
+            if (report.failed.length > 0) {
+                process.exitCode = 1;
+            }
+            return;
+        }
+
+        case 'retire': {
+            const [version] = args;
+            if (!version) {
+                throw new Error('Usage: retire <version>');
+            }
+            await keyRotationService.retireKeyVersion(version);
+            console.log(`✅ Master key version ${version} retired`);
+            return;
+        }
+
+        default:
+            throw new Error('Usage: rotate-master-key status|rewrap|retire');
+    }
+}
+
+async function main(): Promise<void> {
+    const [command, ...args] = process.argv.slice(2);
+
+    await mongoose.connect(mongodb_config.mongoUri);
+    try {
+        await run(command, args);
+    } finally {
+        await mongoose.disconnect();
+    }
+}
+
+main().catch((error) => {
+    console.error('❌ Master key rotation failed:', error);
+    process.exit(1);
+});
@@ -7,7 +7,10 @@ import { RegisterRoutes } from './routes/routes';
 import swaggerUi from 'swagger-ui-express';
 import fs from 'fs';
 import path from 'path';
-import { mongodb_config } from './config'; // Import your MongoDB config
+import { mongodb_config, key_custody_config } from './config'; // Import your MongoDB config
+import keyRotationService from './services/key-rotation-service';
+import jwtSigningService from './services/jwt-signing-service';
+import sep10Service from './services/sep10-service';
 
 const app: Express = express();
 const PORT = process.env.PORT || 8003;
@@ -43,7 +46,17 @@ async function connectDB() {
 }
 
 // Initialize database connection first
-connectDB().then(() => {
+connectDB().then(async () => {
+    // Make sure a token signing key exists before serving logins
+    await jwtSigningService.initialize();
+
+    // Move wallet keys onto the current master key in the background
+    if (key_custody_config.rewrapIntervalMs > 0) {
+        keyRotationService.startBackgroundRewrap(
+            key_custody_config.rewrapIntervalMs,
+        );
+    }
+
     // Security middleware
     app.use(helmet());
 
@@ -153,6 +166,15 @@ connectDB().then(() => {
         });
     });
 
+    // SEP-1 stellar.toml, where SEP-10 clients find the signing key
+    app.get('/.well-known/stellar.toml', (req: Request, res: Response) => {
+        if (!sep10Service.isEnabled()) {
+            res.status(404).end();
+            return;
+        }
+        res.type('text/plain').send(sep10Service.getStellarToml());
+    });
+
     // Root endpoint
     app.get('/api', (req: Request, res: Response) => {
         res.status(200).json({
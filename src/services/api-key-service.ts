@@ -0,0 +1,212 @@
+// src/services/api-key-service.ts
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import {
+    API_KEY_SCOPES,
+    ApiKey,
+    ApiKeyScope,
+    IApiKey,
+} from '../models/api-key-models';
+import { App, IApp, INACTIVE_APP_STATUSES } from '../models/app-models';
+import { generateApiKey, hashApiKey } from '../utils/auth';
+import appService from './app-service';
+import auditLogService, { AuditContext } from './audit-log-service';
+
+/**
+ * Custom error class for API key failures
+ */
+export class ApiKeyError extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'API_KEY_ERROR') {
+        super(message);
+        this.name = 'ApiKeyError';
+        this.code = code;
+    }
+}
+
+export interface ApiKeyInput {
+    name: string;
+    scopes: ApiKeyScope[];
+    expiresAt?: Date | undefined;
+}
+
+const KEY_PREFIX = 'ck_';
+const MAX_ACTIVE_KEYS_PER_APP = 20;
+const LAST_USED_RESOLUTION_MS = 60 * 1000; // Avoids a write on every call
+
+/**
+ * Named API keys for server-to-server calls, several per app. A key is
+ * `ck_<id>_<secret>`: only its SHA-256 is stored, and the `ck_<id>` part
+ * is kept in the clear so developers can tell keys apart. Managing keys
+ * goes through the owning developer's app.
+ */
+export class ApiKeyService {
+    /**
+     * Create a key. The key itself is returned only here.
+     */
+    public async createKey(
+        developerId: string,
+        appId: string,
+        input: ApiKeyInput,
+        context: AuditContext,
+    ): Promise<{ apiKey: IApiKey; key: string }> {
+        await appService.getApp(developerId, appId);
+        this.validateInput(input);
+
+        const activeKeys = await ApiKey.countDocuments({
+            appId,
+            revokedAt: { $exists: false },
+        });
+        if (activeKeys >= MAX_ACTIVE_KEYS_PER_APP) {
+            throw new ApiKeyError(
+                `An app can have at most ${MAX_ACTIVE_KEYS_PER_APP} active API keys`,
+                'API_KEY_LIMIT_REACHED',
+            );
+        }
+
+        const prefix = `${KEY_PREFIX}${crypto.randomBytes(4).toString('hex')}`;
+        const key = `${prefix}_${generateApiKey()}`;
+        const apiKey = await ApiKey.create({
+            appId,
+            developerId: new Types.ObjectId(developerId),
+            name: input.name,
+            prefix,
+            keyHash: hashApiKey(key),
+            scopes: [...new Set(input.scopes)],
+            expiresAt: input.expiresAt,
+        });
+
+        await auditLogService.record(
+            'api_key.created',
+            { ...context, appId },
+            'success',
+            { developerId, keyId: String(apiKey._id), scopes: apiKey.scopes },
+        );
+        return { apiKey, key };
+    }
+
+    /**
+     * The app's keys that have not been revoked, newest first
+     */
+    public async listKeys(
+        developerId: string,
+        appId: string,
+    ): Promise<IApiKey[]> {
+        await appService.getApp(developerId, appId);
+        return ApiKey.find({ appId, revokedAt: { $exists: false } }).sort({
+            createdAt: -1,
+        });
+    }
+
+    public async revokeKey(
+        developerId: string,
+        appId: string,
+        keyId: string,
+        context: AuditContext,
+    ): Promise<void> {
+        await appService.getApp(developerId, appId);
+
+        const apiKey = Types.ObjectId.isValid(keyId)
+            ? await ApiKey.findOneAndUpdate(
+                  { _id: keyId, appId, revokedAt: { $exists: false } },
+                  { $set: { revokedAt: new Date() } },
+              )
+            : null;
+        if (!apiKey) {
+            throw new ApiKeyError('API key not found', 'API_KEY_NOT_FOUND');
+        }
+
+        await auditLogService.record(
+            'api_key.revoked',
+            { ...context, appId },
+            'success',
+            { developerId, keyId },
+        );
+    }
+
+    /**
+     * Resolve a key to its app, requiring every scope the route declares
+     */
+    public async authenticate(
+        key: string,
+        requiredScopes: string[] = [],
+    ): Promise<{ apiKey: IApiKey; app: IApp }> {
+        const apiKey = key.startsWith(KEY_PREFIX)
+            ? await ApiKey.findOne({
+                  keyHash: hashApiKey(key),
+                  revokedAt: { $exists: false },
+              })
+            : null;
+        if (!apiKey) {
+            throw new ApiKeyError('Invalid API key', 'INVALID_API_KEY');
+        }
+        if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+            throw new ApiKeyError('API key has expired', 'API_KEY_EXPIRED');
+        }
+
+        const missing = requiredScopes.filter(
+            (scope) => !apiKey.scopes.includes(scope as ApiKeyScope),
+        );
+        if (missing.length > 0) {
+            throw new ApiKeyError(
+                `API key lacks the ${missing.join(', ')} scope`,
+                'INSUFFICIENT_SCOPE',
+            );
+        }
+
+        const app = await App.findOne({
+            appId: apiKey.appId,
+            status: { $ne: 'deleted' },
+        });
+        if (!app) {
+            throw new ApiKeyError('Invalid API key', 'INVALID_API_KEY');
+        }
+        if (INACTIVE_APP_STATUSES.includes(app.status)) {
+            throw new ApiKeyError(`App is ${app.status}`, 'APP_INACTIVE');
+        }
+
+        const now = new Date();
+        if (
+            !apiKey.lastUsedAt ||
+            now.getTime() - apiKey.lastUsedAt.getTime() >=
+                LAST_USED_RESOLUTION_MS
+        ) {
+            await ApiKey.updateOne(
+                { _id: apiKey._id },
+                { $set: { lastUsedAt: now } },
+            );
+        }
+
+        return { apiKey, app };
+    }
+
+    private validateInput(input: ApiKeyInput): void {
+        if (!input.name?.trim()) {
+            throw new ApiKeyError('name is required', 'VALIDATION_ERROR');
+        }
+        if (
+            !Array.isArray(input.scopes) ||
+            input.scopes.length === 0 ||
+            !input.scopes.every((scope) => API_KEY_SCOPES.includes(scope))
+        ) {
+            throw new ApiKeyError(
+                `scopes must be one or more of ${API_KEY_SCOPES.join(', ')}`,
+                'VALIDATION_ERROR',
+            );
+        }
+        if (
+            input.expiresAt &&
+            (isNaN(input.expiresAt.getTime()) || input.expiresAt <= new Date())
+        ) {
+            throw new ApiKeyError(
+                'expiresAt must be in the future',
+                'VALIDATION_ERROR',
+            );
+        }
+    }
+}
+
+// Export singleton instance
+export const apiKeyService = new ApiKeyService();
+export default apiKeyService;
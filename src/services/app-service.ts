@@ -0,0 +1,506 @@
+// src/services/app-service.ts
+import crypto from 'crypto';
+import { Error as MongooseError, Types } from 'mongoose';
+import {
+    App,
+    AppStatus,
+    EmailLoginMode,
+    IApp,
+    TokenEndpointAuthMethod,
+} from '../models/app-models';
+import { Developer } from '../models/developer.models';
+import { Wallet } from '../models/wallet-models';
+import { Session } from '../models/session-models';
+import { generateClientSecret } from '../utils/auth';
+import emailService from '../config/email-config';
+import auditLogService, { AuditContext } from './audit-log-service';
+
+/**
+ * Custom error class for app management failures
+ */
+export class AppError extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'APP_ERROR') {
+        super(message);
+        this.name = 'AppError';
+        this.code = code;
+    }
+}
+
+export interface AppInput {
+    name: string;
+    description?: string | undefined;
+    redirectUrls: string[];
+    iconUrl?: string | undefined;
+    emailLoginMode?: EmailLoginMode | undefined;
+    requireMfa?: boolean | undefined;
+    tokenEndpointAuthMethod?: TokenEndpointAuthMethod | undefined;
+}
+
+export type AppUpdate = Partial<AppInput>;
+
+export interface AppPage {
+    apps: IApp[];
+    total: number;
+    page: number;
+    limit: number;
+}
+
+export interface DeletedApp {
+    walletsDeactivated: number;
+    sessionsRevoked: number;
+}
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Apps owned by developers. Methods taking a developer id are scoped to
+ * that developer: another developer's app reads as not found.
+ *
+ * Client secrets are stored as SHA-256 and returned only when created
+ * or rotated. Apps start in sandbox; the developer takes them live and
+ * administrators can suspend and restore them. The developer is emailed
+ * on every status change.
+ */
+export class AppService {
+    public async createApp(
+        developerId: string,
+        input: AppInput,
+        context: AuditContext,
+    ): Promise<{ app: IApp; clientSecret: string }> {
+        this.validateRedirectUrls(input.redirectUrls);
+
+        const clientSecret = generateClientSecret();
+        const app = await this.withValidation(() =>
+            App.create({
+                ...this.definedFields(input),
+                developerId: new Types.ObjectId(developerId),
+                clientSecretHash: this.hashSecret(clientSecret),
+            }),
+        );
+
+        await auditLogService.record(
+            'app.created',
+            { ...context, appId: app.appId },
+            'success',
+            { developerId },
+        );
+        return { app, clientSecret };
+    }
+
+    /**
+     * The developer's apps, newest first
+     */
+    public async listApps(
+        developerId: string,
+        page: number = 1,
+        limit: number = 20,
+    ): Promise<AppPage> {
+        if (!Number.isInteger(page) || page < 1) {
+            throw new AppError('page must be 1 or more', 'VALIDATION_ERROR');
+        }
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+            throw new AppError(
+                `limit must be between 1 and ${MAX_PAGE_SIZE}`,
+                'VALIDATION_ERROR',
+            );
+        }
+
+        const filter = this.ownedFilter(developerId);
+        const [apps, total] = await Promise.all([
+            App.find(filter)
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit),
+            App.countDocuments(filter),
+        ]);
+        return { apps, total, page, limit };
+    }
+
+    public async getApp(developerId: string, appId: string): Promise<IApp> {
+        const app = await App.findOne({
+            ...this.ownedFilter(developerId),
+            appId,
+        });
+        if (!app) {
+            throw new AppError('App not found', 'APP_NOT_FOUND');
+        }
+        return app;
+    }
+
+    public async updateApp(
+        developerId: string,
+        appId: string,
+        update: AppUpdate,
+        context: AuditContext,
+    ): Promise<IApp> {
+        if (update.redirectUrls !== undefined) {
+            this.validateRedirectUrls(update.redirectUrls);
+        }
+
+        const app = await this.withValidation(() =>
+            App.findOneAndUpdate(
+                { ...this.ownedFilter(developerId), appId },
+                { $set: this.definedFields(update) },
+                { new: true, runValidators: true },
+            ),
+        );
+        if (!app) {
+            throw new AppError('App not found', 'APP_NOT_FOUND');
+        }
+
+        await auditLogService.record(
+            'app.updated',
+            { ...context, appId },
+            'success',
+            { developerId, fields: Object.keys(this.definedFields(update)) },
+        );
+        return app;
+    }
+
+    /**
+     * Replace the client secret. The old one stops working immediately.
+     */
+    public async rotateClientSecret(
+        developerId: string,
+        appId: string,
+        context: AuditContext,
+    ): Promise<string> {
+        const clientSecret = generateClientSecret();
+        const app = await App.findOneAndUpdate(
+            { ...this.ownedFilter(developerId), appId },
+            {
+                $set: { clientSecretHash: this.hashSecret(clientSecret) },
+                $unset: { clientSecret: 1 },
+            },
+        );
+        if (!app) {
+            throw new AppError('App not found', 'APP_NOT_FOUND');
+        }
+
+        await auditLogService.record(
+            'app.client_secret_rotated',
+            { ...context, appId },
+            'success',
+            { developerId },
+        );
+        return clientSecret;
+    }
+
+    /**
+     * Soft-delete an app. Its users can no longer log in: their wallets
+     * are deactivated and their sessions revoked, but wallets and keys
+     * are kept so funds can still be recovered through support. ENS
+     * roots stay assigned to the deleted app, so no other app can take
+     * the name over along with its users' subnames.
+     */
+    public async deleteApp(
+        developerId: string,
+        appId: string,
+        context: AuditContext,
+    ): Promise<DeletedApp> {
+        const app = await this.changeStatus(
+            await this.getApp(developerId, appId),
+            ['sandbox', 'live', 'suspended'],
+            'deleted',
+        );
+
+        const [wallets, sessions] = await Promise.all([
+            Wallet.updateMany(
+                { appId, isActive: true },
+                { $set: { isActive: false } },
+            ),
+            Session.updateMany(
+                { appId, revokedAt: { $exists: false } },
+                {
+                    $set: {
+                        revokedAt: new Date(),
+                        revokedReason: 'app_deleted',
+                    },
+                },
+            ),
+        ]);
+
+        const result = {
+            walletsDeactivated: wallets.modifiedCount,
+            sessionsRevoked: sessions.modifiedCount,
+        };
+        await auditLogService.record(
+            'app.deleted',
+            { ...context, appId },
+            'success',
+            { developerId, ...result },
+        );
+        await this.notifyDeveloper(
+            app,
+            `${app.name} has been deleted`,
+            `Your app ${app.name} has been deleted. Its users can no longer log in.`,
+            context,
+        );
+        return result;
+    }
+
+    /**
+     * Move a sandbox app to live
+     */
+    public async goLive(
+        developerId: string,
+        appId: string,
+        context: AuditContext,
+    ): Promise<IApp> {
+        const app = await this.changeStatus(
+            await this.getApp(developerId, appId),
+            ['sandbox'],
+            'live',
+        );
+
+        await auditLogService.record(
+            'app.status_changed',
+            { ...context, appId },
+            'success',
+            { developerId, from: 'sandbox', to: 'live' },
+        );
+        await this.notifyDeveloper(
+            app,
+            `${app.name} is live`,
+            `Your app ${app.name} has moved from sandbox to live.`,
+            context,
+        );
+        return app;
+    }
+
+    /**
+     * Any app, whoever owns it, for administrators
+     */
+    public async findApp(appId: string): Promise<IApp> {
+        const app = await App.findOne({ appId });
+        if (!app) {
+            throw new AppError('App not found', 'APP_NOT_FOUND');
+        }
+        return app;
+    }
+
+    /**
+     * Block logins and API calls for an app until it is restored. Its
+     * users' sessions are revoked, so they log in again after a restore.
+     */
+    public async suspendApp(
+        appId: string,
+        reason: string,
+        context: AuditContext,
+    ): Promise<IApp> {
+        if (!reason?.trim()) {
+            throw new AppError('reason is required', 'VALIDATION_ERROR');
+        }
+
+        const current = await this.findApp(appId);
+        const app = await this.changeStatus(
+            current,
+            ['sandbox', 'live'],
+            'suspended',
+            reason,
+            { suspendedFrom: current.status },
+        );
+
+        const sessions = await Session.updateMany(
+            { appId, revokedAt: { $exists: false } },
+            {
+                $set: {
+                    revokedAt: new Date(),
+                    revokedReason: 'app_suspended',
+                },
+            },
+        );
+
+        await auditLogService.record(
+            'app.status_changed',
+            { ...context, appId },
+            'success',
+            {
+                actor: 'admin',
+                from: current.status,
+                to: 'suspended',
+                reason,
+                sessionsRevoked: sessions.modifiedCount,
+            },
+        );
+        await this.notifyDeveloper(
+            app,
+            `${app.name} has been suspended`,
+            `Logins and API calls for your app ${app.name} are blocked until it is restored.\n\nReason: ${reason}`,
+            context,
+        );
+        return app;
+    }
+
+    /**
+     * Return a suspended app to the status it was suspended from
+     */
+    public async restoreApp(
+        appId: string,
+        reason: string | undefined,
+        context: AuditContext,
+    ): Promise<IApp> {
+        const current = await this.findApp(appId);
+        const status = current.suspendedFrom ?? 'sandbox';
+        const app = await this.changeStatus(
+            current,
+            ['suspended'],
+            status,
+            reason,
+        );
+
+        await auditLogService.record(
+            'app.status_changed',
+            { ...context, appId },
+            'success',
+            { actor: 'admin', from: 'suspended', to: status, reason },
+        );
+        await this.notifyDeveloper(
+            app,
+            `${app.name} has been restored`,
+            `Your app ${app.name} is ${status} again and can be used as before.${
+                reason ? `\n\n${reason}` : ''
+            }`,
+            context,
+        );
+        return app;
+    }
+
+    private ownedFilter(developerId: string) {
+        if (!Types.ObjectId.isValid(developerId)) {
+            throw new AppError('App not found', 'APP_NOT_FOUND');
+        }
+        return {
+            developerId: new Types.ObjectId(developerId),
+            status: { $ne: 'deleted' },
+        };
+    }
+
+    /**
+     * Apply a lifecycle transition, failing if the app has moved on since
+     * it was read
+     */
+    private async changeStatus(
+        app: IApp,
+        allowedFrom: AppStatus[],
+        status: AppStatus,
+        reason?: string | undefined,
+        fields: Partial<Pick<IApp, 'suspendedFrom'>> = {},
+    ): Promise<IApp> {
+        if (!allowedFrom.includes(app.status)) {
+            throw new AppError(
+                `A ${app.status} app can't become ${status}`,
+                'INVALID_STATUS_TRANSITION',
+            );
+        }
+
+        const updated = await App.findOneAndUpdate(
+            {
+                _id: app._id,
+                // Apps from before the lifecycle have no stored status
+                status:
+                    app.status === 'sandbox'
+                        ? { $in: ['sandbox', null] }
+                        : app.status,
+            },
+            {
+                $set: {
+                    status,
+                    statusChangedAt: new Date(),
+                    ...(reason && { statusReason: reason }),
+                    ...fields,
+                },
+                $unset: {
+                    ...(!reason && { statusReason: 1 }),
+                    ...(!fields.suspendedFrom && { suspendedFrom: 1 }),
+                },
+            },
+            { new: true },
+        );
+        if (!updated) {
+            throw new AppError(
+                'App status changed meanwhile; try again',
+                'INVALID_STATUS_TRANSITION',
+            );
+        }
+        return updated;
+    }
+
+    /**
+     * Email the owner about a status change. A failed send is audited and
+     * doesn't fail the change.
+     */
+    private async notifyDeveloper(
+        app: IApp,
+        title: string,
+        message: string,
+        context: AuditContext,
+    ): Promise<void> {
+        const developer = await Developer.findById(app.developerId);
+        if (!developer) {
+            return;
+        }
+
+        const sent = await emailService.sendNotification(
+            developer.email,
+            title,
+            message,
+        );
+        if (!sent) {
+            await auditLogService.record(
+                'app.notification',
+                { ...context, appId: app.appId },
+                'failure',
+                { developerId: String(developer._id), title },
+            );
+        }
+    }
+
+    private validateRedirectUrls(redirectUrls: string[]): void {
+        if (!Array.isArray(redirectUrls) || redirectUrls.length === 0) {
+            throw new AppError(
+                'At least one redirect URL is required',
+                'VALIDATION_ERROR',
+            );
+        }
+    }
+
+    /**
+     * Drop undefined fields and duplicate redirect URLs
+     */
+    private definedFields(input: AppUpdate): AppUpdate {
+        const fields = Object.fromEntries(
+            Object.entries(input).filter(([, value]) => value !== undefined),
+        ) as AppUpdate;
+        if (fields.redirectUrls) {
+            fields.redirectUrls = [...new Set(fields.redirectUrls)];
+        }
+        return fields;
+    }
+
+    private async withValidation<T>(operation: () => Promise<T>): Promise<T> {
+        try {
+            return await operation();
+        } catch (error) {
+            if (error instanceof MongooseError.ValidationError) {
+                throw new AppError(
+                    Object.values(error.errors)
+                        .map((detail) => detail.message)
+                        .join('; '),
+                    'VALIDATION_ERROR',
+                );
+            }
+            throw error;
+        }
+    }
+
+    private hashSecret(secret: string): string {
+        return crypto.createHash('sha256').update(secret).digest('hex');
+    }
+}
+
+// Export singleton instance
+export const appService = new AppService();
+export default appService;
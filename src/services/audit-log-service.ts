@@ -0,0 +1,81 @@
+// src/services/audit-log-service.ts
+import { Request } from 'express';
+import { Types } from 'mongoose';
+import { AuditLog } from '../models/audit-log-models';
+
+/**
+ * Who performed an audited action and from where
+ */
+export interface AuditContext {
+    walletId?: string | undefined;
+    appId?: string | undefined;
+    ipAddress?: string | undefined;
+    userAgent?: string | undefined;
+}
+
+/**
+ * Append-only record of security-sensitive actions
+ */
+export class AuditLogService {
+    /**
+     * Build an audit context from an incoming request
+     */
+    public contextFromRequest(
+        request: Request,
+        context: { walletId?: string; appId?: string } = {},
+    ): AuditContext {
+        return {
+            ...context,
+            ipAddress: request.ip,
+            userAgent: request.header('user-agent'),
+        };
+    }
+
+    /**
+     * Record an action. Failures to write are logged, never thrown,
+     * so auditing cannot break the audited flow.
+     */
+    public async record(
+        action: string,
+        context: AuditContext,
+        outcome: 'success' | 'failure' = 'success',
+        metadata?: Record<string, unknown>,
+    ): Promise<void> {
+        try {
+            await AuditLog.create({
+                walletId: context.walletId
+                    ? new Types.ObjectId(context.walletId)
+                    : undefined,
+                appId: context.appId,
+                action,
+                outcome,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+                metadata,
+            });
+        } catch (error) {
+            console.error(`Failed to write audit log for ${action}:`, error);
+        }
+    }
+
+    /**
+     * Count a wallet's recent entries for an action (used for rate limits)
+     */
+    public async countRecent(
+        walletId: string,
+        action: string,
+        windowMs: number,
+        outcome?: 'success' | 'failure',
+    ): Promise<number> {
+        return AuditLog.countDocuments({
+            walletId: new Types.ObjectId(walletId),
+            action,
+            createdAt: { $gte: new Date(Date.now() - windowMs) },
+            ...(outcome && { outcome }),
+        });
+    }
+}
+
+// Export singleton instance
+export const auditLogService = new AuditLogService();
+export default auditLogService;
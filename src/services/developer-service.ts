@@ -0,0 +1,544 @@
+// src/services/developer-service.ts
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { Developer, IDeveloper } from '../models/developer.models';
+import { developer_config } from '../config';
+import { DeveloperConfig } from '../config/types';
+import emailService from '../config/email-config';
+import { hashPassword, verifyPassword, validateEmail } from '../utils/auth';
+import { parseDuration } from '../utils/duration';
+import jwtSigningService, { JwtSigningError } from './jwt-signing-service';
+import otpService, { OtpError, OtpTarget } from './otp-service';
+import auditLogService, { AuditContext } from './audit-log-service';
+import passwordPolicyService, {
+    PasswordPolicyError,
+} from './password-policy-service';
+
+/**
+ * Custom error class for developer account failures
+ */
+export class DeveloperError extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'DEVELOPER_ERROR') {
+        super(message);
+        this.name = 'DeveloperError';
+        this.code = code;
+    }
+}
+
+export interface DeveloperRegistration {
+    name: string;
+    email: string;
+    password: string;
+    companyName?: string | undefined;
+    website?: string | undefined;
+}
+
+export interface DeveloperProfileUpdate {
+    name?: string | undefined;
+    companyName?: string | undefined;
+    website?: string | undefined;
+}
+
+export interface DeveloperSession {
+    developer: IDeveloper;
+    token: string;
+    expiresAt: Date;
+}
+
+// Developer codes and sends are kept apart from every app's users
+const OTP_SCOPE = 'developer-platform';
+
+/**
+ * Accounts for developers building on Crefy Connect.
+ *
+ * Signup is confirmed with an emailed code before the account can log
+ * in. Logins return a dashboard token with its own `typ` and audience,
+ * which wallet routes never accept. Repeated wrong passwords lock the
+ * account for a while, and changing the password invalidates every
+ * token issued before.
+ */
+export class DeveloperService {
+    private dummyPasswordHash?: Promise<string>;
+
+    constructor(private readonly config: DeveloperConfig = developer_config) {}
+
+    /**
+     * Create an account and email a verification code. Signing up again
+     * before verifying only sends a new code: the pending account keeps
+     * its first details, so an unauthenticated request can't replace the
+     * password. Nothing is stored when the code can't be sent.
+     */
+    public async register(
+        input: DeveloperRegistration,
+        context: AuditContext,
+    ): Promise<IDeveloper> {
+        const email = this.normalizeEmail(input.email);
+        await this.checkPassword(input.password);
+        if (!input.name?.trim()) {
+            throw new DeveloperError('name is required', 'VALIDATION_ERROR');
+        }
+
+        const existing = await Developer.findOne({ email });
+        if (existing?.isActive) {
+            throw new DeveloperError(
+                'An account with this email already exists',
+                'EMAIL_TAKEN',
+            );
+        }
+
+        try {
+            await otpService.send(
+                this.otpTarget(email),
+                'email',
+                context.ipAddress,
+            );
+        } catch (error) {
+            throw this.fromOtpError(error);
+        }
+        if (existing) {
+            return existing;
+        }
+
+        let developer: IDeveloper;
+        try {
+            developer = await Developer.create({
+                name: input.name,
+                email,
+                password: await hashPassword(input.password),
+                companyName: input.companyName,
+                website: input.website,
+            });
+        } catch (error) {
+            if ((error as { code?: number })?.code === 11000) {
+                throw new DeveloperError(
+                    'An account with this email already exists',
+                    'EMAIL_TAKEN',
+                );
+            }
+            throw error;
+        }
+
+        await auditLogService.record(
+            'developer.registered',
+            context,
+            'success',
+            {
+                developerId: String(developer._id),
+            },
+        );
+
+        return developer;
+    }
+
+    /**
+     * Send a new verification code. Unknown and verified emails are
+     * ignored without saying so.
+     */
+    public async resendVerification(
+        email: string,
+        context: AuditContext,
+    ): Promise<void> {
+        const normalized = this.normalizeEmail(email);
+        const developer = await Developer.findOne({ email: normalized });
+        if (!developer || developer.isActive) {
+            return;
+        }
+
+        try {
+            await otpService.send(
+                this.otpTarget(normalized),
+                'email',
+                context.ipAddress,
+            );
+        } catch (error) {
+            throw this.fromOtpError(error);
+        }
+    }
+
+    /**
+     * Confirm the email with the code, activating the account and
+     * logging the developer in
+     */
+    public async verifyEmail(
+        email: string,
+        code: string,
+        context: AuditContext,
+    ): Promise<DeveloperSession> {
+        const normalized = this.normalizeEmail(email);
+        const developer = await Developer.findOne({ email: normalized });
+        if (!developer) {
+            throw new DeveloperError('Request a code first', 'OTP_REQUIRED');
+        }
+
+        try {
+            await otpService.verify(this.otpTarget(normalized), code);
+        } catch (error) {
+            throw this.fromOtpError(error);
+        }
+
+        const firstVerification = !developer.isActive;
+        developer.isActive = true;
+        await developer.save();
+
+        // A failed welcome email is audited; it doesn't undo the verification
+        const details: Record<string, unknown> = {
+            developerId: String(developer._id),
+        };
+        if (firstVerification) {
+            details.welcomeEmailSent = await emailService.sendWelcome(
+                normalized,
+                {
+                    name: developer.name,
+                    loginLink: this.config.dashboardUrl,
+                },
+            );
+        }
+
+        await auditLogService.record(
+            'developer.verified',
+            context,
+            'success',
+            details,
+        );
+
+        return this.issueToken(developer);
+    }
+
+    public async login(
+        email: string,
+        password: string,
+        context: AuditContext,
+    ): Promise<DeveloperSession> {
+        const normalized = this.normalizeEmail(email);
+        const developer = await Developer.findOne({
+            email: normalized,
+        }).select('+password');
+
+        if (developer?.lockedUntil && developer.lockedUntil > new Date()) {
+            throw new DeveloperError(
+                'Too many failed logins. Try again later.',
+                'ACCOUNT_LOCKED',
+            );
+        }
+
+        // Unknown emails are checked against a dummy hash so the response
+        // time doesn't reveal which accounts exist
+        const { valid, needsRehash } = await verifyPassword(
+            password,
+            developer?.password ?? (await this.dummyHash()),
+        );
+        if (!developer || !valid) {
+            if (developer) {
+                await this.recordFailedLogin(developer);
+            }
+            await auditLogService.record(
+                'developer.login',
+                context,
+                'failure',
+                {
+                    email: normalized,
+                },
+            );
+            throw new DeveloperError(
+                'Invalid email or password',
+                'INVALID_CREDENTIALS',
+            );
+        }
+
+        // Checked after the password, so it says nothing to a guesser
+        if (!developer.isActive) {
+            throw new DeveloperError(
+                'Verify your email before logging in',
+                'EMAIL_NOT_VERIFIED',
+            );
+        }
+
+        // Legacy SHA-256 and outdated scrypt hashes are upgraded in place
+        if (needsRehash) {
+            await Developer.updateOne(
+                { _id: developer._id, password: developer.password },
+                { $set: { password: await hashPassword(password) } },
+            );
+        }
+
+        if (developer.failedLoginAttempts > 0 || developer.lockedUntil) {
+            await Developer.updateOne(
+                { _id: developer._id },
+                {
+                    $set: { failedLoginAttempts: 0 },
+                    $unset: { lockedUntil: 1 },
+                },
+            );
+        }
+
+        await auditLogService.record('developer.login', context, 'success', {
+            developerId: String(developer._id),
+        });
+
+        return this.issueToken(developer);
+    }
+
+    /**
+     * Resolve a dashboard token to its developer
+     */
+    public async authenticate(token: string): Promise<IDeveloper> {
+        let subject: string | undefined;
+        let issuedAt: number | undefined;
+        try {
+            const payload = await jwtSigningService.verifyDeveloperToken(
+                token,
+                this.config.tokenAudience,
+            );
+            subject = payload.sub;
+            issuedAt = payload.iat;
+        } catch (error) {
+            if (
+                error instanceof JwtSigningError &&
+                error.code === 'TOKEN_EXPIRED'
+            ) {
+                throw new DeveloperError('Token has expired', 'TOKEN_EXPIRED');
+            }
+            throw new DeveloperError('Invalid token', 'INVALID_TOKEN');
+        }
+
+        const developer =
+            subject && Types.ObjectId.isValid(subject)
+                ? await Developer.findById(subject)
+                : null;
+        if (!developer?.isActive) {
+            throw new DeveloperError('Invalid token', 'INVALID_TOKEN');
+        }
+
+        const changedAt = developer.passwordChangedAt
+            ? Math.floor(developer.passwordChangedAt.getTime() / 1000)
+            : 0;
+        if (!issuedAt || issuedAt < changedAt) {
+            throw new DeveloperError(
+                'Password was changed; log in again',
+                'TOKEN_REVOKED',
+            );
+        }
+
+        return developer;
+    }
+
+    public async updateProfile(
+        developerId: string,
+        update: DeveloperProfileUpdate,
+    ): Promise<IDeveloper> {
+        if (update.name !== undefined && !update.name.trim()) {
+            throw new DeveloperError(
+                'name cannot be empty',
+                'VALIDATION_ERROR',
+            );
+        }
+
+        const developer = await Developer.findByIdAndUpdate(
+            developerId,
+            {
+                $set: Object.fromEntries(
+                    Object.entries(update).filter(
+                        ([, value]) => value !== undefined,
+                    ),
+                ),
+            },
+            { new: true, runValidators: true },
+        );
+        if (!developer) {
+            throw new DeveloperError(
+                'Developer not found',
+                'DEVELOPER_NOT_FOUND',
+            );
+        }
+        return developer;
+    }
+
+    /**
+     * Email a password reset link. The outcome is not revealed, so the
+     * endpoint cannot be used to find accounts.
+     */
+    public async requestPasswordReset(
+        email: string,
+        context: AuditContext,
+    ): Promise<void> {
+        const normalized = this.normalizeEmail(email);
+
+        // Throttled whether or not the account exists
+        try {
+            await otpService.recordSend(
+                OTP_SCOPE,
+                normalized,
+                context.ipAddress,
+            );
+        } catch (error) {
+            throw this.fromOtpError(error);
+        }
+
+        const token = crypto.randomBytes(32).toString('base64url');
+        const developer = await Developer.findOneAndUpdate(
+            { email: normalized, isActive: true },
+            {
+                $set: {
+                    passwordResetToken: this.hashToken(token),
+                    passwordResetExpires: new Date(
+                        Date.now() +
+                            this.config.passwordResetTtlMinutes * 60 * 1000,
+                    ),
+                },
+            },
+        );
+        if (!developer) {
+            return;
+        }
+
+        const resetLink = new URL(this.config.passwordResetUrl);
+        resetLink.searchParams.set('token', token);
+        const sent = await emailService.sendPasswordReset(normalized, {
+            name: developer.name,
+            resetLink: resetLink.toString(),
+            expiryMinutes: this.config.passwordResetTtlMinutes,
+        });
+
+        await auditLogService.record(
+            'developer.password_reset_requested',
+            context,
+            'success',
+            { developerId: String(developer._id), emailSent: sent },
+        );
+    }
+
+    /**
+     * Set a new password with an emailed reset token. The token works
+     * once, and tokens issued before stop working.
+     */
+    public async resetPassword(
+        token: string,
+        password: string,
+        context: AuditContext,
+    ): Promise<void> {
+        await this.checkPassword(password);
+
+        const developer = await Developer.findOneAndUpdate(
+            {
+                passwordResetToken: this.hashToken(token),
+                passwordResetExpires: { $gt: new Date() },
+            },
+            {
+                $set: {
+                    password: await hashPassword(password),
+                    passwordChangedAt: new Date(),
+                    failedLoginAttempts: 0,
+                },
+                $unset: {
+                    passwordResetToken: 1,
+                    passwordResetExpires: 1,
+                    lockedUntil: 1,
+                },
+            },
+        );
+        if (!developer) {
+            throw new DeveloperError(
+                'Reset link is invalid or has expired',
+                'INVALID_RESET_TOKEN',
+            );
+        }
+
+        await auditLogService.record(
+            'developer.password_reset',
+            context,
+            'success',
+            { developerId: String(developer._id) },
+        );
+    }
+
+    private async issueToken(developer: IDeveloper): Promise<DeveloperSession> {
+        const token = await jwtSigningService.signDeveloperToken(
+            { email: developer.email },
+            {
+                subject: String(developer._id),
+                audience: this.config.tokenAudience,
+                expiresIn: this.config.tokenExpiresIn,
+            },
+        );
+
+        return {
+            developer,
+            token,
+            expiresAt: new Date(
+                Date.now() + parseDuration(this.config.tokenExpiresIn),
+            ),
+        };
+    }
+
+    private async recordFailedLogin(developer: IDeveloper): Promise<void> {
+        const attempts = developer.failedLoginAttempts + 1;
+        const locked = attempts >= this.config.maxFailedLogins;
+
+        await Developer.updateOne(
+            { _id: developer._id },
+            locked
+                ? {
+                      $set: {
+                          failedLoginAttempts: 0,
+                          lockedUntil: new Date(
+                              Date.now() +
+                                  this.config.lockoutMinutes * 60 * 1000,
+                          ),
+                      },
+                  }
+                : { $inc: { failedLoginAttempts: 1 } },
+        );
+    }
+
+    private otpTarget(email: string): OtpTarget {
+        return {
+            purpose: 'developer_verify',
+            appId: OTP_SCOPE,
+            identifier: email,
+        };
+    }
+
+    private fromOtpError(error: unknown): unknown {
+        return error instanceof OtpError
+            ? new DeveloperError(error.message, error.code)
+            : error;
+    }
+
+    private normalizeEmail(email: string): string {
+        if (typeof email !== 'string' || !validateEmail(email.trim())) {
+            throw new DeveloperError(
+                'Valid email is required',
+                'VALIDATION_ERROR',
+            );
+        }
+        return email.trim().toLowerCase();
+    }
+
+    private async checkPassword(password: string): Promise<void> {
+        try {
+            await passwordPolicyService.check(password);
+        } catch (error) {
+            if (error instanceof PasswordPolicyError) {
+                throw new DeveloperError(error.message, error.code);
+            }
+            throw error;
+        }
+    }
+
+    private dummyHash(): Promise<string> {
+        this.dummyPasswordHash ??= hashPassword(
+            crypto.randomBytes(16).toString('hex'),
+        );
+        return this.dummyPasswordHash;
+    }
+
+    private hashToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+}
+
+// Export singleton instance
+export const developerService = new DeveloperService();
+export default developerService;
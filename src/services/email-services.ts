@@ -46,6 +46,12 @@ interface PasswordResetTemplateData {
     expiryMinutes?: number;
 }
 
+interface MagicLinkTemplateData {
+    name: string;
+    loginLink: string;
+    expiryMinutes?: number;
+}
+
 interface AccountActionTemplateData {
     name: string;
     action: string;
@@ -119,6 +125,26 @@ class EmailService {
         });
     }
 
+    /**
+     * Send a one-click login link
+     */
+    public async sendMagicLink(
+        email: string,
+        data: MagicLinkTemplateData,
+        appName: string = 'Crefy Connect',
+    ): Promise<boolean> {
+        const expiryText = data.expiryMinutes
+            ? `This link will expire in ${data.expiryMinutes} minutes and can be used once.`
+            : 'This link will expire shortly and can be used once.';
+
+        return this.sendEmail({
+            to: email,
+            subject: `Your ${appName} Login Link`,
+            text: `Hello ${data.name},\n\nClick the following link to log in to ${appName}:\n\n${data.loginLink}\n\n${expiryText}\n\nIf you didn't request this link, please ignore this email.`,
+            html: this.generateMagicLinkHTML(data, appName),
+        });
+    }
+
     /**
      * Send password reset email
      */
@@ -231,6 +257,30 @@ class EmailService {
         `;
     }
 
+    private generateMagicLinkHTML(
+        data: MagicLinkTemplateData,
+        appName: string,
+    ): string {
+        const expiryText = data.expiryMinutes
+            ? `<p>This link will expire in ${data.expiryMinutes} minutes and can be used once.</p>`
+            : '<p>This link will expire shortly and can be used once.</p>';
+
+        return `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #e0e0e0; border-radius: 8px;">
+                <h2 style="color: #333; text-align: center;">Log in to ${appName}</h2>
+                <p>Hello ${data.name},</p>
+                <p>Click the button below to log in:</p>
+                <div style="text-align: center; margin: 30px 0;">
+                    <a href="${data.loginLink}" style="background-color: #4CAF50; color: white; padding: 15px 32px; text-decoration: none; border-radius: 4px; font-size: 16px; display: inline-block;">Log In</a>
+                </div>
+                <p>Or copy and paste this link into your browser:<br>
+                <code style="background: #f5f5f5; padding: 10px; border-radius: 4px; word-break: break-all;">${data.loginLink}</code></p>
+                ${expiryText}
+                <p style="color: #666; font-size: 14px;">If you didn't request this link, please ignore this email.</p>
+            </div>
+        `;
+    }
+
     private generatePasswordResetHTML(
         data: PasswordResetTemplateData,
         appName: string,
@@ -0,0 +1,444 @@
+// src/services/identity-service.ts
+import { FilterQuery } from 'mongoose';
+import {
+    Wallet,
+    IWallet,
+    IWalletIdentity,
+    creationIdentity,
+    identityFilter,
+} from '../models/wallet-models';
+import {
+    validateEmail,
+    validatePhoneNumber,
+    normalizePhoneNumber,
+} from '../utils/auth';
+import socialLoginService, { SocialCredential } from './social-login-service';
+import siweService from './siwe-service';
+import auditLogService, { AuditContext } from './audit-log-service';
+import otpService, { OtpError, OtpTarget } from './otp-service';
+import { BlockchainNetwork } from './wallet-service';
+
+const LINK_OTP_PURPOSE = 'identity_link';
+
+/**
+ * Custom error class for identity linking failures
+ */
+export class IdentityError extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'IDENTITY_ERROR') {
+        super(message);
+        this.name = 'IdentityError';
+        this.code = code;
+    }
+}
+
+export type OtpIdentityType = 'email' | 'sms';
+
+/**
+ * Login identifiers owned by a wallet.
+ *
+ * A wallet can link further emails, phone numbers, social logins and SIWE
+ * addresses, each proven the way its login proves it: an OTP, a provider
+ * credential or a signed message. Every linked identifier logs into the
+ * same wallet. Until its first link a wallet has no stored identities and
+ * logs in with the identifier it was created with, which is stored along
+ * with the first link (like account 0 for HD accounts).
+ */
+export class IdentityService {
+    /**
+     * A wallet's identities, primary first
+     */
+    public async listIdentities(walletId: string): Promise<IWalletIdentity[]> {
+        const wallet = await this.loadWallet(walletId);
+        return this.withCreationIdentity(wallet).sort(
+            (a, b) => Number(b.primary) - Number(a.primary),
+        );
+    }
+
+    /**
+     * Send a code to an email or phone number to be linked
+     */
+    public async requestLinkOtp(
+        walletId: string,
+        type: OtpIdentityType,
+        value: string,
+        context: AuditContext,
+    ): Promise<{ expiresAt: Date }> {
+        const identifier = this.normalize(type, value);
+        const wallet = await this.loadWallet(walletId);
+        await this.assertLinkable(wallet, type, identifier);
+
+        let expiresAt: Date;
+        try {
+            ({ expiresAt } = await otpService.send(
+                this.otpTarget(wallet, identifier),
+                type,
+                context.ipAddress,
+            ));
+        } catch (error) {
+            throw this.fromOtpError(error);
+        }
+
+        await auditLogService.record(
+            'identity.link.otp_requested',
+            context,
+            'success',
+            { type },
+        );
+
+        return { expiresAt };
+    }
+
+    /**
+     * Link an email or phone number with the code sent to it
+     */
+    public async linkWithOtp(
+        walletId: string,
+        type: OtpIdentityType,
+        value: string,
+        otp: string,
+        context: AuditContext,
+    ): Promise<IWalletIdentity[]> {
+        const identifier = this.normalize(type, value);
+        const wallet = await this.loadWallet(walletId);
+        try {
+            await otpService.verify(this.otpTarget(wallet, identifier), otp);
+        } catch (error) {
+            await auditLogService.record('identity.link', context, 'failure', {
+                type,
+                reason: error instanceof Error ? error.message : 'Unknown',
+            });
+            throw this.fromOtpError(error);
+        }
+
+        return this.link(walletId, type, identifier, context);
+    }
+
+    /**
+     * Link a social login with a credential from the provider
+     */
+    public async linkSocial(
+        walletId: string,
+        provider: string,
+        credential: SocialCredential,
+        context: AuditContext,
+    ): Promise<IWalletIdentity[]> {
+        const { identity } = await socialLoginService.authenticate(
+            provider,
+            credential,
+        );
+        return this.link(walletId, provider, identity.subject, context);
+    }
+
+    /**
+     * Link an Ethereum address with a signed EIP-4361 message, using a
+     * nonce from the SIWE nonce endpoint
+     */
+    public async linkSiwe(
+        walletId: string,
+        message: string,
+        signature: string,
+        context: AuditContext,
+    ): Promise<IWalletIdentity[]> {
+        const wallet = await this.loadWallet(walletId);
+        if (wallet.network !== BlockchainNetwork.EVM) {
+            throw new IdentityError(
+                'Ethereum addresses can only be linked to EVM wallets',
+                'VALIDATION_ERROR',
+            );
+        }
+
+        const address = await siweService.verifySignedMessage(
+            wallet.appId,
+            message,
+            signature,
+        );
+        return this.link(walletId, 'siwe', address, context);
+    }
+
+    /**
+     * Remove an identity. The last one and the wallet's own address stay.
+     */
+    public async unlink(
+        walletId: string,
+        type: string,
+        value: string,
+        context: AuditContext,
+    ): Promise<IWalletIdentity[]> {
+        const wallet = await this.loadWallet(walletId);
+        const identities = this.withCreationIdentity(wallet);
+        const target = this.findIdentity(identities, type, value);
+
+        if (identities.length === 1) {
+            throw new IdentityError(
+                'A wallet must keep at least one identity to log in with',
+                'LAST_IDENTITY',
+            );
+        }
+        if (target.value === wallet.address) {
+            throw new IdentityError(
+                "The wallet's own address cannot be unlinked",
+                'VALIDATION_ERROR',
+            );
+        }
+
+        const remaining = identities.filter((identity) => identity !== target);
+        if (target.primary) {
+            remaining[0]!.primary = true;
+        }
+
+        // Release the creation identifier so another wallet can use it
+        const unset: Record<string, 1> = {};
+        if (target.type === 'email' && wallet.email === target.value) {
+            unset.email = 1;
+        } else if (
+            target.type === 'sms' &&
+            wallet.phoneNumber === target.value
+        ) {
+            unset.phoneNumber = 1;
+        } else if (
+            target.type === wallet.socialType &&
+            wallet.socialSubject === target.value
+        ) {
+            unset.socialSubject = 1;
+        }
+
+        await this.saveIdentities(wallet, remaining, unset);
+        await auditLogService.record('identity.unlink', context, 'success', {
+            type: target.type,
+        });
+
+        return remaining;
+    }
+
+    /**
+     * Make an identity the wallet's primary one, used for its profile claims
+     */
+    public async setPrimary(
+        walletId: string,
+        type: string,
+        value: string,
+        context: AuditContext,
+    ): Promise<IWalletIdentity[]> {
+        const wallet = await this.loadWallet(walletId);
+        const identities = this.withCreationIdentity(wallet);
+        const target = this.findIdentity(identities, type, value);
+
+        for (const identity of identities) {
+            identity.primary = identity === target;
+        }
+
+        await this.saveIdentities(wallet, identities);
+        await auditLogService.record('identity.primary', context, 'success', {
+            type: target.type,
+        });
+
+        return identities;
+    }
+
+    /**
+     * The wallet's identities, with the creation identifier when none are
+     * stored yet
+     */
+    public withCreationIdentity(
+        wallet: Pick<
+            IWallet,
+            | 'identities'
+            | 'socialType'
+            | 'email'
+            | 'phoneNumber'
+            | 'socialSubject'
+            | 'address'
+            | 'createdAt'
+        >,
+    ): IWalletIdentity[] {
+        if (wallet.identities?.length) {
+            return wallet.identities.map((identity) => ({
+                type: identity.type,
+                value: identity.value,
+                primary: identity.primary,
+                linkedAt: identity.linkedAt,
+            }));
+        }
+
+        const created = creationIdentity(wallet);
+        return created
+            ? [{ ...created, primary: true, linkedAt: wallet.createdAt }]
+            : [];
+    }
+
+    private async link(
+        walletId: string,
+        type: string,
+        value: string,
+        context: AuditContext,
+    ): Promise<IWalletIdentity[]> {
+        try {
+            const wallet = await this.loadWallet(walletId);
+            await this.assertLinkable(wallet, type, value);
+
+            const identities = this.withCreationIdentity(wallet);
+            identities.push({
+                type,
+                value,
+                primary: identities.length === 0,
+                linkedAt: new Date(),
+            });
+
+            await this.saveIdentities(wallet, identities);
+            await auditLogService.record('identity.link', context, 'success', {
+                type,
+            });
+
+            return identities;
+        } catch (error) {
+            await auditLogService.record('identity.link', context, 'failure', {
+                type,
+                reason: error instanceof Error ? error.message : 'Unknown',
+            });
+            throw error;
+        }
+    }
+
+    private async assertLinkable(
+        wallet: IWallet,
+        type: string,
+        value: string,
+    ): Promise<void> {
+        const linked = this.withCreationIdentity(wallet).some(
+            (identity) => identity.type === type && identity.value === value,
+        );
+        if (linked) {
+            throw new IdentityError(
+                'This identity is already linked to the wallet',
+                'IDENTITY_ALREADY_LINKED',
+            );
+        }
+
+        const owner = await Wallet.exists({
+            _id: { $ne: wallet._id },
+            appId: wallet.appId,
+            network: wallet.network,
+            ...identityFilter(type, value),
+        });
+        if (owner) {
+            throw new IdentityError(
+                'This identity belongs to another wallet',
+                'IDENTITY_IN_USE',
+            );
+        }
+    }
+
+    /**
+     * Replace the stored identities, provided no other request changed
+     * them since the wallet was loaded
+     */
+    private async saveIdentities(
+        wallet: IWallet,
+        identities: IWalletIdentity[],
+        unset: Record<string, 1> = {},
+    ): Promise<void> {
+        const stored = wallet.identities?.length ?? 0;
+        const unchanged: FilterQuery<IWallet> =
+            stored === 0
+                ? { 'identities.0': { $exists: false } }
+                : { identities: { $size: stored } };
+
+        try {
+            const result = await Wallet.updateOne(
+                { _id: wallet._id, ...unchanged },
+                {
+                    $set: { identities },
+                    ...(Object.keys(unset).length && { $unset: unset }),
+                },
+            );
+            if (result.matchedCount === 0) {
+                throw new IdentityError(
+                    'Identities were changed by another request, try again',
+                    'CONFLICT',
+                );
+            }
+        } catch (error) {
+            if ((error as { code?: number })?.code === 11000) {
+                throw new IdentityError(
+                    'This identity belongs to another wallet',
+                    'IDENTITY_IN_USE',
+                );
+            }
+            throw error;
+        }
+    }
+
+    private findIdentity(
+        identities: IWalletIdentity[],
+        type: string,
+        value: string,
+    ): IWalletIdentity {
+        const normalized =
+            type === 'email' || type === 'sms'
+                ? this.normalize(type, value)
+                : value;
+        const identity = identities.find(
+            (candidate) =>
+                candidate.type === type && candidate.value === normalized,
+        );
+        if (!identity) {
+            throw new IdentityError(
+                'Identity is not linked to this wallet',
+                'IDENTITY_NOT_FOUND',
+            );
+        }
+        return identity;
+    }
+
+    private normalize(type: OtpIdentityType, value: string): string {
+        if (type === 'email') {
+            if (!validateEmail(value)) {
+                throw new IdentityError(
+                    'Valid email is required',
+                    'VALIDATION_ERROR',
+                );
+            }
+            return value.toLowerCase();
+        }
+
+        if (!validatePhoneNumber(value)) {
+            throw new IdentityError(
+                'Valid phone number in international format is required (e.g., +1234567890)',
+                'VALIDATION_ERROR',
+            );
+        }
+        return normalizePhoneNumber(value);
+    }
+
+    /**
+     * Link codes are bound to the wallet as well as the identifier
+     */
+    private otpTarget(wallet: IWallet, identifier: string): OtpTarget {
+        return {
+            purpose: LINK_OTP_PURPOSE,
+            appId: wallet.appId,
+            identifier,
+            walletId: String(wallet._id),
+        };
+    }
+
+    private fromOtpError(error: unknown): unknown {
+        return error instanceof OtpError
+            ? new IdentityError(error.message, error.code)
+            : error;
+    }
+
+    private async loadWallet(walletId: string): Promise<IWallet> {
+        const wallet = await Wallet.findById(walletId);
+        if (!wallet) {
+            throw new IdentityError('Wallet not found', 'WALLET_NOT_FOUND');
+        }
+        return wallet;
+    }
+}
+
+// Export singleton instance
+export const identityService = new IdentityService();
+export default identityService;
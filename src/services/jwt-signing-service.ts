@@ -0,0 +1,494 @@
+// src/services/jwt-signing-service.ts
+import crypto from 'crypto';
+import {
+    SignJWT,
+    jwtVerify,
+    calculateJwkThumbprint,
+    errors as joseErrors,
+    JWK,
+    JWTPayload,
+    JWTHeaderParameters,
+} from 'jose';
+import {
+    JwtSigningKey,
+    JwtSigningAlgorithm,
+    IJwtSigningKey,
+} from '../models/jwt-signing-key-models';
+import { jwt_config, oidc_config } from '../config';
+import { parseDuration } from '../utils/duration';
+import keyCustodyService from './key-custody-service';
+
+const SUPPORTED_ALGORITHMS: JwtSigningAlgorithm[] = ['RS256', 'EdDSA'];
+const ACCESS_TOKEN_TYPE = 'at+jwt'; // RFC 9068
+const MAGIC_LINK_TOKEN_TYPE = 'magic-link+jwt';
+const DEVELOPER_TOKEN_TYPE = 'developer+jwt';
+
+/**
+ * Custom error class for token signing and verification failures
+ */
+export class JwtSigningError extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'INVALID_TOKEN') {
+        super(message);
+        this.name = 'JwtSigningError';
+        this.code = code;
+    }
+}
+
+/**
+ * A published verification key, in JWKS form
+ */
+export interface PublishedJwk extends crypto.JsonWebKey {
+    kid: string;
+    alg: JwtSigningAlgorithm;
+    use: 'sig';
+}
+
+interface CachedKey {
+    kid: string;
+    algorithm: JwtSigningAlgorithm;
+    publicKey: crypto.KeyObject;
+    jwk: PublishedJwk;
+}
+
+interface ActiveKey extends CachedKey {
+    privateKey: crypto.KeyObject;
+    keyVersion: string;
+}
+
+/**
+ * Asymmetric JWT signing (RS256 or EdDSA) with key rotation.
+ *
+ * Signing keys live in the database with their private half sealed
+ * through key custody. Exactly one key is active and signs new tokens;
+ * after a rotation the previous key is "retiring" and stays published
+ * until every token it signed has expired. Tokens carry the key's `kid`
+ * and verify against any published key, so other services can verify
+ * them offline from the JWKS.
+ */
+export class JwtSigningService {
+    private readonly cacheTtlMs: number = 60 * 1000;
+    private activeKey?: ActiveKey | undefined;
+    private publishedKeys: Map<string, CachedKey> = new Map();
+    private loadedAt: number = 0;
+    private loading?: Promise<void> | undefined;
+
+    /**
+     * Load the keys and create the first signing key if there is none
+     */
+    public async initialize(): Promise<void> {
+        await this.loadKeys();
+        if (!this.activeKey) {
+            await this.createKey(jwt_config.algorithm);
+        }
+    }
+
+    /**
+     * Sign an access token with the active key. `expiresIn` shortens
+     * the lifetime of limited tokens.
+     */
+    public async sign(
+        payload: JWTPayload,
+        claims: { subject: string; audience: string; expiresIn?: string },
+    ): Promise<string> {
+        return this.signToken(payload, {
+            ...claims,
+            issuer: jwt_config.issuer,
+            type: ACCESS_TOKEN_TYPE,
+        });
+    }
+
+    /**
+     * Sign an OpenID Connect ID token. ID tokens carry a different `typ`
+     * so they are never accepted as access tokens.
+     */
+    public async signIdToken(
+        payload: JWTPayload,
+        claims: { subject: string; audience: string },
+    ): Promise<string> {
+        return this.signToken(payload, {
+            ...claims,
+            issuer: oidc_config.issuer,
+            type: 'JWT',
+        });
+    }
+
+    /**
+     * Sign the token carried by an email login link. Its own `typ` keeps
+     * it from being accepted as an access token, and the reverse.
+     */
+    public async signMagicLink(
+        payload: JWTPayload,
+        claims: {
+            subject: string;
+            audience: string;
+            jwtId: string;
+            expiresIn: string;
+        },
+    ): Promise<string> {
+        return this.signToken(payload, {
+            ...claims,
+            issuer: jwt_config.issuer,
+            type: MAGIC_LINK_TOKEN_TYPE,
+        });
+    }
+
+    /**
+     * Sign a developer dashboard token. Developers are not wallets, so
+     * their tokens have their own `typ` and audience.
+     */
+    public async signDeveloperToken(
+        payload: JWTPayload,
+        claims: { subject: string; audience: string; expiresIn: string },
+    ): Promise<string> {
+        return this.signToken(payload, {
+            ...claims,
+            issuer: jwt_config.issuer,
+            type: DEVELOPER_TOKEN_TYPE,
+        });
+    }
+
+    /**
+     * Verify an access token against the published keys
+     */
+    public async verify(
+        token: string,
+        options: { audience?: string | undefined } = {},
+    ): Promise<JWTPayload> {
+        return this.verifyToken(token, ACCESS_TOKEN_TYPE, options.audience);
+    }
+
+    /**
+     * Verify a magic link token issued for an app
+     */
+    public async verifyMagicLink(
+        token: string,
+        audience: string,
+    ): Promise<JWTPayload> {
+        return this.verifyToken(token, MAGIC_LINK_TOKEN_TYPE, audience);
+    }
+
+    /**
+     * Verify a developer dashboard token
+     */
+    public async verifyDeveloperToken(
+        token: string,
+        audience: string,
+    ): Promise<JWTPayload> {
+        return this.verifyToken(token, DEVELOPER_TOKEN_TYPE, audience);
+    }
+
+    /**
+     * Public keys for `/.well-known/jwks.json`
+     */
+    public async getJwks(): Promise<{ keys: PublishedJwk[] }> {
+        await this.ensureLoaded();
+        return {
+            keys: [...this.publishedKeys.values()].map((key) => key.jwk),
+        };
+    }
+
+    /**
+     * Start signing with a new key. The previous key keeps verifying
+     * until its tokens expire.
+     */
+    public async rotate(
+        algorithm: JwtSigningAlgorithm = jwt_config.algorithm,
+    ): Promise<string> {
+        await JwtSigningKey.updateMany(
+            { status: 'active' },
+            { $set: { status: 'retiring', retiringAt: new Date() } },
+        );
+        const kid = await this.createKey(algorithm);
+        return kid;
+    }
+
+    /**
+     * Unpublish a key immediately. Tokens it signed stop verifying.
+     */
+    public async retireKey(kid: string): Promise<void> {
+        const key = await JwtSigningKey.findOne({ kid });
+        if (!key) {
+            throw new JwtSigningError(
+                `Signing key ${kid} not found`,
+                'KEY_NOT_FOUND',
+            );
+        }
+        if (key.status === 'active') {
+            throw new JwtSigningError(
+                'Rotate to a new key before retiring the active one',
+                'KEY_ACTIVE',
+            );
+        }
+
+        key.status = 'retired';
+        key.retiredAt = new Date();
+        await key.save();
+        await this.loadKeys();
+    }
+
+    /**
+     * Signing keys by status, for operators
+     */
+    public async listKeys(): Promise<
+        Array<
+            Pick<
+                IJwtSigningKey,
+                | 'kid'
+                | 'algorithm'
+                | 'status'
+                | 'keyVersion'
+                | 'createdAt'
+                | 'retiringAt'
+                | 'retiredAt'
+            >
+        >
+    > {
+        return JwtSigningKey.find()
+            .select(
+                'kid algorithm status keyVersion createdAt retiringAt retiredAt',
+            )
+            .sort({ createdAt: -1 })
+            .lean();
+    }
+
+    /**
+     * Re-wrap sealed signing keys under the current master key version
+     */
+    public async rewrapKeys(): Promise<number> {
+        const currentVersion = keyCustodyService.getCurrentKeyVersion();
+        const keys = await JwtSigningKey.find({
+            status: { $ne: 'retired' },
+            keyVersion: { $ne: currentVersion },
+        }).select('+encryptedPrivateKey');
+
+        for (const key of keys) {
+            const { encryptedPrivateKey, keyVersion } =
+                await keyCustodyService.rewrapPrivateKey(
+                    key.encryptedPrivateKey,
+                );
+            key.encryptedPrivateKey = encryptedPrivateKey;
+            key.keyVersion = keyVersion;
+            await key.save();
+        }
+
+        return keys.length;
+    }
+
+    private async getActiveKey(): Promise<ActiveKey> {
+        await this.ensureLoaded();
+        if (!this.activeKey) {
+            await this.createKey(jwt_config.algorithm);
+        }
+        if (!this.activeKey) {
+            throw new JwtSigningError(
+                'No active signing key',
+                'NO_SIGNING_KEY',
+            );
+        }
+        return this.activeKey;
+    }
+
+    private async verifyToken(
+        token: string,
+        type: string,
+        audience?: string,
+    ): Promise<JWTPayload> {
+        try {
+            const { payload } = await jwtVerify(
+                token,
+                (header) => this.resolveVerificationKey(header),
+                {
+                    issuer: jwt_config.issuer,
+                    typ: type,
+                    algorithms: SUPPORTED_ALGORITHMS,
+                    ...(audience && { audience }),
+                },
+            );
+            return payload;
+        } catch (error) {
+            if (error instanceof JwtSigningError) {
+                throw error;
+            }
+            if (error instanceof joseErrors.JWTExpired) {
+                throw new JwtSigningError('Token has expired', 'TOKEN_EXPIRED');
+            }
+            throw new JwtSigningError(
+                `Invalid token: ${
+                    error instanceof Error ? error.message : 'Unknown error'
+                }`,
+            );
+        }
+    }
+
+    private async signToken(
+        payload: JWTPayload,
+        claims: {
+            subject: string;
+            audience: string;
+            issuer: string;
+            type: string;
+            jwtId?: string;
+            expiresIn?: string;
+        },
+    ): Promise<string> {
+        const key = await this.getActiveKey();
+
+        return new SignJWT(payload)
+            .setProtectedHeader({
+                alg: key.algorithm,
+                kid: key.kid,
+                typ: claims.type,
+            })
+            .setIssuer(claims.issuer)
+            .setSubject(claims.subject)
+            .setAudience(claims.audience)
+            .setJti(claims.jwtId ?? crypto.randomUUID())
+            .setIssuedAt()
+            .setExpirationTime(claims.expiresIn ?? jwt_config.expiresIn)
+            .sign(key.privateKey);
+    }
+
+    private async resolveVerificationKey(
+        header: JWTHeaderParameters,
+    ): Promise<crypto.KeyObject> {
+        if (!header.kid) {
+            throw new JwtSigningError('Token has no key id');
+        }
+
+        await this.ensureLoaded();
+        let key = this.publishedKeys.get(header.kid);
+        if (!key) {
+            // The key may have been rotated in by another instance
+            await this.loadKeys();
+            key = this.publishedKeys.get(header.kid);
+        }
+
+        if (!key || key.algorithm !== header.alg) {
+            throw new JwtSigningError('Token signed by an unknown key');
+        }
+        return key.publicKey;
+    }
+
+    /**
+     * Generate, seal and store a new active key
+     */
+    private async createKey(algorithm: JwtSigningAlgorithm): Promise<string> {
+        const { publicKey, privateKey } =
+            algorithm === 'EdDSA'
+                ? crypto.generateKeyPairSync('ed25519')
+                : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+        const publicJwk = publicKey.export({ format: 'jwk' });
+        const kid = await calculateJwkThumbprint(publicJwk as JWK);
+
+        const { encryptedPrivateKey, keyVersion } =
+            await keyCustodyService.sealPrivateKey(
+                privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+                this.getAad(kid),
+            );
+
+        try {
+            await JwtSigningKey.create({
+                kid,
+                algorithm,
+                publicJwk,
+                encryptedPrivateKey,
+                keyVersion,
+                status: 'active',
+            });
+        } catch (error) {
+            // Another instance created the active key first
+            if ((error as { code?: number })?.code !== 11000) {
+                throw error;
+            }
+        }
+
+        await this.loadKeys();
+        return kid;
+    }
+
+    private async ensureLoaded(): Promise<void> {
+        if (Date.now() - this.loadedAt > this.cacheTtlMs) {
+            await this.loadKeys();
+        }
+    }
+
+    /**
+     * Refresh the key cache, retiring keys whose tokens have all expired
+     */
+    private async loadKeys(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.readKeys().finally(() => {
+                this.loading = undefined;
+            });
+        }
+        return this.loading;
+    }
+
+    private async readKeys(): Promise<void> {
+        const tokenLifetimeMs = parseDuration(jwt_config.expiresIn);
+        await JwtSigningKey.updateMany(
+            {
+                status: 'retiring',
+                retiringAt: { $lte: new Date(Date.now() - tokenLifetimeMs) },
+            },
+            { $set: { status: 'retired', retiredAt: new Date() } },
+        );
+
+        const keys = await JwtSigningKey.find({
+            status: { $in: ['active', 'retiring'] },
+        }).select('+encryptedPrivateKey');
+
+        const published = new Map<string, CachedKey>();
+        let activeKey: ActiveKey | undefined;
+
+        for (const key of keys) {
+            const cached: CachedKey = {
+                kid: key.kid,
+                algorithm: key.algorithm,
+                publicKey: crypto.createPublicKey({
+                    key: key.publicJwk,
+                    format: 'jwk',
+                }),
+                jwk: {
+                    ...key.publicJwk,
+                    kid: key.kid,
+                    alg: key.algorithm,
+                    use: 'sig',
+                },
+            };
+            published.set(key.kid, cached);
+
+            if (key.status === 'active') {
+                // Only unseal again when the active key changed
+                activeKey =
+                    this.activeKey?.kid === key.kid &&
+                    this.activeKey.keyVersion === key.keyVersion
+                        ? this.activeKey
+                        : {
+                              ...cached,
+                              keyVersion: key.keyVersion,
+                              privateKey: crypto.createPrivateKey(
+                                  await keyCustodyService.openPrivateKey(
+                                      key.encryptedPrivateKey,
+                                      this.getAad(key.kid),
+                                  ),
+                              ),
+                          };
+            }
+        }
+
+        this.publishedKeys = published;
+        this.activeKey = activeKey;
+        this.loadedAt = Date.now();
+    }
+
+    private getAad(kid: string): string {
+        return `jwt-signing-key:${kid}`;
+    }
+}
+
+// Export singleton instance
+export const jwtSigningService = new JwtSigningService();
+export default jwtSigningService;
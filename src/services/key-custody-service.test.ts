@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import { MasterKeyVersion } from '../models/master-key-models';
+import { KeyCustodyError, KeyCustodyService } from './key-custody-service';
+import { LocalKmsProvider } from './kms/local-kms-provider';
+
+const PRIVATE_KEY =
+    '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318';
+
+function kms(masterKeyVersion: string, keyring: Record<string, string>) {
+    return new LocalKmsProvider({
+        kmsProvider: 'local',
+        masterKey: Object.entries(keyring)
+            .map(([version, key]) => `${version}:${key}`)
+            .join(','),
+        masterKeyFile: '',
+        masterKeyVersion,
+        rewrapIntervalMs: 0,
+    });
+}
+
+function retire(versions: string[]) {
+    jest.spyOn(MasterKeyVersion, 'find').mockReturnValue({
+        select: () => ({
+            lean: async () => versions.map((version) => ({ version })),
+        }),
+    } as never);
+}
+
+describe('KeyCustodyService', () => {
+    const v1 = crypto.randomBytes(32).toString('hex');
+    const v2 = crypto.randomBytes(32).toString('hex');
+    let custody: KeyCustodyService;
+
+    beforeEach(() => {
+        custody = new KeyCustodyService(kms('v1', { v1 }));
+        retire([]);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('seals a private key into an envelope and opens it again', async () => {
+        const sealed = await custody.sealPrivateKey(PRIVATE_KEY);
+
+        expect(sealed.keyVersion).toBe('v1');
+        expect(KeyCustodyService.isSealed(sealed.encryptedPrivateKey)).toBe(
+            true,
+        );
+        expect(sealed.encryptedPrivateKey).not.toContain(PRIVATE_KEY.slice(2));
+        expect(
+            KeyCustodyService.getKeyVersion(sealed.encryptedPrivateKey),
+        ).toBe('v1');
+        await expect(
+            custody.openPrivateKey(
+                sealed.encryptedPrivateKey,
+                sealed.encryptionSalt,
+            ),
+        ).resolves.toBe(PRIVATE_KEY);
+    });
+
+    it('uses a fresh data key and IV for every seal', async () => {
+        const first = await custody.sealPrivateKey(PRIVATE_KEY, 'salt');
+        const second = await custody.sealPrivateKey(PRIVATE_KEY, 'salt');
+
+        expect(first.encryptedPrivateKey).not.toBe(second.encryptedPrivateKey);
+    });
+
+    it("refuses to open an envelope under another wallet's salt", async () => {
+        const sealed = await custody.sealPrivateKey(PRIVATE_KEY);
+
+        await expect(
+            custody.openPrivateKey(sealed.encryptedPrivateKey, 'other-salt'),
+        ).rejects.toThrow(KeyCustodyError);
+    });
+
+    it('detects a tampered ciphertext', async () => {
+        const sealed = await custody.sealPrivateKey(PRIVATE_KEY);
+        const parts = sealed.encryptedPrivateKey.split(':');
+        const ciphertext = Buffer.from(parts[6]!, 'base64');
+        ciphertext[0] = ciphertext[0]! ^ 1;
+        parts[6] = ciphertext.toString('base64');
+
+        await expect(
+            custody.openPrivateKey(parts.join(':'), sealed.encryptionSalt),
+        ).rejects.toThrow(KeyCustodyError);
+    });
+
+    it('keeps seed and private key envelopes from being swapped', async () => {
+        const salt = crypto.randomBytes(16).toString('hex');
+        const { encryptedSeed } = await custody.sealSeed('seed words', salt);
+        const { encryptedPrivateKey } = await custody.sealPrivateKey(
+            PRIVATE_KEY,
+            salt,
+        );
+
+        await expect(custody.openSeed(encryptedSeed, salt)).resolves.toBe(
+            'seed words',
+        );
+        await expect(
+            custody.openPrivateKey(encryptedSeed, salt),
+        ).rejects.toThrow(KeyCustodyError);
+        await expect(
+            custody.openSeed(encryptedPrivateKey, salt),
+        ).rejects.toThrow(KeyCustodyError);
+    });
+
+    it('re-wraps an envelope under the current master key version', async () => {
+        const sealed = await custody.sealPrivateKey(PRIVATE_KEY);
+        const rotated = new KeyCustodyService(kms('v2', { v1, v2 }));
+
+        const rewrapped = await rotated.rewrapPrivateKey(
+            sealed.encryptedPrivateKey,
+        );
+
+        expect(rewrapped.keyVersion).toBe('v2');
+        // Only the wrapped data key changes, not the ciphertext
+        expect(rewrapped.encryptedPrivateKey.split(':')[6]).toBe(
+            sealed.encryptedPrivateKey.split(':')[6],
+        );
+        await expect(
+            rotated.openPrivateKey(
+                rewrapped.encryptedPrivateKey,
+                sealed.encryptionSalt,
+            ),
+        ).resolves.toBe(PRIVATE_KEY);
+    });
+
+    it('refuses envelopes wrapped under a retired master key version', async () => {
+        const sealed = await custody.sealPrivateKey(PRIVATE_KEY);
+        retire(['v1']);
+        const rotated = new KeyCustodyService(kms('v2', { v1, v2 }));
+
+        await expect(
+            rotated.openPrivateKey(
+                sealed.encryptedPrivateKey,
+                sealed.encryptionSalt,
+            ),
+        ).rejects.toThrow('Master key version v1 has been retired');
+    });
+});
@@ -0,0 +1,509 @@
+// src/services/key-custody-service.ts
+import crypto from 'crypto';
+import { Wallet, IWallet } from '../models/wallet-models';
+import { MasterKeyVersion } from '../models/master-key-models';
+import { createKmsProvider, KmsProvider } from './kms/kms-provider';
+import walletService, {
+    BlockchainNetwork as WalletNetwork,
+} from './wallet-service';
+
+const ENVELOPE_PREFIX = 'enc:v1';
+const DATA_KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+/**
+ * Custom error class for key custody failures
+ */
+export class KeyCustodyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'KeyCustodyError';
+    }
+}
+
+/**
+ * Encrypted key material as persisted on a Wallet document
+ */
+export interface SealedPrivateKey {
+    encryptedPrivateKey: string;
+    encryptionSalt: string;
+    keyVersion: string;
+}
+
+interface Envelope {
+    keyVersion: string;
+    wrappedKey: string;
+    iv: string;
+    authTag: string;
+    ciphertext: string;
+}
+
+/**
+ * Envelope encryption for wallet private keys.
+ *
+ * Each private key is encrypted with AES-256-GCM under a fresh data key.
+ * The data key is wrapped by the KMS master key and stored alongside the
+ * ciphertext as `enc:v1:<keyVersion>:<wrappedKey>:<iv>:<authTag>:<ciphertext>`.
+ * The wallet's `encryptionSalt` is bound to the ciphertext as AAD.
+ * Any master key version still in the KMS and not retired can decrypt.
+ */
+export class KeyCustodyService {
+    private kmsProvider?: KmsProvider;
+    private retiredVersions?: Set<string>;
+    private retiredVersionsLoadedAt: number = 0;
+    private readonly retiredVersionsTtlMs: number = 60 * 1000;
+
+    constructor(kmsProvider?: KmsProvider) {
+        if (kmsProvider) {
+            this.kmsProvider = kmsProvider;
+        }
+    }
+
+    /**
+     * Replace the KMS provider (e.g. to plug in a managed KMS)
+     */
+    public setKmsProvider(kmsProvider: KmsProvider): void {
+        this.kmsProvider = kmsProvider;
+    }
+
+    /**
+     * Check whether a stored value is an encrypted envelope
+     */
+    public static isSealed(value: string | undefined): boolean {
+        return !!value && value.startsWith(`${ENVELOPE_PREFIX}:`);
+    }
+
+    /**
+     * Read the master key version an envelope was wrapped under
+     */
+    public static getKeyVersion(value: string | undefined): string | null {
+        if (!value || !KeyCustodyService.isSealed(value)) {
+            return null;
+        }
+        return value.split(':')[2] || null;
+    }
+
+    /**
+     * Master key version new envelopes are wrapped under
+     */
+    public getCurrentKeyVersion(): string {
+        return this.getKmsProvider().getCurrentKeyVersion();
+    }
+
+    /**
+     * Master key versions the KMS can still unwrap
+     */
+    public async listKeyVersions(): Promise<string[]> {
+        return this.getKmsProvider().listKeyVersions();
+    }
+
+    /**
+     * Encrypt a private key for storage on a new Wallet document
+     */
+    public async sealPrivateKey(
+        privateKey: string,
+        encryptionSalt: string = crypto.randomBytes(16).toString('hex'),
+    ): Promise<SealedPrivateKey> {
+        const dataKey = crypto.randomBytes(DATA_KEY_BYTES);
+
+        try {
+            const { wrappedKey, keyVersion } =
+                await this.getKmsProvider().wrapKey(dataKey);
+            const iv = crypto.randomBytes(IV_BYTES);
+            const cipher = crypto.createCipheriv('aes-256-gcm', dataKey, iv);
+            cipher.setAAD(Buffer.from(encryptionSalt));
+
+            const ciphertext = Buffer.concat([
+                cipher.update(privateKey, 'utf-8'),
+                cipher.final(),
+            ]);
+
+            return {
+                encryptedPrivateKey: this.serializeEnvelope({
+                    keyVersion,
+                    wrappedKey,
+                    iv: iv.toString('base64'),
+                    authTag: cipher.getAuthTag().toString('base64'),
+                    ciphertext: ciphertext.toString('base64'),
+                }),
+                encryptionSalt,
+                keyVersion,
+            };
+        } finally {
+            dataKey.fill(0);
+        }
+    }
+
+    /**
+     * Encrypt a wallet's mnemonic. The AAD is derived from the wallet's
+     * salt but kept distinct from the private key's, so the two
+     * envelopes cannot be swapped.
+     */
+    public async sealSeed(
+        mnemonic: string,
+        encryptionSalt: string,
+    ): Promise<{ encryptedSeed: string; keyVersion: string }> {
+        const { encryptedPrivateKey, keyVersion } = await this.sealPrivateKey(
+            mnemonic,
+            this.getSeedAad(encryptionSalt),
+        );
+        return { encryptedSeed: encryptedPrivateKey, keyVersion };
+    }
+
+    /**
+     * Decrypt a stored mnemonic
+     */
+    public async openSeed(
+        encryptedSeed: string,
+        encryptionSalt: string,
+    ): Promise<string> {
+        if (!KeyCustodyService.isSealed(encryptedSeed)) {
+            throw new KeyCustodyError('Malformed encrypted seed');
+        }
+        return this.openPrivateKey(
+            encryptedSeed,
+            this.getSeedAad(encryptionSalt),
+        );
+    }
+
+    /**
+     * Encrypt an imported account's private key. The AAD binds the
+     * envelope to both the wallet and the account index.
+     */
+    public async sealAccountKey(
+        privateKey: string,
+        encryptionSalt: string,
+        accountIndex: number,
+    ): Promise<{ encryptedPrivateKey: string; keyVersion: string }> {
+        const { encryptedPrivateKey, keyVersion } = await this.sealPrivateKey(
+            privateKey,
+            this.getAccountAad(encryptionSalt, accountIndex),
+        );
+        return { encryptedPrivateKey, keyVersion };
+    }
+
+    /**
+     * Encrypt a social provider token stored on a wallet
+     */
+    public async sealOAuthToken(
+        token: string,
+        encryptionSalt: string,
+        kind: 'access' | 'refresh',
+    ): Promise<string> {
+        const { encryptedPrivateKey } = await this.sealPrivateKey(
+            token,
+            this.getOAuthTokenAad(encryptionSalt, kind),
+        );
+        return encryptedPrivateKey;
+    }
+
+    /**
+     * Decrypt a stored social provider token
+     */
+    public async openOAuthToken(
+        encryptedToken: string,
+        encryptionSalt: string,
+        kind: 'access' | 'refresh',
+    ): Promise<string> {
+        if (!KeyCustodyService.isSealed(encryptedToken)) {
+            throw new KeyCustodyError('Malformed encrypted token');
+        }
+        return this.openPrivateKey(
+            encryptedToken,
+            this.getOAuthTokenAad(encryptionSalt, kind),
+        );
+    }
+
+    /**
+     * Decrypt a stored private key
+     */
+    public async openPrivateKey(
+        encryptedPrivateKey: string,
+        encryptionSalt: string,
+    ): Promise<string> {
+        if (!KeyCustodyService.isSealed(encryptedPrivateKey)) {
+            // Rows written before envelope encryption hold the raw key
+            // until migrate:wallet-keys seals them
+            return encryptedPrivateKey;
+        }
+
+        const { keyVersion, wrappedKey, iv, authTag, ciphertext } =
+            this.parseEnvelope(encryptedPrivateKey);
+        const dataKey = await this.unwrapDataKey(wrappedKey, keyVersion);
+
+        try {
+            const decipher = crypto.createDecipheriv(
+                'aes-256-gcm',
+                dataKey,
+                Buffer.from(iv, 'base64'),
+            );
+            decipher.setAAD(Buffer.from(encryptionSalt));
+            decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+
+            const plaintext = Buffer.concat([
+                decipher.update(Buffer.from(ciphertext, 'base64')),
+                decipher.final(),
+            ]);
+            const privateKey = plaintext.toString('utf-8');
+            plaintext.fill(0);
+
+            return privateKey;
+        } catch (error) {
+            throw new KeyCustodyError(
+                `Failed to decrypt private key: ${
+                    error instanceof Error ? error.message : 'Unknown error'
+                }`,
+            );
+        } finally {
+            dataKey.fill(0);
+        }
+    }
+
+    /**
+     * Re-wrap an envelope's data key under the current master key version.
+     * The private key ciphertext itself is left untouched.
+     */
+    public async rewrapPrivateKey(
+        encryptedPrivateKey: string,
+    ): Promise<{ encryptedPrivateKey: string; keyVersion: string }> {
+        const envelope = this.parseEnvelope(encryptedPrivateKey);
+        const currentVersion = this.getCurrentKeyVersion();
+
+        if (envelope.keyVersion === currentVersion) {
+            return { encryptedPrivateKey, keyVersion: currentVersion };
+        }
+
+        const dataKey = await this.unwrapDataKey(
+            envelope.wrappedKey,
+            envelope.keyVersion,
+        );
+
+        try {
+            const { wrappedKey, keyVersion } =
+                await this.getKmsProvider().wrapKey(dataKey);
+
+            return {
+                encryptedPrivateKey: this.serializeEnvelope({
+                    ...envelope,
+                    keyVersion,
+                    wrappedKey,
+                }),
+                keyVersion,
+            };
+        } finally {
+            dataKey.fill(0);
+        }
+    }
+
+    /**
+     * Stop accepting a master key version for decryption
+     */
+    public markKeyVersionRetired(keyVersion: string): void {
+        this.retiredVersions?.add(keyVersion);
+    }
+
+    /**
+     * Load a wallet, decrypt its private key and pass it to `fn`.
+     * The decrypted key is only available for the duration of the call.
+     * Accounts other than the primary (index 0) are derived from the
+     * wallet's seed, or decrypted from their own envelope if imported.
+     */
+    public async withDecryptedKey<T>(
+        walletId: string,
+        fn: (privateKey: string, wallet: IWallet) => Promise<T> | T,
+        accountIndex: number = 0,
+    ): Promise<T> {
+        if (accountIndex !== 0) {
+            return this.withAccountKey(walletId, accountIndex, fn);
+        }
+
+        const wallet = await Wallet.findById(walletId).select(
+            '+encryptedPrivateKey +encryptionSalt',
+        );
+
+        if (!wallet?.encryptedPrivateKey || !wallet.encryptionSalt) {
+            throw new KeyCustodyError(
+                'No wallet found or private key not available',
+            );
+        }
+
+        const privateKey = await this.openPrivateKey(
+            wallet.encryptedPrivateKey,
+            wallet.encryptionSalt,
+        );
+
+        return await fn(privateKey, wallet);
+    }
+
+    /**
+     * Load a wallet, decrypt its mnemonic and pass it to `fn`
+     */
+    public async withDecryptedSeed<T>(
+        walletId: string,
+        fn: (mnemonic: string, wallet: IWallet) => Promise<T> | T,
+    ): Promise<T> {
+        const wallet = await Wallet.findById(walletId).select(
+            '+encryptedSeed +encryptionSalt',
+        );
+
+        if (!wallet?.encryptedSeed || !wallet.encryptionSalt) {
+            throw new KeyCustodyError('No wallet found or wallet has no seed');
+        }
+
+        const mnemonic = await this.openSeed(
+            wallet.encryptedSeed,
+            wallet.encryptionSalt,
+        );
+
+        return await fn(mnemonic, wallet);
+    }
+
+    private async withAccountKey<T>(
+        walletId: string,
+        accountIndex: number,
+        fn: (privateKey: string, wallet: IWallet) => Promise<T> | T,
+    ): Promise<T> {
+        const wallet = await Wallet.findById(walletId).select(
+            '+encryptedSeed +encryptionSalt +accounts.encryptedPrivateKey',
+        );
+        const account = wallet?.accounts.find((a) => a.index === accountIndex);
+
+        if (!wallet || !account) {
+            throw new KeyCustodyError(
+                `Account ${accountIndex} has not been derived`,
+            );
+        }
+        if (!wallet.encryptionSalt) {
+            throw new KeyCustodyError('Private key not available');
+        }
+
+        if (account.imported) {
+            if (!account.encryptedPrivateKey) {
+                throw new KeyCustodyError(
+                    `Private key for account ${accountIndex} not available`,
+                );
+            }
+            const privateKey = await this.openPrivateKey(
+                account.encryptedPrivateKey,
+                this.getAccountAad(wallet.encryptionSalt, accountIndex),
+            );
+            return await fn(privateKey, wallet);
+        }
+
+        if (!wallet.encryptedSeed) {
+            throw new KeyCustodyError('Wallet has no seed');
+        }
+
+        const mnemonic = await this.openSeed(
+            wallet.encryptedSeed,
+            wallet.encryptionSalt,
+        );
+        const derived = walletService.recoverWalletFromMnemonic(
+            mnemonic,
+            wallet.network as string as WalletNetwork,
+            { accountIndex },
+        );
+        if (derived.address !== account.address) {
+            throw new KeyCustodyError(
+                `Derived key does not match account ${accountIndex}`,
+            );
+        }
+
+        return await fn(derived.privateKey, wallet);
+    }
+
+    /**
+     * Unwrap a data key, rejecting master key versions that were retired
+     */
+    private async unwrapDataKey(
+        wrappedKey: string,
+        keyVersion: string,
+    ): Promise<Buffer> {
+        if (
+            !this.retiredVersions ||
+            Date.now() - this.retiredVersionsLoadedAt >
+                this.retiredVersionsTtlMs
+        ) {
+            const retired = await MasterKeyVersion.find({ status: 'retired' })
+                .select('version')
+                .lean();
+            this.retiredVersions = new Set(retired.map((r) => r.version));
+            this.retiredVersionsLoadedAt = Date.now();
+        }
+
+        if (this.retiredVersions.has(keyVersion)) {
+            throw new KeyCustodyError(
+                `Master key version ${keyVersion} has been retired`,
+            );
+        }
+
+        try {
+            return await this.getKmsProvider().unwrapKey(
+                wrappedKey,
+                keyVersion,
+            );
+        } catch (error) {
+            throw new KeyCustodyError(
+                `Failed to unwrap data key: ${
+                    error instanceof Error ? error.message : 'Unknown error'
+                }`,
+            );
+        }
+    }
+
+    private getSeedAad(encryptionSalt: string): string {
+        return `${encryptionSalt}:seed`;
+    }
+
+    private getOAuthTokenAad(
+        encryptionSalt: string,
+        kind: 'access' | 'refresh',
+    ): string {
+        return `${encryptionSalt}:oauth:${kind}`;
+    }
+
+    private getAccountAad(
+        encryptionSalt: string,
+        accountIndex: number,
+    ): string {
+        return `${encryptionSalt}:account:${accountIndex}`;
+    }
+
+    private parseEnvelope(encryptedPrivateKey: string): Envelope {
+        const [, , keyVersion, wrappedKey, iv, authTag, ciphertext] =
+            encryptedPrivateKey.split(':');
+        if (
+            !KeyCustodyService.isSealed(encryptedPrivateKey) ||
+            !keyVersion ||
+            !wrappedKey ||
+            !iv ||
+            !authTag ||
+            !ciphertext
+        ) {
+            throw new KeyCustodyError('Malformed encrypted private key');
+        }
+        return { keyVersion, wrappedKey, iv, authTag, ciphertext };
+    }
+
+    private serializeEnvelope(envelope: Envelope): string {
+        return [
+            ENVELOPE_PREFIX,
+            envelope.keyVersion,
+            envelope.wrappedKey,
+            envelope.iv,
+            envelope.authTag,
+            envelope.ciphertext,
+        ].join(':');
+    }
+
+    private getKmsProvider(): KmsProvider {
+        if (!this.kmsProvider) {
+            this.kmsProvider = createKmsProvider();
+        }
+        return this.kmsProvider;
+    }
+}
+
+// Export singleton instance
+export const keyCustodyService = new KeyCustodyService();
+export default keyCustodyService;
@@ -0,0 +1,373 @@
+// src/services/key-rotation-service.ts
+import { Types } from 'mongoose';
+import { Wallet } from '../models/wallet-models';
+import { MasterKeyVersion } from '../models/master-key-models';
+import { JwtSigningKey } from '../models/jwt-signing-key-models';
+import { TotpFactor } from '../models/totp-models';
+import keyCustodyService from './key-custody-service';
+import jwtSigningService from './jwt-signing-service';
+import mfaService from './mfa-service';
+
+/**
+ * Custom error class for master key rotation failures
+ */
+export class KeyRotationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'KeyRotationError';
+    }
+}
+
+/**
+ * Options for a re-wrap run
+ */
+export interface RewrapOptions {
+    batchSize?: number;
+    limit?: number;
+    onBatch?: (report: RewrapReport) => void;
+}
+
+/**
+ * Summary of a re-wrap run
+ */
+export interface RewrapReport {
+    targetVersion: string;
+    scanned: number;
+    rewrapped: number;
+    failed: Array<{ walletId: string; reason: string }>;
+    remaining: number;
+}
+
+/**
+ * Distribution of wallets across master key versions
+ */
+export interface KeyRotationStatus {
+    currentVersion: string;
+    availableVersions: string[];
+    retiredVersions: string[];
+    walletsByVersion: Record<string, number>;
+    unversionedWallets: number;
+    pendingRewrap: number;
+}
+
+interface RewrappableWallet {
+    _id: Types.ObjectId;
+    encryptedPrivateKey: string;
+    encryptedSeed?: string;
+    accounts?: Array<{ index: number; encryptedPrivateKey?: string }>;
+    oauthTokens?: { accessToken?: string; refreshToken?: string };
+}
+
+/**
+ * Rotates wallets onto the current master key version without downtime.
+ * Re-wrapping only replaces each wallet's wrapped data key; private key
+ * ciphertexts are not touched, so wallets stay usable throughout.
+ */
+export class KeyRotationService {
+    private readonly defaultBatchSize: number = 200;
+    private rewrapTimer: ReturnType<typeof setInterval> | null = null;
+    private rewrapInProgress: boolean = false;
+
+    /**
+     * Report how many wallets reference each master key version
+     */
+    public async getStatus(): Promise<KeyRotationStatus> {
+        const currentVersion = keyCustodyService.getCurrentKeyVersion();
+
+        const [availableVersions, retired, counts] = await Promise.all([
+            keyCustodyService.listKeyVersions(),
+            MasterKeyVersion.find({ status: 'retired' })
+                .select('version')
+                .lean(),
+            Wallet.aggregate<{ _id: string | null; count: number }>([
+                { $group: { _id: '$keyVersion', count: { $sum: 1 } } },
+            ]),
+        ]);
+
+        const walletsByVersion: Record<string, number> = {};
+        let unversionedWallets = 0;
+        let pendingRewrap = 0;
+
+        for (const { _id: version, count } of counts) {
+            if (!version) {
+                unversionedWallets += count;
+                continue;
+            }
+            walletsByVersion[version] = count;
+            if (version !== currentVersion) {
+                pendingRewrap += count;
+            }
+        }
+
+        return {
+            currentVersion,
+            availableVersions,
+            retiredVersions: retired.map((r) => r.version),
+            walletsByVersion,
+            unversionedWallets,
+            pendingRewrap,
+        };
+    }
+
+    /**
+     * Re-wrap wallets that are not on the current master key version
+     */
+    public async rewrapWallets(
+        options: RewrapOptions = {},
+    ): Promise<RewrapReport> {
+        const batchSize = options.batchSize || this.defaultBatchSize;
+        const targetVersion = keyCustodyService.getCurrentKeyVersion();
+        const filter = {
+            keyVersion: { $exists: true, $ne: targetVersion },
+        };
+        const report: RewrapReport = {
+            targetVersion,
+            scanned: 0,
+            rewrapped: 0,
+            failed: [],
+            remaining: 0,
+        };
+
+        // Token signing keys and TOTP secrets are small; move them along
+        // with the first batch
+        await jwtSigningService.rewrapKeys();
+        await mfaService.rewrapSecrets();
+
+        let afterId: Types.ObjectId | undefined;
+
+        while (!options.limit || report.scanned < options.limit) {
+            const remaining = options.limit
+                ? options.limit - report.scanned
+                : batchSize;
+
+            const batch = await Wallet.find({
+                ...filter,
+                ...(afterId && { _id: { $gt: afterId } }),
+            })
+                .sort({ _id: 1 })
+                .limit(Math.min(batchSize, remaining))
+                .select(
+                    '_id encryptedPrivateKey +encryptedSeed accounts.index +accounts.encryptedPrivateKey +oauthTokens.accessToken +oauthTokens.refreshToken',
+                )
+                .lean<RewrappableWallet[]>();
+
+            if (batch.length === 0) {
+                break;
+            }
+
+            for (const wallet of batch) {
+                report.scanned++;
+                try {
+                    await this.rewrapWallet(wallet);
+                    report.rewrapped++;
+                } catch (error) {
+                    report.failed.push({
+                        walletId: wallet._id.toString(),
+                        reason:
+                            error instanceof Error
+                                ? error.message
+                                : 'Unknown error',
+                    });
+                }
+            }
+
+            afterId = batch[batch.length - 1]!._id;
+            report.remaining = await Wallet.countDocuments(filter);
+            options.onBatch?.(report);
+        }
+
+        report.remaining = await Wallet.countDocuments(filter);
+        return report;
+    }
+
+    /**
+     * Periodically re-wrap wallets in the background.
+     * Returns a function that stops the job.
+     */
+    public startBackgroundRewrap(intervalMs: number): () => void {
+        this.stopBackgroundRewrap();
+
+        this.rewrapTimer = setInterval(async () => {
+            if (this.rewrapInProgress) {
+                return;
+            }
+            this.rewrapInProgress = true;
+
+            try {
+                const report = await this.rewrapWallets({
+                    limit: this.defaultBatchSize,
+                });
+                if (report.scanned > 0) {
+                    console.log(
+                        `🔐 Re-wrapped ${report.rewrapped}/${report.scanned} wallet keys to ${report.targetVersion}, ${report.remaining} remaining`,
+                    );
+                }
+            } catch (error) {
+                console.error('Background key re-wrap failed:', error);
+            } finally {
+                this.rewrapInProgress = false;
+            }
+        }, intervalMs);
+        this.rewrapTimer.unref();
+
+        return () => this.stopBackgroundRewrap();
+    }
+
+    public stopBackgroundRewrap(): void {
+        if (this.rewrapTimer) {
+            clearInterval(this.rewrapTimer);
+            this.rewrapTimer = null;
+        }
+    }
+
+    /**
+     * Retire a master key version. Only allowed once no wallet, token
+     * signing key or TOTP secret references it; afterwards it can be
+     * removed from the KMS.
+     */
+    public async retireKeyVersion(version: string): Promise<void> {
+        if (version === keyCustodyService.getCurrentKeyVersion()) {
+            throw new KeyRotationError(
+                'Cannot retire the current master key version',
+            );
+        }
+
+        const envelopePattern = new RegExp(
+            `^enc:v1:${this.escapeRegExp(version)}:`,
+        );
+        const referencing = await Wallet.countDocuments({
+            $or: [
+                { keyVersion: version },
+                { encryptedPrivateKey: envelopePattern },
+                { encryptedSeed: envelopePattern },
+                { 'accounts.encryptedPrivateKey': envelopePattern },
+                { 'oauthTokens.accessToken': envelopePattern },
+                { 'oauthTokens.refreshToken': envelopePattern },
+            ],
+        });
+
+        if (referencing > 0) {
+            throw new KeyRotationError(
+                `Master key version ${version} is still used by ${referencing} wallet(s)`,
+            );
+        }
+
+        const signingKeys = await JwtSigningKey.countDocuments({
+            status: { $ne: 'retired' },
+            $or: [
+                { keyVersion: version },
+                { encryptedPrivateKey: envelopePattern },
+            ],
+        });
+
+        if (signingKeys > 0) {
+            throw new KeyRotationError(
+                `Master key version ${version} is still used by ${signingKeys} token signing key(s)`,
+            );
+        }
+
+        const totpFactors = await TotpFactor.countDocuments({
+            $or: [
+                { keyVersion: version },
+                { encryptedSecret: envelopePattern },
+            ],
+        });
+
+        if (totpFactors > 0) {
+            throw new KeyRotationError(
+                `Master key version ${version} is still used by ${totpFactors} TOTP secret(s)`,
+            );
+        }
+
+        await MasterKeyVersion.updateOne(
+            { version },
+            { $set: { status: 'retired', retiredAt: new Date() } },
+            { upsert: true },
+        );
+        keyCustodyService.markKeyVersionRetired(version);
+    }
+
+    private async rewrapWallet(wallet: RewrappableWallet): Promise<void> {
+        const { encryptedPrivateKey, keyVersion } =
+            await keyCustodyService.rewrapPrivateKey(
+                wallet.encryptedPrivateKey,
+            );
+        const seed = wallet.encryptedSeed
+            ? await keyCustodyService.rewrapPrivateKey(wallet.encryptedSeed)
+            : null;
+
+        // Imported accounts carry their own envelopes
+        const accountKeys: Record<string, string> = {};
+        const arrayFilters: Record<string, number>[] = [];
+        const accountMatches: Record<string, unknown>[] = [];
+        for (const account of wallet.accounts || []) {
+            if (!account.encryptedPrivateKey) {
+                continue;
+            }
+            const rewrapped = await keyCustodyService.rewrapPrivateKey(
+                account.encryptedPrivateKey,
+            );
+            const name = `a${arrayFilters.length}`;
+            accountKeys[`accounts.$[${name}].encryptedPrivateKey`] =
+                rewrapped.encryptedPrivateKey;
+            arrayFilters.push({ [`${name}.index`]: account.index });
+            accountMatches.push({
+                $elemMatch: {
+                    index: account.index,
+                    encryptedPrivateKey: account.encryptedPrivateKey,
+                },
+            });
+        }
+
+        // Social logins replace provider tokens, so they are matched too
+        const oauthTokens: Record<string, string> = {};
+        const oauthTokenFilter: Record<string, string> = {};
+        for (const kind of ['accessToken', 'refreshToken'] as const) {
+            const token = wallet.oauthTokens?.[kind];
+            if (!token) {
+                continue;
+            }
+            oauthTokens[`oauthTokens.${kind}`] = (
+                await keyCustodyService.rewrapPrivateKey(token)
+            ).encryptedPrivateKey;
+            oauthTokenFilter[`oauthTokens.${kind}`] = token;
+        }
+
+        // Only write if no ciphertext was changed by a concurrent writer
+        const result = await Wallet.updateOne(
+            {
+                _id: wallet._id,
+                encryptedPrivateKey: wallet.encryptedPrivateKey,
+                ...(wallet.encryptedSeed && {
+                    encryptedSeed: wallet.encryptedSeed,
+                }),
+                ...(accountMatches.length > 0 && {
+                    accounts: { $all: accountMatches },
+                }),
+                ...oauthTokenFilter,
+            },
+            {
+                $set: {
+                    encryptedPrivateKey,
+                    keyVersion,
+                    ...(seed && { encryptedSeed: seed.encryptedPrivateKey }),
+                    ...accountKeys,
+                    ...oauthTokens,
+                },
+            },
+            arrayFilters.length > 0 ? { arrayFilters } : {},
+        );
+
+        if (result.matchedCount === 0) {
+            throw new Error('Wallet changed during re-wrap');
+        }
+    }
+
+    private escapeRegExp(value: string): string {
+        return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+}
+
+// Export singleton instance
+export const keyRotationService = new KeyRotationService();
+export default keyRotationService;
@@ -0,0 +1,70 @@
+// src/services/kms/kms-provider.ts
+import { key_custody_config } from '../../config';
+import { KeyCustodyConfig } from '../../config/types';
+import { LocalKmsProvider } from './local-kms-provider';
+
+/**
+ * Result of wrapping a data key with a master key
+ */
+export interface WrappedDataKey {
+    wrappedKey: string;
+    keyVersion: string;
+}
+
+/**
+ * A key management backend that holds the master key (KEK) and
+ * wraps/unwraps per-wallet data keys. The master key never leaves
+ * the provider.
+ */
+export interface KmsProvider {
+    readonly name: string;
+
+    /**
+     * Master key version used for new wraps
+     */
+    getCurrentKeyVersion(): string;
+
+    /**
+     * All master key versions the provider can still unwrap
+     */
+    listKeyVersions(): Promise<string[]>;
+
+    /**
+     * Wrap a data key with the current master key version
+     */
+    wrapKey(dataKey: Buffer): Promise<WrappedDataKey>;
+
+    /**
+     * Unwrap a data key previously wrapped under `keyVersion`
+     */
+    unwrapKey(wrappedKey: string, keyVersion: string): Promise<Buffer>;
+}
+
+export type KmsProviderFactory = (config: KeyCustodyConfig) => KmsProvider;
+
+const providerFactories: Map<string, KmsProviderFactory> = new Map([
+    ['local', (config: KeyCustodyConfig) => new LocalKmsProvider(config)],
+]);
+
+/**
+ * Register an additional KMS backend (e.g. a cloud KMS adapter)
+ */
+export function registerKmsProvider(
+    name: string,
+    factory: KmsProviderFactory,
+): void {
+    providerFactories.set(name, factory);
+}
+
+/**
+ * Create the KMS provider selected by configuration
+ */
+export function createKmsProvider(
+    config: KeyCustodyConfig = key_custody_config,
+): KmsProvider {
+    const factory = providerFactories.get(config.kmsProvider);
+    if (!factory) {
+        throw new Error(`Unsupported KMS provider: ${config.kmsProvider}`);
+    }
+    return factory(config);
+}
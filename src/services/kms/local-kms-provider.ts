@@ -0,0 +1,180 @@
+// src/services/kms/local-kms-provider.ts
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { KeyCustodyConfig } from '../../config/types';
+import type { KmsProvider, WrappedDataKey } from './kms-provider';
+
+const MASTER_KEY_BYTES = 32;
+const IV_BYTES = 12;
+const AUTH_TAG_BYTES = 16;
+
+/**
+ * KMS provider backed by master keys held in the process environment
+ * or in a local key file. Intended for development and single-node
+ * deployments; production should register a managed KMS provider.
+ *
+ * The key source is a keyring of `version:key` entries separated by
+ * commas or newlines, e.g. `v1:<hex>,v2:<hex>`. A single bare key is
+ * accepted and treated as the configured `masterKeyVersion`.
+ */
+export class LocalKmsProvider implements KmsProvider {
+    public readonly name = 'local';
+    private readonly config: KeyCustodyConfig;
+    private keyring?: Map<string, Buffer>;
+
+    constructor(config: KeyCustodyConfig) {
+        this.config = config;
+    }
+
+    public getCurrentKeyVersion(): string {
+        return this.config.masterKeyVersion;
+    }
+
+    public async listKeyVersions(): Promise<string[]> {
+        return [...this.getKeyring().keys()];
+    }
+
+    public async wrapKey(dataKey: Buffer): Promise<WrappedDataKey> {
+        const keyVersion = this.getCurrentKeyVersion();
+        const iv = crypto.randomBytes(IV_BYTES);
+        const cipher = crypto.createCipheriv(
+            'aes-256-gcm',
+            this.getMasterKey(keyVersion),
+            iv,
+        );
+        cipher.setAAD(Buffer.from(keyVersion));
+
+        const ciphertext = Buffer.concat([
+            cipher.update(dataKey),
+            cipher.final(),
+        ]);
+
+        return {
+            wrappedKey: Buffer.concat([
+                iv,
+                cipher.getAuthTag(),
+                ciphertext,
+            ]).toString('base64'),
+            keyVersion,
+        };
+    }
+
+    public async unwrapKey(
+        wrappedKey: string,
+        keyVersion: string,
+    ): Promise<Buffer> {
+        const raw = Buffer.from(wrappedKey, 'base64');
+        const iv = raw.subarray(0, IV_BYTES);
+        const authTag = raw.subarray(IV_BYTES, IV_BYTES + AUTH_TAG_BYTES);
+        const ciphertext = raw.subarray(IV_BYTES + AUTH_TAG_BYTES);
+
+        const decipher = crypto.createDecipheriv(
+            'aes-256-gcm',
+            this.getMasterKey(keyVersion),
+            iv,
+        );
+        decipher.setAAD(Buffer.from(keyVersion));
+        decipher.setAuthTag(authTag);
+
+        return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+    }
+
+    private getMasterKey(keyVersion: string): Buffer {
+        const masterKey = this.getKeyring().get(keyVersion);
+        if (!masterKey) {
+            throw new Error(`Unknown master key version: ${keyVersion}`);
+        }
+        return masterKey;
+    }
+
+    /**
+     * Load the keyring from the environment, falling back to the key
+     * file. Outside production a missing key file is generated once.
+     */
+    private getKeyring(): Map<string, Buffer> {
+        if (this.keyring) {
+            return this.keyring;
+        }
+
+        let encoded = this.config.masterKey;
+
+        if (!encoded) {
+            const keyFile = path.resolve(this.config.masterKeyFile);
+
+            if (!fs.existsSync(keyFile)) {
+                if (process.env.NODE_ENV === 'production') {
+                    throw new Error(
+                        'KEY_CUSTODY_MASTER_KEY or KEY_CUSTODY_MASTER_KEY_FILE must be configured',
+                    );
+                }
+
+                fs.mkdirSync(path.dirname(keyFile), { recursive: true });
+                fs.writeFileSync(
+                    keyFile,
+                    `${this.config.masterKeyVersion}:${crypto
+                        .randomBytes(MASTER_KEY_BYTES)
+                        .toString('hex')}\n`,
+                    { mode: 0o600 },
+                );
+                console.warn(`⚠️ Generated development master key: ${keyFile}`);
+            }
+
+            encoded = fs.readFileSync(keyFile, 'utf-8');
+        }
+
+        this.keyring = this.parseKeyring(encoded);
+
+        if (!this.keyring.has(this.config.masterKeyVersion)) {
+            throw new Error(
+                `Current master key version ${this.config.masterKeyVersion} is not in the keyring`,
+            );
+        }
+
+        return this.keyring;
+    }
+
+    private parseKeyring(encoded: string): Map<string, Buffer> {
+        const entries = encoded
+            .split(/[\s,]+/)
+            .filter((entry) => entry.length > 0);
+        const keyring = new Map<string, Buffer>();
+
+        if (entries.length === 1 && !entries[0]!.includes(':')) {
+            keyring.set(
+                this.config.masterKeyVersion,
+                this.decodeMasterKey(entries[0]!),
+            );
+            return keyring;
+        }
+
+        for (const entry of entries) {
+            const separator = entry.indexOf(':');
+            if (separator <= 0) {
+                throw new Error(
+                    'Keyring entries must be formatted as version:key',
+                );
+            }
+            keyring.set(
+                entry.slice(0, separator),
+                this.decodeMasterKey(entry.slice(separator + 1)),
+            );
+        }
+
+        return keyring;
+    }
+
+    private decodeMasterKey(encoded: string): Buffer {
+        const key = /^[a-fA-F0-9]{64}$/.test(encoded)
+            ? Buffer.from(encoded, 'hex')
+            : Buffer.from(encoded, 'base64');
+
+        if (key.length !== MASTER_KEY_BYTES) {
+            throw new Error(
+                'Master key must be 32 bytes (64 hex characters or base64)',
+            );
+        }
+
+        return key;
+    }
+}
@@ -0,0 +1,295 @@
+// src/services/magic-link-service.ts
+import crypto from 'crypto';
+import { MagicLink } from '../models/magic-link-models';
+import { Wallet, IWallet } from '../models/wallet-models';
+import { magic_link_config } from '../config';
+import { MagicLinkConfig } from '../config/types';
+import emailService from '../config/email-config';
+import jwtSigningService from './jwt-signing-service';
+import otpService, { OtpError } from './otp-service';
+import mfaService, { LoginOutcome } from './mfa-service';
+import { SessionContext } from './session-service';
+import auditLogService, { AuditContext } from './audit-log-service';
+
+/**
+ * Custom error class for magic link failures
+ */
+export class MagicLinkError extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'INVALID_LINK') {
+        super(message);
+        this.name = 'MagicLinkError';
+        this.code = code;
+    }
+}
+
+export interface MagicLinkApp {
+    appId: string;
+    name: string;
+    redirectUrls: string[];
+}
+
+/**
+ * One-click email login.
+ *
+ * The emailed link carries a short-lived token, signed with the JWT keys,
+ * naming the wallet and the app, and points at the callback endpoint.
+ * Opening it only checks the link, so mail scanners fetching it don't
+ * use it up; the user confirms with a POST, which consumes the link and
+ * sends the browser to the app's redirect URL with a one-time code. The
+ * app exchanges the code for a session like an OTP login would produce.
+ * Links and codes are each usable once.
+ */
+export class MagicLinkService {
+    private readonly codeTtlMs: number = 60 * 1000;
+
+    constructor(private readonly config: MagicLinkConfig = magic_link_config) {}
+
+    /**
+     * Email a login link for the wallet. The redirect URL must be one of
+     * the app's; the first is used when none is given.
+     */
+    public async send(
+        app: MagicLinkApp,
+        walletId: string,
+        email: string,
+        redirectUrl: string | undefined,
+        context: AuditContext,
+    ): Promise<{ expiresAt: Date }> {
+        const target = this.resolveRedirectUrl(app, redirectUrl);
+
+        try {
+            await otpService.recordSend(app.appId, email, context.ipAddress);
+        } catch (error) {
+            throw error instanceof OtpError
+                ? new MagicLinkError(error.message, error.code)
+                : error;
+        }
+
+        const linkId = crypto.randomUUID();
+        const expiresAt = new Date(
+            Date.now() + this.config.ttlMinutes * 60 * 1000,
+        );
+        const token = await jwtSigningService.signMagicLink(
+            {},
+            {
+                subject: walletId,
+                audience: app.appId,
+                jwtId: linkId,
+                expiresIn: `${this.config.ttlMinutes}m`,
+            },
+        );
+
+        await MagicLink.create({
+            linkId,
+            appId: app.appId,
+            walletId,
+            email,
+            redirectUrl: target,
+            expiresAt,
+        });
+
+        const loginLink = new URL(this.config.callbackUrl);
+        loginLink.searchParams.set('appId', app.appId);
+        loginLink.searchParams.set('token', token);
+
+        const sent = await emailService.sendMagicLink(
+            email,
+            {
+                name: 'User',
+                loginLink: loginLink.toString(),
+                expiryMinutes: this.config.ttlMinutes,
+            },
+            app.name,
+        );
+        if (!sent) {
+            throw new MagicLinkError(
+                'Failed to send login link email',
+                'EMAIL_SEND_FAILED',
+            );
+        }
+
+        await auditLogService.record(
+            'magic_link.sent',
+            { ...context, walletId },
+            'success',
+        );
+
+        return { expiresAt };
+    }
+
+    /**
+     * Check an opened link without consuming it
+     */
+    public async check(appId: string, token: string): Promise<void> {
+        const { linkId, walletId } = await this.verifyToken(appId, token);
+        const link = await MagicLink.exists({
+            linkId,
+            appId,
+            walletId,
+            status: 'sent',
+            expiresAt: { $gt: new Date() },
+        });
+        if (!link) {
+            throw new MagicLinkError(
+                'Login link has already been used or has expired',
+                'LINK_USED',
+            );
+        }
+    }
+
+    /**
+     * Consume a confirmed link. Returns the app redirect URL carrying the
+     * one-time code.
+     */
+    public async redeem(
+        appId: string,
+        token: string,
+        context: AuditContext,
+    ): Promise<string> {
+        const { linkId, walletId } = await this.verifyToken(appId, token);
+
+        const code = crypto.randomBytes(32).toString('base64url');
+        const now = new Date();
+        const link = await MagicLink.findOneAndUpdate(
+            {
+                linkId,
+                appId,
+                walletId,
+                status: 'sent',
+                expiresAt: { $gt: now },
+            },
+            {
+                $set: {
+                    status: 'redeemed',
+                    codeHash: this.hash(code),
+                    expiresAt: new Date(now.getTime() + this.codeTtlMs),
+                },
+            },
+            { new: true },
+        );
+        if (!link) {
+            await auditLogService.record(
+                'magic_link.redeemed',
+                { ...context, walletId },
+                'failure',
+                { reason: 'Link already used or expired' },
+            );
+            throw new MagicLinkError(
+                'Login link has already been used or has expired',
+                'LINK_USED',
+            );
+        }
+
+        await auditLogService.record(
+            'magic_link.redeemed',
+            { ...context, walletId },
+            'success',
+        );
+
+        const redirect = new URL(link.redirectUrl);
+        redirect.searchParams.set('code', code);
+        return redirect.toString();
+    }
+
+    /**
+     * Exchange the code from the redirect for a session, activating the
+     * wallet on its first login. Wallets needing a second factor get a
+     * limited token instead.
+     */
+    public async exchange(
+        appId: string,
+        code: string,
+        context: SessionContext,
+    ): Promise<{ wallet: IWallet; login: LoginOutcome }> {
+        const link = await MagicLink.findOneAndUpdate(
+            {
+                codeHash: this.hash(code),
+                appId,
+                status: 'redeemed',
+                expiresAt: { $gt: new Date() },
+            },
+            { $set: { status: 'exchanged' } },
+        );
+        if (!link) {
+            throw new MagicLinkError(
+                'Code is invalid or has expired',
+                'INVALID_CODE',
+            );
+        }
+
+        const wallet = await Wallet.findOneAndUpdate(
+            { _id: link.walletId, appId },
+            { $set: { isActive: true } },
+            { new: true },
+        );
+        if (!wallet) {
+            throw new MagicLinkError('Wallet not found', 'WALLET_NOT_FOUND');
+        }
+
+        const walletId = String(wallet._id);
+        const login = await mfaService.completeLogin(
+            {
+                _id: walletId,
+                appId,
+                address: wallet.address,
+                network: wallet.network,
+            },
+            { ...context, walletId },
+        );
+
+        return { wallet, login };
+    }
+
+    private async verifyToken(
+        appId: string,
+        token: string,
+    ): Promise<{ linkId?: string | undefined; walletId?: string | undefined }> {
+        try {
+            const payload = await jwtSigningService.verifyMagicLink(
+                token,
+                appId,
+            );
+            return { linkId: payload.jti, walletId: payload.sub };
+        } catch {
+            throw new MagicLinkError(
+                'Login link is invalid or has expired',
+                'INVALID_LINK',
+            );
+        }
+    }
+
+    private resolveRedirectUrl(
+        app: MagicLinkApp,
+        redirectUrl: string | undefined,
+    ): string {
+        if (!redirectUrl) {
+            const [first] = app.redirectUrls;
+            if (!first) {
+                throw new MagicLinkError(
+                    'App has no redirect URL for login links',
+                    'INVALID_REDIRECT_URL',
+                );
+            }
+            return first;
+        }
+
+        // Exact match only, as for OpenID Connect redirects
+        if (!app.redirectUrls.includes(redirectUrl)) {
+            throw new MagicLinkError(
+                'redirectUrl is not registered for this app',
+                'INVALID_REDIRECT_URL',
+            );
+        }
+        return redirectUrl;
+    }
+
+    private hash(value: string): string {
+        return crypto.createHash('sha256').update(value).digest('hex');
+    }
+}
+
+// Export singleton instance
+export const magicLinkService = new MagicLinkService();
+export default magicLinkService;
@@ -0,0 +1,215 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { TotpFactor } from '../models/totp-models';
+import { App } from '../models/app-models';
+import { MasterKeyVersion } from '../models/master-key-models';
+import { LocalKmsProvider } from './kms/local-kms-provider';
+import keyCustodyService from './key-custody-service';
+import jwtSigningService from './jwt-signing-service';
+import sessionService from './session-service';
+import auditLogService from './audit-log-service';
+import { MFA_PENDING_SCOPE, MfaService } from './mfa-service';
+
+const CONFIG = {
+    pendingTokenExpiresIn: '10m',
+    totpWindow: 1,
+    recoveryCodeCount: 10,
+    maxFailedAttempts: 5,
+    lockoutMinutes: 15,
+};
+const WALLET = {
+    _id: new Types.ObjectId().toString(),
+    appId: 'a'.repeat(64),
+    address: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+    network: 'evm',
+};
+const SESSION = {
+    sessionId: '665f1c2e8b3a4d0012345678',
+    accessToken: 'access-token',
+    refreshToken: 'refresh-token',
+    refreshTokenExpiresAt: new Date('2030-01-01T00:00:00.000Z'),
+};
+
+function base32(data: Buffer): string {
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+    let bits = '';
+    for (const byte of data) {
+        bits += byte.toString(2).padStart(8, '0');
+    }
+    return (bits.match(/.{1,5}/g) ?? [])
+        .map((chunk) => alphabet[parseInt(chunk.padEnd(5, '0'), 2)])
+        .join('');
+}
+
+// RFC 6238 with SHA-1, 30 second steps and 6 digits
+function totp(secret: Buffer, at: number = Date.now()): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(Math.floor(at / 30000)));
+    const hmac = crypto.createHmac('sha1', secret).update(counter).digest();
+    const offset = hmac[hmac.length - 1]! & 0x0f;
+    return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 1e6).padStart(
+        6,
+        '0',
+    );
+}
+
+describe('MfaService login gate', () => {
+    let service: MfaService;
+    let enrolled: boolean;
+    let requireMfa: boolean;
+
+    beforeAll(() => {
+        keyCustodyService.setKmsProvider(
+            new LocalKmsProvider({
+                kmsProvider: 'local',
+                masterKey: `v1:${crypto.randomBytes(32).toString('hex')}`,
+                masterKeyFile: '',
+                masterKeyVersion: 'v1',
+                rewrapIntervalMs: 0,
+            }),
+        );
+    });
+
+    beforeEach(() => {
+        service = new MfaService(CONFIG);
+        enrolled = false;
+        requireMfa = false;
+
+        jest.spyOn(TotpFactor, 'exists').mockImplementation((async () =>
+            enrolled ? { _id: new Types.ObjectId() } : null) as never);
+        jest.spyOn(App, 'findOne').mockImplementation((() => ({
+            select: () => ({ lean: async () => ({ requireMfa }) }),
+        })) as never);
+        jest.spyOn(MasterKeyVersion, 'find').mockReturnValue({
+            select: () => ({ lean: async () => [] }),
+        } as never);
+        jest.spyOn(sessionService, 'createSession').mockResolvedValue(SESSION);
+        jest.spyOn(jwtSigningService, 'sign').mockResolvedValue('mfa-token');
+        jest.spyOn(auditLogService, 'record').mockResolvedValue();
+        jest.spyOn(auditLogService, 'countRecent').mockResolvedValue(0);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('completeLogin', () => {
+        it('opens a session when no second factor is needed', async () => {
+            await expect(service.completeLogin(WALLET, {})).resolves.toEqual({
+                session: SESSION,
+            });
+        });
+
+        it('issues only a limited token to an enrolled wallet', async () => {
+            enrolled = true;
+
+            const outcome = await service.completeLogin(WALLET, {}, 2);
+
+            expect(outcome).toMatchObject({
+                mfa: { mfaToken: 'mfa-token', enrolled: true },
+            });
+            expect(sessionService.createSession).not.toHaveBeenCalled();
+            expect(jwtSigningService.sign).toHaveBeenCalledWith(
+                {
+                    address: WALLET.address,
+                    network: WALLET.network,
+                    accountIndex: 2,
+                    scope: MFA_PENDING_SCOPE,
+                },
+                {
+                    subject: WALLET._id,
+                    audience: WALLET.appId,
+                    expiresIn: '10m',
+                },
+            );
+        });
+
+        it('sends users of an app requiring MFA to enroll', async () => {
+            requireMfa = true;
+
+            const outcome = await service.completeLogin(WALLET, {});
+
+            expect(outcome).toMatchObject({ mfa: { enrolled: false } });
+            expect(sessionService.createSession).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('verifyLogin', () => {
+        const secret = crypto.randomBytes(20);
+        let lastUsedStep: number;
+
+        beforeEach(async () => {
+            lastUsedStep = 0;
+            const { encryptedPrivateKey } =
+                await keyCustodyService.sealPrivateKey(
+                    base32(secret),
+                    `${WALLET._id}:totp`,
+                );
+            const factor = {
+                _id: new Types.ObjectId(),
+                walletId: new Types.ObjectId(WALLET._id),
+                encryptedSecret: encryptedPrivateKey,
+            };
+
+            jest.spyOn(TotpFactor, 'findOne').mockReturnValue({
+                select: async () => factor,
+            } as never);
+            jest.spyOn(TotpFactor, 'updateOne').mockImplementation((async (
+                filter: { lastUsedStep: { $lt: number } },
+                update: { $set: { lastUsedStep: number } },
+            ) => {
+                if (lastUsedStep >= filter.lastUsedStep.$lt) {
+                    return { modifiedCount: 0 };
+                }
+                lastUsedStep = update.$set.lastUsedStep;
+                return { modifiedCount: 1 };
+            }) as never);
+        });
+
+        it('opens the session with a current TOTP code', async () => {
+            await expect(
+                service.verifyLogin(WALLET, { code: totp(secret) }, {}),
+            ).resolves.toBe(SESSION);
+            expect(sessionService.createSession).toHaveBeenCalledWith(
+                WALLET,
+                {},
+                0,
+            );
+        });
+
+        it('accepts each code only once', async () => {
+            const code = totp(secret);
+            await service.verifyLogin(WALLET, { code }, {});
+
+            await expect(
+                service.verifyLogin(WALLET, { code }, {}),
+            ).rejects.toThrow('Code has already been used');
+        });
+
+        it('counts a wrong code toward the lockout', async () => {
+            const wrong = totp(secret, Date.now() + 10 * 60 * 1000);
+
+            await expect(
+                service.verifyLogin(WALLET, { code: wrong }, {}),
+            ).rejects.toMatchObject({ code: 'INVALID_MFA_CODE' });
+            expect(auditLogService.record).toHaveBeenCalledWith(
+                'mfa.verify',
+                expect.objectContaining({ walletId: WALLET._id }),
+                'failure',
+                expect.objectContaining({ method: 'totp' }),
+            );
+            expect(sessionService.createSession).not.toHaveBeenCalled();
+        });
+
+        it('refuses even a correct code while locked out', async () => {
+            jest.spyOn(auditLogService, 'countRecent').mockResolvedValue(
+                CONFIG.maxFailedAttempts,
+            );
+
+            await expect(
+                service.verifyLogin(WALLET, { code: totp(secret) }, {}),
+            ).rejects.toMatchObject({ code: 'MFA_LOCKED' });
+            expect(sessionService.createSession).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,579 @@
+// src/services/mfa-service.ts
+import crypto from 'crypto';
+import { TotpFactor, ITotpFactor } from '../models/totp-models';
+import { Wallet } from '../models/wallet-models';
+import { App } from '../models/app-models';
+import { mfa_config } from '../config';
+import { MFAConfig } from '../config/types';
+import { parseDuration } from '../utils/duration';
+import keyCustodyService from './key-custody-service';
+import jwtSigningService from './jwt-signing-service';
+import sessionService, {
+    SessionContext,
+    SessionTokens,
+    SessionWallet,
+} from './session-service';
+import auditLogService, { AuditContext } from './audit-log-service';
+
+/**
+ * Scope of the limited token issued between the first and second factor.
+ * Bearer routes reject it unless they list it in their security scopes.
+ */
+export const MFA_PENDING_SCOPE = 'mfa_pending';
+
+/**
+ * Custom error class for second factor failures
+ */
+export class MfaError extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'INVALID_MFA_CODE') {
+        super(message);
+        this.name = 'MfaError';
+        this.code = code;
+    }
+}
+
+export interface TotpEnrollment {
+    secret: string; // Base32, for manual entry
+    otpauthUrl: string; // For QR codes
+}
+
+/**
+ * A login that passed its first factor but still needs the second
+ */
+export interface MfaChallenge {
+    mfaToken: string;
+    expiresAt: Date;
+    enrolled: boolean; // False when the app requires MFA the wallet has not set up
+}
+
+export type LoginOutcome = { session: SessionTokens } | { mfa: MfaChallenge };
+
+/**
+ * A TOTP code or one of the recovery codes
+ */
+export interface SecondFactor {
+    code?: string | undefined;
+    recoveryCode?: string | undefined;
+}
+
+export interface MfaStatus {
+    enrolled: boolean;
+    required: boolean;
+    recoveryCodesRemaining: number;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+/**
+ * TOTP (RFC 6238) second factor for wallets, with recovery codes.
+ *
+ * Wallets enroll optionally; apps may require it of all their users.
+ * When a wallet has TOTP or its app requires MFA, every first-factor
+ * login (OTP, magic link, social, SIWE, SEP-10, passkey) yields a
+ * short-lived token with the `mfa_pending` scope instead of a session.
+ * That token only reaches the /auth/mfa endpoints, where the user
+ * enrolls if needed and presents a code to open the session.
+ */
+export class MfaService {
+    private readonly stepSeconds: number = 30;
+    private readonly digits: number = 6;
+
+    constructor(private readonly config: MFAConfig = mfa_config) {}
+
+    /**
+     * Finish a login whose first factor passed: open a session, or issue
+     * a limited token when a second factor is needed. The account index
+     * carries through to the session either way.
+     */
+    public async completeLogin(
+        wallet: SessionWallet,
+        context: SessionContext,
+        accountIndex: number = 0,
+    ): Promise<LoginOutcome> {
+        const enrolled = await this.isEnrolled(wallet._id);
+        if (!enrolled && !(await this.appRequiresMfa(wallet.appId))) {
+            return {
+                session: await sessionService.createSession(
+                    wallet,
+                    context,
+                    accountIndex,
+                ),
+            };
+        }
+
+        const expiresAt = new Date(
+            Date.now() + parseDuration(this.config.pendingTokenExpiresIn),
+        );
+        const mfaToken = await jwtSigningService.sign(
+            {
+                address: wallet.address,
+                network: wallet.network,
+                ...(accountIndex !== 0 && { accountIndex }),
+                scope: MFA_PENDING_SCOPE,
+            },
+            {
+                subject: wallet._id,
+                audience: wallet.appId,
+                expiresIn: this.config.pendingTokenExpiresIn,
+            },
+        );
+
+        await auditLogService.record(
+            'mfa.challenged',
+            { ...context, walletId: wallet._id },
+            'success',
+            { enrolled },
+        );
+
+        return { mfa: { mfaToken, expiresAt, enrolled } };
+    }
+
+    /**
+     * Open the session for a limited token's wallet with its second factor
+     */
+    public async verifyLogin(
+        wallet: SessionWallet,
+        factor: SecondFactor,
+        context: SessionContext,
+        accountIndex: number = 0,
+    ): Promise<SessionTokens> {
+        await this.verifySecondFactor(wallet._id, factor, context);
+        return sessionService.createSession(wallet, context, accountIndex);
+    }
+
+    public async getStatus(
+        walletId: string,
+        appId: string,
+    ): Promise<MfaStatus> {
+        const factor = await TotpFactor.findOne({
+            walletId,
+            status: 'active',
+        }).select('+recoveryCodeHashes');
+
+        return {
+            enrolled: !!factor,
+            required: await this.appRequiresMfa(appId),
+            recoveryCodesRemaining: factor?.recoveryCodeHashes.length ?? 0,
+        };
+    }
+
+    /**
+     * Generate a TOTP secret for the wallet. It takes effect once a code
+     * from it is confirmed; starting again replaces an unconfirmed secret.
+     */
+    public async startEnrollment(walletId: string): Promise<TotpEnrollment> {
+        const wallet = await Wallet.findById(walletId)
+            .select('appId email phoneNumber address')
+            .lean();
+        if (!wallet) {
+            throw new MfaError('Wallet not found', 'WALLET_NOT_FOUND');
+        }
+
+        const secret = base32Encode(crypto.randomBytes(20));
+        const { encryptedPrivateKey, keyVersion } =
+            await keyCustodyService.sealPrivateKey(
+                secret,
+                this.getAad(walletId),
+            );
+
+        try {
+            await TotpFactor.findOneAndUpdate(
+                { walletId, status: 'pending' },
+                {
+                    $set: {
+                        appId: wallet.appId,
+                        encryptedSecret: encryptedPrivateKey,
+                        keyVersion,
+                        lastUsedStep: 0,
+                    },
+                },
+                { upsert: true },
+            );
+        } catch (error) {
+            // The unique wallet index blocks a second, active factor
+            if ((error as { code?: number })?.code === 11000) {
+                throw new MfaError(
+                    'TOTP is already enabled',
+                    'TOTP_ALREADY_ENABLED',
+                );
+            }
+            throw error;
+        }
+
+        const app = await App.findOne({ appId: wallet.appId })
+            .select('name')
+            .lean();
+        const issuer = app?.name || 'Crefy Connect';
+        const label = wallet.email || wallet.phoneNumber || wallet.address;
+        const params = new URLSearchParams({
+            secret,
+            issuer,
+            algorithm: 'SHA1',
+            digits: String(this.digits),
+            period: String(this.stepSeconds),
+        });
+
+        return {
+            secret,
+            otpauthUrl: `otpauth://totp/${encodeURIComponent(
+                `${issuer}:${label}`,
+            )}?${params.toString()}`,
+        };
+    }
+
+    /**
+     * Activate the pending secret with a code from the authenticator.
+     * Returns the recovery codes, which are shown only this once.
+     */
+    public async confirmEnrollment(
+        walletId: string,
+        code: string,
+        context: AuditContext,
+    ): Promise<string[]> {
+        const factor = await TotpFactor.findOne({
+            walletId,
+            status: 'pending',
+        }).select('+encryptedSecret');
+        if (!factor) {
+            throw new MfaError(
+                'Start TOTP enrollment first',
+                'TOTP_NOT_PENDING',
+            );
+        }
+
+        const recoveryCodes = this.generateRecoveryCodes();
+        await this.withAttemptLimit(walletId, 'totp', context, async () => {
+            const step = await this.matchTotp(factor, code);
+            const activated = await TotpFactor.updateOne(
+                { _id: factor._id, status: 'pending' },
+                {
+                    $set: {
+                        status: 'active',
+                        lastUsedStep: step,
+                        recoveryCodeHashes: recoveryCodes.map((recoveryCode) =>
+                            this.hashRecoveryCode(recoveryCode),
+                        ),
+                        confirmedAt: new Date(),
+                    },
+                },
+            );
+            if (activated.modifiedCount === 0) {
+                throw new MfaError(
+                    'Start TOTP enrollment first',
+                    'TOTP_NOT_PENDING',
+                );
+            }
+        });
+
+        await auditLogService.record('mfa.enrolled', context, 'success');
+        return recoveryCodes;
+    }
+
+    /**
+     * Replace the recovery codes, invalidating the old ones
+     */
+    public async regenerateRecoveryCodes(
+        walletId: string,
+        factor: SecondFactor,
+        context: AuditContext,
+    ): Promise<string[]> {
+        await this.verifySecondFactor(walletId, factor, context);
+
+        const recoveryCodes = this.generateRecoveryCodes();
+        await TotpFactor.updateOne(
+            { walletId, status: 'active' },
+            {
+                $set: {
+                    recoveryCodeHashes: recoveryCodes.map((recoveryCode) =>
+                        this.hashRecoveryCode(recoveryCode),
+                    ),
+                },
+            },
+        );
+
+        await auditLogService.record(
+            'mfa.recovery_codes_regenerated',
+            context,
+            'success',
+        );
+        return recoveryCodes;
+    }
+
+    /**
+     * Remove the wallet's TOTP factor, unless its app requires MFA
+     */
+    public async disable(
+        walletId: string,
+        appId: string,
+        factor: SecondFactor,
+        context: AuditContext,
+    ): Promise<void> {
+        if (await this.appRequiresMfa(appId)) {
+            throw new MfaError(
+                'This app requires a second factor',
+                'MFA_REQUIRED_BY_APP',
+            );
+        }
+
+        await this.verifySecondFactor(walletId, factor, context);
+        await TotpFactor.deleteOne({ walletId });
+        await auditLogService.record('mfa.disabled', context, 'success');
+    }
+
+    /**
+     * Re-wrap sealed TOTP secrets under the current master key version
+     */
+    public async rewrapSecrets(): Promise<number> {
+        const currentVersion = keyCustodyService.getCurrentKeyVersion();
+        const factors = await TotpFactor.find({
+            keyVersion: { $ne: currentVersion },
+        }).select('+encryptedSecret');
+
+        for (const factor of factors) {
+            const { encryptedPrivateKey, keyVersion } =
+                await keyCustodyService.rewrapPrivateKey(
+                    factor.encryptedSecret,
+                );
+            factor.encryptedSecret = encryptedPrivateKey;
+            factor.keyVersion = keyVersion;
+            await factor.save();
+        }
+
+        return factors.length;
+    }
+
+    /**
+     * Check a TOTP or recovery code against the wallet's active factor.
+     * Each code is accepted once.
+     */
+    private async verifySecondFactor(
+        walletId: string,
+        factor: SecondFactor,
+        context: AuditContext,
+    ): Promise<void> {
+        const method = factor.recoveryCode ? 'recovery_code' : 'totp';
+
+        await this.withAttemptLimit(walletId, method, context, async () => {
+            if (factor.recoveryCode) {
+                const consumed = await TotpFactor.findOneAndUpdate(
+                    {
+                        walletId,
+                        status: 'active',
+                        recoveryCodeHashes: this.hashRecoveryCode(
+                            factor.recoveryCode,
+                        ),
+                    },
+                    {
+                        $pull: {
+                            recoveryCodeHashes: this.hashRecoveryCode(
+                                factor.recoveryCode,
+                            ),
+                        },
+                    },
+                );
+                if (!consumed) {
+                    await this.assertEnrolled(walletId);
+                    throw new MfaError(
+                        'Invalid recovery code',
+                        'INVALID_RECOVERY_CODE',
+                    );
+                }
+                return;
+            }
+
+            const totp = await TotpFactor.findOne({
+                walletId,
+                status: 'active',
+            }).select('+encryptedSecret');
+            if (!totp) {
+                throw new MfaError('TOTP is not enabled', 'TOTP_NOT_ENABLED');
+            }
+
+            const step = await this.matchTotp(totp, factor.code);
+            const updated = await TotpFactor.updateOne(
+                { _id: totp._id, lastUsedStep: { $lt: step } },
+                { $set: { lastUsedStep: step } },
+            );
+            if (updated.modifiedCount === 0) {
+                throw new MfaError('Code has already been used');
+            }
+        });
+    }
+
+    /**
+     * Run a code check, refusing it while too many recent checks failed
+     * and counting a failure toward the limit
+     */
+    private async withAttemptLimit(
+        walletId: string,
+        method: 'totp' | 'recovery_code',
+        context: AuditContext,
+        check: () => Promise<void>,
+    ): Promise<void> {
+        const failures = await auditLogService.countRecent(
+            walletId,
+            'mfa.verify',
+            this.config.lockoutMinutes * 60 * 1000,
+            'failure',
+        );
+        if (failures >= this.config.maxFailedAttempts) {
+            throw new MfaError(
+                'Too many wrong codes. Try again later.',
+                'MFA_LOCKED',
+            );
+        }
+
+        try {
+            await check();
+        } catch (error) {
+            // Only wrong guesses count toward the lockout
+            if (
+                error instanceof MfaError &&
+                (error.code === 'INVALID_MFA_CODE' ||
+                    error.code === 'INVALID_RECOVERY_CODE')
+            ) {
+                await auditLogService.record(
+                    'mfa.verify',
+                    { ...context, walletId },
+                    'failure',
+                    { method, reason: error.message },
+                );
+            }
+            throw error;
+        }
+
+        await auditLogService.record(
+            'mfa.verify',
+            { ...context, walletId },
+            'success',
+            { method },
+        );
+    }
+
+    /**
+     * The time step a code matches, within the allowed drift
+     */
+    private async matchTotp(
+        factor: ITotpFactor,
+        code: string | undefined,
+    ): Promise<number> {
+        if (!code || !/^\d+$/.test(code) || code.length !== this.digits) {
+            throw new MfaError(`Code must be ${this.digits} digits`);
+        }
+
+        const secret = base32Decode(
+            await keyCustodyService.openPrivateKey(
+                factor.encryptedSecret,
+                this.getAad(String(factor.walletId)),
+            ),
+        );
+        const currentStep = Math.floor(Date.now() / 1000 / this.stepSeconds);
+
+        for (
+            let drift = -this.config.totpWindow;
+            drift <= this.config.totpWindow;
+            drift++
+        ) {
+            const step = currentStep + drift;
+            const expected = Buffer.from(this.generateTotp(secret, step));
+            if (crypto.timingSafeEqual(expected, Buffer.from(code))) {
+                return step;
+            }
+        }
+
+        throw new MfaError('Invalid code');
+    }
+
+    /**
+     * HOTP (RFC 4226) over the time step
+     */
+    private generateTotp(secret: Buffer, step: number): string {
+        const counter = Buffer.alloc(8);
+        counter.writeBigUInt64BE(BigInt(step));
+        const hmac = crypto.createHmac('sha1', secret).update(counter).digest();
+        const offset = hmac.readUInt8(hmac.length - 1) & 0x0f;
+        const value = hmac.readUInt32BE(offset) & 0x7fffffff;
+        return String(value % 10 ** this.digits).padStart(this.digits, '0');
+    }
+
+    private generateRecoveryCodes(): string[] {
+        return Array.from({ length: this.config.recoveryCodeCount }, () => {
+            const chars = Array.from(
+                { length: 10 },
+                () =>
+                    RECOVERY_CODE_ALPHABET[
+                        crypto.randomInt(RECOVERY_CODE_ALPHABET.length)
+                    ],
+            ).join('');
+            return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+        });
+    }
+
+    private hashRecoveryCode(recoveryCode: string): string {
+        const normalized = recoveryCode.toLowerCase().replace(/[\s-]/g, '');
+        return crypto.createHash('sha256').update(normalized).digest('hex');
+    }
+
+    private async assertEnrolled(walletId: string): Promise<void> {
+        if (!(await this.isEnrolled(walletId))) {
+            throw new MfaError('TOTP is not enabled', 'TOTP_NOT_ENABLED');
+        }
+    }
+
+    private async isEnrolled(walletId: string): Promise<boolean> {
+        return !!(await TotpFactor.exists({ walletId, status: 'active' }));
+    }
+
+    private async appRequiresMfa(appId: string): Promise<boolean> {
+        const app = await App.findOne({ appId }).select('requireMfa').lean();
+        return !!app?.requireMfa;
+    }
+
+    private getAad(walletId: string): string {
+        return `${walletId}:totp`;
+    }
+}
+
+function base32Encode(data: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of data) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index < 0) {
+            throw new MfaError('Malformed TOTP secret', 'MFA_ERROR');
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 0xff);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+// Export singleton instance
+export const mfaService = new MfaService();
+export default mfaService;
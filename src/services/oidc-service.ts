@@ -0,0 +1,633 @@
+// src/services/oidc-service.ts
+import crypto from 'crypto';
+import {
+    App,
+    IApp,
+    INACTIVE_APP_STATUSES,
+    TokenEndpointAuthMethod,
+} from '../models/app-models';
+import {
+    OAuthAuthorization,
+    IOAuthAuthorization,
+} from '../models/oauth-authorization-models';
+import { Wallet, IWalletIdentity } from '../models/wallet-models';
+import { jwt_config, oidc_config } from '../config';
+import { parseDuration } from '../utils/duration';
+import jwtSigningService from './jwt-signing-service';
+import sessionService, { SessionContext } from './session-service';
+import walletAccountService from './wallet-account-service';
+import auditLogService, { AuditContext } from './audit-log-service';
+
+export const SUPPORTED_SCOPES = ['openid', 'email', 'phone'];
+
+/**
+ * Carried by every access token of a session a third-party client opened.
+ * Bearer routes reject such tokens unless they list it in their security
+ * scopes.
+ */
+export const OPENID_SCOPE = 'openid';
+
+/**
+ * Custom error class for OAuth/OIDC failures. The code is the OAuth 2.0
+ * error code (e.g. invalid_grant) returned to the client.
+ */
+export class OidcError extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'invalid_request') {
+        super(message);
+        this.name = 'OidcError';
+        this.code = code;
+    }
+}
+
+/**
+ * Query parameters of an authorization request
+ */
+export interface AuthorizationParams {
+    responseType?: string | undefined;
+    scope?: string | undefined;
+    state?: string | undefined;
+    nonce?: string | undefined;
+    codeChallenge?: string | undefined;
+    codeChallengeMethod?: string | undefined;
+}
+
+/**
+ * Credentials presented at the token endpoint, and how they were sent
+ */
+export interface ClientCredentials {
+    clientId?: string | undefined;
+    clientSecret?: string | undefined;
+    method: TokenEndpointAuthMethod;
+}
+
+export interface CodeExchangeParams {
+    code: string;
+    redirectUri: string;
+    codeVerifier: string;
+}
+
+export interface OidcTokens {
+    accessToken: string;
+    refreshToken: string;
+    expiresIn: number; // Seconds
+    scope?: string | undefined;
+    idToken?: string | undefined;
+}
+
+/**
+ * OpenID Provider metadata
+ */
+export interface OidcDiscoveryDocument {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    userinfo_endpoint: string;
+    jwks_uri: string;
+    response_types_supported: string[];
+    grant_types_supported: string[];
+    subject_types_supported: string[];
+    id_token_signing_alg_values_supported: string[];
+    scopes_supported: string[];
+    token_endpoint_auth_methods_supported: string[];
+    code_challenge_methods_supported: string[];
+    claims_supported: string[];
+}
+
+/**
+ * The wallet that completed the hosted login
+ */
+export interface AuthorizingWallet {
+    _id: string;
+    appId: string;
+    accountIndex: number;
+}
+
+/**
+ * Identity fields released as claims, by scope
+ */
+export interface ClaimsWallet {
+    _id: string;
+    email?: string | undefined;
+    phoneNumber?: string | undefined;
+    socialType?: string | undefined;
+    identities?: IWalletIdentity[] | undefined;
+}
+
+/**
+ * OpenID Connect provider (authorization code flow with PKCE).
+ *
+ * The authorize endpoint validates the client and parks the request; the
+ * hosted login page signs the user in with the regular email or SMS OTP
+ * endpoints and completes the request with the resulting access token.
+ * The client then redeems the one-time code, proving possession of the
+ * PKCE verifier, for a session's tokens and an ID token.
+ */
+export class OidcService {
+    private readonly requestTtlMs: number = 10 * 60 * 1000;
+    private readonly codeTtlMs: number = 60 * 1000;
+    // How long a redeemed code is remembered, to catch replays
+    private readonly replayWindowMs: number = 10 * 60 * 1000;
+
+    /**
+     * Find the client and check the redirect URI is registered for it.
+     * Errors here must not redirect: the URI is not trusted yet.
+     */
+    public async resolveClient(
+        clientId: string | undefined,
+        redirectUri: string | undefined,
+    ): Promise<IApp> {
+        if (!clientId || !redirectUri) {
+            throw new OidcError('client_id and redirect_uri are required');
+        }
+
+        const app = await App.findOne({
+            appId: clientId,
+            status: { $nin: INACTIVE_APP_STATUSES },
+        });
+        if (!app) {
+            throw new OidcError('Unknown client', 'invalid_client');
+        }
+        // Exact match only: no prefix, wildcard or normalization
+        if (!app.redirectUrls.includes(redirectUri)) {
+            throw new OidcError(
+                'redirect_uri is not registered for this client',
+            );
+        }
+
+        return app;
+    }
+
+    /**
+     * Validate and store an authorization request for the hosted login
+     */
+    public async createAuthorizationRequest(
+        app: IApp,
+        redirectUri: string,
+        params: AuthorizationParams,
+    ): Promise<IOAuthAuthorization> {
+        if (params.responseType !== 'code') {
+            throw new OidcError(
+                'Only the authorization code flow is supported',
+                'unsupported_response_type',
+            );
+        }
+
+        const scopes = (params.scope || '').split(' ').filter(Boolean);
+        if (!scopes.includes(OPENID_SCOPE)) {
+            throw new OidcError(
+                'The openid scope is required',
+                'invalid_scope',
+            );
+        }
+
+        if (!params.codeChallenge) {
+            throw new OidcError('code_challenge is required (PKCE)');
+        }
+        if (params.codeChallengeMethod !== 'S256') {
+            throw new OidcError('code_challenge_method must be S256');
+        }
+        if (!/^[A-Za-z0-9_-]{43}$/.test(params.codeChallenge)) {
+            throw new OidcError('code_challenge is not a valid S256 challenge');
+        }
+
+        return OAuthAuthorization.create({
+            requestId: crypto.randomBytes(24).toString('base64url'),
+            clientId: app.appId,
+            redirectUri,
+            // Unknown scopes are dropped rather than refused
+            scope: scopes
+                .filter((scope) => SUPPORTED_SCOPES.includes(scope))
+                .join(' '),
+            state: params.state,
+            nonce: params.nonce,
+            codeChallenge: params.codeChallenge,
+            codeChallengeMethod: 'S256',
+            expiresAt: new Date(Date.now() + this.requestTtlMs),
+        });
+    }
+
+    /**
+     * A pending authorization request and its client, for the login page
+     */
+    public async getAuthorizationRequest(
+        requestId: string,
+    ): Promise<{ authorization: IOAuthAuthorization; app: IApp }> {
+        const authorization = await OAuthAuthorization.findOne({
+            requestId,
+            status: 'pending',
+            expiresAt: { $gt: new Date() },
+        });
+        const app =
+            authorization &&
+            (await App.findOne({
+                appId: authorization.clientId,
+                status: { $nin: INACTIVE_APP_STATUSES },
+            }));
+        if (!authorization || !app) {
+            throw new OidcError(
+                'Authorization request not found or expired',
+                'REQUEST_NOT_FOUND',
+            );
+        }
+        return { authorization, app };
+    }
+
+    /**
+     * Complete a request for the logged-in wallet. Returns the URL to send
+     * the browser back to, carrying the one-time code.
+     */
+    public async authorize(
+        requestId: string,
+        wallet: AuthorizingWallet,
+        context: AuditContext,
+    ): Promise<string> {
+        const code = crypto.randomBytes(32).toString('base64url');
+        const now = new Date();
+
+        const authorization = await OAuthAuthorization.findOneAndUpdate(
+            {
+                requestId,
+                clientId: wallet.appId,
+                status: 'pending',
+                expiresAt: { $gt: now },
+            },
+            {
+                $set: {
+                    status: 'authorized',
+                    walletId: wallet._id,
+                    accountIndex: wallet.accountIndex,
+                    codeHash: this.hash(code),
+                    authTime: now,
+                    expiresAt: new Date(now.getTime() + this.codeTtlMs),
+                },
+            },
+            { new: true },
+        );
+        if (!authorization) {
+            throw new OidcError(
+                'Authorization request not found or expired',
+                'REQUEST_NOT_FOUND',
+            );
+        }
+
+        await auditLogService.record('oidc.authorize', context, 'success', {
+            clientId: authorization.clientId,
+            scope: authorization.scope,
+        });
+
+        return this.buildRedirect(authorization.redirectUri, {
+            code,
+            state: authorization.state,
+        });
+    }
+
+    /**
+     * Authenticate a client at the token endpoint with the method it is
+     * registered for. Only public clients (`none`) may omit the secret;
+     * PKCE protects their codes, and a secret they send is still checked.
+     */
+    public async authenticateClient(
+        credentials: ClientCredentials,
+    ): Promise<IApp> {
+        const { clientId, clientSecret, method } = credentials;
+        const app = clientId
+            ? await App.findOne({
+                  appId: clientId,
+                  status: { $nin: INACTIVE_APP_STATUSES },
+              }).select('+clientSecret +clientSecretHash')
+            : null;
+        if (!app) {
+            throw new OidcError('Unknown client', 'invalid_client');
+        }
+
+        const registered = app.tokenEndpointAuthMethod ?? 'client_secret_basic';
+        if (registered !== 'none' && method !== registered) {
+            throw new OidcError(
+                `Client must authenticate with ${registered}`,
+                'invalid_client',
+            );
+        }
+        if (
+            clientSecret !== undefined &&
+            !app.verifyClientSecret(clientSecret)
+        ) {
+            throw new OidcError(
+                'Client authentication failed',
+                'invalid_client',
+            );
+        }
+        return app;
+    }
+
+    /**
+     * Redeem an authorization code for tokens
+     */
+    public async exchangeCode(
+        app: IApp,
+        params: CodeExchangeParams,
+        context: SessionContext,
+    ): Promise<OidcTokens> {
+        const codeHash = this.hash(params.code);
+
+        // Codes are single use: consume before checking anything else
+        const authorization = await OAuthAuthorization.findOneAndUpdate(
+            { codeHash, status: 'authorized' },
+            {
+                $set: {
+                    status: 'exchanged',
+                    expiresAt: new Date(Date.now() + this.replayWindowMs),
+                },
+            },
+        );
+
+        if (!authorization) {
+            await this.handleCodeReplay(codeHash, context);
+            throw new OidcError(
+                'Authorization code is invalid, expired or already used',
+                'invalid_grant',
+            );
+        }
+
+        if (
+            authorization.expiresAt < new Date() ||
+            authorization.clientId !== app.appId ||
+            authorization.redirectUri !== params.redirectUri ||
+            !this.verifyCodeChallenge(
+                params.codeVerifier,
+                authorization.codeChallenge,
+            )
+        ) {
+            await auditLogService.record(
+                'oidc.token',
+                { ...context, walletId: authorization.walletId?.toString() },
+                'failure',
+                { clientId: app.appId },
+            );
+            throw new OidcError(
+                'Authorization code is invalid, expired or already used',
+                'invalid_grant',
+            );
+        }
+
+        const wallet = await Wallet.findOne({
+            _id: authorization.walletId,
+            appId: app.appId,
+            isActive: true,
+        }).lean();
+        const account =
+            wallet &&
+            walletAccountService.resolveAccount(
+                wallet,
+                authorization.accountIndex ?? 0,
+            );
+        if (!wallet || !account || account.hidden) {
+            throw new OidcError(
+                'The wallet is no longer available',
+                'invalid_grant',
+            );
+        }
+
+        const walletId = wallet._id.toString();
+        const session = await sessionService.createSession(
+            {
+                _id: walletId,
+                appId: app.appId,
+                address: wallet.address,
+                network: wallet.network,
+            },
+            { ...context, walletId },
+            account.index,
+            authorization.scope,
+        );
+        await OAuthAuthorization.updateOne(
+            { _id: authorization._id },
+            { $set: { sessionId: session.sessionId } },
+        );
+
+        const idToken = await jwtSigningService.signIdToken(
+            {
+                ...this.getClaims(
+                    { ...wallet, _id: walletId },
+                    authorization.scope,
+                ),
+                wallet_address: account.address,
+                network: wallet.network,
+                ...(authorization.nonce && { nonce: authorization.nonce }),
+                ...(authorization.authTime && {
+                    auth_time: Math.floor(
+                        authorization.authTime.getTime() / 1000,
+                    ),
+                }),
+            },
+            { subject: walletId, audience: app.appId },
+        );
+
+        await auditLogService.record(
+            'oidc.token',
+            { ...context, walletId },
+            'success',
+            { clientId: app.appId, scope: authorization.scope },
+        );
+
+        return {
+            accessToken: session.accessToken,
+            refreshToken: session.refreshToken,
+            expiresIn: this.getAccessTokenLifetime(),
+            scope: authorization.scope,
+            idToken,
+        };
+    }
+
+    /**
+     * Refresh grant, backed by the session's rotating refresh token
+     */
+    public async refresh(
+        app: IApp,
+        refreshToken: string,
+        context: SessionContext,
+    ): Promise<OidcTokens> {
+        const session = await sessionService.refresh(
+            refreshToken,
+            app.appId,
+            context,
+        );
+
+        return {
+            accessToken: session.accessToken,
+            refreshToken: session.refreshToken,
+            expiresIn: this.getAccessTokenLifetime(),
+        };
+    }
+
+    /**
+     * Standard claims released for the granted scopes. Tokens from
+     * first-party logins carry no scope and see every claim.
+     */
+    public getClaims(
+        wallet: ClaimsWallet,
+        scope: string | undefined,
+    ): Record<string, unknown> {
+        const scopes = (scope ?? SUPPORTED_SCOPES.join(' ')).split(' ');
+
+        const email = scopes.includes('email')
+            ? this.getContact(wallet, 'email')
+            : undefined;
+        const phone = scopes.includes('phone')
+            ? this.getContact(wallet, 'sms')
+            : undefined;
+
+        return {
+            sub: wallet._id,
+            ...(email && {
+                email: email.value,
+                email_verified: email.verified,
+            }),
+            ...(phone && {
+                phone_number: phone.value,
+                phone_number_verified: phone.verified,
+            }),
+        };
+    }
+
+    /**
+     * OpenID Provider metadata for `/.well-known/openid-configuration`
+     */
+    public getDiscoveryDocument(): OidcDiscoveryDocument {
+        const issuer = oidc_config.issuer;
+
+        return {
+            issuer,
+            authorization_endpoint: `${issuer}/oauth/authorize`,
+            token_endpoint: `${issuer}/oauth/token`,
+            userinfo_endpoint: `${issuer}/oauth/userinfo`,
+            jwks_uri: `${issuer}/.well-known/jwks.json`,
+            response_types_supported: ['code'],
+            grant_types_supported: ['authorization_code', 'refresh_token'],
+            subject_types_supported: ['public'],
+            id_token_signing_alg_values_supported: ['RS256', 'EdDSA'],
+            scopes_supported: SUPPORTED_SCOPES,
+            token_endpoint_auth_methods_supported: [
+                'client_secret_basic',
+                'client_secret_post',
+                'none',
+            ],
+            code_challenge_methods_supported: ['S256'],
+            claims_supported: [
+                'sub',
+                'iss',
+                'aud',
+                'exp',
+                'iat',
+                'auth_time',
+                'nonce',
+                'email',
+                'email_verified',
+                'phone_number',
+                'phone_number_verified',
+                'wallet_address',
+                'network',
+            ],
+        };
+    }
+
+    /**
+     * Append OAuth response parameters to a redirect URI
+     */
+    public buildRedirect(
+        redirectUri: string,
+        params: Record<string, string | undefined>,
+    ): string {
+        const url = new URL(redirectUri);
+        for (const [name, value] of Object.entries(params)) {
+            if (value !== undefined) {
+                url.searchParams.set(name, value);
+            }
+        }
+        return url.toString();
+    }
+
+    /**
+     * The email or phone number claimed for a wallet: its primary linked
+     * one, else the one it was created with. Linked ones were verified by
+     * OTP when they were linked.
+     */
+    private getContact(
+        wallet: ClaimsWallet,
+        type: 'email' | 'sms',
+    ): { value: string; verified: boolean } | undefined {
+        if (wallet.identities?.length) {
+            const linked = wallet.identities.filter(
+                (identity) => identity.type === type,
+            );
+            const identity =
+                linked.find((candidate) => candidate.primary) || linked[0];
+            return identity && { value: identity.value, verified: true };
+        }
+
+        const value = type === 'email' ? wallet.email : wallet.phoneNumber;
+        return value
+            ? { value, verified: wallet.socialType === type }
+            : undefined;
+    }
+
+    /**
+     * A redeemed code presented again means it leaked; revoke the
+     * session it was exchanged for (RFC 6749 section 4.1.2)
+     */
+    private async handleCodeReplay(
+        codeHash: string,
+        context: AuditContext,
+    ): Promise<void> {
+        const replayed = await OAuthAuthorization.findOne({
+            codeHash,
+            status: 'exchanged',
+        });
+        if (!replayed?.walletId || !replayed.sessionId) {
+            return;
+        }
+
+        const walletId = replayed.walletId.toString();
+        await sessionService
+            .revokeSession(
+                walletId,
+                replayed.sessionId.toString(),
+                'authorization_code_reuse',
+                { ...context, walletId },
+            )
+            .catch(() => undefined); // Already revoked
+        await auditLogService.record(
+            'oidc.code_reused',
+            { ...context, walletId },
+            'failure',
+            { clientId: replayed.clientId },
+        );
+    }
+
+    private verifyCodeChallenge(verifier: string, challenge: string): boolean {
+        if (!/^[A-Za-z0-9._~-]{43,128}$/.test(verifier)) {
+            return false;
+        }
+        const computed = Buffer.from(
+            crypto.createHash('sha256').update(verifier).digest('base64url'),
+        );
+        const expected = Buffer.from(challenge);
+        return (
+            computed.length === expected.length &&
+            crypto.timingSafeEqual(computed, expected)
+        );
+    }
+
+    private getAccessTokenLifetime(): number {
+        return Math.floor(parseDuration(jwt_config.expiresIn) / 1000);
+    }
+
+    private hash(value: string): string {
+        return crypto.createHash('sha256').update(value).digest('hex');
+    }
+}
+
+// Export singleton instance
+export const oidcService = new OidcService();
+export default oidcService;
@@ -0,0 +1,174 @@
+import { OtpCode, OtpSend } from '../models/otp-models';
+import emailService from '../config/email-config';
+import { OtpService, OtpTarget } from './otp-service';
+
+interface StoredCode {
+    _id: string;
+    codeHash: string;
+    attempts: number;
+    expiresAt: Date;
+}
+
+type CodeKey = Pick<OtpTarget, 'purpose' | 'appId' | 'identifier'> & {
+    walletId: string | null;
+};
+
+const TARGET: OtpTarget = {
+    purpose: 'login',
+    appId: 'a'.repeat(64),
+    identifier: 'ada@example.com',
+};
+
+const CONFIG = {
+    length: 6,
+    ttlMinutes: 10,
+    maxAttempts: 3,
+    resendIntervalSeconds: 60,
+    sendWindowMinutes: 60,
+    maxSendsPerIdentifier: 5,
+    maxSendsPerIp: 20,
+};
+
+describe('OtpService', () => {
+    let service: OtpService;
+    let codes: Map<string, StoredCode>;
+    let sends: { createdAt: Date }[];
+    let delivered: string[];
+
+    const keyOf = (key: CodeKey) =>
+        [key.purpose, key.appId, key.identifier, key.walletId].join('|');
+
+    beforeEach(() => {
+        service = new OtpService(CONFIG);
+        codes = new Map();
+        sends = [];
+        delivered = [];
+
+        // In-memory stand-ins for the code and send collections
+        jest.spyOn(OtpCode, 'findOneAndUpdate').mockImplementation(((
+            filter: CodeKey & { attempts?: { $lt: number } },
+            update: Partial<StoredCode> & { $inc?: object },
+        ) => {
+            const id = keyOf(filter);
+            const stored = codes.get(id);
+            if (!update.$inc) {
+                codes.set(id, { ...(update as StoredCode), _id: id });
+                return Promise.resolve(null);
+            }
+            if (
+                !stored ||
+                stored.expiresAt <= new Date() ||
+                stored.attempts >= filter.attempts!.$lt
+            ) {
+                return Promise.resolve(null);
+            }
+            stored.attempts += 1;
+            return Promise.resolve({ ...stored });
+        }) as never);
+        jest.spyOn(OtpCode, 'findOne').mockImplementation(((key: CodeKey) => ({
+            lean: async () => codes.get(keyOf(key)) ?? null,
+        })) as never);
+        jest.spyOn(OtpCode, 'deleteOne').mockImplementation((async ({
+            _id,
+        }: {
+            _id: string;
+        }) => codes.delete(_id)) as never);
+
+        jest.spyOn(OtpSend, 'findOne').mockImplementation((() => ({
+            sort: () => ({ lean: async () => sends[sends.length - 1] ?? null }),
+        })) as never);
+        jest.spyOn(OtpSend, 'countDocuments').mockImplementation(
+            (async () => sends.length) as never,
+        );
+        jest.spyOn(OtpSend, 'create').mockImplementation((async () =>
+            sends.push({ createdAt: new Date() })) as never);
+
+        jest.spyOn(emailService, 'sendOTP').mockImplementation(
+            async (_email, { otp }) => {
+                delivered.push(otp);
+                return true;
+            },
+        );
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('stores only a hash of the code it delivers', async () => {
+        await service.send(TARGET, 'email');
+
+        const [code] = delivered;
+        expect(code).toMatch(/^\d{6}$/);
+        const stored = [...codes.values()][0]!;
+        expect(stored.codeHash).toMatch(/^[0-9a-f]{64}$/);
+        expect(stored.codeHash).not.toContain(code);
+    });
+
+    it('accepts the delivered code once', async () => {
+        await service.send(TARGET, 'email');
+
+        await expect(service.verify(TARGET, delivered[0]!)).resolves.toBe(
+            undefined,
+        );
+        await expect(
+            service.verify(TARGET, delivered[0]!),
+        ).rejects.toMatchObject({ code: 'OTP_REQUIRED' });
+    });
+
+    it('only verifies a code against the target it was sent for', async () => {
+        await service.send(TARGET, 'email');
+
+        await expect(
+            service.verify(
+                { ...TARGET, purpose: 'wallet_export' },
+                delivered[0]!,
+            ),
+        ).rejects.toMatchObject({ code: 'OTP_REQUIRED' });
+    });
+
+    it('locks the code after too many wrong guesses', async () => {
+        await service.send(TARGET, 'email');
+        const wrong = delivered[0] === '000000' ? '000001' : '000000';
+
+        for (let attempt = 0; attempt < CONFIG.maxAttempts; attempt++) {
+            await expect(service.verify(TARGET, wrong)).rejects.toMatchObject({
+                code: 'INVALID_OTP',
+            });
+        }
+
+        // Even the right code is refused once the guesses are used up
+        await expect(
+            service.verify(TARGET, delivered[0]!),
+        ).rejects.toMatchObject({ code: 'OTP_LOCKED' });
+    });
+
+    it('refuses an expired code', async () => {
+        await service.send(TARGET, 'email');
+        [...codes.values()][0]!.expiresAt = new Date(Date.now() - 1000);
+
+        await expect(
+            service.verify(TARGET, delivered[0]!),
+        ).rejects.toMatchObject({ code: 'OTP_EXPIRED' });
+    });
+
+    it('throttles resends to the same recipient', async () => {
+        await service.send(TARGET, 'email');
+
+        await expect(service.send(TARGET, 'email')).rejects.toMatchObject({
+            code: 'RESEND_TOO_SOON',
+        });
+        expect(delivered).toHaveLength(1);
+    });
+
+    it('rate limits sends within the window', async () => {
+        sends = Array.from({ length: CONFIG.maxSendsPerIdentifier }, () => ({
+            createdAt: new Date(Date.now() - 10 * 60 * 1000),
+        }));
+
+        await expect(service.send(TARGET, 'email')).rejects.toMatchObject({
+            code: 'RATE_LIMITED',
+        });
+        expect(delivered).toHaveLength(0);
+    });
+});
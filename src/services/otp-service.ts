@@ -0,0 +1,243 @@
+// src/services/otp-service.ts
+import crypto from 'crypto';
+import { OtpCode, OtpSend } from '../models/otp-models';
+import { otp_config } from '../config';
+import { OTPConfig } from '../config/types';
+import emailService from '../config/email-config';
+import smsService from '../config/sms-config';
+
+/**
+ * Custom error class for OTP failures
+ */
+export class OtpError extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'INVALID_OTP') {
+        super(message);
+        this.name = 'OtpError';
+        this.code = code;
+    }
+}
+
+export type OtpChannel = 'email' | 'sms';
+
+/**
+ * What a code is for and who it was sent to. A code only verifies
+ * against the same target it was issued for.
+ */
+export interface OtpTarget {
+    purpose: string; // 'login', 'wallet_export', 'identity_link'
+    appId: string;
+    identifier: string; // Normalized email or phone number
+    walletId?: string;
+}
+
+/**
+ * One-time codes sent by email or SMS.
+ *
+ * Codes come from a CSPRNG and are stored hashed, one pending code per
+ * target. Each code allows a fixed number of guesses before it is locked,
+ * and is deleted once it verifies. Sends are throttled per recipient and
+ * per client IP.
+ */
+export class OtpService {
+    constructor(private readonly config: OTPConfig = otp_config) {}
+
+    /**
+     * Issue a new code for the target and deliver it, replacing any
+     * pending one
+     */
+    public async send(
+        target: OtpTarget,
+        channel: OtpChannel,
+        ipAddress?: string,
+    ): Promise<{ expiresAt: Date }> {
+        await this.recordSend(target.appId, target.identifier, ipAddress);
+
+        const code = crypto
+            .randomInt(0, 10 ** this.config.length)
+            .toString()
+            .padStart(this.config.length, '0');
+        const expiresAt = new Date(
+            Date.now() + this.config.ttlMinutes * 60 * 1000,
+        );
+
+        await OtpCode.findOneAndUpdate(
+            this.codeKey(target),
+            {
+                codeHash: this.hashCode(target, code),
+                attempts: 0,
+                expiresAt,
+            },
+            { upsert: true },
+        );
+
+        await this.deliver(channel, target.identifier, code);
+        return { expiresAt };
+    }
+
+    /**
+     * Check a code against the target's pending one. Every check counts
+     * as an attempt; a correct code is consumed.
+     */
+    public async verify(target: OtpTarget, code: string): Promise<void> {
+        const key = this.codeKey(target);
+        const pending = await OtpCode.findOneAndUpdate(
+            {
+                ...key,
+                expiresAt: { $gt: new Date() },
+                attempts: { $lt: this.config.maxAttempts },
+            },
+            { $inc: { attempts: 1 } },
+            { new: true },
+        );
+
+        if (!pending) {
+            const existing = await OtpCode.findOne(key).lean();
+            if (!existing) {
+                throw new OtpError('Request a code first', 'OTP_REQUIRED');
+            }
+            if (existing.expiresAt <= new Date()) {
+                throw new OtpError('OTP expired', 'OTP_EXPIRED');
+            }
+            throw new OtpError(
+                'Too many incorrect attempts, request a new code',
+                'OTP_LOCKED',
+            );
+        }
+
+        const expected = Buffer.from(pending.codeHash, 'hex');
+        const provided = Buffer.from(
+            this.hashCode(target, String(code ?? '')),
+            'hex',
+        );
+        if (!crypto.timingSafeEqual(expected, provided)) {
+            throw new OtpError('Invalid OTP', 'INVALID_OTP');
+        }
+
+        await OtpCode.deleteOne({ _id: pending._id });
+    }
+
+    /**
+     * Count a message to a recipient against the resend interval and the
+     * per-recipient and per-IP limits. Also used for magic links, so both
+     * kinds of login message share one budget.
+     */
+    public async recordSend(
+        appId: string,
+        identifier: string,
+        ipAddress?: string,
+    ): Promise<void> {
+        const recipient = { appId, identifier };
+
+        const last = await OtpSend.findOne(recipient)
+            .sort({ createdAt: -1 })
+            .lean();
+        const resendAfter = last
+            ? last.createdAt.getTime() +
+              this.config.resendIntervalSeconds * 1000
+            : 0;
+        if (resendAfter > Date.now()) {
+            throw new OtpError(
+                `Wait ${Math.ceil((resendAfter - Date.now()) / 1000)} seconds before requesting another code`,
+                'RESEND_TOO_SOON',
+            );
+        }
+
+        const since = new Date(
+            Date.now() - this.config.sendWindowMinutes * 60 * 1000,
+        );
+        const sentToRecipient = await OtpSend.countDocuments({
+            ...recipient,
+            createdAt: { $gt: since },
+        });
+        const sentToIp = ipAddress
+            ? await OtpSend.countDocuments({
+                  ipAddress,
+                  createdAt: { $gt: since },
+              })
+            : 0;
+        if (
+            sentToRecipient >= this.config.maxSendsPerIdentifier ||
+            sentToIp >= this.config.maxSendsPerIp
+        ) {
+            throw new OtpError(
+                'Too many codes requested, try again later',
+                'RATE_LIMITED',
+            );
+        }
+
+        await OtpSend.create({
+            ...recipient,
+            ipAddress,
+            expiresAt: new Date(
+                Date.now() + this.config.sendWindowMinutes * 60 * 1000,
+            ),
+        });
+    }
+
+    private async deliver(
+        channel: OtpChannel,
+        identifier: string,
+        code: string,
+    ): Promise<void> {
+        if (channel === 'email') {
+            const sent = await emailService.sendOTP(identifier, {
+                name: 'User',
+                otp: code,
+                expiryMinutes: this.config.ttlMinutes,
+            });
+            if (!sent) {
+                throw new OtpError(
+                    'Failed to send OTP email',
+                    'OTP_SEND_FAILED',
+                );
+            }
+            return;
+        }
+
+        const result = await smsService.sendOTP(
+            identifier,
+            code,
+            this.config.ttlMinutes,
+        );
+        if (!result.success) {
+            throw new OtpError(
+                `Failed to send OTP SMS: ${result.error}`,
+                'OTP_SEND_FAILED',
+            );
+        }
+    }
+
+    private codeKey(target: OtpTarget) {
+        return {
+            purpose: target.purpose,
+            appId: target.appId,
+            identifier: target.identifier,
+            walletId: target.walletId ?? null,
+        };
+    }
+
+    /**
+     * Codes are hashed together with their target, so a stored hash
+     * only matches the purpose and recipient it was sent for
+     */
+    private hashCode(target: OtpTarget, code: string): string {
+        return crypto
+            .createHash('sha256')
+            .update(
+                [
+                    target.purpose,
+                    target.appId,
+                    target.identifier,
+                    target.walletId ?? '',
+                    code,
+                ].join(':'),
+            )
+            .digest('hex');
+    }
+}
+
+// Export singleton instance
+export const otpService = new OtpService();
+export default otpService;
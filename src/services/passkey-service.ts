@@ -0,0 +1,710 @@
+// src/services/passkey-service.ts
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { Passkey, IPasskey } from '../models/passkey-models';
+import { Challenge } from '../models/challenge-models';
+import { Wallet, IWallet } from '../models/wallet-models';
+import { App } from '../models/app-models';
+import { webauthn_config } from '../config';
+import { WebAuthnConfig } from '../config/types';
+import { decodeCbor, CborValue } from '../utils/cbor';
+import sessionService, { SessionContext } from './session-service';
+import mfaService, { LoginOutcome } from './mfa-service';
+import auditLogService, { AuditContext } from './audit-log-service';
+
+/**
+ * Custom error class for passkey failures
+ */
+export class PasskeyError extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'INVALID_CREDENTIAL') {
+        super(message);
+        this.name = 'PasskeyError';
+        this.code = code;
+    }
+}
+
+type Ceremony = 'register' | 'login' | 'step_up';
+
+const CHALLENGE_PURPOSES: Record<Ceremony, string> = {
+    register: 'webauthn_register',
+    login: 'webauthn_login',
+    step_up: 'webauthn_step_up',
+};
+
+// COSE algorithms offered, in order of preference: ES256, EdDSA, RS256
+const SUPPORTED_ALGORITHMS = [-7, -8, -257];
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+/**
+ * A credential descriptor, as passed to navigator.credentials
+ */
+export interface PasskeyDescriptor {
+    type: 'public-key';
+    id: string; // base64url
+    transports?: string[];
+}
+
+/**
+ * PublicKeyCredentialCreationOptions with binary fields base64url-encoded
+ */
+export interface PasskeyRegistrationOptions {
+    rp: { id: string; name: string };
+    user: { id: string; name: string; displayName: string };
+    challenge: string;
+    pubKeyCredParams: { type: 'public-key'; alg: number }[];
+    timeout: number;
+    attestation: 'none';
+    excludeCredentials: PasskeyDescriptor[];
+    authenticatorSelection: {
+        residentKey: 'required';
+        userVerification: 'required';
+    };
+}
+
+/**
+ * PublicKeyCredentialRequestOptions with binary fields base64url-encoded
+ */
+export interface PasskeyAssertionOptions {
+    rpId: string;
+    challenge: string;
+    timeout: number;
+    userVerification: 'required';
+    allowCredentials: PasskeyDescriptor[];
+}
+
+/**
+ * A PublicKeyCredential from navigator.credentials.create(), binary
+ * fields base64url-encoded
+ */
+export interface PasskeyRegistrationCredential {
+    id: string;
+    type: string;
+    response: {
+        clientDataJSON: string;
+        attestationObject: string;
+        transports?: string[];
+    };
+}
+
+/**
+ * A PublicKeyCredential from navigator.credentials.get(), binary fields
+ * base64url-encoded
+ */
+export interface PasskeyAssertionCredential {
+    id: string;
+    type: string;
+    response: {
+        clientDataJSON: string;
+        authenticatorData: string;
+        signature: string;
+        userHandle?: string;
+    };
+}
+
+interface AuthenticatorData {
+    rpIdHash: Buffer;
+    flags: number;
+    signCount: number;
+    credentialId?: Buffer;
+    credentialPublicKey?: Map<CborValue, CborValue>;
+}
+
+/**
+ * WebAuthn passkeys for wallet users.
+ *
+ * A logged-in wallet registers passkeys, which then log it in without a
+ * code (as discoverable credentials) and serve as its step-up factor:
+ * a fresh assertion marks the session, and routes declaring
+ * requireStepUp accept it for a few minutes. Attestation is not
+ * requested; a passkey is trusted because a logged-in user added it.
+ */
+export class PasskeyService {
+    constructor(private readonly config: WebAuthnConfig = webauthn_config) {}
+
+    /**
+     * Options for registering a new passkey on the wallet
+     */
+    public async registrationOptions(
+        walletId: string,
+    ): Promise<PasskeyRegistrationOptions> {
+        const wallet = await this.loadWallet(walletId);
+        const existing = await Passkey.find({ walletId });
+        const challenge = await this.createChallenge(
+            'register',
+            wallet.appId,
+            walletId,
+        );
+        const label = wallet.email || wallet.phoneNumber || wallet.address;
+
+        return {
+            rp: { id: this.config.rpId, name: this.config.rpName },
+            user: {
+                id: this.userHandle(walletId),
+                name: label,
+                displayName: label,
+            },
+            challenge,
+            pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({
+                type: 'public-key' as const,
+                alg,
+            })),
+            timeout: this.config.timeoutMs,
+            attestation: 'none',
+            excludeCredentials: existing.map((passkey) =>
+                this.toDescriptor(passkey),
+            ),
+            authenticatorSelection: {
+                residentKey: 'required',
+                userVerification: 'required',
+            },
+        };
+    }
+
+    /**
+     * Verify a new credential and store it for the wallet
+     */
+    public async register(
+        walletId: string,
+        credential: PasskeyRegistrationCredential,
+        name: string | undefined,
+        context: AuditContext,
+    ): Promise<IPasskey> {
+        const wallet = await this.loadWallet(walletId);
+        await this.verifyClientData(
+            credential.response.clientDataJSON,
+            'register',
+            wallet.appId,
+            walletId,
+        );
+
+        const attestation = decodeCbor(
+            this.decode(credential.response.attestationObject),
+        ).value;
+        const authData =
+            attestation instanceof Map ? attestation.get('authData') : null;
+        if (!Buffer.isBuffer(authData)) {
+            throw new PasskeyError(
+                'Attestation object has no authenticator data',
+            );
+        }
+
+        const parsed = this.parseAuthenticatorData(authData);
+        if (!parsed.credentialId || !parsed.credentialPublicKey) {
+            throw new PasskeyError('No credential was attested');
+        }
+        if (parsed.credentialId.toString('base64url') !== credential.id) {
+            throw new PasskeyError('Credential ID does not match');
+        }
+
+        const { publicKey, algorithm } = this.coseToPublicKey(
+            parsed.credentialPublicKey,
+        );
+
+        try {
+            const passkey = await Passkey.create({
+                walletId,
+                appId: wallet.appId,
+                credentialId: credential.id,
+                publicKey: publicKey
+                    .export({ type: 'spki', format: 'der' })
+                    .toString('base64url'),
+                algorithm,
+                signCount: parsed.signCount,
+                transports: credential.response.transports || [],
+                name,
+            });
+
+            await auditLogService.record(
+                'passkey.registered',
+                context,
+                'success',
+                { passkeyId: String(passkey._id) },
+            );
+
+            return passkey;
+        } catch (error) {
+            if ((error as { code?: number })?.code === 11000) {
+                throw new PasskeyError(
+                    'This passkey is already registered',
+                    'PASSKEY_EXISTS',
+                );
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Options for logging in with any passkey of the app's users
+     */
+    public async loginOptions(appId: string): Promise<PasskeyAssertionOptions> {
+        return this.assertionOptions(
+            await this.createChallenge('login', appId),
+            [],
+        );
+    }
+
+    /**
+     * Log in with a passkey assertion, opening a session or issuing a
+     * limited token when a second factor is needed
+     */
+    public async login(
+        appId: string,
+        credential: PasskeyAssertionCredential,
+        context: SessionContext,
+    ): Promise<{ wallet: IWallet; login: LoginOutcome }> {
+        try {
+            const passkey = await this.verifyAssertion(
+                credential,
+                'login',
+                appId,
+            );
+
+            const wallet = await this.loadWallet(String(passkey.walletId));
+            if (!wallet.isActive) {
+                throw new PasskeyError(
+                    'Wallet is not active',
+                    'WALLET_INACTIVE',
+                );
+            }
+
+            const walletId = String(wallet._id);
+            const login = await mfaService.completeLogin(
+                {
+                    _id: walletId,
+                    appId,
+                    address: wallet.address,
+                    network: wallet.network,
+                },
+                { ...context, walletId },
+            );
+
+            await auditLogService.record(
+                'passkey.login',
+                { ...context, walletId },
+                'success',
+                { passkeyId: String(passkey._id) },
+            );
+
+            return { wallet, login };
+        } catch (error) {
+            await auditLogService.record('passkey.login', context, 'failure', {
+                reason: error instanceof Error ? error.message : 'Unknown',
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Options for a step-up assertion with one of the wallet's passkeys
+     */
+    public async stepUpOptions(
+        walletId: string,
+    ): Promise<PasskeyAssertionOptions> {
+        const wallet = await this.loadWallet(walletId);
+        const passkeys = await Passkey.find({ walletId });
+        if (passkeys.length === 0) {
+            throw new PasskeyError('Register a passkey first', 'NO_PASSKEYS');
+        }
+
+        return this.assertionOptions(
+            await this.createChallenge('step_up', wallet.appId, walletId),
+            passkeys.map((passkey) => this.toDescriptor(passkey)),
+        );
+    }
+
+    /**
+     * Verify a step-up assertion and mark the session with it
+     */
+    public async stepUp(
+        walletId: string,
+        sessionId: string | undefined,
+        credential: PasskeyAssertionCredential,
+        context: AuditContext,
+    ): Promise<Date> {
+        if (!sessionId) {
+            throw new PasskeyError(
+                'Step-up needs a session access token',
+                'SESSION_REQUIRED',
+            );
+        }
+
+        const wallet = await this.loadWallet(walletId);
+        try {
+            const passkey = await this.verifyAssertion(
+                credential,
+                'step_up',
+                wallet.appId,
+                walletId,
+            );
+            await sessionService.recordStepUp(sessionId);
+            await auditLogService.record(
+                'passkey.step_up',
+                context,
+                'success',
+                {
+                    passkeyId: String(passkey._id),
+                },
+            );
+        } catch (error) {
+            await auditLogService.record(
+                'passkey.step_up',
+                context,
+                'failure',
+                {
+                    reason: error instanceof Error ? error.message : 'Unknown',
+                },
+            );
+            throw error;
+        }
+
+        return new Date(Date.now() + this.stepUpTtlMs);
+    }
+
+    /**
+     * How long a step-up satisfies requireStepUp
+     */
+    public get stepUpTtlMs(): number {
+        return this.config.stepUpTtlMinutes * 60 * 1000;
+    }
+
+    /**
+     * Whether the wallet has any passkeys, and so must step up with one
+     */
+    public async hasPasskeys(walletId: string): Promise<boolean> {
+        return !!(await Passkey.exists({ walletId }));
+    }
+
+    /**
+     * The wallet's passkeys, newest first
+     */
+    public async listPasskeys(walletId: string): Promise<IPasskey[]> {
+        return Passkey.find({ walletId }).sort({ createdAt: -1 });
+    }
+
+    public async removePasskey(
+        walletId: string,
+        passkeyId: string,
+        context: AuditContext,
+    ): Promise<void> {
+        const passkey = Types.ObjectId.isValid(passkeyId)
+            ? await Passkey.findOneAndDelete({ _id: passkeyId, walletId })
+            : null;
+        if (!passkey) {
+            throw new PasskeyError('Passkey not found', 'PASSKEY_NOT_FOUND');
+        }
+
+        await auditLogService.record('passkey.removed', context, 'success', {
+            passkeyId,
+        });
+    }
+
+    private assertionOptions(
+        challenge: string,
+        allowCredentials: PasskeyDescriptor[],
+    ): PasskeyAssertionOptions {
+        return {
+            rpId: this.config.rpId,
+            challenge,
+            timeout: this.config.timeoutMs,
+            userVerification: 'required',
+            allowCredentials,
+        };
+    }
+
+    /**
+     * Check an assertion against a stored passkey and advance its
+     * signature counter
+     */
+    private async verifyAssertion(
+        credential: PasskeyAssertionCredential,
+        ceremony: Ceremony,
+        appId: string,
+        walletId?: string,
+    ): Promise<IPasskey> {
+        const clientDataHash = await this.verifyClientData(
+            credential.response.clientDataJSON,
+            ceremony,
+            appId,
+            walletId,
+        );
+
+        const passkey = await Passkey.findOne({
+            credentialId: credential.id,
+            appId,
+            ...(walletId && { walletId }),
+        });
+        if (!passkey) {
+            throw new PasskeyError(
+                'Passkey is not registered',
+                'PASSKEY_NOT_FOUND',
+            );
+        }
+
+        const userHandle = credential.response.userHandle;
+        if (
+            userHandle &&
+            userHandle !== this.userHandle(String(passkey.walletId))
+        ) {
+            throw new PasskeyError('User handle does not match the passkey');
+        }
+
+        const authData = this.decode(credential.response.authenticatorData);
+        const parsed = this.parseAuthenticatorData(authData);
+
+        const publicKey = crypto.createPublicKey({
+            key: Buffer.from(passkey.publicKey, 'base64url'),
+            format: 'der',
+            type: 'spki',
+        });
+        const valid = crypto.verify(
+            passkey.algorithm === -8 ? null : 'sha256',
+            Buffer.concat([authData, clientDataHash]),
+            publicKey,
+            this.decode(credential.response.signature),
+        );
+        if (!valid) {
+            throw new PasskeyError('Invalid passkey signature');
+        }
+
+        // Counters only move forward; a step back suggests a cloned key
+        if (
+            (parsed.signCount > 0 || passkey.signCount > 0) &&
+            parsed.signCount <= passkey.signCount
+        ) {
+            throw new PasskeyError(
+                'Passkey signature counter did not increase',
+                'COUNTER_ERROR',
+            );
+        }
+
+        const updated = await Passkey.updateOne(
+            { _id: passkey._id, signCount: passkey.signCount },
+            { $set: { signCount: parsed.signCount, lastUsedAt: new Date() } },
+        );
+        if (updated.matchedCount === 0) {
+            throw new PasskeyError(
+                'Passkey was used concurrently, try again',
+                'COUNTER_ERROR',
+            );
+        }
+
+        return passkey;
+    }
+
+    /**
+     * Check the type, origin and challenge the browser signed over, and
+     * consume the challenge. Returns the hash the authenticator signed.
+     */
+    private async verifyClientData(
+        encoded: string,
+        ceremony: Ceremony,
+        appId: string,
+        walletId?: string,
+    ): Promise<Buffer> {
+        const raw = this.decode(encoded);
+        let clientData: { type?: string; challenge?: string; origin?: string };
+        try {
+            clientData = JSON.parse(raw.toString('utf-8'));
+        } catch {
+            throw new PasskeyError('Client data is not valid JSON');
+        }
+
+        const expectedType =
+            ceremony === 'register' ? 'webauthn.create' : 'webauthn.get';
+        if (clientData.type !== expectedType) {
+            throw new PasskeyError(`Client data type must be ${expectedType}`);
+        }
+
+        const origins = await this.getAllowedOrigins(appId);
+        if (!clientData.origin || !origins.includes(clientData.origin)) {
+            throw new PasskeyError(
+                `Origin ${clientData.origin} is not allowed for this app`,
+                'ORIGIN_MISMATCH',
+            );
+        }
+
+        // Checked before the lookup so a query object can't match the nonce
+        const challenge =
+            typeof clientData.challenge === 'string'
+                ? await Challenge.findOneAndDelete({
+                      purpose: CHALLENGE_PURPOSES[ceremony],
+                      appId,
+                      nonce: clientData.challenge,
+                      expiresAt: { $gt: new Date() },
+                      ...(walletId && { walletId }),
+                  })
+                : null;
+        if (!challenge) {
+            throw new PasskeyError(
+                'Challenge is invalid, expired or already used',
+                'INVALID_CHALLENGE',
+            );
+        }
+
+        return crypto.createHash('sha256').update(raw).digest();
+    }
+
+    private parseAuthenticatorData(data: Buffer): AuthenticatorData {
+        if (data.length < 37) {
+            throw new PasskeyError('Authenticator data is too short');
+        }
+
+        const parsed: AuthenticatorData = {
+            rpIdHash: data.subarray(0, 32),
+            flags: data.readUInt8(32),
+            signCount: data.readUInt32BE(33),
+        };
+
+        const expectedHash = crypto
+            .createHash('sha256')
+            .update(this.config.rpId)
+            .digest();
+        if (!parsed.rpIdHash.equals(expectedHash)) {
+            throw new PasskeyError(
+                'Passkey was created for another relying party',
+                'RP_MISMATCH',
+            );
+        }
+        if (!(parsed.flags & FLAG_USER_PRESENT)) {
+            throw new PasskeyError('User presence was not confirmed');
+        }
+        if (!(parsed.flags & FLAG_USER_VERIFIED)) {
+            throw new PasskeyError('User verification is required');
+        }
+
+        if (parsed.flags & FLAG_ATTESTED_CREDENTIAL) {
+            // AAGUID (16 bytes), ID length (2), ID, then the COSE key
+            const idLength = data.readUInt16BE(53);
+            parsed.credentialId = data.subarray(55, 55 + idLength);
+            const key = decodeCbor(data.subarray(55 + idLength)).value;
+            if (!(key instanceof Map)) {
+                throw new PasskeyError('Credential public key is malformed');
+            }
+            parsed.credentialPublicKey = key;
+        }
+
+        return parsed;
+    }
+
+    /**
+     * Convert a COSE_Key (RFC 9053) to a Node public key
+     */
+    private coseToPublicKey(cose: Map<CborValue, CborValue>): {
+        publicKey: crypto.KeyObject;
+        algorithm: number;
+    } {
+        const kty = cose.get(1);
+        const algorithm = cose.get(3);
+        const b64 = (label: number) => {
+            const value = cose.get(label);
+            if (!Buffer.isBuffer(value)) {
+                throw new PasskeyError('Credential public key is malformed');
+            }
+            return value.toString('base64url');
+        };
+
+        let jwk: crypto.JsonWebKey;
+        if (kty === 2 && algorithm === -7 && cose.get(-1) === 1) {
+            jwk = { kty: 'EC', crv: 'P-256', x: b64(-2), y: b64(-3) };
+        } else if (kty === 1 && algorithm === -8 && cose.get(-1) === 6) {
+            jwk = { kty: 'OKP', crv: 'Ed25519', x: b64(-2) };
+        } else if (kty === 3 && algorithm === -257) {
+            jwk = { kty: 'RSA', n: b64(-1), e: b64(-2) };
+        } else {
+            throw new PasskeyError(
+                `Unsupported passkey algorithm: ${String(algorithm)}`,
+                'UNSUPPORTED_ALGORITHM',
+            );
+        }
+
+        return {
+            publicKey: crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+            algorithm,
+        };
+    }
+
+    /**
+     * Origins that may run ceremonies for an app: the configured ones and
+     * the app's redirect URL origins on the relying party's domain
+     */
+    private async getAllowedOrigins(appId: string): Promise<string[]> {
+        const app = await App.findOne({ appId }).select('redirectUrls').lean();
+        const rpId = this.config.rpId;
+
+        const appOrigins = (app?.redirectUrls || [])
+            .map((url) => new URL(url))
+            .filter(
+                (url) =>
+                    url.hostname === rpId || url.hostname.endsWith(`.${rpId}`),
+            )
+            .map((url) => url.origin);
+
+        return [...this.config.origins, ...appOrigins];
+    }
+
+    /**
+     * WebAuthn challenges are scoped to the relying party, not a chain
+     * address
+     */
+    private async createChallenge(
+        ceremony: Ceremony,
+        appId: string,
+        walletId?: string,
+    ): Promise<string> {
+        const nonce = crypto.randomBytes(32).toString('base64url');
+        await Challenge.create({
+            purpose: CHALLENGE_PURPOSES[ceremony],
+            appId,
+            walletId,
+            network: 'webauthn',
+            address: this.config.rpId,
+            nonce,
+            expiresAt: new Date(Date.now() + this.config.timeoutMs),
+        });
+        return nonce;
+    }
+
+    private toDescriptor(passkey: IPasskey): PasskeyDescriptor {
+        return {
+            type: 'public-key',
+            id: passkey.credentialId,
+            ...(passkey.transports.length && {
+                transports: passkey.transports,
+            }),
+        };
+    }
+
+    /**
+     * The WebAuthn user handle of a wallet: its ObjectId bytes
+     */
+    private userHandle(walletId: string): string {
+        return Buffer.from(walletId, 'hex').toString('base64url');
+    }
+
+    private decode(value: string): Buffer {
+        if (typeof value !== 'string') {
+            throw new PasskeyError(
+                'Credential fields must be base64url strings',
+            );
+        }
+        return Buffer.from(value, 'base64url');
+    }
+
+    private async loadWallet(walletId: string): Promise<IWallet> {
+        const wallet = await Wallet.findById(walletId);
+        if (!wallet) {
+            throw new PasskeyError('Wallet not found', 'WALLET_NOT_FOUND');
+        }
+        return wallet;
+    }
+}
+
+// Export singleton instance
+export const passkeyService = new PasskeyService();
+export default passkeyService;
@@ -0,0 +1,93 @@
+// src/services/password-policy-service.ts
+import crypto from 'crypto';
+import { password_config } from '../config';
+import { PasswordConfig } from '../config/types';
+
+/**
+ * Custom error class for passwords the policy rejects
+ */
+export class PasswordPolicyError extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'WEAK_PASSWORD') {
+        super(message);
+        this.name = 'PasswordPolicyError';
+        this.code = code;
+    }
+}
+
+/**
+ * Rules for new passwords: a length range, and not appearing in known
+ * breaches. The breach check sends only the first five hex characters
+ * of the password's SHA-1 (k-anonymity) and is skipped when the service
+ * can't be reached, so signups don't depend on it.
+ */
+export class PasswordPolicyService {
+    constructor(private readonly config: PasswordConfig = password_config) {}
+
+    public async check(password: string): Promise<void> {
+        if (
+            typeof password !== 'string' ||
+            password.length < this.config.minLength
+        ) {
+            throw new PasswordPolicyError(
+                `Password must be at least ${this.config.minLength} characters`,
+            );
+        }
+        if (password.length > this.config.maxLength) {
+            throw new PasswordPolicyError(
+                `Password must be at most ${this.config.maxLength} characters`,
+            );
+        }
+
+        if (await this.isBreached(password)) {
+            throw new PasswordPolicyError(
+                'This password has appeared in a data breach. Choose another.',
+                'PASSWORD_BREACHED',
+            );
+        }
+    }
+
+    private async isBreached(password: string): Promise<boolean> {
+        if (!this.config.breachCheckUrl) {
+            return false;
+        }
+
+        const digest = crypto
+            .createHash('sha1')
+            .update(password)
+            .digest('hex')
+            .toUpperCase();
+        const prefix = digest.slice(0, 5);
+        const suffix = digest.slice(5);
+
+        try {
+            const response = await fetch(
+                `${this.config.breachCheckUrl}/${prefix}`,
+                {
+                    // Padded responses hide the match count from observers
+                    headers: { 'Add-Padding': 'true' },
+                    signal: AbortSignal.timeout(
+                        this.config.breachCheckTimeoutMs,
+                    ),
+                },
+            );
+            if (!response.ok) {
+                throw new Error(`status ${response.status}`);
+            }
+
+            // Lines are SUFFIX:COUNT; padding entries have a count of 0
+            return (await response.text()).split('\n').some((line) => {
+                const [candidate, count] = line.trim().split(':');
+                return candidate === suffix && Number(count) > 0;
+            });
+        } catch {
+            // Fail open so an outage of the breach API doesn't block sign-ups
+            return false;
+        }
+    }
+}
+
+// Export singleton instance
+export const passwordPolicyService = new PasswordPolicyService();
+export default passwordPolicyService;
@@ -0,0 +1,183 @@
+import { Keypair, Networks, Transaction } from '@stellar/stellar-sdk';
+import { Challenge } from '../models/challenge-models';
+import { Wallet } from '../models/wallet-models';
+import { Sep10Service } from './sep10-service';
+import mfaService from './mfa-service';
+import auditLogService from './audit-log-service';
+
+const APP_ID = 'a'.repeat(64);
+const SESSION = {
+    sessionId: '665f1c2e8b3a4d0012345678',
+    accessToken: 'access-token',
+    refreshToken: 'refresh-token',
+    refreshTokenExpiresAt: new Date('2030-01-01T00:00:00.000Z'),
+};
+
+interface StoredChallenge {
+    appId: string;
+    address: string;
+    nonce: string;
+    expiresAt: Date;
+}
+
+function sign(transaction: string, ...signers: Keypair[]): string {
+    const tx = new Transaction(transaction, Networks.TESTNET);
+    signers.forEach((signer) => tx.sign(signer));
+    return tx.toXDR();
+}
+
+describe('Sep10Service', () => {
+    const serverKeypair = Keypair.random();
+    let service: Sep10Service;
+    let challenges: StoredChallenge[];
+
+    beforeEach(() => {
+        service = new Sep10Service({
+            signingKey: serverKeypair.secret(),
+            networkPassphrase: Networks.TESTNET,
+            homeDomains: ['auth.example.com'],
+            webAuthDomain: 'auth.example.com',
+            challengeTimeout: 300,
+        });
+
+        // Single-use challenge store standing in for the collection
+        challenges = [];
+        jest.spyOn(Challenge, 'create').mockImplementation((async (
+            doc: StoredChallenge,
+        ) => {
+            challenges.push(doc);
+            return doc;
+        }) as never);
+        jest.spyOn(Challenge, 'findOneAndDelete').mockImplementation(((
+            filter: StoredChallenge,
+        ) => {
+            const index = challenges.findIndex(
+                (challenge) =>
+                    challenge.appId === filter.appId &&
+                    challenge.nonce === filter.nonce &&
+                    challenge.address === filter.address &&
+                    challenge.expiresAt > new Date(),
+            );
+            return Promise.resolve(
+                index === -1 ? null : challenges.splice(index, 1)[0],
+            );
+        }) as never);
+
+        jest.spyOn(Wallet, 'findOne').mockResolvedValue(null);
+        jest.spyOn(Wallet, 'create').mockImplementation(
+            (async (doc: object) => new Wallet(doc)) as never,
+        );
+        jest.spyOn(mfaService, 'completeLogin').mockResolvedValue({
+            session: SESSION,
+        });
+        jest.spyOn(auditLogService, 'record').mockResolvedValue();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('logs in an account that signed its challenge', async () => {
+        const client = Keypair.random();
+        const challenge = await service.createChallenge(
+            APP_ID,
+            client.publicKey(),
+        );
+        expect(challenge.networkPassphrase).toBe(Networks.TESTNET);
+
+        const result = await service.verify(
+            APP_ID,
+            sign(challenge.transaction, client),
+            {},
+        );
+
+        expect(result.created).toBe(true);
+        expect(result.login).toEqual({ session: SESSION });
+        expect(result.wallet.address).toBe(client.publicKey());
+        expect(result.wallet.custodial).toBe(false);
+    });
+
+    it('accepts each challenge only once', async () => {
+        const client = Keypair.random();
+        const { transaction } = await service.createChallenge(
+            APP_ID,
+            client.publicKey(),
+        );
+        const signed = sign(transaction, client);
+
+        await service.verify(APP_ID, signed, {});
+
+        await expect(service.verify(APP_ID, signed, {})).rejects.toMatchObject({
+            code: 'CHALLENGE_NOT_FOUND',
+        });
+    });
+
+    it('rejects a challenge redeemed for another app', async () => {
+        const client = Keypair.random();
+        const { transaction } = await service.createChallenge(
+            APP_ID,
+            client.publicKey(),
+        );
+
+        await expect(
+            service.verify('b'.repeat(64), sign(transaction, client), {}),
+        ).rejects.toMatchObject({ code: 'CHALLENGE_NOT_FOUND' });
+    });
+
+    it('rejects a challenge the account did not sign', async () => {
+        const client = Keypair.random();
+        const { transaction } = await service.createChallenge(
+            APP_ID,
+            client.publicKey(),
+        );
+
+        await expect(
+            service.verify(APP_ID, sign(transaction, Keypair.random()), {}),
+        ).rejects.toMatchObject({ code: 'INVALID_CHALLENGE' });
+        expect(mfaService.completeLogin).not.toHaveBeenCalled();
+    });
+
+    it('rejects a challenge built by another server', async () => {
+        const client = Keypair.random();
+        const impostor = new Sep10Service({
+            signingKey: Keypair.random().secret(),
+            networkPassphrase: Networks.TESTNET,
+            homeDomains: ['auth.example.com'],
+            webAuthDomain: 'auth.example.com',
+            challengeTimeout: 300,
+        });
+        const { transaction } = await impostor.createChallenge(
+            APP_ID,
+            client.publicKey(),
+        );
+
+        await expect(
+            service.verify(APP_ID, sign(transaction, client), {}),
+        ).rejects.toMatchObject({ code: 'INVALID_CHALLENGE' });
+    });
+
+    it('refuses home domains it does not serve', async () => {
+        await expect(
+            service.createChallenge(
+                APP_ID,
+                Keypair.random().publicKey(),
+                'evil.example.com',
+            ),
+        ).rejects.toMatchObject({ code: 'INVALID_HOME_DOMAIN' });
+    });
+
+    it('is disabled without a signing key', async () => {
+        const disabled = new Sep10Service({
+            signingKey: '',
+            networkPassphrase: Networks.TESTNET,
+            homeDomains: ['auth.example.com'],
+            webAuthDomain: 'auth.example.com',
+            challengeTimeout: 300,
+        });
+
+        expect(disabled.isEnabled()).toBe(false);
+        await expect(
+            disabled.createChallenge(APP_ID, Keypair.random().publicKey()),
+        ).rejects.toMatchObject({ code: 'SEP10_DISABLED' });
+    });
+});
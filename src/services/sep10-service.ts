@@ -0,0 +1,304 @@
+// src/services/sep10-service.ts
+import {
+    Keypair,
+    StrKey,
+    Transaction,
+    TransactionBuilder,
+    WebAuth,
+} from '@stellar/stellar-sdk';
+import { Challenge } from '../models/challenge-models';
+import { Wallet, IWallet, identityFilter } from '../models/wallet-models';
+import { oidc_config, sep10_config } from '../config';
+import { SEP10Config } from '../config/types';
+import { SessionContext } from './session-service';
+import mfaService, { LoginOutcome } from './mfa-service';
+import auditLogService from './audit-log-service';
+import { BlockchainNetwork } from './wallet-service';
+
+const CHALLENGE_PURPOSE = 'sep10';
+
+/**
+ * Custom error class for SEP-10 web authentication failures
+ */
+export class Sep10Error extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'INVALID_CHALLENGE') {
+        super(message);
+        this.name = 'Sep10Error';
+        this.code = code;
+    }
+}
+
+export interface Sep10Challenge {
+    transaction: string; // Base64 XDR
+    networkPassphrase: string;
+}
+
+export interface Sep10LoginResult {
+    wallet: IWallet;
+    login: LoginOutcome;
+    created: boolean;
+}
+
+/**
+ * Stellar Web Authentication (SEP-10).
+ *
+ * The server builds a challenge transaction for the client account, signed
+ * with the server signing key, and the client signs it back. Only the
+ * account's master key is accepted as the client signature, so no Horizon
+ * lookup is needed. Every challenge is recorded by transaction hash and can
+ * be redeemed once. A valid signature logs the account into a
+ * non-custodial Stellar wallet, created on first sign-in.
+ */
+export class Sep10Service {
+    private serverKeypair?: Keypair;
+
+    constructor(private readonly config: SEP10Config = sep10_config) {}
+
+    public isEnabled(): boolean {
+        return !!this.config.signingKey;
+    }
+
+    /**
+     * The public half of the signing key, as published in stellar.toml
+     */
+    public getSigningKey(): string {
+        return this.getServerKeypair().publicKey();
+    }
+
+    /**
+     * Build a challenge transaction for a Stellar account
+     */
+    public async createChallenge(
+        appId: string,
+        account: string,
+        homeDomain?: string,
+    ): Promise<Sep10Challenge> {
+        const serverKeypair = this.getServerKeypair();
+
+        if (!StrKey.isValidEd25519PublicKey(account)) {
+            throw new Sep10Error(
+                'account must be a Stellar account ID (G...)',
+                'INVALID_ACCOUNT',
+            );
+        }
+
+        const domain = homeDomain || this.config.homeDomains[0]!;
+        if (!this.config.homeDomains.includes(domain)) {
+            throw new Sep10Error(
+                `home_domain ${domain} is not served here`,
+                'INVALID_HOME_DOMAIN',
+            );
+        }
+
+        const transaction = WebAuth.buildChallengeTx(
+            serverKeypair,
+            account,
+            domain,
+            this.config.challengeTimeout,
+            this.config.networkPassphrase,
+            this.config.webAuthDomain,
+        );
+
+        await Challenge.create({
+            purpose: CHALLENGE_PURPOSE,
+            appId,
+            network: BlockchainNetwork.STELLAR,
+            address: account,
+            nonce: this.hashOf(transaction),
+            expiresAt: new Date(
+                Date.now() + this.config.challengeTimeout * 1000,
+            ),
+        });
+
+        return {
+            transaction,
+            networkPassphrase: this.config.networkPassphrase,
+        };
+    }
+
+    /**
+     * Verify a challenge signed by the client and open a session, or
+     * issue a limited token when a second factor is needed
+     */
+    public async verify(
+        appId: string,
+        transaction: string,
+        context: SessionContext,
+    ): Promise<Sep10LoginResult> {
+        try {
+            const account = await this.verifyChallenge(appId, transaction);
+            const { wallet, created } = await this.findOrCreateWallet(
+                appId,
+                account,
+            );
+
+            if (!wallet.isActive) {
+                throw new Sep10Error('Wallet is not active', 'WALLET_INACTIVE');
+            }
+
+            const walletId = String(wallet._id);
+            const login = await mfaService.completeLogin(
+                {
+                    _id: walletId,
+                    appId,
+                    address: wallet.address,
+                    network: wallet.network,
+                },
+                { ...context, walletId },
+            );
+
+            await auditLogService.record(
+                'sep10.login',
+                { ...context, walletId },
+                'success',
+                { created },
+            );
+
+            return { wallet, login, created };
+        } catch (error) {
+            await auditLogService.record('sep10.login', context, 'failure', {
+                reason: error instanceof Error ? error.message : 'Unknown',
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * stellar.toml advertising the SEP-10 endpoint and signing key
+     */
+    public getStellarToml(): string {
+        return [
+            `NETWORK_PASSPHRASE="${this.config.networkPassphrase}"`,
+            `WEB_AUTH_ENDPOINT="${oidc_config.issuer}/auth/sep10"`,
+            `SIGNING_KEY="${this.getSigningKey()}"`,
+            '',
+        ].join('\n');
+    }
+
+    /**
+     * Check the server and client signatures, then consume the challenge.
+     * Returns the client account ID.
+     */
+    private async verifyChallenge(
+        appId: string,
+        transaction: string,
+    ): Promise<string> {
+        const serverAccountId = this.getSigningKey();
+        let account: string;
+
+        try {
+            ({ clientAccountID: account } = WebAuth.readChallengeTx(
+                transaction,
+                serverAccountId,
+                this.config.networkPassphrase,
+                this.config.homeDomains,
+                this.config.webAuthDomain,
+            ));
+            WebAuth.verifyChallengeTxSigners(
+                transaction,
+                serverAccountId,
+                this.config.networkPassphrase,
+                [account],
+                this.config.homeDomains,
+                this.config.webAuthDomain,
+            );
+        } catch (error) {
+            throw new Sep10Error(
+                error instanceof Error ? error.message : 'Invalid challenge',
+            );
+        }
+
+        const challenge = await Challenge.findOneAndDelete({
+            purpose: CHALLENGE_PURPOSE,
+            appId,
+            nonce: this.hashOf(transaction),
+            address: account,
+            expiresAt: { $gt: new Date() },
+        });
+        if (!challenge) {
+            throw new Sep10Error(
+                'Challenge is unknown, expired or already used',
+                'CHALLENGE_NOT_FOUND',
+            );
+        }
+
+        return account;
+    }
+
+    private async findOrCreateWallet(
+        appId: string,
+        account: string,
+    ): Promise<{ wallet: IWallet; created: boolean }> {
+        const filter = {
+            appId,
+            network: BlockchainNetwork.STELLAR,
+            ...identityFilter('sep10', account),
+        };
+        const existing = await Wallet.findOne(filter);
+        if (existing) {
+            return { wallet: existing, created: false };
+        }
+
+        try {
+            const wallet = await Wallet.create({
+                appId,
+                socialType: 'sep10',
+                address: account,
+                publicKey: account,
+                custodial: false,
+                userData: JSON.stringify({
+                    address: account,
+                    network: BlockchainNetwork.STELLAR,
+                }),
+                isActive: true,
+                network: BlockchainNetwork.STELLAR,
+            });
+            return { wallet, created: true };
+        } catch (error) {
+            // A concurrent first sign-in created it
+            const wallet =
+                (error as { code?: number })?.code === 11000
+                    ? await Wallet.findOne(filter)
+                    : null;
+            if (!wallet) {
+                throw error;
+            }
+            return { wallet, created: false };
+        }
+    }
+
+    /**
+     * Transaction hash (signatures excluded), which identifies a challenge
+     * however many times it is signed
+     */
+    private hashOf(transaction: string): string {
+        try {
+            const tx = TransactionBuilder.fromXDR(
+                transaction,
+                this.config.networkPassphrase,
+            ) as Transaction;
+            return tx.hash().toString('hex');
+        } catch {
+            throw new Sep10Error('Transaction is not valid XDR');
+        }
+    }
+
+    private getServerKeypair(): Keypair {
+        if (!this.isEnabled()) {
+            throw new Sep10Error(
+                'SEP-10 authentication is not configured',
+                'SEP10_DISABLED',
+            );
+        }
+        if (!this.serverKeypair) {
+            this.serverKeypair = Keypair.fromSecret(this.config.signingKey);
+        }
+        return this.serverKeypair;
+    }
+}
+
+// Export singleton instance
+export const sep10Service = new Sep10Service();
+export default sep10Service;
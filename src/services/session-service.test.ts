@@ -0,0 +1,195 @@
+import { Types } from 'mongoose';
+import { Session } from '../models/session-models';
+import { Wallet } from '../models/wallet-models';
+import jwtSigningService from './jwt-signing-service';
+import auditLogService from './audit-log-service';
+import { SessionService } from './session-service';
+
+interface StoredSession {
+    _id: Types.ObjectId;
+    appId: string;
+    walletId: string;
+    accountIndex: number;
+    refreshTokenHash: string;
+    previousRefreshTokenHashes: string[];
+    expiresAt: Date;
+    revokedAt?: Date;
+    revokedReason?: string;
+}
+
+const WALLET = {
+    _id: new Types.ObjectId().toString(),
+    appId: 'a'.repeat(64),
+    address: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+    network: 'evm',
+};
+
+function copy(session: StoredSession): StoredSession {
+    return {
+        ...session,
+        previousRefreshTokenHashes: [...session.previousRefreshTokenHashes],
+    };
+}
+
+describe('SessionService refresh tokens', () => {
+    let service: SessionService;
+    let sessions: Map<string, StoredSession>;
+
+    beforeEach(() => {
+        service = new SessionService();
+        sessions = new Map();
+
+        // In-memory stand-in for the session collection
+        jest.spyOn(Session, 'create').mockImplementation((async (
+            doc: Omit<StoredSession, '_id' | 'previousRefreshTokenHashes'>,
+        ) => {
+            const session = {
+                ...doc,
+                _id: new Types.ObjectId(),
+                previousRefreshTokenHashes: [],
+            };
+            sessions.set(session._id.toString(), session);
+            return session;
+        }) as never);
+        jest.spyOn(Session, 'findOne').mockImplementation(((filter: {
+            _id: string;
+            appId: string;
+        }) => ({
+            select: async () => {
+                const session = sessions.get(String(filter._id));
+                return session?.appId === filter.appId ? copy(session) : null;
+            },
+        })) as never);
+        jest.spyOn(Session, 'findOneAndUpdate').mockImplementation((async (
+            filter: { _id: Types.ObjectId; refreshTokenHash: string },
+            update: {
+                $set: { refreshTokenHash: string };
+                $push: { previousRefreshTokenHashes: { $each: string[] } };
+            },
+        ) => {
+            const session = sessions.get(filter._id.toString());
+            if (
+                !session ||
+                session.revokedAt ||
+                session.refreshTokenHash !== filter.refreshTokenHash
+            ) {
+                return null;
+            }
+            session.refreshTokenHash = update.$set.refreshTokenHash;
+            session.previousRefreshTokenHashes.push(
+                ...update.$push.previousRefreshTokenHashes.$each,
+            );
+            return copy(session);
+        }) as never);
+        jest.spyOn(Session, 'updateOne').mockImplementation((async (
+            filter: { _id: Types.ObjectId },
+            update: { $set: { revokedAt: Date; revokedReason: string } },
+        ) => {
+            const session = sessions.get(filter._id.toString());
+            if (session && !session.revokedAt) {
+                Object.assign(session, update.$set);
+            }
+        }) as never);
+
+        jest.spyOn(Wallet, 'findById').mockReturnValue({
+            select: () => ({
+                lean: async () => ({
+                    ...WALLET,
+                    _id: new Types.ObjectId(WALLET._id),
+                    isActive: true,
+                }),
+            }),
+        } as never);
+        jest.spyOn(jwtSigningService, 'sign').mockResolvedValue('access-token');
+        jest.spyOn(auditLogService, 'record').mockResolvedValue();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('rotates the refresh token on every use', async () => {
+        const first = await service.createSession(WALLET, {});
+
+        const second = await service.refresh(
+            first.refreshToken,
+            WALLET.appId,
+            {},
+        );
+
+        expect(second.sessionId).toBe(first.sessionId);
+        expect(second.refreshToken).not.toBe(first.refreshToken);
+        await expect(
+            service.refresh(second.refreshToken, WALLET.appId, {}),
+        ).resolves.toMatchObject({ sessionId: first.sessionId });
+    });
+
+    it('stores only a hash of the refresh token', async () => {
+        const { sessionId, refreshToken } = await service.createSession(
+            WALLET,
+            {},
+        );
+
+        const secret = refreshToken.split('.')[1]!;
+        expect(sessions.get(sessionId)!.refreshTokenHash).not.toContain(secret);
+    });
+
+    it('revokes the session when a rotated-out token is replayed', async () => {
+        const first = await service.createSession(WALLET, {});
+        const second = await service.refresh(
+            first.refreshToken,
+            WALLET.appId,
+            {},
+        );
+
+        await expect(
+            service.refresh(first.refreshToken, WALLET.appId, {}),
+        ).rejects.toMatchObject({ code: 'REFRESH_TOKEN_REUSED' });
+        expect(sessions.get(first.sessionId)).toMatchObject({
+            revokedReason: 'refresh_token_reuse',
+        });
+        expect(auditLogService.record).toHaveBeenCalledWith(
+            'session.refresh_token_reused',
+            expect.anything(),
+            'failure',
+            { sessionId: first.sessionId },
+        );
+
+        // The legitimate holder's current token is dead too
+        await expect(
+            service.refresh(second.refreshToken, WALLET.appId, {}),
+        ).rejects.toMatchObject({ code: 'SESSION_REVOKED' });
+    });
+
+    it('revokes the session when two requests race with one token', async () => {
+        const { refreshToken, sessionId } = await service.createSession(
+            WALLET,
+            {},
+        );
+
+        const results = await Promise.allSettled([
+            service.refresh(refreshToken, WALLET.appId, {}),
+            service.refresh(refreshToken, WALLET.appId, {}),
+        ]);
+
+        expect(results.map((result) => result.status).sort()).toEqual([
+            'fulfilled',
+            'rejected',
+        ]);
+        expect(sessions.get(sessionId)!.revokedAt).toBeDefined();
+    });
+
+    it('rejects a token for another app', async () => {
+        const { refreshToken } = await service.createSession(WALLET, {});
+
+        await expect(
+            service.refresh(refreshToken, 'b'.repeat(64), {}),
+        ).rejects.toMatchObject({ code: 'SESSION_REVOKED' });
+    });
+
+    it('rejects a malformed token', async () => {
+        await expect(
+            service.refresh('not-a-token', WALLET.appId, {}),
+        ).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+    });
+});
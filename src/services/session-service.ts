@@ -0,0 +1,382 @@
+// src/services/session-service.ts
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { Session, ISession } from '../models/session-models';
+import { Wallet } from '../models/wallet-models';
+import { jwt_config } from '../config';
+import { generateJWT } from '../utils/auth';
+import { parseDuration } from '../utils/duration';
+import auditLogService, { AuditContext } from './audit-log-service';
+
+/**
+ * Custom error class for session failures
+ */
+export class SessionError extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'SESSION_ERROR') {
+        super(message);
+        this.name = 'SessionError';
+        this.code = code;
+    }
+}
+
+/**
+ * The wallet a session is opened for
+ */
+export interface SessionWallet {
+    _id: string;
+    appId: string;
+    address: string; // Primary address
+    network: string;
+}
+
+export interface SessionTokens {
+    sessionId: string;
+    accessToken: string;
+    refreshToken: string;
+    refreshTokenExpiresAt: Date;
+}
+
+/**
+ * Device details recorded on a session
+ */
+export interface SessionContext extends AuditContext {
+    deviceName?: string | undefined;
+}
+
+/**
+ * Login sessions for wallet users.
+ *
+ * Each login opens a session and returns a short-lived access token
+ * (JWT carrying the session id as `sid`) and an opaque refresh token
+ * `<sessionId>.<secret>`. Only a hash of the secret is stored. Refresh
+ * tokens rotate on every use; presenting a rotated-out token is treated
+ * as theft and revokes the whole session.
+ */
+export class SessionService {
+    private readonly refreshTokenBytes: number = 32;
+    private readonly maxPreviousTokens: number = 20;
+
+    /**
+     * Open a session and issue its first token pair. `scope` is set for
+     * sessions a third-party client opened through OIDC and is carried
+     * by every access token of the session.
+     */
+    public async createSession(
+        wallet: SessionWallet,
+        context: SessionContext,
+        accountIndex: number = 0,
+        scope?: string,
+    ): Promise<SessionTokens> {
+        const secret = this.generateSecret();
+        const refreshTokenExpiresAt = new Date(
+            Date.now() + parseDuration(jwt_config.refreshExpiresIn),
+        );
+
+        const session = await Session.create({
+            walletId: wallet._id,
+            appId: wallet.appId,
+            accountIndex,
+            scope,
+            refreshTokenHash: this.hashSecret(secret),
+            deviceName: context.deviceName,
+            userAgent: context.userAgent,
+            ipAddress: context.ipAddress,
+            expiresAt: refreshTokenExpiresAt,
+        });
+        const sessionId = session._id.toString();
+
+        await auditLogService.record('session.created', {
+            ...context,
+            walletId: wallet._id,
+        });
+
+        return {
+            sessionId,
+            accessToken: await this.issueAccessToken(
+                wallet,
+                sessionId,
+                accountIndex,
+                scope,
+            ),
+            refreshToken: `${sessionId}.${secret}`,
+            refreshTokenExpiresAt,
+        };
+    }
+
+    /**
+     * Exchange a refresh token for a new token pair
+     */
+    public async refresh(
+        refreshToken: string,
+        appId: string,
+        context: SessionContext,
+    ): Promise<SessionTokens> {
+        const [sessionId, secret] = refreshToken.split('.');
+        if (!sessionId || !secret || !Types.ObjectId.isValid(sessionId)) {
+            throw new SessionError(
+                'Invalid refresh token',
+                'INVALID_REFRESH_TOKEN',
+            );
+        }
+
+        const session = await Session.findOne({
+            _id: sessionId,
+            appId,
+        }).select('+refreshTokenHash +previousRefreshTokenHashes');
+        if (!session || session.revokedAt || session.expiresAt < new Date()) {
+            throw new SessionError(
+                'Session expired or revoked',
+                'SESSION_REVOKED',
+            );
+        }
+
+        const presentedHash = this.hashSecret(secret);
+        if (!this.hashesEqual(presentedHash, session.refreshTokenHash)) {
+            if (session.previousRefreshTokenHashes.includes(presentedHash)) {
+                await this.revoke(session, 'refresh_token_reuse');
+                await auditLogService.record(
+                    'session.refresh_token_reused',
+                    { ...context, walletId: session.walletId.toString() },
+                    'failure',
+                    { sessionId },
+                );
+                throw new SessionError(
+                    'Refresh token was already used; the session has been revoked',
+                    'REFRESH_TOKEN_REUSED',
+                );
+            }
+            throw new SessionError(
+                'Invalid refresh token',
+                'INVALID_REFRESH_TOKEN',
+            );
+        }
+
+        const wallet = await Wallet.findById(session.walletId)
+            .select('appId address network isActive')
+            .lean();
+        if (!wallet?.isActive) {
+            await this.revoke(session, 'wallet_inactive');
+            throw new SessionError('Wallet is not active', 'WALLET_INACTIVE');
+        }
+
+        // Rotate, unless another request rotated the same token first
+        const nextSecret = this.generateSecret();
+        const rotated = await Session.findOneAndUpdate(
+            {
+                _id: session._id,
+                refreshTokenHash: session.refreshTokenHash,
+                revokedAt: { $exists: false },
+            },
+            {
+                $set: {
+                    refreshTokenHash: this.hashSecret(nextSecret),
+                    lastUsedAt: new Date(),
+                    ...(context.userAgent && { userAgent: context.userAgent }),
+                    ...(context.ipAddress && { ipAddress: context.ipAddress }),
+                },
+                $push: {
+                    previousRefreshTokenHashes: {
+                        $each: [session.refreshTokenHash],
+                        $slice: -this.maxPreviousTokens,
+                    },
+                },
+            },
+            { new: true },
+        );
+        if (!rotated) {
+            await this.revoke(session, 'refresh_token_reuse');
+            throw new SessionError(
+                'Refresh token was already used; the session has been revoked',
+                'REFRESH_TOKEN_REUSED',
+            );
+        }
+
+        return {
+            sessionId,
+            accessToken: await this.issueAccessToken(
+                { ...wallet, _id: wallet._id.toString() },
+                sessionId,
+                rotated.accountIndex,
+                rotated.scope,
+            ),
+            refreshToken: `${sessionId}.${nextSecret}`,
+            refreshTokenExpiresAt: rotated.expiresAt,
+        };
+    }
+
+    /**
+     * Issue an access token for a session. When the session exists, its
+     * active account is updated so refreshed tokens keep it.
+     */
+    public async switchAccount(
+        wallet: SessionWallet,
+        sessionId: string | undefined,
+        accountIndex: number,
+    ): Promise<string> {
+        const session = sessionId
+            ? await Session.findOneAndUpdate(
+                  { _id: sessionId, walletId: wallet._id },
+                  { $set: { accountIndex } },
+              )
+            : null;
+        return this.issueAccessToken(
+            wallet,
+            sessionId,
+            accountIndex,
+            session?.scope,
+        );
+    }
+
+    /**
+     * Whether an access token's session is still valid
+     */
+    public async isSessionActive(sessionId: string): Promise<boolean> {
+        if (!Types.ObjectId.isValid(sessionId)) {
+            return false;
+        }
+        const session = await Session.exists({
+            _id: sessionId,
+            revokedAt: { $exists: false },
+            expiresAt: { $gt: new Date() },
+        });
+        return !!session;
+    }
+
+    /**
+     * Note a passkey step-up on a session
+     */
+    public async recordStepUp(sessionId: string): Promise<void> {
+        await Session.updateOne(
+            { _id: sessionId, revokedAt: { $exists: false } },
+            { $set: { stepUpAt: new Date() } },
+        );
+    }
+
+    /**
+     * Whether the session stepped up within the last `maxAgeMs`
+     */
+    public async hasRecentStepUp(
+        sessionId: string,
+        maxAgeMs: number,
+    ): Promise<boolean> {
+        if (!Types.ObjectId.isValid(sessionId)) {
+            return false;
+        }
+        const session = await Session.exists({
+            _id: sessionId,
+            revokedAt: { $exists: false },
+            stepUpAt: { $gt: new Date(Date.now() - maxAgeMs) },
+        });
+        return !!session;
+    }
+
+    /**
+     * Active sessions of a wallet, most recently used first
+     */
+    public async listSessions(walletId: string): Promise<ISession[]> {
+        return Session.find({
+            walletId: new Types.ObjectId(walletId),
+            revokedAt: { $exists: false },
+            expiresAt: { $gt: new Date() },
+        }).sort({ lastUsedAt: -1 });
+    }
+
+    /**
+     * Revoke one of a wallet's sessions
+     */
+    public async revokeSession(
+        walletId: string,
+        sessionId: string,
+        reason: string,
+        context: AuditContext,
+    ): Promise<void> {
+        const session = Types.ObjectId.isValid(sessionId)
+            ? await Session.findOne({
+                  _id: sessionId,
+                  walletId: new Types.ObjectId(walletId),
+                  revokedAt: { $exists: false },
+              })
+            : null;
+        if (!session) {
+            throw new SessionError('Session not found', 'SESSION_NOT_FOUND');
+        }
+
+        await this.revoke(session, reason);
+        await auditLogService.record('session.revoked', context, 'success', {
+            sessionId,
+            reason,
+        });
+    }
+
+    /**
+     * Revoke all of a wallet's sessions, optionally keeping one
+     */
+    public async revokeAllSessions(
+        walletId: string,
+        reason: string,
+        context: AuditContext,
+        exceptSessionId?: string,
+    ): Promise<number> {
+        const result = await Session.updateMany(
+            {
+                walletId: new Types.ObjectId(walletId),
+                revokedAt: { $exists: false },
+                ...(exceptSessionId && { _id: { $ne: exceptSessionId } }),
+            },
+            { $set: { revokedAt: new Date(), revokedReason: reason } },
+        );
+
+        await auditLogService.record('session.revoked', context, 'success', {
+            count: result.modifiedCount,
+            reason,
+        });
+        return result.modifiedCount;
+    }
+
+    private async issueAccessToken(
+        wallet: SessionWallet,
+        sessionId: string | undefined,
+        accountIndex: number,
+        scope?: string,
+    ): Promise<string> {
+        return generateJWT(
+            {
+                address: wallet.address,
+                network: wallet.network,
+                ...(accountIndex !== 0 && { accountIndex }),
+                ...(sessionId && { sid: sessionId }),
+                ...(scope && { scope }),
+            },
+            { subject: wallet._id, audience: wallet.appId },
+        );
+    }
+
+    private async revoke(session: ISession, reason: string): Promise<void> {
+        await Session.updateOne(
+            { _id: session._id, revokedAt: { $exists: false } },
+            { $set: { revokedAt: new Date(), revokedReason: reason } },
+        );
+    }
+
+    private generateSecret(): string {
+        return crypto.randomBytes(this.refreshTokenBytes).toString('base64url');
+    }
+
+    private hashSecret(secret: string): string {
+        return crypto.createHash('sha256').update(secret).digest('hex');
+    }
+
+    private hashesEqual(a: string, b: string): boolean {
+        const left = Buffer.from(a);
+        const right = Buffer.from(b);
+        return (
+            left.length === right.length && crypto.timingSafeEqual(left, right)
+        );
+    }
+}
+
+// Export singleton instance
+export const sessionService = new SessionService();
+export default sessionService;
@@ -30,7 +30,6 @@ type WalletClientWithAccount = WalletClient & {
 
 export class SigningService {
     private publicClients: Map<number, PublicClient> = new Map();
-    private walletClients: Map<string, WalletClientWithAccount> = new Map();
 
     /**
      * Get or create public client for a chain
@@ -51,30 +50,24 @@ export class SigningService {
     }
 
     /**
-     * Get or create wallet client for a chain
+     * Create a wallet client for a chain.
+     * Not cached, so decrypted keys do not outlive the signing call.
      */
     private getWalletClient(
         chainId: number,
         privateKey: `0x${string}`,
     ): WalletClientWithAccount {
-        const key = `${chainId}-${privateKey}`;
-        if (!this.walletClients.has(key)) {
-            const config = getChainConfig(chainId);
-            const account = privateKeyToAccount(privateKey);
+        const config = getChainConfig(chainId);
+        const account = privateKeyToAccount(privateKey);
 
-            const walletClient = createWalletClient({
-                account,
-                chain: config.chain as Chain, // Explicitly cast to Chain type
-                transport: http(config.rpcUrl),
-            });
+        const walletClient = createWalletClient({
+            account,
+            chain: config.chain as Chain, // Explicitly cast to Chain type
+            transport: http(config.rpcUrl),
+        });
 
-            // Cast to our custom type that guarantees account exists
-            this.walletClients.set(
-                key,
-                walletClient as WalletClientWithAccount,
-            );
-        }
-        return this.walletClients.get(key)!;
+        // Cast to our custom type that guarantees account exists
+        return walletClient as WalletClientWithAccount;
     }
 
     /**
@@ -0,0 +1,276 @@
+// src/services/siwe-service.ts
+import { getAddress, hashMessage, isAddress, recoverPublicKey } from 'viem';
+import { generateSiweNonce, parseSiweMessage } from 'viem/siwe';
+import { Challenge } from '../models/challenge-models';
+import { App } from '../models/app-models';
+import { Wallet, IWallet, identityFilter } from '../models/wallet-models';
+import { CHAINS } from '../config/chains';
+import { siwe_config } from '../config';
+import signingService from './signing-service';
+import { SessionContext } from './session-service';
+import mfaService, { LoginOutcome } from './mfa-service';
+import auditLogService from './audit-log-service';
+import { BlockchainNetwork } from './wallet-service';
+
+const CHALLENGE_PURPOSE = 'siwe';
+
+/**
+ * Custom error class for Sign-In with Ethereum failures
+ */
+export class SiweError extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'INVALID_MESSAGE') {
+        super(message);
+        this.name = 'SiweError';
+        this.code = code;
+    }
+}
+
+export interface SiweNonce {
+    nonce: string;
+    expiresAt: Date;
+}
+
+export interface SiweLoginResult {
+    wallet: IWallet;
+    login: LoginOutcome;
+    created: boolean;
+}
+
+/**
+ * Sign-In with Ethereum (EIP-4361) for wallets we do not hold keys for.
+ *
+ * The client asks for a nonce, composes the EIP-4361 message itself and
+ * has the user sign it. A valid signature logs the address into a
+ * non-custodial wallet record, created on first sign-in, that logs in
+ * like any other, second factor included.
+ */
+export class SiweService {
+    private readonly nonceTtlMinutes: number = 10;
+
+    /**
+     * Issue a single-use nonce for an address
+     */
+    public async createNonce(
+        appId: string,
+        address: string,
+    ): Promise<SiweNonce> {
+        if (!isAddress(address)) {
+            throw new SiweError('Invalid Ethereum address', 'INVALID_ADDRESS');
+        }
+
+        const nonce = generateSiweNonce();
+        const expiresAt = new Date(
+            Date.now() + this.nonceTtlMinutes * 60 * 1000,
+        );
+        await Challenge.create({
+            purpose: CHALLENGE_PURPOSE,
+            appId,
+            network: BlockchainNetwork.EVM,
+            address: getAddress(address),
+            nonce,
+            expiresAt,
+        });
+
+        return { nonce, expiresAt };
+    }
+
+    /**
+     * Verify a signed EIP-4361 message and open a session, or issue a
+     * limited token when a second factor is needed
+     */
+    public async verify(
+        appId: string,
+        message: string,
+        signature: string,
+        context: SessionContext,
+    ): Promise<SiweLoginResult> {
+        try {
+            const address = await this.verifySignedMessage(
+                appId,
+                message,
+                signature,
+            );
+            const { wallet, created } = await this.findOrCreateWallet(
+                appId,
+                address,
+                message,
+                signature,
+            );
+
+            if (!wallet.isActive) {
+                throw new SiweError('Wallet is not active', 'WALLET_INACTIVE');
+            }
+
+            const walletId = String(wallet._id);
+            const login = await mfaService.completeLogin(
+                {
+                    _id: walletId,
+                    appId,
+                    address: wallet.address,
+                    network: wallet.network,
+                },
+                { ...context, walletId },
+            );
+
+            await auditLogService.record(
+                'siwe.login',
+                { ...context, walletId },
+                'success',
+                { created },
+            );
+
+            return { wallet, login, created };
+        } catch (error) {
+            await auditLogService.record('siwe.login', context, 'failure', {
+                reason: error instanceof Error ? error.message : 'Unknown',
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Check the message fields and signature, then consume the nonce.
+     * Returns the checksummed signer address.
+     */
+    public async verifySignedMessage(
+        appId: string,
+        message: string,
+        signature: string,
+    ): Promise<string> {
+        const fields = parseSiweMessage(message);
+        if (
+            !fields.address ||
+            !fields.domain ||
+            !fields.nonce ||
+            !fields.uri ||
+            !fields.chainId ||
+            fields.version !== '1'
+        ) {
+            throw new SiweError('Not a valid EIP-4361 message');
+        }
+
+        const allowedDomains = await this.getAllowedDomains(appId);
+        if (!allowedDomains.includes(fields.domain)) {
+            throw new SiweError(
+                `Domain ${fields.domain} is not allowed for this app`,
+                'DOMAIN_MISMATCH',
+            );
+        }
+
+        if (!CHAINS[fields.chainId]) {
+            throw new SiweError(
+                `Unsupported chain ID: ${fields.chainId}`,
+                'UNSUPPORTED_CHAIN',
+            );
+        }
+
+        const now = new Date();
+        if (fields.expirationTime && fields.expirationTime <= now) {
+            throw new SiweError('Message has expired', 'MESSAGE_EXPIRED');
+        }
+        if (fields.notBefore && fields.notBefore > now) {
+            throw new SiweError(
+                'Message is not valid yet',
+                'MESSAGE_NOT_YET_VALID',
+            );
+        }
+
+        const { isValid } = await signingService.verifyMessage(
+            fields.chainId,
+            message,
+            signature,
+            fields.address,
+        );
+        if (!isValid) {
+            throw new SiweError('Signature is invalid', 'INVALID_SIGNATURE');
+        }
+
+        // Single use: consumed only by a correctly signed message
+        const challenge = await Challenge.findOneAndDelete({
+            purpose: CHALLENGE_PURPOSE,
+            appId,
+            nonce: fields.nonce,
+            address: fields.address,
+            expiresAt: { $gt: now },
+        });
+        if (!challenge) {
+            throw new SiweError(
+                'Nonce is invalid, expired or already used',
+                'INVALID_NONCE',
+            );
+        }
+
+        return fields.address;
+    }
+
+    /**
+     * Domains a message may name: the hosts of the app's redirect URLs
+     * plus any configured globally
+     */
+    private async getAllowedDomains(appId: string): Promise<string[]> {
+        const app = await App.findOne({ appId }).select('redirectUrls').lean();
+        const hosts = (app?.redirectUrls || []).flatMap((url) => {
+            try {
+                return [new URL(url).host];
+            } catch {
+                return [];
+            }
+        });
+        return [...hosts, ...siwe_config.domains];
+    }
+
+    private async findOrCreateWallet(
+        appId: string,
+        address: string,
+        message: string,
+        signature: string,
+    ): Promise<{ wallet: IWallet; created: boolean }> {
+        const filter = {
+            appId,
+            network: BlockchainNetwork.EVM,
+            ...identityFilter('siwe', address),
+        };
+        const existing = await Wallet.findOne(filter);
+        if (existing) {
+            return { wallet: existing, created: false };
+        }
+
+        const publicKey = await recoverPublicKey({
+            hash: hashMessage(message),
+            signature: signature as `0x${string}`,
+        });
+
+        try {
+            const wallet = await Wallet.create({
+                appId,
+                socialType: 'siwe',
+                address,
+                publicKey,
+                custodial: false,
+                userData: JSON.stringify({
+                    address,
+                    network: BlockchainNetwork.EVM,
+                }),
+                isActive: true,
+                network: BlockchainNetwork.EVM,
+            });
+            return { wallet, created: true };
+        } catch (error) {
+            // A concurrent first sign-in created it
+            const wallet =
+                (error as { code?: number })?.code === 11000
+                    ? await Wallet.findOne(filter)
+                    : null;
+            if (!wallet) {
+                throw error;
+            }
+            return { wallet, created: false };
+        }
+    }
+}
+
+// Export singleton instance
+export const siweService = new SiweService();
+export default siweService;
@@ -0,0 +1,254 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import crypto from 'crypto';
+import { exportJWK, generateKeyPair, KeyLike, SignJWT } from 'jose';
+import { Wallet } from '../models/wallet-models';
+import socialLoginService from './social-login-service';
+import { registerSocialProvider } from './social/social-provider';
+import { OidcSocialProvider } from './social/oidc-social-provider';
+import { LocalKmsProvider } from './kms/local-kms-provider';
+import keyCustodyService from './key-custody-service';
+import mfaService from './mfa-service';
+import auditLogService from './audit-log-service';
+import { BlockchainNetwork } from './wallet-service';
+
+const ISSUER = 'https://idp.example.test';
+const CLIENT_ID = 'mock-client';
+const APP_ID = 'a'.repeat(64);
+const SESSION = {
+    sessionId: '665f1c2e8b3a4d0012345678',
+    accessToken: 'access-token',
+    refreshToken: 'refresh-token',
+    refreshTokenExpiresAt: new Date('2030-01-01T00:00:00.000Z'),
+};
+
+describe('SocialLoginService with a mock provider', () => {
+    let server: http.Server;
+    let privateKey: KeyLike;
+
+    function idToken(
+        claims: Record<string, unknown>,
+        options: { audience?: string; key?: KeyLike } = {},
+    ): Promise<string> {
+        return new SignJWT(claims)
+            .setProtectedHeader({ alg: 'RS256', kid: 'mock-key' })
+            .setIssuer(ISSUER)
+            .setAudience(options.audience ?? CLIENT_ID)
+            .setIssuedAt()
+            .setExpirationTime('5m')
+            .sign(options.key ?? privateKey);
+    }
+
+    beforeAll(async () => {
+        const keys = await generateKeyPair('RS256');
+        privateKey = keys.privateKey;
+        const jwks = JSON.stringify({
+            keys: [
+                {
+                    ...(await exportJWK(keys.publicKey)),
+                    kid: 'mock-key',
+                    alg: 'RS256',
+                    use: 'sig',
+                },
+            ],
+        });
+
+        // The provider fetches its keys from this local JWKS endpoint
+        server = http.createServer((_request, response) => {
+            response.setHeader('Content-Type', 'application/json');
+            response.end(jwks);
+        });
+        await new Promise<void>((resolve) =>
+            server.listen(0, '127.0.0.1', resolve),
+        );
+        const { port } = server.address() as AddressInfo;
+
+        registerSocialProvider(
+            'mock',
+            () =>
+                new OidcSocialProvider('mock', {
+                    clientId: CLIENT_ID,
+                    clientSecret: 'mock-secret',
+                    issuer: ISSUER,
+                    tokenUrl: `http://127.0.0.1:${port}/token`,
+                    jwksUrl: `http://127.0.0.1:${port}/jwks`,
+                }),
+        );
+        keyCustodyService.setKmsProvider(
+            new LocalKmsProvider({
+                kmsProvider: 'local',
+                masterKey: `v1:${crypto.randomBytes(32).toString('hex')}`,
+                masterKeyFile: '',
+                masterKeyVersion: 'v1',
+                rewrapIntervalMs: 0,
+            }),
+        );
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        jest.spyOn(auditLogService, 'record').mockResolvedValue();
+        jest.spyOn(mfaService, 'completeLogin').mockResolvedValue({
+            session: SESSION,
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('authenticate', () => {
+        it('verifies an ID token signed with the provider key', async () => {
+            const { identity, tokens } = await socialLoginService.authenticate(
+                'mock',
+                {
+                    idToken: await idToken({
+                        sub: 'user-1',
+                        email: 'ada@example.com',
+                        email_verified: true,
+                        nonce: 'n-0S6_WzA2Mj',
+                    }),
+                    nonce: 'n-0S6_WzA2Mj',
+                },
+            );
+
+            expect(identity).toEqual({
+                subject: 'user-1',
+                email: 'ada@example.com',
+                emailVerified: true,
+                name: undefined,
+            });
+            expect(tokens).toEqual({});
+        });
+
+        it('rejects a token for another client', async () => {
+            await expect(
+                socialLoginService.authenticate('mock', {
+                    idToken: await idToken(
+                        { sub: 'user-1' },
+                        { audience: 'other-client' },
+                    ),
+                }),
+            ).rejects.toMatchObject({ code: 'INVALID_ID_TOKEN' });
+        });
+
+        it('rejects a token signed with another key', async () => {
+            const { privateKey: otherKey } = await generateKeyPair('RS256');
+
+            await expect(
+                socialLoginService.authenticate('mock', {
+                    idToken: await idToken(
+                        { sub: 'user-1' },
+                        { key: otherKey },
+                    ),
+                }),
+            ).rejects.toMatchObject({ code: 'INVALID_ID_TOKEN' });
+        });
+
+        it('rejects a token whose nonce does not match', async () => {
+            await expect(
+                socialLoginService.authenticate('mock', {
+                    idToken: await idToken({ sub: 'user-1', nonce: 'a' }),
+                    nonce: 'b',
+                }),
+            ).rejects.toMatchObject({ code: 'INVALID_ID_TOKEN' });
+        });
+
+        it('refuses providers that are not registered', async () => {
+            await expect(
+                socialLoginService.authenticate('unknown', {
+                    idToken: 'token',
+                }),
+            ).rejects.toMatchObject({ code: 'PROVIDER_NOT_SUPPORTED' });
+        });
+    });
+
+    describe('login', () => {
+        it('creates a wallet keyed by the provider subject', async () => {
+            jest.spyOn(Wallet, 'findOne').mockResolvedValue(null);
+            const create = jest
+                .spyOn(Wallet, 'create')
+                .mockImplementation(
+                    (async (doc: object) => new Wallet(doc)) as never,
+                );
+
+            const result = await socialLoginService.login(
+                'mock',
+                { idToken: await idToken({ sub: 'user-2' }) },
+                APP_ID,
+                BlockchainNetwork.EVM,
+                {},
+            );
+
+            expect(result.created).toBe(true);
+            expect(result.login).toEqual({ session: SESSION });
+            expect(create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    appId: APP_ID,
+                    socialType: 'mock',
+                    socialSubject: 'user-2',
+                    isActive: true,
+                }),
+            );
+            // The key is stored sealed, never in the clear
+            expect(result.wallet.encryptedPrivateKey).toMatch(/^enc:v1:v1:/);
+            expect(mfaService.completeLogin).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    appId: APP_ID,
+                    address: result.wallet.address,
+                }),
+                expect.anything(),
+            );
+        });
+
+        it('logs in to the existing wallet on later logins', async () => {
+            const existing = new Wallet({
+                appId: APP_ID,
+                socialType: 'mock',
+                socialSubject: 'user-3',
+                address: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+                isActive: true,
+                network: BlockchainNetwork.EVM,
+            });
+            jest.spyOn(Wallet, 'findOne').mockResolvedValue(existing);
+            const create = jest.spyOn(Wallet, 'create');
+
+            const result = await socialLoginService.login(
+                'mock',
+                { idToken: await idToken({ sub: 'user-3' }) },
+                APP_ID,
+                BlockchainNetwork.EVM,
+                {},
+            );
+
+            expect(result.created).toBe(false);
+            expect(result.wallet).toBe(existing);
+            expect(create).not.toHaveBeenCalled();
+        });
+
+        it('refuses an inactive wallet', async () => {
+            jest.spyOn(Wallet, 'findOne').mockResolvedValue(
+                new Wallet({
+                    appId: APP_ID,
+                    socialType: 'mock',
+                    socialSubject: 'user-4',
+                    isActive: false,
+                }),
+            );
+
+            await expect(
+                socialLoginService.login(
+                    'mock',
+                    { idToken: await idToken({ sub: 'user-4' }) },
+                    APP_ID,
+                    BlockchainNetwork.EVM,
+                    {},
+                ),
+            ).rejects.toMatchObject({ code: 'WALLET_INACTIVE' });
+            expect(mfaService.completeLogin).not.toHaveBeenCalled();
+        });
+    });
+});
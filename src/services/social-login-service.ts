@@ -0,0 +1,257 @@
+// src/services/social-login-service.ts
+import { Wallet, IWallet, identityFilter } from '../models/wallet-models';
+import walletService, { BlockchainNetwork } from './wallet-service';
+import keyCustodyService from './key-custody-service';
+import { SessionContext } from './session-service';
+import mfaService, { LoginOutcome } from './mfa-service';
+import auditLogService from './audit-log-service';
+import {
+    getSocialProvider,
+    SocialAuthResult,
+    SocialProviderTokens,
+} from './social/social-provider';
+
+/**
+ * Custom error class for social login failures
+ */
+export class SocialLoginError extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'SOCIAL_LOGIN_ERROR') {
+        super(message);
+        this.name = 'SocialLoginError';
+        this.code = code;
+    }
+}
+
+/**
+ * What the client got from the provider: an ID token it obtained itself,
+ * or an authorization code for us to exchange
+ */
+export interface SocialCredential {
+    idToken?: string | undefined;
+    nonce?: string | undefined;
+    code?: string | undefined;
+    redirectUri?: string | undefined;
+    codeVerifier?: string | undefined;
+}
+
+export interface SocialLoginResult {
+    wallet: IWallet;
+    login: LoginOutcome;
+    created: boolean;
+}
+
+/**
+ * Social login (Google, Apple, GitHub, or any registered provider).
+ *
+ * The provider proves the user's identity; the wallet is found or created
+ * by provider subject (`socialType` + `socialSubject`), per app and
+ * network, and is active straight away since there is no OTP to confirm.
+ * Provider tokens from code exchanges are kept sealed on the wallet.
+ */
+export class SocialLoginService {
+    /**
+     * Verify the credential with the provider and open a session, or
+     * issue a limited token when a second factor is needed
+     */
+    public async login(
+        providerName: string,
+        credential: SocialCredential,
+        appId: string,
+        network: BlockchainNetwork,
+        context: SessionContext,
+    ): Promise<SocialLoginResult> {
+        try {
+            const { identity, tokens } = await this.authenticate(
+                providerName,
+                credential,
+            );
+
+            const filter = {
+                appId,
+                network,
+                ...identityFilter(providerName, identity.subject),
+            };
+            let created = false;
+            let wallet: IWallet | null = await Wallet.findOne(filter);
+
+            if (!wallet) {
+                try {
+                    wallet = await this.createWallet(
+                        providerName,
+                        appId,
+                        network,
+                        identity,
+                    );
+                    created = true;
+                } catch (error) {
+                    // A concurrent first login created it
+                    wallet =
+                        (error as { code?: number })?.code === 11000
+                            ? await Wallet.findOne(filter)
+                            : null;
+                    if (!wallet) {
+                        throw error;
+                    }
+                }
+            } else if (!wallet.isActive) {
+                throw new SocialLoginError(
+                    'Wallet is not active',
+                    'WALLET_INACTIVE',
+                );
+            }
+
+            if (tokens.accessToken || tokens.refreshToken) {
+                await this.storeProviderTokens(wallet, tokens);
+            }
+
+            const walletId = String(wallet._id);
+            const login = await mfaService.completeLogin(
+                {
+                    _id: walletId,
+                    appId,
+                    address: wallet.address,
+                    network: wallet.network,
+                },
+                { ...context, walletId },
+            );
+
+            await auditLogService.record(
+                'social.login',
+                { ...context, walletId },
+                'success',
+                { provider: providerName, created },
+            );
+
+            return { wallet, login, created };
+        } catch (error) {
+            await auditLogService.record('social.login', context, 'failure', {
+                provider: providerName,
+                reason: error instanceof Error ? error.message : 'Unknown',
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Verify a credential with the provider (also used to link identities)
+     */
+    public async authenticate(
+        providerName: string,
+        credential: SocialCredential,
+    ): Promise<SocialAuthResult> {
+        const provider = getSocialProvider(providerName);
+        if (!provider) {
+            throw new SocialLoginError(
+                `Social login with ${providerName} is not available`,
+                'PROVIDER_NOT_SUPPORTED',
+            );
+        }
+
+        if (credential.idToken) {
+            if (!provider.verifyIdToken) {
+                throw new SocialLoginError(
+                    `${providerName} does not issue ID tokens; send an authorization code`,
+                    'VALIDATION_ERROR',
+                );
+            }
+            return {
+                identity: await provider.verifyIdToken(
+                    credential.idToken,
+                    credential.nonce,
+                ),
+                tokens: {},
+            };
+        }
+
+        if (credential.code && credential.redirectUri) {
+            return provider.exchangeCode(
+                credential.code,
+                credential.redirectUri,
+                credential.codeVerifier,
+            );
+        }
+
+        throw new SocialLoginError(
+            'Provide either idToken or code and redirectUri',
+            'VALIDATION_ERROR',
+        );
+    }
+
+    private async createWallet(
+        providerName: string,
+        appId: string,
+        network: BlockchainNetwork,
+        identity: SocialAuthResult['identity'],
+    ): Promise<IWallet> {
+        const walletInfo = await walletService.generateWallet(network);
+        const { encryptedPrivateKey, encryptionSalt, keyVersion } =
+            await keyCustodyService.sealPrivateKey(walletInfo.privateKey);
+        // Keep the seed so further HD accounts can be derived later
+        const seed = walletInfo.mnemonic
+            ? await keyCustodyService.sealSeed(
+                  walletInfo.mnemonic,
+                  encryptionSalt,
+              )
+            : null;
+
+        // The provider email stays in userData: the email field belongs
+        // to the email OTP login, which verifies it itself
+        return Wallet.create({
+            appId,
+            socialType: providerName,
+            socialSubject: identity.subject,
+            address: walletInfo.address,
+            publicKey: walletInfo.publicKey,
+            encryptedPrivateKey,
+            encryptionSalt,
+            keyVersion,
+            ...(seed && { encryptedSeed: seed.encryptedSeed }),
+            userData: JSON.stringify({
+                provider: providerName,
+                ...(identity.email && {
+                    email: identity.email,
+                    emailVerified: identity.emailVerified,
+                }),
+                ...(identity.name && { name: identity.name }),
+                network,
+            }),
+            isActive: true,
+            network,
+        });
+    }
+
+    private async storeProviderTokens(
+        wallet: IWallet,
+        tokens: SocialProviderTokens,
+    ): Promise<void> {
+        // Social login wallets are always custodial
+        const encryptionSalt = wallet.encryptionSalt!;
+        const update: Record<string, string> = {};
+        if (tokens.accessToken) {
+            update['oauthTokens.accessToken'] =
+                await keyCustodyService.sealOAuthToken(
+                    tokens.accessToken,
+                    encryptionSalt,
+                    'access',
+                );
+        }
+        // Providers only send a refresh token on first consent; keep the
+        // previous one otherwise
+        if (tokens.refreshToken) {
+            update['oauthTokens.refreshToken'] =
+                await keyCustodyService.sealOAuthToken(
+                    tokens.refreshToken,
+                    encryptionSalt,
+                    'refresh',
+                );
+        }
+
+        await Wallet.updateOne({ _id: wallet._id }, { $set: update });
+    }
+}
+
+// Export singleton instance
+export const socialLoginService = new SocialLoginService();
+export default socialLoginService;
@@ -0,0 +1,27 @@
+// src/services/social/apple-social-provider.ts
+import { SignJWT, importPKCS8 } from 'jose';
+import { AppleProviderConfig } from '../../config/types';
+import { OidcSocialProvider } from './oidc-social-provider';
+
+/**
+ * Sign in with Apple. Apple has no static client secret: each request
+ * carries a short-lived ES256 JWT signed with the team's key.
+ */
+export class AppleSocialProvider extends OidcSocialProvider {
+    constructor(private readonly appleConfig: AppleProviderConfig) {
+        super('apple', appleConfig);
+    }
+
+    protected override async getClientSecret(): Promise<string> {
+        const key = await importPKCS8(this.appleConfig.privateKey, 'ES256');
+
+        return new SignJWT({})
+            .setProtectedHeader({ alg: 'ES256', kid: this.appleConfig.keyId })
+            .setIssuer(this.appleConfig.teamId)
+            .setSubject(this.appleConfig.clientId)
+            .setAudience(this.appleConfig.issuer!)
+            .setIssuedAt()
+            .setExpirationTime('5m')
+            .sign(key);
+    }
+}
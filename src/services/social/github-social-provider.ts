@@ -0,0 +1,99 @@
+// src/services/social/github-social-provider.ts
+import { SocialProviderConfig } from '../../config/types';
+import {
+    SocialProviderError,
+    type SocialProvider,
+    type SocialAuthResult,
+} from './social-provider';
+
+interface GithubEmail {
+    email: string;
+    primary: boolean;
+    verified: boolean;
+}
+
+/**
+ * GitHub login. GitHub is plain OAuth 2.0 without ID tokens, so the
+ * identity comes from the REST API using the exchanged access token.
+ */
+export class GithubSocialProvider implements SocialProvider {
+    public readonly name: string = 'github';
+
+    constructor(private readonly config: SocialProviderConfig) {}
+
+    public async exchangeCode(
+        code: string,
+        redirectUri: string,
+        codeVerifier?: string | undefined,
+    ): Promise<SocialAuthResult> {
+        const response = await fetch(this.config.tokenUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                Accept: 'application/json',
+            },
+            body: new URLSearchParams({
+                code,
+                redirect_uri: redirectUri,
+                client_id: this.config.clientId,
+                client_secret: this.config.clientSecret,
+                ...(codeVerifier && { code_verifier: codeVerifier }),
+            }),
+        });
+        // GitHub reports errors with a 200 status
+        const body = (await response.json().catch(() => ({}))) as Record<
+            string,
+            string | undefined
+        >;
+
+        if (!response.ok || !body.access_token) {
+            throw new SocialProviderError(
+                `github code exchange failed: ${
+                    body.error_description || body.error || response.status
+                }`,
+                'CODE_EXCHANGE_FAILED',
+            );
+        }
+
+        const user = await this.request<{
+            id: number;
+            login: string;
+            name: string | null;
+        }>('/user', body.access_token);
+        // The profile email is optional and unverified; ask for the list
+        const emails = await this.request<GithubEmail[]>(
+            '/user/emails',
+            body.access_token,
+        ).catch(() => [] as GithubEmail[]);
+        const primary = emails.find((email) => email.primary);
+
+        return {
+            identity: {
+                subject: String(user.id),
+                email: primary?.email,
+                emailVerified: !!primary?.verified,
+                name: user.name || user.login,
+            },
+            tokens: {
+                accessToken: body.access_token,
+                refreshToken: body.refresh_token,
+            },
+        };
+    }
+
+    private async request<T>(path: string, accessToken: string): Promise<T> {
+        const response = await fetch(`${this.config.apiUrl}${path}`, {
+            headers: {
+                Authorization: `Bearer ${accessToken}`,
+                Accept: 'application/vnd.github+json',
+            },
+        });
+        if (!response.ok) {
+            throw new SocialProviderError(
+                `github ${path} request failed: ${response.status}`,
+                'PROVIDER_ERROR',
+            );
+        }
+        return (await response.json()) as T;
+    }
+}
@@ -0,0 +1,118 @@
+// src/services/social/oidc-social-provider.ts
+import { createRemoteJWKSet, jwtVerify, JWTPayload } from 'jose';
+import { SocialProviderConfig } from '../../config/types';
+import {
+    SocialProviderError,
+    type SocialProvider,
+    type SocialIdentity,
+    type SocialAuthResult,
+} from './social-provider';
+
+/**
+ * Social login through a standard OpenID Connect provider (Google).
+ * ID tokens are verified against the provider's published keys, with
+ * our client id as the audience.
+ */
+export class OidcSocialProvider implements SocialProvider {
+    private readonly jwks: ReturnType<typeof createRemoteJWKSet>;
+
+    constructor(
+        public readonly name: string,
+        protected readonly config: SocialProviderConfig,
+    ) {
+        if (!config.issuer || !config.jwksUrl) {
+            throw new Error(`${name} needs an issuer and a JWKS URL`);
+        }
+        this.jwks = createRemoteJWKSet(new URL(config.jwksUrl));
+    }
+
+    public async verifyIdToken(
+        idToken: string,
+        nonce?: string | undefined,
+    ): Promise<SocialIdentity> {
+        let claims: JWTPayload;
+        try {
+            ({ payload: claims } = await jwtVerify(idToken, this.jwks, {
+                issuer: this.config.issuer!,
+                audience: this.config.clientId,
+            }));
+        } catch (error) {
+            throw new SocialProviderError(
+                `Invalid ${this.name} ID token: ${
+                    error instanceof Error ? error.message : 'Unknown error'
+                }`,
+                'INVALID_ID_TOKEN',
+            );
+        }
+
+        if (nonce !== undefined && claims.nonce !== nonce) {
+            throw new SocialProviderError(
+                `${this.name} ID token nonce does not match`,
+                'INVALID_ID_TOKEN',
+            );
+        }
+        if (!claims.sub) {
+            throw new SocialProviderError(
+                `${this.name} ID token has no subject`,
+                'INVALID_ID_TOKEN',
+            );
+        }
+
+        return {
+            subject: claims.sub,
+            email: typeof claims.email === 'string' ? claims.email : undefined,
+            // Apple sends booleans as strings
+            emailVerified:
+                claims.email_verified === true ||
+                claims.email_verified === 'true',
+            name: typeof claims.name === 'string' ? claims.name : undefined,
+        };
+    }
+
+    public async exchangeCode(
+        code: string,
+        redirectUri: string,
+        codeVerifier?: string | undefined,
+    ): Promise<SocialAuthResult> {
+        const response = await fetch(this.config.tokenUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                Accept: 'application/json',
+            },
+            body: new URLSearchParams({
+                grant_type: 'authorization_code',
+                code,
+                redirect_uri: redirectUri,
+                client_id: this.config.clientId,
+                client_secret: await this.getClientSecret(),
+                ...(codeVerifier && { code_verifier: codeVerifier }),
+            }),
+        });
+        const body = (await response.json().catch(() => ({}))) as Record<
+            string,
+            string | undefined
+        >;
+
+        if (!response.ok || !body.id_token) {
+            throw new SocialProviderError(
+                `${this.name} code exchange failed: ${
+                    body.error_description || body.error || response.status
+                }`,
+                'CODE_EXCHANGE_FAILED',
+            );
+        }
+
+        return {
+            identity: await this.verifyIdToken(body.id_token),
+            tokens: {
+                accessToken: body.access_token,
+                refreshToken: body.refresh_token,
+            },
+        };
+    }
+
+    protected async getClientSecret(): Promise<string> {
+        return this.config.clientSecret;
+    }
+}
@@ -0,0 +1,129 @@
+// src/services/social/social-provider.ts
+import { social_config } from '../../config';
+import { SocialConfig } from '../../config/types';
+import { OidcSocialProvider } from './oidc-social-provider';
+import { AppleSocialProvider } from './apple-social-provider';
+import { GithubSocialProvider } from './github-social-provider';
+
+/**
+ * Custom error class for failed provider verifications
+ */
+export class SocialProviderError extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'PROVIDER_ERROR') {
+        super(message);
+        this.name = 'SocialProviderError';
+        this.code = code;
+    }
+}
+
+/**
+ * The user as asserted by the provider
+ */
+export interface SocialIdentity {
+    subject: string; // Stable provider user id
+    email?: string | undefined;
+    emailVerified: boolean;
+    name?: string | undefined;
+}
+
+/**
+ * Tokens the provider issued to us on a code exchange
+ */
+export interface SocialProviderTokens {
+    accessToken?: string | undefined;
+    refreshToken?: string | undefined;
+}
+
+export interface SocialAuthResult {
+    identity: SocialIdentity;
+    tokens: SocialProviderTokens;
+}
+
+/**
+ * A social login backend. Providers verify either an ID token the client
+ * obtained itself or an authorization code we exchange server-side.
+ */
+export interface SocialProvider {
+    readonly name: string;
+
+    /**
+     * Verify a provider-issued ID token. Not every provider has them.
+     */
+    verifyIdToken?(
+        idToken: string,
+        nonce?: string | undefined,
+    ): Promise<SocialIdentity>;
+
+    /**
+     * Exchange an authorization code for the user's identity
+     */
+    exchangeCode(
+        code: string,
+        redirectUri: string,
+        codeVerifier?: string | undefined,
+    ): Promise<SocialAuthResult>;
+}
+
+export type SocialProviderFactory = (config: SocialConfig) => SocialProvider;
+
+const providerFactories: Map<string, SocialProviderFactory> = new Map<
+    string,
+    SocialProviderFactory
+>([
+    [
+        'google',
+        (config: SocialConfig) =>
+            new OidcSocialProvider('google', config.google),
+    ],
+    ['apple', (config: SocialConfig) => new AppleSocialProvider(config.apple)],
+    [
+        'github',
+        (config: SocialConfig) => new GithubSocialProvider(config.github),
+    ],
+]);
+
+const providers: Map<string, SocialProvider> = new Map();
+
+/**
+ * Register or replace a provider (e.g. a mock IdP in tests)
+ */
+export function registerSocialProvider(
+    name: string,
+    factory: SocialProviderFactory,
+): void {
+    providerFactories.set(name, factory);
+    providers.delete(name);
+}
+
+/**
+ * Names of the providers that are configured
+ */
+export function listSocialProviders(
+    config: SocialConfig = social_config,
+): string[] {
+    return [...providerFactories.keys()].filter(
+        (name) =>
+            !(name in config) || !!config[name as keyof SocialConfig].clientId,
+    );
+}
+
+/**
+ * The provider for a name, or undefined when unknown or not configured
+ */
+export function getSocialProvider(
+    name: string,
+    config: SocialConfig = social_config,
+): SocialProvider | undefined {
+    if (!listSocialProviders(config).includes(name)) {
+        return undefined;
+    }
+
+    let provider = providers.get(name);
+    if (!provider) {
+        provider = providerFactories.get(name)!(config);
+        providers.set(name, provider);
+    }
+    return provider;
+}
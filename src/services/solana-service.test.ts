@@ -0,0 +1,228 @@
+import {
+    Connection,
+    Keypair,
+    PublicKey,
+    SystemInstruction,
+    Transaction,
+} from '@solana/web3.js';
+import {
+    decodeTransferCheckedInstruction,
+    MINT_SIZE,
+    MintLayout,
+    TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import bs58 from 'bs58';
+import { SolanaService } from './solana-service';
+import walletService, { BlockchainNetwork } from './wallet-service';
+
+const MNEMONIC =
+    'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+const BLOCKHASH = Keypair.generate().publicKey.toBase58();
+
+function mintAccount(decimals: number) {
+    const data = Buffer.alloc(MINT_SIZE);
+    MintLayout.encode(
+        {
+            mintAuthorityOption: 0,
+            mintAuthority: PublicKey.default,
+            supply: 0n,
+            decimals,
+            isInitialized: true,
+            freezeAuthorityOption: 0,
+            freezeAuthority: PublicKey.default,
+        },
+        data,
+    );
+    return {
+        data,
+        owner: TOKEN_PROGRAM_ID,
+        executable: false,
+        lamports: 1_461_600,
+    };
+}
+
+describe('Solana wallet derivation', () => {
+    it('derives the Phantom address for the first account', async () => {
+        const wallet = await walletService.generateWallet(
+            BlockchainNetwork.SOLANA,
+            { mnemonic: MNEMONIC },
+        );
+
+        expect(wallet.address).toBe(
+            'HAgk14JpMQLgt6rVgv7cBQFJWFto5Dqxi472uT3DKpqk',
+        );
+        expect(
+            Keypair.fromSecretKey(
+                bs58.decode(wallet.privateKey),
+            ).publicKey.toBase58(),
+        ).toBe(wallet.address);
+    });
+
+    it("derives further accounts at m/44'/501'/n'/0'", async () => {
+        const wallet = await walletService.generateWallet(
+            BlockchainNetwork.SOLANA,
+            { mnemonic: MNEMONIC, accountIndex: 1 },
+        );
+
+        expect(wallet.address).toBe(
+            'Hh8QwFUA6MtVu1qAoq12ucvFHNwCcVTV7hpWjeY1Hztb',
+        );
+    });
+});
+
+describe('SolanaService transfers', () => {
+    const sender = Keypair.generate();
+    const secretKey = bs58.encode(sender.secretKey);
+    const recipient = Keypair.generate().publicKey.toBase58();
+    let service: SolanaService;
+
+    beforeEach(() => {
+        service = new SolanaService();
+        jest.spyOn(
+            Connection.prototype,
+            'getLatestBlockhash',
+        ).mockResolvedValue({
+            blockhash: BLOCKHASH,
+            lastValidBlockHeight: 100,
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('signs a SOL transfer without submitting it', async () => {
+        const send = jest.spyOn(Connection.prototype, 'sendRawTransaction');
+
+        const result = await service.signTransfer(
+            { cluster: 'localnet', toAddress: recipient, amount: '1.5' },
+            secretKey,
+        );
+
+        expect(result.success).toBe(true);
+        expect(send).not.toHaveBeenCalled();
+
+        const transaction = Transaction.from(
+            Buffer.from(result.signedTransaction!, 'base64'),
+        );
+        expect(transaction.verifySignatures()).toBe(true);
+        expect(transaction.recentBlockhash).toBe(BLOCKHASH);
+        expect(
+            SystemInstruction.decodeTransfer(transaction.instructions[0]!),
+        ).toEqual({
+            fromPubkey: sender.publicKey,
+            toPubkey: new PublicKey(recipient),
+            lamports: 1_500_000_000n,
+        });
+    });
+
+    it('submits a transfer and waits for confirmation', async () => {
+        const send = jest
+            .spyOn(Connection.prototype, 'sendRawTransaction')
+            .mockResolvedValue('5xSignature');
+        jest.spyOn(
+            Connection.prototype,
+            'confirmTransaction',
+        ).mockResolvedValue({ context: { slot: 1 }, value: { err: null } });
+
+        const result = await service.sendTransfer(
+            { cluster: 'devnet', toAddress: recipient, amount: '0.01' },
+            secretKey,
+        );
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(result).toMatchObject({
+            success: true,
+            signature: '5xSignature',
+            fromAddress: sender.publicKey.toBase58(),
+            explorerUrl:
+                'https://explorer.solana.com/tx/5xSignature?cluster=devnet',
+        });
+    });
+
+    it('reports a transaction that failed on chain', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        jest.spyOn(
+            Connection.prototype,
+            'sendRawTransaction',
+        ).mockResolvedValue('5xSignature');
+        jest.spyOn(
+            Connection.prototype,
+            'confirmTransaction',
+        ).mockResolvedValue({
+            context: { slot: 1 },
+            value: { err: { InstructionError: [0, 'Custom'] } },
+        });
+
+        const result = await service.sendTransfer(
+            { cluster: 'localnet', toAddress: recipient, amount: '0.01' },
+            secretKey,
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.signature).toBe('5xSignature');
+        expect(result.error).toMatch(/^Transaction failed/);
+    });
+
+    it('builds an SPL transfer in the mint decimals', async () => {
+        const mint = Keypair.generate().publicKey;
+        jest.spyOn(Connection.prototype, 'getAccountInfo').mockResolvedValue(
+            mintAccount(6),
+        );
+
+        const result = await service.signTransfer(
+            {
+                cluster: 'localnet',
+                toAddress: recipient,
+                amount: '2.5',
+                mint: mint.toBase58(),
+            },
+            secretKey,
+        );
+
+        expect(result.success).toBe(true);
+        const transaction = Transaction.from(
+            Buffer.from(result.signedTransaction!, 'base64'),
+        );
+        // Creates the recipient's token account, then transfers
+        expect(transaction.instructions).toHaveLength(2);
+        const transfer = decodeTransferCheckedInstruction(
+            transaction.instructions[1]!,
+        );
+        expect(transfer.data.amount).toBe(2_500_000n);
+        expect(transfer.data.decimals).toBe(6);
+        expect(transfer.keys.mint.pubkey.equals(mint)).toBe(true);
+    });
+
+    it('rejects a transfer of an unknown mint', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        jest.spyOn(Connection.prototype, 'getAccountInfo').mockResolvedValue(
+            null,
+        );
+
+        const result = await service.signTransfer(
+            {
+                cluster: 'localnet',
+                toAddress: recipient,
+                amount: '1',
+                mint: Keypair.generate().publicKey.toBase58(),
+            },
+            secretKey,
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error).toMatch(/Token mint not found/);
+    });
+
+    it('rejects a zero amount', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        const result = await service.signTransfer(
+            { cluster: 'localnet', toAddress: recipient, amount: '0' },
+            secretKey,
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error).toMatch(/Amount must be greater than 0/);
+    });
+});
@@ -0,0 +1,352 @@
+// src/services/solana-service.ts
+import crypto from 'crypto';
+import {
+    Connection,
+    Keypair,
+    PublicKey,
+    SystemProgram,
+    Transaction,
+} from '@solana/web3.js';
+import {
+    createAssociatedTokenAccountIdempotentInstruction,
+    createTransferCheckedInstruction,
+    getAssociatedTokenAddressSync,
+    getMint,
+    TOKEN_2022_PROGRAM_ID,
+    TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import bs58 from 'bs58';
+import { parseUnits } from 'viem';
+import {
+    SOLANA_CONFIG,
+    SOLANA_EXPLORER_URL,
+    SolanaCluster,
+} from '../config/solana-config';
+import {
+    SolanaMessageEncoding,
+    SolanaSignMessageRequest,
+    SolanaSignMessageResponse,
+    SolanaTransferRequest,
+    SolanaTransferResponse,
+    SolanaVerifyMessageRequest,
+    SolanaVerifyMessageResponse,
+} from '../types/solana-types';
+
+const LAMPORTS_DECIMALS = 9;
+
+interface PreparedTransfer {
+    transaction: Transaction;
+    blockhash: string;
+    lastValidBlockHeight: number;
+}
+
+export class SolanaService {
+    private connections: Map<SolanaCluster, Connection> = new Map();
+
+    /**
+     * Get or create an RPC connection for a cluster
+     */
+    private getConnection(cluster: SolanaCluster): Connection {
+        const config = SOLANA_CONFIG[cluster];
+        if (!config) {
+            throw new Error(`Unsupported Solana cluster: ${cluster}`);
+        }
+
+        if (!this.connections.has(cluster)) {
+            this.connections.set(
+                cluster,
+                new Connection(config.RPC_URL, 'confirmed'),
+            );
+        }
+        return this.connections.get(cluster)!;
+    }
+
+    /**
+     * Sign an arbitrary message with the wallet's Ed25519 key
+     */
+    public signMessage(
+        request: SolanaSignMessageRequest,
+        secretKey: string,
+    ): SolanaSignMessageResponse {
+        const keypair = this.getKeypair(secretKey);
+        const publicKey = keypair.publicKey.toBase58();
+
+        try {
+            const message = this.decodeMessage(
+                request.message,
+                request.encoding,
+            );
+            const signature = crypto.sign(
+                null,
+                message,
+                this.toPrivateKeyObject(keypair),
+            );
+
+            return {
+                success: true,
+                signature: bs58.encode(signature),
+                publicKey,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                publicKey,
+                error: `Failed to sign message: ${
+                    error instanceof Error ? error.message : 'Unknown error'
+                }`,
+            };
+        }
+    }
+
+    /**
+     * Verify an Ed25519 message signature against a Solana address
+     */
+    public verifyMessage(
+        request: SolanaVerifyMessageRequest,
+    ): SolanaVerifyMessageResponse {
+        try {
+            const publicKey = crypto.createPublicKey({
+                key: {
+                    kty: 'OKP',
+                    crv: 'Ed25519',
+                    x: new PublicKey(request.address)
+                        .toBuffer()
+                        .toString('base64url'),
+                },
+                format: 'jwk',
+            });
+
+            const isValid = crypto.verify(
+                null,
+                this.decodeMessage(request.message, request.encoding),
+                publicKey,
+                bs58.decode(request.signature),
+            );
+
+            return { success: true, isValid };
+        } catch (error) {
+            return {
+                success: false,
+                isValid: false,
+                error: `Failed to verify message: ${
+                    error instanceof Error ? error.message : 'Unknown error'
+                }`,
+            };
+        }
+    }
+
+    /**
+     * Build and sign a SOL or SPL token transfer without submitting it
+     */
+    public async signTransfer(
+        request: SolanaTransferRequest,
+        secretKey: string,
+    ): Promise<SolanaTransferResponse> {
+        const keypair = this.getKeypair(secretKey);
+
+        try {
+            const { transaction } = await this.prepareTransfer(
+                request,
+                keypair,
+            );
+
+            return {
+                ...this.describeTransfer(request, keypair),
+                success: true,
+                signature: bs58.encode(transaction.signature!),
+                signedTransaction: transaction.serialize().toString('base64'),
+            };
+        } catch (error) {
+            return {
+                ...this.describeTransfer(request, keypair),
+                success: false,
+                error: `Failed to sign transfer: ${
+                    error instanceof Error ? error.message : 'Unknown error'
+                }`,
+            };
+        }
+    }
+
+    /**
+     * Sign a SOL or SPL token transfer, submit it and wait for confirmation
+     */
+    public async sendTransfer(
+        request: SolanaTransferRequest,
+        secretKey: string,
+    ): Promise<SolanaTransferResponse> {
+        const keypair = this.getKeypair(secretKey);
+
+        try {
+            const connection = this.getConnection(request.cluster);
+            const { transaction, blockhash, lastValidBlockHeight } =
+                await this.prepareTransfer(request, keypair);
+
+            const signature = await connection.sendRawTransaction(
+                transaction.serialize(),
+            );
+            const confirmation = await connection.confirmTransaction(
+                { signature, blockhash, lastValidBlockHeight },
+                'confirmed',
+            );
+
+            if (confirmation.value.err) {
+                return {
+                    ...this.describeTransfer(request, keypair),
+                    success: false,
+                    signature,
+                    error: `Transaction failed: ${JSON.stringify(
+                        confirmation.value.err,
+                    )}`,
+                };
+            }
+
+            return {
+                ...this.describeTransfer(request, keypair),
+                success: true,
+                signature,
+                explorerUrl: `${SOLANA_EXPLORER_URL}/tx/${signature}${
+                    SOLANA_CONFIG[request.cluster].EXPLORER_QUERY
+                }`,
+            };
+        } catch (error) {
+            return {
+                ...this.describeTransfer(request, keypair),
+                success: false,
+                error: `Failed to send transfer: ${
+                    error instanceof Error ? error.message : 'Unknown error'
+                }`,
+            };
+        }
+    }
+
+    private async prepareTransfer(
+        request: SolanaTransferRequest,
+        keypair: Keypair,
+    ): Promise<PreparedTransfer> {
+        const connection = this.getConnection(request.cluster);
+        const recipient = new PublicKey(request.toAddress);
+        const transaction = new Transaction();
+
+        if (request.mint) {
+            const mint = new PublicKey(request.mint);
+            const mintAccount = await connection.getAccountInfo(mint);
+            if (!mintAccount) {
+                throw new Error(`Token mint not found: ${request.mint}`);
+            }
+
+            // Support both the classic token program and Token-2022 mints
+            const programId = mintAccount.owner.equals(TOKEN_2022_PROGRAM_ID)
+                ? TOKEN_2022_PROGRAM_ID
+                : TOKEN_PROGRAM_ID;
+            const { decimals } = await getMint(
+                connection,
+                mint,
+                'confirmed',
+                programId,
+            );
+
+            const source = getAssociatedTokenAddressSync(
+                mint,
+                keypair.publicKey,
+                false,
+                programId,
+            );
+            const destination = getAssociatedTokenAddressSync(
+                mint,
+                recipient,
+                true,
+                programId,
+            );
+
+            if (request.createRecipientAccount !== false) {
+                transaction.add(
+                    createAssociatedTokenAccountIdempotentInstruction(
+                        keypair.publicKey,
+                        destination,
+                        recipient,
+                        mint,
+                        programId,
+                    ),
+                );
+            }
+
+            transaction.add(
+                createTransferCheckedInstruction(
+                    source,
+                    mint,
+                    destination,
+                    keypair.publicKey,
+                    this.parseAmount(request.amount, decimals),
+                    decimals,
+                    [],
+                    programId,
+                ),
+            );
+        } else {
+            transaction.add(
+                SystemProgram.transfer({
+                    fromPubkey: keypair.publicKey,
+                    toPubkey: recipient,
+                    lamports: this.parseAmount(
+                        request.amount,
+                        LAMPORTS_DECIMALS,
+                    ),
+                }),
+            );
+        }
+
+        const { blockhash, lastValidBlockHeight } =
+            await connection.getLatestBlockhash('confirmed');
+        transaction.feePayer = keypair.publicKey;
+        transaction.recentBlockhash = blockhash;
+        transaction.sign(keypair);
+
+        return { transaction, blockhash, lastValidBlockHeight };
+    }
+
+    private describeTransfer(
+        request: SolanaTransferRequest,
+        keypair: Keypair,
+    ): Omit<SolanaTransferResponse, 'success'> {
+        return {
+            fromAddress: keypair.publicKey.toBase58(),
+            toAddress: request.toAddress,
+            amount: request.amount,
+            cluster: request.cluster,
+            mint: request.mint,
+        };
+    }
+
+    private parseAmount(amount: string, decimals: number): bigint {
+        const parsed = parseUnits(amount, decimals);
+        if (parsed <= 0n) {
+            throw new Error('Amount must be greater than 0');
+        }
+        return parsed;
+    }
+
+    private getKeypair(secretKey: string): Keypair {
+        return Keypair.fromSecretKey(bs58.decode(secretKey));
+    }
+
+    private toPrivateKeyObject(keypair: Keypair): crypto.KeyObject {
+        return crypto.createPrivateKey({
+            key: {
+                kty: 'OKP',
+                crv: 'Ed25519',
+                d: Buffer.from(keypair.secretKey.subarray(0, 32)).toString(
+                    'base64url',
+                ),
+                x: keypair.publicKey.toBuffer().toString('base64url'),
+            },
+            format: 'jwk',
+        });
+    }
+
+    private decodeMessage(
+        message: string,
+        encoding: SolanaMessageEncoding = 'utf8',
+    ): Buffer {
+        return Buffer.from(message, encoding);
+    }
+}
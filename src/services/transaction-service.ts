@@ -29,7 +29,6 @@ const erc20Abi = [
 
 export class TransactionService {
     private publicClients: Map<number, PublicClient> = new Map();
-    private walletClients: Map<string, WalletClient> = new Map();
 
     /**
      * Get or create public client for a chain
@@ -47,24 +46,20 @@ export class TransactionService {
     }
 
     /**
-     * Get or create wallet client for a chain
+     * Create a wallet client for a chain.
+     * Not cached, so decrypted keys do not outlive the transaction call.
      */
     private getWalletClient(
         chainId: number,
         privateKey: `0x${string}`,
     ): WalletClient {
-        const key = `${chainId}-${privateKey}`;
-        if (!this.walletClients.has(key)) {
-            const config = getChainConfig(chainId);
-            const account = privateKeyToAccount(privateKey);
-            const walletClient = createWalletClient({
-                account,
-                chain: config.chain as Chain,
-                transport: http(config.rpcUrl),
-            });
-            this.walletClients.set(key, walletClient);
-        }
-        return this.walletClients.get(key)!;
+        const config = getChainConfig(chainId);
+        const account = privateKeyToAccount(privateKey);
+        return createWalletClient({
+            account,
+            chain: config.chain as Chain,
+            transport: http(config.rpcUrl),
+        });
     }
 
     /**
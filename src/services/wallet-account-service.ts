@@ -0,0 +1,317 @@
+// src/services/wallet-account-service.ts
+import { Wallet, IWalletAccount } from '../models/wallet-models';
+import keyCustodyService from './key-custody-service';
+import walletService, {
+    BlockchainNetwork as WalletNetwork,
+} from './wallet-service';
+
+/**
+ * Custom error class for HD account management failures
+ */
+export class WalletAccountError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WalletAccountError';
+    }
+}
+
+/**
+ * Wallet fields needed to resolve its accounts
+ */
+interface AccountHolder {
+    address: string;
+    publicKey: string;
+    accounts?: IWalletAccount[] | undefined;
+    createdAt: Date;
+}
+
+/**
+ * Manages the HD accounts derived from a wallet's seed.
+ *
+ * Account 0 is the wallet's own address. Further accounts are derived
+ * on demand and only their public data is stored; private keys are
+ * re-derived from the encrypted seed whenever they are needed.
+ * Imported accounts are the exception and keep their own sealed key.
+ */
+export class WalletAccountService {
+    private readonly maxAccounts: number = 50;
+    private readonly maxAccountIndex: number = 0x7fffffff;
+
+    /**
+     * List a wallet's accounts in index order
+     */
+    public async listAccounts(
+        walletId: string,
+        options: { includeHidden?: boolean } = {},
+    ): Promise<IWalletAccount[]> {
+        const wallet = await Wallet.findById(walletId)
+            .select('address publicKey accounts createdAt')
+            .lean();
+
+        if (!wallet) {
+            throw new WalletAccountError('Wallet not found');
+        }
+
+        return this.withPrimaryAccount(wallet).filter(
+            (account) => options.includeHidden || !account.hidden,
+        );
+    }
+
+    /**
+     * Look up an account on an already loaded wallet
+     */
+    public resolveAccount(
+        wallet: AccountHolder,
+        index: number,
+    ): IWalletAccount | undefined {
+        return this.withPrimaryAccount(wallet).find(
+            (account) => account.index === index,
+        );
+    }
+
+    /**
+     * Derive a new account from the wallet's seed.
+     * Uses the next free index unless one is given.
+     */
+    public async deriveAccount(
+        walletId: string,
+        options: { label?: string | undefined; index?: number | undefined },
+    ): Promise<IWalletAccount> {
+        return keyCustodyService.withDecryptedSeed(
+            walletId,
+            async (mnemonic, wallet) => {
+                const network = wallet.network as string as WalletNetwork;
+                const accounts = this.withPrimaryAccount(wallet);
+
+                if (accounts.length >= this.maxAccounts) {
+                    throw new WalletAccountError(
+                        `A wallet can hold at most ${this.maxAccounts} accounts`,
+                    );
+                }
+
+                const index =
+                    options.index ??
+                    Math.max(...accounts.map((account) => account.index)) + 1;
+                this.validateIndex(index);
+
+                if (accounts.some((account) => account.index === index)) {
+                    throw new WalletAccountError(
+                        `Account ${index} already exists`,
+                    );
+                }
+
+                // Make sure the seed really belongs to this wallet
+                const primary = walletService.recoverWalletFromMnemonic(
+                    mnemonic,
+                    network,
+                );
+                if (primary.address !== wallet.address) {
+                    throw new WalletAccountError(
+                        'Wallet seed does not match the wallet address',
+                    );
+                }
+
+                const derived = walletService.recoverWalletFromMnemonic(
+                    mnemonic,
+                    network,
+                    { accountIndex: index },
+                );
+                const account: IWalletAccount = {
+                    index,
+                    label: options.label?.trim() || `Account ${index}`,
+                    address: derived.address,
+                    publicKey: derived.publicKey,
+                    hidden: false,
+                    createdAt: new Date(),
+                };
+
+                const additions = wallet.accounts.some((a) => a.index === 0)
+                    ? [account]
+                    : [accounts[0]!, account];
+
+                // Guard against a concurrent request deriving the same index
+                const result = await Wallet.updateOne(
+                    { _id: wallet._id, 'accounts.index': { $ne: index } },
+                    { $push: { accounts: { $each: additions } } },
+                );
+                if (result.matchedCount === 0) {
+                    throw new WalletAccountError(
+                        `Account ${index} already exists`,
+                    );
+                }
+
+                return account;
+            },
+        );
+    }
+
+    /**
+     * Add an externally generated key to the wallet as a new account.
+     * Ownership of the key must be checked by the caller.
+     */
+    public async importAccount(
+        walletId: string,
+        key: {
+            address: string;
+            publicKey: string;
+            privateKey: string;
+            label?: string | undefined;
+        },
+    ): Promise<IWalletAccount> {
+        const wallet = await Wallet.findById(walletId)
+            .select('address publicKey accounts createdAt encryptionSalt')
+            .lean();
+
+        if (!wallet) {
+            throw new WalletAccountError('Wallet not found');
+        }
+        if (!wallet.encryptionSalt) {
+            throw new WalletAccountError(
+                'External wallets cannot hold imported keys',
+            );
+        }
+
+        const accounts = this.withPrimaryAccount(wallet);
+        if (accounts.length >= this.maxAccounts) {
+            throw new WalletAccountError(
+                `A wallet can hold at most ${this.maxAccounts} accounts`,
+            );
+        }
+        if (accounts.some((account) => account.address === key.address)) {
+            throw new WalletAccountError(
+                'This address is already an account of the wallet',
+            );
+        }
+
+        const index = Math.max(...accounts.map((account) => account.index)) + 1;
+        const { encryptedPrivateKey } = await keyCustodyService.sealAccountKey(
+            key.privateKey,
+            wallet.encryptionSalt,
+            index,
+        );
+        const account: IWalletAccount = {
+            index,
+            label: key.label?.trim() || `Imported ${index}`,
+            address: key.address,
+            publicKey: key.publicKey,
+            hidden: false,
+            imported: true,
+            createdAt: new Date(),
+        };
+
+        const additions = wallet.accounts?.some((a) => a.index === 0)
+            ? [{ ...account, encryptedPrivateKey }]
+            : [accounts[0]!, { ...account, encryptedPrivateKey }];
+
+        // Guard against a concurrent request taking the same index
+        const result = await Wallet.updateOne(
+            { _id: wallet._id, 'accounts.index': { $ne: index } },
+            { $push: { accounts: { $each: additions } } },
+        );
+        if (result.matchedCount === 0) {
+            throw new WalletAccountError(
+                `Account ${index} was taken concurrently, try again`,
+            );
+        }
+
+        return account;
+    }
+
+    /**
+     * Change an account's label or visibility
+     */
+    public async updateAccount(
+        walletId: string,
+        index: number,
+        changes: { label?: string | undefined; hidden?: boolean | undefined },
+    ): Promise<IWalletAccount> {
+        if (index === 0 && changes.hidden) {
+            throw new WalletAccountError(
+                'The primary account cannot be hidden',
+            );
+        }
+
+        const wallet = await Wallet.findById(walletId)
+            .select('address publicKey accounts createdAt')
+            .lean();
+
+        if (!wallet) {
+            throw new WalletAccountError('Wallet not found');
+        }
+
+        const account = this.resolveAccount(wallet, index);
+        if (!account) {
+            throw new WalletAccountError(`Account ${index} not found`);
+        }
+
+        const updated: IWalletAccount = {
+            ...account,
+            ...(changes.label !== undefined && {
+                label: changes.label.trim() || undefined,
+            }),
+            ...(changes.hidden !== undefined && { hidden: changes.hidden }),
+        };
+
+        if (wallet.accounts?.some((a) => a.index === index)) {
+            // Update fields individually so an imported key is kept
+            await Wallet.updateOne(
+                { _id: wallet._id, 'accounts.index': index },
+                updated.label === undefined
+                    ? {
+                          $set: { 'accounts.$.hidden': updated.hidden },
+                          $unset: { 'accounts.$.label': 1 },
+                      }
+                    : {
+                          $set: {
+                              'accounts.$.label': updated.label,
+                              'accounts.$.hidden': updated.hidden,
+                          },
+                      },
+            );
+        } else {
+            // The primary account is only stored once it is customised
+            await Wallet.updateOne(
+                { _id: wallet._id, 'accounts.index': { $ne: index } },
+                { $push: { accounts: updated } },
+            );
+        }
+
+        return updated;
+    }
+
+    /**
+     * Stored accounts plus the implicit primary account
+     */
+    private withPrimaryAccount(wallet: AccountHolder): IWalletAccount[] {
+        const accounts = [...(wallet.accounts || [])];
+
+        if (!accounts.some((account) => account.index === 0)) {
+            accounts.push({
+                index: 0,
+                label: 'Primary',
+                address: wallet.address,
+                publicKey: wallet.publicKey,
+                hidden: false,
+                createdAt: wallet.createdAt,
+            });
+        }
+
+        return accounts.sort((a, b) => a.index - b.index);
+    }
+
+    private validateIndex(index: number): void {
+        if (
+            !Number.isInteger(index) ||
+            index < 1 ||
+            index > this.maxAccountIndex
+        ) {
+            throw new WalletAccountError(
+                `Account index must be an integer between 1 and ${this.maxAccountIndex}`,
+            );
+        }
+    }
+}
+
+// Export singleton instance
+export const walletAccountService = new WalletAccountService();
+export default walletAccountService;
@@ -0,0 +1,404 @@
+// src/services/wallet-export-service.ts
+import crypto from 'crypto';
+import { Wallet, IWallet } from '../models/wallet-models';
+import emailService from '../config/email-config';
+import keyCustodyService from './key-custody-service';
+import auditLogService, { AuditContext } from './audit-log-service';
+import otpService, { OtpChannel, OtpError, OtpTarget } from './otp-service';
+
+const EXPORT_OTP_PURPOSE = 'wallet_export';
+const EXPORT_HKDF_INFO = 'crefy-connect wallet export';
+
+/**
+ * Custom error class for wallet export failures
+ */
+export class WalletExportError extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'EXPORT_ERROR') {
+        super(message);
+        this.name = 'WalletExportError';
+        this.code = code;
+    }
+}
+
+export type ExportSecretType = 'mnemonic' | 'privateKey';
+
+/**
+ * A secret encrypted to a client-supplied public key.
+ *
+ * RSA keys: a random AES-256-GCM key is wrapped with RSA-OAEP (SHA-256)
+ * and returned as `encryptedKey`.
+ * X25519 keys: ECDH with an ephemeral key, HKDF-SHA256 to an AES-256-GCM
+ * key; the ephemeral public key (SPKI, base64) is returned.
+ */
+export interface EncryptedExport {
+    algorithm: 'RSA-OAEP-256+A256GCM' | 'ECDH-ES-X25519+A256GCM';
+    encryptedKey?: string;
+    ephemeralPublicKey?: string;
+    iv: string;
+    authTag: string;
+    ciphertext: string;
+}
+
+export interface WalletExportResult {
+    type: ExportSecretType;
+    address: string;
+    accountIndex?: number;
+    payload: EncryptedExport;
+}
+
+/**
+ * User-initiated export of a wallet's mnemonic or private key,
+ * guarded by a step-up OTP sent to the wallet's email or phone.
+ */
+export class WalletExportService {
+    private readonly rateLimitWindowMs: number = 60 * 60 * 1000;
+    private readonly exportWindowMs: number = 24 * 60 * 60 * 1000;
+    private readonly maxOtpRequests: number = 3; // per hour
+    private readonly maxFailedAttempts: number = 5; // per hour
+    private readonly maxExports: number = 3; // per day
+
+    /**
+     * Send a step-up OTP for exporting the wallet
+     */
+    public async requestExportOtp(
+        walletId: string,
+        context: AuditContext,
+    ): Promise<{ channel: OtpChannel; expiresAt: Date }> {
+        await this.enforceLimit(
+            walletId,
+            'wallet.export.otp_requested',
+            this.rateLimitWindowMs,
+            this.maxOtpRequests,
+            'Too many export codes requested, try again later',
+        );
+
+        const wallet = await Wallet.findById(walletId);
+        if (!wallet) {
+            throw new WalletExportError('Wallet not found', 'WALLET_NOT_FOUND');
+        }
+
+        const { target, channel } = this.otpTarget(wallet);
+        let expiresAt: Date;
+        try {
+            ({ expiresAt } = await otpService.send(
+                target,
+                channel,
+                context.ipAddress,
+            ));
+        } catch (error) {
+            throw this.fromOtpError(error);
+        }
+
+        await auditLogService.record(
+            'wallet.export.otp_requested',
+            context,
+            'success',
+            {
+                channel,
+            },
+        );
+
+        return { channel, expiresAt };
+    }
+
+    /**
+     * Verify the step-up OTP and return the requested secret encrypted
+     * to the client's public key
+     */
+    public async exportWallet(
+        walletId: string,
+        accountIndex: number,
+        request: {
+            otp: string;
+            type: ExportSecretType;
+            clientPublicKey: string;
+        },
+        context: AuditContext,
+    ): Promise<WalletExportResult> {
+        await this.enforceLimit(
+            walletId,
+            'wallet.export',
+            this.rateLimitWindowMs,
+            this.maxFailedAttempts,
+            'Too many failed export attempts, try again later',
+            'failure',
+        );
+        await this.enforceLimit(
+            walletId,
+            'wallet.export',
+            this.exportWindowMs,
+            this.maxExports,
+            'Daily export limit reached, try again tomorrow',
+            'success',
+        );
+
+        // Validate the request before consuming the OTP
+        const clientKey = this.parseClientPublicKey(request.clientPublicKey);
+        if (
+            request.type === 'mnemonic' &&
+            !(await Wallet.exists({
+                _id: walletId,
+                encryptedSeed: { $exists: true },
+            }))
+        ) {
+            throw new WalletExportError(
+                'This wallet has no recovery phrase; export its private key instead',
+                'NO_SEED',
+            );
+        }
+
+        try {
+            await this.consumeOtp(walletId, request.otp);
+        } catch (error) {
+            await auditLogService.record('wallet.export', context, 'failure', {
+                type: request.type,
+                reason: error instanceof Error ? error.message : 'Unknown',
+            });
+            throw error;
+        }
+
+        const result =
+            request.type === 'mnemonic'
+                ? await keyCustodyService.withDecryptedSeed(
+                      walletId,
+                      (mnemonic, wallet) => ({
+                          type: request.type,
+                          address: wallet.address,
+                          payload: this.encryptForClient(mnemonic, clientKey),
+                      }),
+                  )
+                : await keyCustodyService.withDecryptedKey(
+                      walletId,
+                      (privateKey, wallet) => ({
+                          type: request.type,
+                          address:
+                              wallet.accounts.find(
+                                  (a) => a.index === accountIndex,
+                              )?.address || wallet.address,
+                          accountIndex,
+                          payload: this.encryptForClient(privateKey, clientKey),
+                      }),
+                      accountIndex,
+                  );
+
+        await auditLogService.record('wallet.export', context, 'success', {
+            type: request.type,
+            accountIndex,
+            keyType: clientKey.asymmetricKeyType,
+        });
+        await this.notifyExport(walletId, request.type, context);
+
+        return result;
+    }
+
+    /**
+     * Encrypt a secret to a client public key (RSA or X25519)
+     */
+    public encryptForClient(
+        plaintext: string,
+        clientKey: crypto.KeyObject,
+    ): EncryptedExport {
+        const iv = crypto.randomBytes(12);
+
+        if (clientKey.asymmetricKeyType === 'x25519') {
+            const ephemeral = crypto.generateKeyPairSync('x25519');
+            const sharedSecret = crypto.diffieHellman({
+                privateKey: ephemeral.privateKey,
+                publicKey: clientKey,
+            });
+            const contentKey = Buffer.from(
+                crypto.hkdfSync(
+                    'sha256',
+                    sharedSecret,
+                    Buffer.alloc(0),
+                    EXPORT_HKDF_INFO,
+                    32,
+                ),
+            );
+
+            return {
+                algorithm: 'ECDH-ES-X25519+A256GCM',
+                ephemeralPublicKey: ephemeral.publicKey
+                    .export({ type: 'spki', format: 'der' })
+                    .toString('base64'),
+                ...this.seal(plaintext, contentKey, iv),
+            };
+        }
+
+        const contentKey = crypto.randomBytes(32);
+        const encryptedKey = crypto.publicEncrypt(
+            {
+                key: clientKey,
+                padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+                oaepHash: 'sha256',
+            },
+            contentKey,
+        );
+
+        return {
+            algorithm: 'RSA-OAEP-256+A256GCM',
+            encryptedKey: encryptedKey.toString('base64'),
+            ...this.seal(plaintext, contentKey, iv),
+        };
+    }
+
+    /**
+     * Accept a PEM or base64 DER (SPKI) RSA-2048+ or X25519 public key
+     */
+    public parseClientPublicKey(encoded: string): crypto.KeyObject {
+        let key: crypto.KeyObject;
+        try {
+            key = encoded.includes('-----BEGIN')
+                ? crypto.createPublicKey(encoded)
+                : crypto.createPublicKey({
+                      key: Buffer.from(encoded, 'base64'),
+                      format: 'der',
+                      type: 'spki',
+                  });
+        } catch {
+            throw new WalletExportError(
+                'clientPublicKey must be a PEM or base64 SPKI public key',
+                'INVALID_PUBLIC_KEY',
+            );
+        }
+
+        const modulusLength = key.asymmetricKeyDetails?.modulusLength || 0;
+        if (
+            key.asymmetricKeyType === 'x25519' ||
+            (key.asymmetricKeyType === 'rsa' && modulusLength >= 2048)
+        ) {
+            return key;
+        }
+
+        throw new WalletExportError(
+            'clientPublicKey must be an RSA (2048+ bit) or X25519 key',
+            'INVALID_PUBLIC_KEY',
+        );
+    }
+
+    private seal(
+        plaintext: string,
+        contentKey: Buffer,
+        iv: Buffer,
+    ): Pick<EncryptedExport, 'iv' | 'authTag' | 'ciphertext'> {
+        try {
+            const cipher = crypto.createCipheriv('aes-256-gcm', contentKey, iv);
+            const ciphertext = Buffer.concat([
+                cipher.update(plaintext, 'utf-8'),
+                cipher.final(),
+            ]);
+
+            return {
+                iv: iv.toString('base64'),
+                authTag: cipher.getAuthTag().toString('base64'),
+                ciphertext: ciphertext.toString('base64'),
+            };
+        } finally {
+            contentKey.fill(0);
+        }
+    }
+
+    /**
+     * Check the export OTP against the channel it was sent to
+     */
+    private async consumeOtp(walletId: string, otp: string): Promise<void> {
+        const wallet = await Wallet.findById(walletId)
+            .select('appId email phoneNumber')
+            .lean();
+        if (!wallet) {
+            throw new WalletExportError('Wallet not found', 'WALLET_NOT_FOUND');
+        }
+
+        try {
+            await otpService.verify(this.otpTarget(wallet).target, otp);
+        } catch (error) {
+            throw this.fromOtpError(error);
+        }
+    }
+
+    /**
+     * Export codes go to the wallet's email, or its phone without one
+     */
+    private otpTarget(
+        wallet: Pick<IWallet, '_id' | 'appId' | 'email' | 'phoneNumber'>,
+    ): { target: OtpTarget; channel: OtpChannel } {
+        const identifier = wallet.email || wallet.phoneNumber;
+        if (!identifier) {
+            throw new WalletExportError(
+                'Wallet has no email or phone number to verify the export',
+                'NO_VERIFICATION_CHANNEL',
+            );
+        }
+
+        return {
+            target: {
+                purpose: EXPORT_OTP_PURPOSE,
+                appId: wallet.appId,
+                identifier,
+                walletId: String(wallet._id),
+            },
+            channel: wallet.email ? 'email' : 'sms',
+        };
+    }
+
+    private fromOtpError(error: unknown): unknown {
+        return error instanceof OtpError
+            ? new WalletExportError(error.message, error.code)
+            : error;
+    }
+
+    private async enforceLimit(
+        walletId: string,
+        action: string,
+        windowMs: number,
+        limit: number,
+        message: string,
+        outcome?: 'success' | 'failure',
+    ): Promise<void> {
+        const count = await auditLogService.countRecent(
+            walletId,
+            action,
+            windowMs,
+            outcome,
+        );
+        if (count >= limit) {
+            throw new WalletExportError(message, 'RATE_LIMITED');
+        }
+    }
+
+    /**
+     * Email the owner about the export. A failed send is audited rather
+     * than failing an export that already happened.
+     */
+    private async notifyExport(
+        walletId: string,
+        type: ExportSecretType,
+        context: AuditContext,
+    ): Promise<void> {
+        const wallet = await Wallet.findById(walletId).select('email').lean();
+        if (!wallet?.email) {
+            return;
+        }
+
+        const what = type === 'mnemonic' ? 'recovery phrase' : 'private key';
+        const sent = await emailService.sendNotification(
+            wallet.email,
+            'Wallet exported',
+            `Your wallet ${what} was just exported at ${new Date().toUTCString()}.\n\nIf this wasn't you, contact support immediately and move your funds to a new wallet.`,
+        );
+        if (!sent) {
+            await auditLogService.record(
+                'wallet.export_notification',
+                context,
+                'failure',
+                { type },
+            );
+        }
+    }
+}
+
+// Export singleton instance
+export const walletExportService = new WalletExportService();
+export default walletExportService;
@@ -0,0 +1,530 @@
+// src/services/wallet-import-service.ts
+import crypto from 'crypto';
+import { FilterQuery, Types } from 'mongoose';
+import { Keypair } from '@stellar/stellar-sdk';
+import { getAddress, verifyMessage } from 'viem';
+import { Wallet, IWallet, identityFilter } from '../models/wallet-models';
+import { Challenge } from '../models/challenge-models';
+import keyCustodyService from './key-custody-service';
+import walletAccountService from './wallet-account-service';
+import auditLogService, { AuditContext } from './audit-log-service';
+import { SolanaService } from './solana-service';
+import walletService, {
+    BlockchainNetwork,
+    WalletInfo,
+    WalletDerivationOptions,
+} from './wallet-service';
+
+const IMPORT_CHALLENGE_PURPOSE = 'wallet_import';
+
+/**
+ * Custom error class for wallet import failures
+ */
+export class WalletImportError extends Error {
+    public readonly code: string;
+
+    constructor(message: string, code: string = 'IMPORT_ERROR') {
+        super(message);
+        this.name = 'WalletImportError';
+        this.code = code;
+    }
+}
+
+/**
+ * The authenticated wallet an import is performed for
+ */
+export interface ImportingWallet {
+    _id: string;
+    appId: string;
+    email?: string | undefined;
+    phoneNumber?: string | undefined;
+    socialType: string;
+    socialSubject?: string | undefined;
+    network: string;
+}
+
+export interface ImportChallenge {
+    nonce: string;
+    message: string;
+    expiresAt: Date;
+}
+
+export interface WalletImportResult {
+    walletId: string;
+    address: string;
+    network: BlockchainNetwork;
+    walletAddress: string; // Primary address of the wallet holding the key
+    accountIndex: number;
+    created: boolean; // A new wallet was created for the network
+}
+
+/**
+ * Imports existing keys or mnemonics into a user's account.
+ *
+ * The user first requests a challenge for the address they want to
+ * import and signs it with that key. The key is then sealed through
+ * key custody like any generated wallet: as an extra account on the
+ * user's wallet for that network, or as a new wallet carrying the same
+ * identity (email, phone or social login) when there is none yet.
+ */
+export class WalletImportService {
+    private readonly challengeTtlMinutes: number = 5;
+    private readonly rateLimitWindowMs: number = 60 * 60 * 1000;
+    private readonly maxChallenges: number = 10; // per hour
+    private readonly maxFailedAttempts: number = 5; // per hour
+    private readonly maxMnemonicAccountIndex: number = 9;
+    private solanaService = new SolanaService();
+
+    /**
+     * Issue a single-use challenge to be signed by the key being imported
+     */
+    public async createChallenge(
+        wallet: ImportingWallet,
+        network: BlockchainNetwork,
+        address: string,
+        context: AuditContext,
+    ): Promise<ImportChallenge> {
+        await this.enforceLimit(
+            wallet._id,
+            'wallet.import.challenge',
+            this.maxChallenges,
+            'Too many import challenges requested, try again later',
+        );
+
+        if (!Object.values(BlockchainNetwork).includes(network)) {
+            throw new WalletImportError(
+                `Unsupported network: ${network}`,
+                'UNSUPPORTED_NETWORK',
+            );
+        }
+        if (!walletService.validateWalletAddress(address, network)) {
+            throw new WalletImportError(
+                `Invalid ${network} address`,
+                'INVALID_ADDRESS',
+            );
+        }
+
+        const normalizedAddress =
+            network === BlockchainNetwork.EVM ? getAddress(address) : address;
+        const nonce = crypto.randomBytes(16).toString('hex');
+        const issuedAt = new Date();
+        const expiresAt = new Date(
+            issuedAt.getTime() + this.challengeTtlMinutes * 60000,
+        );
+        const message = [
+            'Crefy Connect wallet import',
+            '',
+            'Sign this message to prove you own this wallet and import it into your account.',
+            '',
+            `Address: ${normalizedAddress}`,
+            `Network: ${network}`,
+            `App: ${wallet.appId}`,
+            `Nonce: ${nonce}`,
+            `Issued At: ${issuedAt.toISOString()}`,
+            `Expiration Time: ${expiresAt.toISOString()}`,
+        ].join('\n');
+
+        await Challenge.create({
+            purpose: IMPORT_CHALLENGE_PURPOSE,
+            appId: wallet.appId,
+            walletId: new Types.ObjectId(wallet._id),
+            network,
+            address: normalizedAddress,
+            nonce,
+            message,
+            expiresAt,
+        });
+
+        await auditLogService.record(
+            'wallet.import.challenge',
+            context,
+            'success',
+            { network, address: normalizedAddress },
+        );
+
+        return { nonce, message, expiresAt };
+    }
+
+    /**
+     * Verify the signed challenge and store the key in the user's account
+     */
+    public async importWallet(
+        wallet: ImportingWallet,
+        request: {
+            nonce: string;
+            signature: string;
+            privateKey?: string | undefined;
+            mnemonic?: string | undefined;
+            label?: string | undefined;
+        },
+        context: AuditContext,
+    ): Promise<WalletImportResult> {
+        await this.enforceLimit(
+            wallet._id,
+            'wallet.import',
+            this.maxFailedAttempts,
+            'Too many failed import attempts, try again later',
+            'failure',
+        );
+
+        try {
+            const result = await this.performImport(wallet, request);
+            await auditLogService.record('wallet.import', context, 'success', {
+                network: result.network,
+                address: result.address,
+                accountIndex: result.accountIndex,
+                created: result.created,
+                source: request.mnemonic ? 'mnemonic' : 'privateKey',
+            });
+            return result;
+        } catch (error) {
+            await auditLogService.record('wallet.import', context, 'failure', {
+                reason: error instanceof Error ? error.message : 'Unknown',
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Check a signature over a challenge message for any supported network.
+     * EVM: EIP-191 personal_sign (hex). Stellar: Ed25519 over the UTF-8
+     * message (base64). Solana: Ed25519 over the UTF-8 message (base58).
+     */
+    public async verifySignature(
+        network: BlockchainNetwork,
+        address: string,
+        message: string,
+        signature: string,
+    ): Promise<boolean> {
+        try {
+            switch (network) {
+                case BlockchainNetwork.EVM:
+                    return await verifyMessage({
+                        address: address as `0x${string}`,
+                        message,
+                        signature: signature as `0x${string}`,
+                    });
+                case BlockchainNetwork.STELLAR:
+                    return Keypair.fromPublicKey(address).verify(
+                        Buffer.from(message, 'utf-8'),
+                        Buffer.from(signature, 'base64'),
+                    );
+                case BlockchainNetwork.SOLANA:
+                    return this.solanaService.verifyMessage({
+                        message,
+                        signature,
+                        address,
+                    }).isValid;
+                default:
+                    return false;
+            }
+        } catch {
+            return false;
+        }
+    }
+
+    private async performImport(
+        wallet: ImportingWallet,
+        request: {
+            nonce: string;
+            signature: string;
+            privateKey?: string | undefined;
+            mnemonic?: string | undefined;
+            label?: string | undefined;
+        },
+    ): Promise<WalletImportResult> {
+        if (!request.privateKey === !request.mnemonic) {
+            throw new WalletImportError(
+                'Provide either a privateKey or a mnemonic',
+                'VALIDATION_ERROR',
+            );
+        }
+
+        // Challenges are single-use whether or not the import succeeds
+        const challenge = await Challenge.findOneAndDelete({
+            nonce: request.nonce,
+            purpose: IMPORT_CHALLENGE_PURPOSE,
+            walletId: new Types.ObjectId(wallet._id),
+        });
+        if (!challenge) {
+            throw new WalletImportError(
+                'Request an import challenge first',
+                'CHALLENGE_NOT_FOUND',
+            );
+        }
+        if (challenge.expiresAt < new Date()) {
+            throw new WalletImportError(
+                'Import challenge expired',
+                'CHALLENGE_EXPIRED',
+            );
+        }
+
+        const network = challenge.network as BlockchainNetwork;
+        const { imported, mnemonic } = request.mnemonic
+            ? this.findMnemonicAccount(
+                  request.mnemonic,
+                  network,
+                  challenge.address,
+              )
+            : {
+                  imported: this.importPrivateKey(request.privateKey!, network),
+                  mnemonic: undefined,
+              };
+
+        if (
+            this.normalizeAddress(imported.address, network) !==
+            challenge.address
+        ) {
+            throw new WalletImportError(
+                'The key does not belong to the challenged address',
+                'ADDRESS_MISMATCH',
+            );
+        }
+
+        const isValid = await this.verifySignature(
+            network,
+            challenge.address,
+            challenge.message!, // Import challenges always carry their message
+            request.signature,
+        );
+        if (!isValid) {
+            throw new WalletImportError(
+                'Challenge signature is invalid',
+                'INVALID_SIGNATURE',
+            );
+        }
+
+        const alreadyUsed = await Wallet.exists({
+            appId: wallet.appId,
+            network,
+            $or: [
+                { address: imported.address },
+                { 'accounts.address': imported.address },
+            ],
+        });
+        if (alreadyUsed) {
+            throw new WalletImportError(
+                'This wallet is already registered in the app',
+                'WALLET_EXISTS',
+            );
+        }
+
+        // Keep the key with the user's identity on the target network
+        const holder =
+            network === wallet.network
+                ? await Wallet.findById(wallet._id).select('address').lean()
+                : await Wallet.findOne({
+                      appId: wallet.appId,
+                      network,
+                      ...this.identityFilter(wallet),
+                  })
+                      .select('address')
+                      .lean();
+
+        if (holder) {
+            const account = await walletAccountService.importAccount(
+                holder._id.toString(),
+                {
+                    address: imported.address,
+                    publicKey: imported.publicKey,
+                    privateKey: imported.privateKey,
+                    label: request.label,
+                },
+            );
+
+            return {
+                walletId: holder._id.toString(),
+                address: imported.address,
+                network,
+                walletAddress: holder.address,
+                accountIndex: account.index,
+                created: false,
+            };
+        }
+
+        const walletId = await this.createImportedWallet(
+            wallet,
+            imported,
+            mnemonic,
+        );
+
+        return {
+            walletId,
+            address: imported.address,
+            network,
+            walletAddress: imported.address,
+            accountIndex: 0,
+            created: true,
+        };
+    }
+
+    /**
+     * Store the key as a new wallet linked to the user's identity
+     */
+    private async createImportedWallet(
+        wallet: ImportingWallet,
+        imported: WalletInfo,
+        mnemonic: string | undefined,
+    ): Promise<string> {
+        const { encryptedPrivateKey, encryptionSalt, keyVersion } =
+            await keyCustodyService.sealPrivateKey(imported.privateKey);
+
+        // Keep the seed only when the key is its primary account, so
+        // further accounts derive from it like on a generated wallet
+        const seed =
+            mnemonic &&
+            walletService.recoverWalletFromMnemonic(mnemonic, imported.network)
+                .address === imported.address
+                ? await keyCustodyService.sealSeed(mnemonic, encryptionSalt)
+                : null;
+
+        const created = await Wallet.create({
+            appId: wallet.appId,
+            email: wallet.email,
+            phoneNumber: wallet.phoneNumber,
+            socialType: wallet.socialType,
+            socialSubject: wallet.socialSubject,
+            address: imported.address,
+            publicKey: imported.publicKey,
+            encryptedPrivateKey,
+            encryptionSalt,
+            keyVersion,
+            ...(seed && { encryptedSeed: seed.encryptedSeed }),
+            userData: JSON.stringify({
+                ...(wallet.email && { email: wallet.email }),
+                ...(wallet.phoneNumber && { phoneNumber: wallet.phoneNumber }),
+                network: imported.network,
+                imported: true,
+            }),
+            isActive: true,
+            network: imported.network,
+        });
+
+        return String(created._id);
+    }
+
+    private identityFilter(wallet: ImportingWallet): FilterQuery<IWallet> {
+        if (wallet.email) {
+            return identityFilter('email', wallet.email);
+        }
+        if (wallet.phoneNumber) {
+            return identityFilter('sms', wallet.phoneNumber);
+        }
+        if (wallet.socialSubject) {
+            return identityFilter(wallet.socialType, wallet.socialSubject);
+        }
+        throw new WalletImportError(
+            'Wallets on other networks can only be imported into accounts with an email, phone number or social login',
+            'NO_IDENTITY',
+        );
+    }
+
+    private importPrivateKey(
+        privateKey: string,
+        network: BlockchainNetwork,
+    ): WalletInfo {
+        try {
+            return walletService.importWalletFromPrivateKey(
+                privateKey.trim(),
+                network,
+            );
+        } catch {
+            throw new WalletImportError(
+                `Invalid ${network} private key`,
+                'INVALID_KEY',
+            );
+        }
+    }
+
+    /**
+     * Find the account of a mnemonic that matches the challenged address.
+     * Also returns the normalized phrase, the form that was validated.
+     */
+    private findMnemonicAccount(
+        mnemonic: string,
+        network: BlockchainNetwork,
+        address: string,
+    ): { imported: WalletInfo; mnemonic: string } {
+        const phrase = mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+        if (!walletService.validateMnemonic(phrase, network)) {
+            throw new WalletImportError('Invalid mnemonic', 'INVALID_KEY');
+        }
+
+        let options: WalletDerivationOptions | null = null;
+        if (network === BlockchainNetwork.STELLAR) {
+            options = walletService.resolveStellarDerivation(
+                phrase,
+                address,
+                this.maxMnemonicAccountIndex,
+            );
+        } else {
+            for (
+                let accountIndex = 0;
+                accountIndex <= this.maxMnemonicAccountIndex;
+                accountIndex++
+            ) {
+                const candidate = walletService.recoverWalletFromMnemonic(
+                    phrase,
+                    network,
+                    { accountIndex },
+                );
+                if (
+                    this.normalizeAddress(candidate.address, network) ===
+                    address
+                ) {
+                    options = { accountIndex };
+                    break;
+                }
+            }
+        }
+
+        if (!options) {
+            throw new WalletImportError(
+                `The challenged address is not among the first ${
+                    this.maxMnemonicAccountIndex + 1
+                } accounts of this mnemonic`,
+                'ADDRESS_MISMATCH',
+            );
+        }
+
+        return {
+            imported: walletService.recoverWalletFromMnemonic(
+                phrase,
+                network,
+                options,
+            ),
+            mnemonic: phrase,
+        };
+    }
+
+    private normalizeAddress(
+        address: string,
+        network: BlockchainNetwork,
+    ): string {
+        return network === BlockchainNetwork.EVM
+            ? getAddress(address)
+            : address;
+    }
+
+    private async enforceLimit(
+        walletId: string,
+        action: string,
+        limit: number,
+        message: string,
+        outcome?: 'success' | 'failure',
+    ): Promise<void> {
+        const count = await auditLogService.countRecent(
+            walletId,
+            action,
+            this.rateLimitWindowMs,
+            outcome,
+        );
+        if (count >= limit) {
+            throw new WalletImportError(message, 'RATE_LIMITED');
+        }
+    }
+}
+
+// Export singleton instance
+export const walletImportService = new WalletImportService();
+export default walletImportService;
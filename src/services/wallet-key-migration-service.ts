@@ -0,0 +1,240 @@
+// src/services/wallet-key-migration-service.ts
+import { Types } from 'mongoose';
+import { Wallet } from '../models/wallet-models';
+import keyCustodyService, { KeyCustodyService } from './key-custody-service';
+import walletService, { BlockchainNetwork } from './wallet-service';
+
+/**
+ * Options for a wallet key migration run
+ */
+export interface WalletKeyMigrationOptions {
+    batchSize?: number;
+    dryRun?: boolean;
+    afterId?: string;
+    limit?: number;
+    onBatch?: (report: WalletKeyMigrationReport) => void;
+}
+
+/**
+ * Summary of a wallet key migration run
+ */
+export interface WalletKeyMigrationReport {
+    dryRun: boolean;
+    scanned: number;
+    encrypted: number;
+    secretsStripped: number;
+    versionsRecorded: number;
+    unchanged: number;
+    failed: Array<{ walletId: string; address: string; reason: string }>;
+    lastWalletId?: string;
+}
+
+interface MigratableWallet {
+    _id: Types.ObjectId;
+    address: string;
+    network: string;
+    encryptedPrivateKey: string;
+    encryptionSalt?: string;
+    keyVersion?: string;
+    userData?: string;
+}
+
+// Wallets holding a raw key, no recorded key version, or a secret in userData.
+// External (non-custodial) wallets hold no key and are skipped.
+const NEEDS_MIGRATION_FILTER = {
+    custodial: { $ne: false },
+    $or: [
+        { encryptedPrivateKey: { $not: /^enc:v1:/ } },
+        { keyVersion: { $exists: false } },
+        { userData: /"secret"\s*:/ },
+    ],
+};
+
+/**
+ * Moves wallets created before envelope encryption onto the key custody
+ * format. Runs are idempotent: wallets are selected by what still needs
+ * migrating and walked in `_id` order, so a rerun (or `afterId`) resumes
+ * where a previous run stopped.
+ */
+export class WalletKeyMigrationService {
+    private readonly defaultBatchSize: number = 500;
+
+    /**
+     * Migrate all wallets that still need it
+     */
+    public async migrate(
+        options: WalletKeyMigrationOptions = {},
+    ): Promise<WalletKeyMigrationReport> {
+        const batchSize = options.batchSize || this.defaultBatchSize;
+        const report: WalletKeyMigrationReport = {
+            dryRun: !!options.dryRun,
+            scanned: 0,
+            encrypted: 0,
+            secretsStripped: 0,
+            versionsRecorded: 0,
+            unchanged: 0,
+            failed: [],
+        };
+
+        let afterId = options.afterId
+            ? new Types.ObjectId(options.afterId)
+            : undefined;
+
+        while (!options.limit || report.scanned < options.limit) {
+            const remaining = options.limit
+                ? options.limit - report.scanned
+                : batchSize;
+
+            const batch = await Wallet.find({
+                ...NEEDS_MIGRATION_FILTER,
+                ...(afterId && { _id: { $gt: afterId } }),
+            })
+                .sort({ _id: 1 })
+                .limit(Math.min(batchSize, remaining))
+                .select(
+                    '_id address network encryptedPrivateKey encryptionSalt keyVersion userData',
+                )
+                .lean<MigratableWallet[]>();
+
+            if (batch.length === 0) {
+                break;
+            }
+
+            for (const wallet of batch) {
+                report.scanned++;
+                try {
+                    await this.migrateWallet(wallet, report);
+                } catch (error) {
+                    report.failed.push({
+                        walletId: wallet._id.toString(),
+                        address: wallet.address,
+                        reason:
+                            error instanceof Error
+                                ? error.message
+                                : 'Unknown error',
+                    });
+                }
+            }
+
+            afterId = batch[batch.length - 1]!._id;
+            report.lastWalletId = afterId.toString();
+            options.onBatch?.(report);
+        }
+
+        return report;
+    }
+
+    /**
+     * Migrate a single wallet, recording the outcome in the report
+     */
+    private async migrateWallet(
+        wallet: MigratableWallet,
+        report: WalletKeyMigrationReport,
+    ): Promise<void> {
+        const update: Record<string, string> = {};
+        const needsEncryption = !KeyCustodyService.isSealed(
+            wallet.encryptedPrivateKey,
+        );
+
+        if (needsEncryption) {
+            this.assertKeyMatchesAddress(wallet);
+
+            if (!report.dryRun) {
+                const sealed = await keyCustodyService.sealPrivateKey(
+                    wallet.encryptedPrivateKey,
+                    wallet.encryptionSalt,
+                );
+
+                const opened = await keyCustodyService.openPrivateKey(
+                    sealed.encryptedPrivateKey,
+                    sealed.encryptionSalt,
+                );
+                if (opened !== wallet.encryptedPrivateKey) {
+                    throw new Error('Encrypted key failed round-trip check');
+                }
+
+                Object.assign(update, sealed);
+            }
+            report.encrypted++;
+        } else if (!wallet.keyVersion) {
+            const keyVersion = KeyCustodyService.getKeyVersion(
+                wallet.encryptedPrivateKey,
+            );
+            if (keyVersion) {
+                update.keyVersion = keyVersion;
+                report.versionsRecorded++;
+            }
+        }
+
+        const userData = this.stripSecret(wallet.userData);
+        if (userData !== null) {
+            update.userData = userData;
+            report.secretsStripped++;
+        }
+
+        if (!needsEncryption && Object.keys(update).length === 0) {
+            report.unchanged++;
+            return;
+        }
+
+        if (report.dryRun) {
+            return;
+        }
+
+        // Only write if the key was not changed by a concurrent writer
+        const result = await Wallet.updateOne(
+            {
+                _id: wallet._id,
+                encryptedPrivateKey: wallet.encryptedPrivateKey,
+            },
+            { $set: update },
+        );
+
+        if (result.matchedCount === 0) {
+            throw new Error('Wallet changed during migration');
+        }
+    }
+
+    /**
+     * Refuse to encrypt a key that does not belong to the wallet address
+     */
+    private assertKeyMatchesAddress(wallet: MigratableWallet): void {
+        const derived = walletService.importWalletFromPrivateKey(
+            wallet.encryptedPrivateKey,
+            wallet.network as BlockchainNetwork,
+        );
+
+        if (derived.address.toLowerCase() !== wallet.address.toLowerCase()) {
+            throw new Error('Stored key does not match wallet address');
+        }
+    }
+
+    /**
+     * Remove a cleartext `secret` from userData JSON.
+     * Returns null when there is nothing to strip.
+     */
+    private stripSecret(userData?: string): string | null {
+        if (!userData) {
+            return null;
+        }
+
+        try {
+            const parsed = JSON.parse(userData);
+            if (
+                !parsed ||
+                typeof parsed !== 'object' ||
+                !('secret' in parsed)
+            ) {
+                return null;
+            }
+            delete parsed.secret;
+            return JSON.stringify(parsed);
+        } catch {
+            return null;
+        }
+    }
+}
+
+// Export singleton instance
+export const walletKeyMigrationService = new WalletKeyMigrationService();
+export default walletKeyMigrationService;
@@ -5,7 +5,12 @@ import {
     privateKeyToAccount,
 } from 'viem/accounts';
 import { toHex } from 'viem/utils';
+import crypto from 'crypto';
 import { Keypair } from '@stellar/stellar-sdk';
+import { Keypair as SolanaKeypair, PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { getSolanaDerivationPath } from '../config/solana-config';
+import { deriveEd25519Seed, mnemonicToSeed } from '../utils/hd-derivation';
 
 /**
  * Custom error class for wallet generation failures
@@ -23,7 +28,24 @@ export class WalletServiceError extends Error {
 export enum BlockchainNetwork {
     EVM = 'evm',
     STELLAR = 'stellar',
-    SOLANA = 'solana', // Future support
+    SOLANA = 'solana',
+}
+
+/**
+ * Mnemonic derivation schemes for Stellar wallets
+ */
+export enum StellarDerivation {
+    SEP5 = 'sep5', // m/44'/148'/n' as used by Lobstr, Freighter, etc.
+    LEGACY = 'legacy', // SHA-256 of the mnemonic, used by wallets created before SEP-0005 support
+}
+
+/**
+ * Options controlling how a wallet is derived from a mnemonic
+ */
+export interface WalletDerivationOptions {
+    // Account slot: EVM m/44'/60'/0'/0/n, Stellar m/44'/148'/n', Solana m/44'/501'/n'/0'
+    accountIndex?: number;
+    stellarDerivation?: StellarDerivation;
 }
 
 /**
@@ -64,14 +86,25 @@ class WalletService {
      */
     public async generateWallet(
         network: BlockchainNetwork = BlockchainNetwork.EVM,
-        options?: { mnemonic?: string },
+        options?: { mnemonic?: string } & WalletDerivationOptions,
     ): Promise<WalletInfo> {
         try {
             switch (network) {
                 case BlockchainNetwork.EVM:
-                    return await this.generateEVMWallet(options?.mnemonic);
+                    return await this.generateEVMWallet(
+                        options?.mnemonic,
+                        options,
+                    );
                 case BlockchainNetwork.STELLAR:
-                    return await this.generateStellarWallet(options?.mnemonic);
+                    return await this.generateStellarWallet(
+                        options?.mnemonic,
+                        options,
+                    );
+                case BlockchainNetwork.SOLANA:
+                    return await this.generateSolanaWallet(
+                        options?.mnemonic,
+                        options,
+                    );
                 default:
                     throw new WalletServiceError(
                         `Unsupported network: ${network}`,
@@ -85,10 +118,15 @@ class WalletService {
     /**
      * Generates an EVM-compatible wallet (Ethereum, Polygon, etc.)
      */
-    private async generateEVMWallet(mnemonic?: string): Promise<WalletInfo> {
+    private async generateEVMWallet(
+        mnemonic?: string,
+        options: WalletDerivationOptions = {},
+    ): Promise<WalletInfo> {
         try {
             const walletMnemonic = mnemonic || this.generateMnemonic();
-            const account = mnemonicToAccount(walletMnemonic);
+            const account = mnemonicToAccount(walletMnemonic, {
+                addressIndex: options.accountIndex ?? 0,
+            });
             const privateKey = this.extractPrivateKey(account);
 
             // Validate consistency
@@ -111,30 +149,17 @@ class WalletService {
     }
 
     /**
-     * Generates a Stellar wallet
+     * Generates a Stellar wallet from a new or supplied mnemonic
      */
     private async generateStellarWallet(
         mnemonic?: string,
+        options: WalletDerivationOptions = {},
     ): Promise<WalletInfo> {
         try {
-            let keypair: Keypair;
-
-            if (mnemonic) {
-                // For Stellar, we need to derive from mnemonic differently
-                // This is a simplified approach - in production you'd want proper BIP39 derivation
-                keypair = this.deriveStellarKeypairFromMnemonic(mnemonic);
-            } else {
-                keypair = Keypair.random();
-            }
-
-            return {
-                address: keypair.publicKey(),
-                privateKey: keypair.secret(),
-                publicKey: keypair.publicKey(),
-                mnemonic: mnemonic || '',
-                network: BlockchainNetwork.STELLAR,
-                secret: keypair.secret(), // Alias for privateKey in Stellar context
-            };
+            return this.recoverStellarWalletFromMnemonic(
+                mnemonic || this.generateMnemonic(),
+                options,
+            );
         } catch (error) {
             throw new WalletServiceError(
                 `Stellar wallet generation failed: ${
@@ -145,18 +170,62 @@ class WalletService {
     }
 
     /**
-     * Derive Stellar keypair from mnemonic (simplified implementation)
-     * Note: In production, use proper BIP39/44 derivation
+     * Generates a Solana wallet at m/44'/501'/0'/0' (Phantom/Solflare layout)
      */
-    private deriveStellarKeypairFromMnemonic(mnemonic: string): Keypair {
+    private async generateSolanaWallet(
+        mnemonic?: string,
+        options: WalletDerivationOptions = {},
+    ): Promise<WalletInfo> {
         try {
-            // Simplified derivation - you should implement proper HD wallet derivation
-            // This is just for demonstration
-            const hash = require('crypto').createHash('sha256');
-            hash.update(mnemonic);
-            const seed = hash.digest().slice(0, 32); // 32 bytes for Stellar seed
+            return this.recoverSolanaWalletFromMnemonic(
+                mnemonic || this.generateMnemonic(),
+                options,
+            );
+        } catch (error) {
+            throw new WalletServiceError(
+                `Solana wallet generation failed: ${
+                    error instanceof Error ? error.message : 'Unknown error'
+                }`,
+            );
+        }
+    }
+
+    /**
+     * Derive Solana keypair from mnemonic using SLIP-0010
+     */
+    private deriveSolanaKeypairFromMnemonic(
+        mnemonic: string,
+        options: WalletDerivationOptions = {},
+    ): SolanaKeypair {
+        return SolanaKeypair.fromSeed(
+            deriveEd25519Seed(
+                mnemonicToSeed(mnemonic),
+                getSolanaDerivationPath(options.accountIndex ?? 0),
+            ),
+        );
+    }
 
-            return Keypair.fromRawEd25519Seed(seed);
+    /**
+     * Derive Stellar keypair from mnemonic.
+     * SEP-0005 by default; legacy mode reproduces addresses of wallets
+     * created with the earlier SHA-256 derivation.
+     */
+    private deriveStellarKeypairFromMnemonic(
+        mnemonic: string,
+        options: WalletDerivationOptions = {},
+    ): Keypair {
+        try {
+            if (options.stellarDerivation === StellarDerivation.LEGACY) {
+                return this.deriveLegacyStellarKeypairFromMnemonic(mnemonic);
+            }
+
+            const accountIndex = options.accountIndex ?? 0;
+            return Keypair.fromRawEd25519Seed(
+                deriveEd25519Seed(
+                    mnemonicToSeed(mnemonic),
+                    `m/44'/148'/${accountIndex}'`,
+                ),
+            );
         } catch (error) {
             throw new WalletServiceError(
                 `Failed to derive Stellar keypair from mnemonic: ${
@@ -166,19 +235,37 @@ class WalletService {
         }
     }
 
+    /**
+     * Pre-SEP-0005 derivation: the raw seed is the SHA-256 of the
+     * mnemonic string. Kept only for recovering existing wallets.
+     */
+    private deriveLegacyStellarKeypairFromMnemonic(mnemonic: string): Keypair {
+        const seed = crypto.createHash('sha256').update(mnemonic).digest();
+        return Keypair.fromRawEd25519Seed(seed);
+    }
+
     /**
      * Recover wallet from mnemonic for specific network
      */
     public recoverWalletFromMnemonic(
         mnemonic: string,
         network: BlockchainNetwork = BlockchainNetwork.EVM,
+        options: WalletDerivationOptions = {},
     ): WalletInfo {
         try {
             switch (network) {
                 case BlockchainNetwork.EVM:
-                    return this.recoverEVMWalletFromMnemonic(mnemonic);
+                    return this.recoverEVMWalletFromMnemonic(mnemonic, options);
                 case BlockchainNetwork.STELLAR:
-                    return this.recoverStellarWalletFromMnemonic(mnemonic);
+                    return this.recoverStellarWalletFromMnemonic(
+                        mnemonic,
+                        options,
+                    );
+                case BlockchainNetwork.SOLANA:
+                    return this.recoverSolanaWalletFromMnemonic(
+                        mnemonic,
+                        options,
+                    );
                 default:
                     throw new WalletServiceError(
                         `Unsupported network for recovery: ${network}`,
@@ -196,8 +283,13 @@ class WalletService {
     /**
      * Recover EVM wallet from mnemonic
      */
-    private recoverEVMWalletFromMnemonic(mnemonic: string): WalletInfo {
-        const account = mnemonicToAccount(mnemonic);
+    private recoverEVMWalletFromMnemonic(
+        mnemonic: string,
+        options: WalletDerivationOptions = {},
+    ): WalletInfo {
+        const account = mnemonicToAccount(mnemonic, {
+            addressIndex: options.accountIndex ?? 0,
+        });
         const privateKey = this.extractPrivateKey(account);
 
         return {
@@ -212,8 +304,14 @@ class WalletService {
     /**
      * Recover Stellar wallet from mnemonic
      */
-    private recoverStellarWalletFromMnemonic(mnemonic: string): WalletInfo {
-        const keypair = this.deriveStellarKeypairFromMnemonic(mnemonic);
+    private recoverStellarWalletFromMnemonic(
+        mnemonic: string,
+        options: WalletDerivationOptions = {},
+    ): WalletInfo {
+        const keypair = this.deriveStellarKeypairFromMnemonic(
+            mnemonic,
+            options,
+        );
 
         return {
             address: keypair.publicKey(),
@@ -225,6 +323,63 @@ class WalletService {
         };
     }
 
+    /**
+     * Recover Solana wallet from mnemonic
+     */
+    private recoverSolanaWalletFromMnemonic(
+        mnemonic: string,
+        options: WalletDerivationOptions = {},
+    ): WalletInfo {
+        const keypair = this.deriveSolanaKeypairFromMnemonic(mnemonic, options);
+
+        return {
+            address: keypair.publicKey.toBase58(),
+            privateKey: bs58.encode(keypair.secretKey),
+            publicKey: keypair.publicKey.toBase58(),
+            mnemonic,
+            network: BlockchainNetwork.SOLANA,
+        };
+    }
+
+    /**
+     * Find the derivation that produces an existing Stellar address,
+     * trying SEP-0005 account indexes first and then the legacy scheme
+     */
+    public resolveStellarDerivation(
+        mnemonic: string,
+        address: string,
+        maxAccountIndex: number = 9,
+    ): WalletDerivationOptions | null {
+        for (
+            let accountIndex = 0;
+            accountIndex <= maxAccountIndex;
+            accountIndex++
+        ) {
+            const options = {
+                stellarDerivation: StellarDerivation.SEP5,
+                accountIndex,
+            };
+            if (
+                this.deriveStellarKeypairFromMnemonic(
+                    mnemonic,
+                    options,
+                ).publicKey() === address
+            ) {
+                return options;
+            }
+        }
+
+        if (
+            this.deriveLegacyStellarKeypairFromMnemonic(
+                mnemonic,
+            ).publicKey() === address
+        ) {
+            return { stellarDerivation: StellarDerivation.LEGACY };
+        }
+
+        return null;
+    }
+
     /**
      * Import wallet from private key for specific network
      */
@@ -238,6 +393,8 @@ class WalletService {
                     return this.importEVMWalletFromPrivateKey(privateKey);
                 case BlockchainNetwork.STELLAR:
                     return this.importStellarWalletFromSecret(privateKey);
+                case BlockchainNetwork.SOLANA:
+                    return this.importSolanaWalletFromSecretKey(privateKey);
                 default:
                     throw new WalletServiceError(
                         `Unsupported network for import: ${network}`,
@@ -281,6 +438,20 @@ class WalletService {
         };
     }
 
+    /**
+     * Import Solana wallet from a base58-encoded 64-byte secret key
+     */
+    private importSolanaWalletFromSecretKey(secretKey: string): WalletInfo {
+        const keypair = SolanaKeypair.fromSecretKey(bs58.decode(secretKey));
+
+        return {
+            address: keypair.publicKey.toBase58(),
+            privateKey: secretKey,
+            publicKey: keypair.publicKey.toBase58(),
+            network: BlockchainNetwork.SOLANA,
+        };
+    }
+
     /**
      * Validates a wallet address for a specific network
      */
@@ -294,6 +465,8 @@ class WalletService {
                     return this.validateEVMAddress(address);
                 case BlockchainNetwork.STELLAR:
                     return this.validateStellarAddress(address);
+                case BlockchainNetwork.SOLANA:
+                    return this.validateSolanaAddress(address);
                 default:
                     return false;
             }
@@ -318,6 +491,16 @@ class WalletService {
         return /^G[A-Z0-9]{55}$/.test(address);
     }
 
+    /**
+     * Validates Solana address format (base58-encoded 32-byte public key)
+     */
+    private validateSolanaAddress(address: string): boolean {
+        if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address)) {
+            return false;
+        }
+        return new PublicKey(address).toBase58() === address;
+    }
+
     // Existing methods remain mostly the same, but updated to work with network parameter
 
     private generateMnemonic(): string {
@@ -414,8 +597,11 @@ class WalletService {
                     mnemonicToAccount(mnemonic);
                     return true;
                 case BlockchainNetwork.STELLAR:
-                    // Try to derive from mnemonic
-                    this.deriveStellarKeypairFromMnemonic(mnemonic);
+                    // SEP-0005 uses the same BIP39 mnemonics as EVM
+                    mnemonicToAccount(mnemonic);
+                    return true;
+                case BlockchainNetwork.SOLANA:
+                    mnemonicToAccount(mnemonic);
                     return true;
                 default:
                     return false;
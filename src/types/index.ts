@@ -7,16 +7,33 @@ export interface IWallet extends Document {
     phoneNumber?: string | undefined;
     subname?: string | undefined;
     socialType: string;
+    socialSubject?: string | undefined;
     address: string;
     publicKey: string;
     encryptedPrivateKey: string;
     encryptionSalt: string;
+    keyVersion?: string | undefined;
+    encryptedSeed?: string | undefined;
+    accounts?: Array<{
+        index: number;
+        label?: string | undefined;
+        address: string;
+        publicKey: string;
+        hidden: boolean;
+        imported?: boolean | undefined;
+        encryptedPrivateKey?: string | undefined;
+        createdAt: Date;
+    }>;
+    identities?: Array<{
+        type: string;
+        value: string;
+        primary: boolean;
+        linkedAt: Date;
+    }>;
     userData?: string | undefined;
     createdAt: Date;
     updatedAt: Date;
     isActive: boolean;
-    otp?: string | undefined;
-    otpExpiry?: Date | undefined;
     oauthTokens?: {
         accessToken?: string | undefined;
         refreshToken?: string | undefined;
@@ -31,16 +48,33 @@ export interface IWalletLean {
     phoneNumber?: string | undefined;
     subname?: string | undefined;
     socialType: string;
+    socialSubject?: string | undefined;
     address: string;
     publicKey: string;
     encryptedPrivateKey: string;
     encryptionSalt: string;
+    keyVersion?: string | undefined;
+    encryptedSeed?: string | undefined;
+    accounts?: Array<{
+        index: number;
+        label?: string | undefined;
+        address: string;
+        publicKey: string;
+        hidden: boolean;
+        imported?: boolean | undefined;
+        encryptedPrivateKey?: string | undefined;
+        createdAt: Date;
+    }>;
+    identities?: Array<{
+        type: string;
+        value: string;
+        primary: boolean;
+        linkedAt: Date;
+    }>;
     userData?: string | undefined;
     createdAt: Date;
     updatedAt: Date;
     isActive: boolean;
-    otp?: string | undefined;
-    otpExpiry?: Date | undefined;
     oauthTokens?: {
         accessToken?: string | undefined;
         refreshToken?: string | undefined;
@@ -63,8 +97,6 @@ export interface IWalletResponse {
     createdAt: Date;
     updatedAt: Date;
     isActive: boolean;
-    otp?: string | undefined;
-    otpExpiry?: Date | undefined;
     oauthTokens?: {
         accessToken?: string | undefined;
         refreshToken?: string | undefined;
@@ -72,9 +104,15 @@ export interface IWalletResponse {
 }
 
 export interface JwtPayload {
-    walletId: string;
-    appId: string;
+    sub: string; // Wallet _id
+    aud: string; // appId the wallet belongs to
+    iss: string;
+    jti: string;
     address: string;
+    network?: string;
+    accountIndex?: number; // Active HD account; 0 when absent
+    sid?: string; // Session the token belongs to
+    scope?: string; // Granted OAuth scopes, or mfa_pending; absent for first-party logins
     iat?: number;
     exp?: number;
 }
@@ -0,0 +1,50 @@
+// src/types/solana-types.ts
+import type { SolanaCluster } from '../config/solana-config';
+
+export type SolanaMessageEncoding = 'utf8' | 'base64';
+
+export interface SolanaSignMessageRequest {
+    message: string;
+    encoding?: SolanaMessageEncoding | undefined; // Defaults to utf8
+}
+
+export interface SolanaSignMessageResponse {
+    success: boolean;
+    signature?: string; // base58 Ed25519 signature
+    publicKey: string;
+    error?: string | undefined;
+}
+
+export interface SolanaVerifyMessageRequest {
+    message: string;
+    signature: string;
+    address: string;
+    encoding?: SolanaMessageEncoding | undefined;
+}
+
+export interface SolanaVerifyMessageResponse {
+    success: boolean;
+    isValid: boolean;
+    error?: string | undefined;
+}
+
+export interface SolanaTransferRequest {
+    cluster: SolanaCluster;
+    toAddress: string;
+    amount: string; // Decimal amount in SOL or whole token units
+    mint?: string | undefined; // If undefined, transfer native SOL
+    createRecipientAccount?: boolean | undefined; // Create the recipient's token account if missing (default true)
+}
+
+export interface SolanaTransferResponse {
+    success: boolean;
+    signature?: string; // Transaction signature (base58)
+    signedTransaction?: string; // Serialized transaction (base64)
+    fromAddress: string;
+    toAddress: string;
+    amount: string;
+    cluster: SolanaCluster;
+    mint?: string | undefined;
+    explorerUrl?: string | undefined;
+    error?: string | undefined;
+}
@@ -1,6 +1,7 @@
 import crypto from 'crypto';
-import jwt, { SignOptions } from 'jsonwebtoken';
-import { jwt_config } from '../config';
+import jwt from 'jsonwebtoken';
+import jwtSigningService from '../services/jwt-signing-service';
+import { password_config } from '../config';
 
 /**
  * Generate a secure API key
@@ -17,55 +18,107 @@ export function hashApiKey(apiKey: string): string {
 }
 
 /**
- * Generate a 6-digit OTP
+ * Hash a password with scrypt and a random salt, encoded as
+ * `$scrypt$ln=15,r=8,p=1$<salt>$<hash>` so the cost can change later
  */
-export function generateOTP(): number {
-    return Math.floor(100000 + Math.random() * 900000);
+export async function hashPassword(password: string): Promise<string> {
+    const params = {
+        ln: password_config.scryptCost,
+        r: password_config.scryptBlockSize,
+        p: password_config.scryptParallelization,
+    };
+    const salt = crypto.randomBytes(16);
+    const hash = await scrypt(password, salt, params);
+    return `$scrypt$ln=${params.ln},r=${params.r},p=${params.p}$${salt.toString(
+        'base64',
+    )}$${hash.toString('base64')}`;
 }
 
 /**
- * Expire the OTP after 4hours
+ * Check a password against a stored hash in constant time. Hashes that
+ * are legacy unsalted SHA-256 or use an outdated cost need a rehash.
  */
-export function expireOTP(_otp: number): Date {
-    const now = new Date();
-    now.setHours(now.getHours() + 4);
-    return now;
-}
+export async function verifyPassword(
+    password: string,
+    storedHash: string,
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+    if (/^[a-f0-9]{64}$/.test(storedHash)) {
+        const hash = crypto.createHash('sha256').update(password).digest();
+        return {
+            valid: crypto.timingSafeEqual(hash, Buffer.from(storedHash, 'hex')),
+            needsRehash: true,
+        };
+    }
 
-/**
- * Hash a password
- */
-export function hashPassword(password: string): string {
-    return crypto.createHash('sha256').update(password).digest('hex');
+    const match =
+        /^\$scrypt\$ln=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9+/=]+)\$([A-Za-z0-9+/=]+)$/.exec(
+            storedHash,
+        );
+    if (!match) {
+        return { valid: false, needsRehash: false };
+    }
+
+    const params = {
+        ln: Number(match[1]),
+        r: Number(match[2]),
+        p: Number(match[3]),
+    };
+    const expected = Buffer.from(match[5]!, 'base64');
+    const hash = await scrypt(
+        password,
+        Buffer.from(match[4]!, 'base64'),
+        params,
+        expected.length,
+    );
+
+    return {
+        valid: crypto.timingSafeEqual(hash, expected),
+        needsRehash:
+            params.ln !== password_config.scryptCost ||
+            params.r !== password_config.scryptBlockSize ||
+            params.p !== password_config.scryptParallelization,
+    };
 }
 
-/**
- * Compare a password with a hashed password
- */
-export function comparePassword(
+function scrypt(
     password: string,
-    hashedPassword: string,
-): boolean {
-    return (
-        crypto.createHash('sha256').update(password).digest('hex') ===
-        hashedPassword
-    );
+    salt: Buffer,
+    params: { ln: number; r: number; p: number },
+    keyLength: number = 32,
+): Promise<Buffer> {
+    const N = 2 ** params.ln;
+    return new Promise((resolve, reject) => {
+        crypto.scrypt(
+            password.normalize('NFKC'),
+            salt,
+            keyLength,
+            // The default maxmem is too small for N = 2^15
+            { N, r: params.r, p: params.p, maxmem: 256 * N * params.r },
+            (error, hash) => (error ? reject(error) : resolve(hash)),
+        );
+    });
 }
 
 /**
- * Generate a JWT token
+ * Generate a JWT token bound to a wallet (`sub`) and its app (`aud`),
+ * signed with the active signing key
  */
-export function generateJWT(payload: any): string {
-    return jwt.sign(payload, jwt_config.secret, {
-        expiresIn: jwt_config.expiresIn,
-    } as SignOptions);
+export async function generateJWT(
+    payload: object,
+    claims: { subject: string; audience: string },
+): Promise<string> {
+    return jwtSigningService.sign({ ...payload }, claims);
 }
 
 /**
- * Verify a JWT token
+ * Verify a JWT token against any published signing key, optionally
+ * requiring a specific app audience
  */
-export function verifyJWT(token: string): any {
-    return jwt.verify(token, jwt_config.secret);
+export async function verifyJWT(
+    token: string,
+    options: { audience?: string } = {},
+): Promise<any> {
+    return jwtSigningService.verify(token, options);
 }
 
 /**
@@ -138,3 +191,11 @@ export const validatePhoneNumber = (phoneNumber: string): boolean => {
 
     return phoneRegex.test(phoneNumber.replace(/\s/g, ''));
 };
+
+/**
+ * Normalize a phone number to the stored form: no separators, leading +
+ */
+export function normalizePhoneNumber(phoneNumber: string): string {
+    const cleaned = phoneNumber.replace(/[\s\-()]/g, '');
+    return cleaned.startsWith('+') ? cleaned : `+${cleaned}`;
+}
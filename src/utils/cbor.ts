@@ -0,0 +1,102 @@
+/**
+ * Minimal CBOR (RFC 8949) decoder for WebAuthn attestation objects and
+ * COSE keys. Supports integers, byte and text strings, arrays, maps and
+ * the simple values; no indefinite lengths, tags or floats.
+ */
+export type CborValue =
+    | number
+    | string
+    | boolean
+    | null
+    | undefined
+    | Buffer
+    | CborValue[]
+    | Map<CborValue, CborValue>;
+
+/**
+ * Decode the first CBOR item in a buffer. Returns the item and the number
+ * of bytes it took, since WebAuthn appends data after some items.
+ */
+export function decodeCbor(data: Buffer): {
+    value: CborValue;
+    length: number;
+} {
+    let offset = 0;
+
+    const take = (count: number): Buffer => {
+        if (offset + count > data.length) {
+            throw new Error('Truncated CBOR data');
+        }
+        const bytes = data.subarray(offset, offset + count);
+        offset += count;
+        return bytes;
+    };
+
+    const readArgument = (info: number): number => {
+        if (info < 24) {
+            return info;
+        }
+        if (info === 24) {
+            return take(1).readUInt8(0);
+        }
+        if (info === 25) {
+            return take(2).readUInt16BE(0);
+        }
+        if (info === 26) {
+            return take(4).readUInt32BE(0);
+        }
+        if (info === 27) {
+            const value = take(8).readBigUInt64BE(0);
+            if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+                throw new Error('CBOR integer too large');
+            }
+            return Number(value);
+        }
+        throw new Error('Unsupported CBOR length encoding');
+    };
+
+    const readItem = (): CborValue => {
+        const initial = take(1).readUInt8(0);
+        const major = initial >> 5;
+        const info = initial & 0x1f;
+
+        switch (major) {
+            case 0:
+                return readArgument(info);
+            case 1:
+                return -1 - readArgument(info);
+            case 2:
+                return Buffer.from(take(readArgument(info)));
+            case 3:
+                return take(readArgument(info)).toString('utf-8');
+            case 4: {
+                const length = readArgument(info);
+                const items: CborValue[] = [];
+                for (let i = 0; i < length; i++) {
+                    items.push(readItem());
+                }
+                return items;
+            }
+            case 5: {
+                const length = readArgument(info);
+                const map = new Map<CborValue, CborValue>();
+                for (let i = 0; i < length; i++) {
+                    const key = readItem();
+                    map.set(key, readItem());
+                }
+                return map;
+            }
+            case 7:
+                if (info === 20) return false;
+                if (info === 21) return true;
+                if (info === 22) return null;
+                if (info === 23) return undefined;
+                throw new Error('Unsupported CBOR simple value');
+            default:
+                throw new Error(`Unsupported CBOR major type ${major}`);
+        }
+    };
+
+    const value = readItem();
+    return { value, length: offset };
+}
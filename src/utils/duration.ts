@@ -0,0 +1,17 @@
+/**
+ * Convert a duration such as '15m', '7d' or '3600' (seconds) to milliseconds
+ */
+export function parseDuration(duration: string): number {
+    const match = /^(\d+)\s*(s|m|h|d)?$/.exec(duration.trim());
+    if (!match) {
+        throw new Error(`Invalid duration: ${duration}`);
+    }
+
+    const units: Record<string, number> = {
+        s: 1000,
+        m: 60 * 1000,
+        h: 60 * 60 * 1000,
+        d: 24 * 60 * 60 * 1000,
+    };
+    return Number(match[1]) * units[match[2] || 's']!;
+}
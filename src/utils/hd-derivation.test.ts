@@ -0,0 +1,32 @@
+import { deriveEd25519Seed, parseHardenedPath } from './hd-derivation';
+
+// SLIP-0010 test vector 1 for ed25519
+const SLIP10_SEED = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+
+describe('deriveEd25519Seed', () => {
+    it('matches the SLIP-0010 ed25519 test vectors', () => {
+        expect(deriveEd25519Seed(SLIP10_SEED, 'm').toString('hex')).toBe(
+            '2b4be7f19ee27bbf30c667b642d5f4aa69fd169872f8fc3059c08ebae2eb19e7',
+        );
+        expect(deriveEd25519Seed(SLIP10_SEED, "m/0'").toString('hex')).toBe(
+            '68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3',
+        );
+        expect(deriveEd25519Seed(SLIP10_SEED, "m/0'/1'").toString('hex')).toBe(
+            'b1d0bad404bf35da785a64ca1ac54b2617211d2777696fbffaf208f746ae84f2',
+        );
+    });
+});
+
+describe('parseHardenedPath', () => {
+    it('rejects non-hardened segments', () => {
+        expect(() => parseHardenedPath("m/44'/501'/0'/0")).toThrow(
+            'Invalid hardened path segment',
+        );
+    });
+
+    it('rejects paths not starting at the master key', () => {
+        expect(() => parseHardenedPath("44'/501'")).toThrow(
+            'Invalid derivation path',
+        );
+    });
+});
@@ -0,0 +1,64 @@
+// src/utils/hd-derivation.ts
+import crypto from 'crypto';
+
+const HARDENED_OFFSET = 0x80000000;
+const ED25519_CURVE_SEED = 'ed25519 seed';
+
+/**
+ * BIP39 seed from a mnemonic phrase (PBKDF2-HMAC-SHA512, 2048 rounds)
+ */
+export function mnemonicToSeed(mnemonic: string, passphrase = ''): Buffer {
+    return crypto.pbkdf2Sync(
+        mnemonic.normalize('NFKD'),
+        `mnemonic${passphrase}`.normalize('NFKD'),
+        2048,
+        64,
+        'sha512',
+    );
+}
+
+/**
+ * Parse a derivation path such as `m/44'/501'/0'/0'` into indexes.
+ * Ed25519 only supports hardened derivation, so every segment must
+ * be hardened.
+ */
+export function parseHardenedPath(path: string): number[] {
+    const [root, ...segments] = path.split('/');
+    if (root !== 'm') {
+        throw new Error(`Invalid derivation path: ${path}`);
+    }
+
+    return segments.map((segment) => {
+        const match = /^(\d+)'$/.exec(segment);
+        const index = match ? Number(match[1]) : NaN;
+        if (!(index < HARDENED_OFFSET)) {
+            throw new Error(
+                `Invalid hardened path segment "${segment}" in ${path}`,
+            );
+        }
+        return index + HARDENED_OFFSET;
+    });
+}
+
+/**
+ * Derive a 32-byte Ed25519 private key seed using SLIP-0010
+ */
+export function deriveEd25519Seed(seed: Buffer, path: string): Buffer {
+    let digest = crypto
+        .createHmac('sha512', ED25519_CURVE_SEED)
+        .update(seed)
+        .digest();
+
+    for (const index of parseHardenedPath(path)) {
+        const data = Buffer.alloc(37);
+        digest.copy(data, 1, 0, 32);
+        data.writeUInt32BE(index, 33);
+
+        digest = crypto
+            .createHmac('sha512', digest.subarray(32))
+            .update(data)
+            .digest();
+    }
+
+    return digest.subarray(0, 32);
+}
@@ -1,8 +1,71 @@
-export interface CustomRequest extends Express.Request {
+import { Request } from 'express';
+import { Types } from 'mongoose';
+import { EmailLoginMode } from '../models/app-models';
+import { BlockchainNetwork, IWalletIdentity } from '../models/wallet-models';
+
+/**
+ * The wallet a bearer token resolves to. address and publicKey belong to
+ * the account the token selected, primaryAddress to account 0.
+ */
+export interface AuthenticatedWallet {
+    _id: string;
+    appId: string;
+    email?: string | undefined;
+    phoneNumber?: string | undefined;
+    subname?: string | undefined;
+    socialType: string;
+    socialSubject?: string | undefined;
+    identities: IWalletIdentity[];
+    address: string;
+    publicKey: string;
+    primaryAddress: string;
+    accountIndex: number;
+    sessionId?: string | undefined;
+    scope?: string | undefined;
+    network: BlockchainNetwork;
+    userData?: string | undefined;
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface CustomRequest extends Request {
+    user: {
+        wallet: AuthenticatedWallet;
+    };
+}
+
+/**
+ * The app a request names, resolved by the app scheme
+ */
+export interface AuthenticatedApp {
+    appId: string;
+    developerId: Types.ObjectId;
+    name: string;
+    redirectUrls: string[];
+    emailLoginMode: EmailLoginMode;
+}
+
+export interface AppRequest extends Request {
     user: {
-        wallet: {
-            address: string;
-        };
+        app: AuthenticatedApp;
     };
 }
 
+/**
+ * The developer a dashboard token resolves to
+ */
+export interface AuthenticatedDeveloper {
+    _id: string;
+    name: string;
+    email: string;
+    companyName?: string | undefined;
+    website?: string | undefined;
+    createdAt: Date;
+}
+
+export interface DeveloperRequest extends Request {
+    user: {
+        developer: AuthenticatedDeveloper;
+    };
+}